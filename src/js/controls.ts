@@ -1,7 +1,9 @@
 import Captions from './controls/captions';
 import Fullscreen from './controls/fullscreen';
 import Levels from './controls/levels';
+import Next from './controls/next';
 import Play from './controls/play';
+import Previous from './controls/previous';
 import Progress from './controls/progress';
 import Settings from './controls/settings';
 import Time from './controls/time';
@@ -45,6 +47,24 @@ class Controls implements PlayerComponent {
      */
     #settings: Settings;
 
+    /**
+     * Instance of Captions object.
+     *
+     * @private
+     * @type Captions
+     * @memberof Controls
+     */
+    #captions?: Captions;
+
+    /**
+     * Instance of Levels object.
+     *
+     * @private
+     * @type Levels
+     * @memberof Controls
+     */
+    #levels?: Levels;
+
     /**
      * Element that stores the time to hide controls.
      *
@@ -85,7 +105,9 @@ class Controls implements PlayerComponent {
         Captions,
         Fullscreen,
         Levels,
+        Next,
         Play,
+        Previous,
         Progress,
         Settings,
         Time,
@@ -243,6 +265,36 @@ class Controls implements PlayerComponent {
         return this.#controls.querySelector(`.op-controls-layer__${layer}`) || this.#controls;
     }
 
+    /**
+     * Retrieve the instance of the `Settings` control, if available.
+     *
+     * @returns {Settings|undefined}
+     * @memberof Controls
+     */
+    public getSettings(): Settings | undefined {
+        return this.#settings;
+    }
+
+    /**
+     * Retrieve the instance of the `Captions` control, if available.
+     *
+     * @returns {Captions|undefined}
+     * @memberof Controls
+     */
+    public getCaptions(): Captions | undefined {
+        return this.#captions;
+    }
+
+    /**
+     * Retrieve the instance of the `Levels` control, if available.
+     *
+     * @returns {Levels|undefined}
+     * @memberof Controls
+     */
+    public getLevels(): Levels | undefined {
+        return this.#levels;
+    }
+
     private _createControlsLayer() {
         if (!this.#controls || !this.#player.getContainer().querySelector('.op-controls')) {
             this.#controls = document.createElement('div');
@@ -297,6 +349,8 @@ class Controls implements PlayerComponent {
      */
     private _setElements(): void {
         const controls = this.#player.getOptions().controls.layers;
+        this.#captions = undefined;
+        this.#levels = undefined;
         this.#items = {
             'bottom-left': [],
             'bottom-middle': [],
@@ -349,6 +403,10 @@ class Controls implements PlayerComponent {
                     const item = new this.#controlEls[className](this.#player, pos || layer, currentLayer);
                     if (el === 'settings') {
                         this.#settings = (item as Settings);
+                    } else if (el === 'captions') {
+                        this.#captions = (item as Captions);
+                    } else if (el === 'levels') {
+                        this.#levels = (item as Levels);
                     }
                     if (isVideoEl || (el !== 'fullscreen' && isAudioEl)) {
                         this.#items[position].push(item);
@@ -398,20 +456,31 @@ class Controls implements PlayerComponent {
             this.#items[position].forEach((item: any) => {
                 const allowDefault = !this.#player.getOptions().detachMenus || item instanceof Settings;
                 if (allowDefault && !item.custom && typeof item.addSettings === 'function') {
-                    const menuItem = item.addSettings();
-                    if (this.#settings && Object.keys(menuItem).length) {
-                        this.#settings.addItem(
-                            menuItem.name,
-                            menuItem.key,
-                            menuItem.default,
-                            menuItem.subitems,
-                            menuItem.className,
-                        );
-                    }
+                    // A control can provide several entries (i.e., captions' languages and style)
+                    const menuItems = [].concat(item.addSettings());
+                    menuItems.forEach((menuItem: any) => {
+                        if (this.#settings && Object.keys(menuItem).length) {
+                            this.#settings.addItem(
+                                menuItem.name,
+                                menuItem.key,
+                                menuItem.default,
+                                menuItem.subitems,
+                                menuItem.className,
+                                menuItem.change,
+                            );
+                        }
+                    });
                 }
             });
         });
 
+        // Entries added via `addSettingsItem` (i.e., by plugins)
+        if (this.#settings) {
+            this.#player.getCustomSettings().forEach(item => {
+                this.#settings.addItem(item.name, item.key, item.default, item.subitems, item.className, item.change);
+            });
+        }
+
         const e = addEvent('controlschanged');
         this.#controls.dispatchEvent(e);
     }
@@ -514,6 +583,10 @@ class Controls implements PlayerComponent {
         if (item.focus && typeof item.focus === 'function') {
             control.addEventListener('focus', item.focus, EVENT_OPTIONS);
         }
+        if (item.shortcut && item.click && typeof item.click === 'function') {
+            const keys = Array.isArray(item.shortcut) ? item.shortcut : [item.shortcut];
+            this.#player.getKeyboard().register(item.id, item.click, item.title, keys);
+        }
         if (item.layer) {
             if (item.layer === 'main') {
                 this.#player.getContainer().appendChild(control);
@@ -576,6 +649,9 @@ class Controls implements PlayerComponent {
             if (item.focus && typeof item.focus === 'function') {
                 control.removeEventListener('focus', item.focus);
             }
+            if (item.shortcut) {
+                this.#player.getKeyboard().unregister(item.id);
+            }
             removeElement(control);
 
             // If there's an initial set of operations to dispatch as soon as the control
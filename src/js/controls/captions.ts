@@ -1,14 +1,18 @@
 import Cue from '../interfaces/captions/cue';
 import CueList from '../interfaces/captions/cue-list';
+import CueRegion from '../interfaces/captions/cue-region';
+import CueSettings from '../interfaces/captions/cue-settings';
+import CaptionStyle from '../interfaces/captions/style';
 import TrackURL from '../interfaces/captions/track-urls';
 import PlayerComponent from '../interfaces/component';
 import EventsList from '../interfaces/events-list';
 import SettingsItem from '../interfaces/settings/item';
+import SettingsSubItem from '../interfaces/settings/subitem';
 import Player from '../player';
+import { CAPTION_STYLE_OPTIONS, getCaptionStyleProperties, getTrackCues, parseCaptions } from '../utils/captions';
 import { EVENT_OPTIONS, IS_ANDROID, IS_IOS } from '../utils/constants';
 import { addEvent } from '../utils/events';
-import { getAbsoluteUrl, hasClass, removeElement, request } from '../utils/general';
-import { timeToSeconds } from '../utils/time';
+import { getAbsoluteUrl, hasClass, isVideo, removeElement, request } from '../utils/general';
 
 /**
  * Closed Captions element.
@@ -48,6 +52,24 @@ class Captions implements PlayerComponent {
      */
     #captions: HTMLDivElement;
 
+    /**
+     * Cues being displayed, to avoid rendering them again if they did not change.
+     *
+     * @private
+     * @type Cue[]
+     * @memberof Captions
+     */
+    #activeCues: Cue[] = [];
+
+    /**
+     * Appearance of the captions chosen by the viewer.
+     *
+     * @private
+     * @type CaptionStyle
+     * @memberof Captions
+     */
+    #style: CaptionStyle = {};
+
     /**
      * Container to display captions options if `detachMenus` is set as `true`.
      *
@@ -237,61 +259,25 @@ class Captions implements PlayerComponent {
             </div>`;
         }
 
-        // Determine if tracks are valid (have valid URLs and contain cues); if so include them in the list of available tracks.
-        // Otherwise, remove the markup associated with them
-        for (let i = 0, tracks = this.#player.getElement().querySelectorAll('track'), total = tracks.length; i < total; i++) {
-            const element = (tracks[i] as HTMLTrackElement);
-            if (element.kind === 'subtitles' || element.kind === 'captions') {
-                if (element.default) {
-                    this.#default = element.srclang;
-                    this.#button.setAttribute('data-active-captions', element.srclang);
-                }
-                const trackUrl = getAbsoluteUrl(element.src);
-                const currTrack = this.#trackList[i];
-                if (currTrack && currTrack.language === element.srclang) {
-                    if (currTrack.cues && currTrack.cues.length > 0) {
-                        this.#tracks[element.srclang] = this._getNativeCues(this.#trackList[i]);
-                        this._prepareTrack(i, element.srclang, trackUrl, element.default || false);
-                    } else {
-                        request(trackUrl, 'text', d => {
-                            this.#tracks[element.srclang] = this._getCuesFromText(d);
-                            this._prepareTrack(i, element.srclang, trackUrl, element.default || false);
-
-                            // Build only items that are successful
-                            if (this.#menu && !this.#menu.querySelector(`.op-subtitles__option[data-value="captions-${this.#trackList[i].language}"]`)) {
-                                const item = document.createElement('div');
-                                item.className = 'op-settings__submenu-item';
-                                item.tabIndex = 0;
-                                item.setAttribute('role', 'menuitemradio');
-                                item.setAttribute('aria-checked', this.#default === this.#trackList[i].language ? 'true' : 'false');
-                                item.innerHTML = `<div class="op-settings__submenu-label op-subtitles__option"
-                                        data-value="captions-${this.#trackList[i].language}">
-                                        ${this.#labels.lang[this.#trackList[i].language] || this.#trackList[i].label}
-                                    </div>`;
-                                this.#menu.appendChild(item);
-                            }
-                        });
-                    }
-                }
-            }
-        }
+        // The language chosen by the viewer (if any) replaces the `default` attribute of the tracks
+        const { captions: preferred, captionStyle } = this.#player.getPreferences();
+        this.#style = captionStyle || {};
+        this._applyStyle(this.#style);
 
         // Build container to display captions to mitigate cross browser inconsistencies
         this.#captions = document.createElement('div');
         this.#captions.className = 'op-captions';
-        this.#captions.innerHTML = '<span></span>';
 
-        const container = this.#captions.querySelector('span');
         this.#events.media.timeupdate = () => {
             if (this.#player.isMedia()) {
                 if (this.#current) {
                     const currentCues = this.#tracks[this.#current.language];
-                    if (container && currentCues !== undefined) {
-                        const index = this._search(currentCues, this.#player.getMedia().currentTime);
-                        container.innerHTML = '';
-                        if (index > -1 && hasClass(this.#button, 'op-controls__captions--on')) {
+                    if (currentCues !== undefined) {
+                        const cues = hasClass(this.#button, 'op-controls__captions--on') ?
+                            this._search(currentCues, this.#player.getMedia().currentTime) : [];
+                        this._render(cues);
+                        if (cues.length) {
                             this.#captions.classList.add('op-captions--on');
-                            container.innerHTML = this._sanitize(currentCues[index].text);
                         } else {
                             this._hide();
                         }
@@ -304,9 +290,25 @@ class Captions implements PlayerComponent {
             }
         };
 
+        // Determine if tracks are valid (have valid URLs and contain cues); if so include them in the list of available tracks.
+        // Otherwise, remove the markup associated with them
+        for (let i = 0, tracks = this.#player.getElement().querySelectorAll('track'), total = tracks.length; i < total; i++) {
+            const element = (tracks[i] as HTMLTrackElement);
+            if (element.kind === 'subtitles' || element.kind === 'captions') {
+                const isDefault = preferred ? preferred === element.srclang : element.default;
+                if (isDefault) {
+                    this.#default = element.srclang;
+                    this.#button.setAttribute('data-active-captions', element.srclang);
+                }
+                const currTrack = this.#trackList[i];
+                if (currTrack && currTrack.language === element.srclang) {
+                    this._loadTrack(currTrack, element, isDefault);
+                }
+            }
+        }
+
         // Show/hide captions
-        this.#events.button.click = (e: Event) => {
-            const button = (e.target as HTMLDivElement);
+        this.#events.button.click = () => {
             if (this.#detachMenu) {
                 const menus = this.#player.getContainer().querySelectorAll('.op-settings');
                 for (let i = 0, total = menus.length; i < total; ++i) {
@@ -320,19 +322,7 @@ class Captions implements PlayerComponent {
                     this.#menu.setAttribute('aria-hidden', 'true');
                 }
             } else {
-                button.setAttribute('aria-pressed', 'true');
-                if (hasClass(button, 'op-controls__captions--on')) {
-                    this._hide();
-                    button.classList.remove('op-controls__captions--on');
-                    button.setAttribute('data-active-captions', 'off');
-                } else {
-                    if (!this.#current) {
-                        this.#current = this.#trackList[0];
-                    }
-                    this._show();
-                    button.classList.add('op-controls__captions--on');
-                    button.setAttribute('data-active-captions', this.#current.language);
-                }
+                this._toggle();
             }
         };
         this.#events.button.mouseover = () => {
@@ -373,13 +363,10 @@ class Captions implements PlayerComponent {
                 this.#player.getControls().getLayer(this.#layer).appendChild(this.#button);
             }
             this.#button.addEventListener('click', this.#events.button.click, EVENT_OPTIONS);
+            this.#player.getKeyboard().register('toggleCaptions', this._toggle.bind(this), this.#labels.toggleCaptions);
         }
 
-        // For the following workflow it is required to have more than 1 language available
-        if ((this.#trackList.length <= 1 && !this.#detachMenu) || (!this.#trackList.length && this.#detachMenu)) {
-            return;
-        }
-
+        // Languages can be added at runtime (see `addTrack`), so options are handled even if only 1 is available
         this.#events.global.click = (e: Event) => {
             const option = (e.target as HTMLElement);
             if (option.closest(`#${this.#player.id}`) && hasClass(option, 'op-subtitles__option')) {
@@ -411,7 +398,9 @@ class Captions implements PlayerComponent {
                     this._show();
                     this.#button.setAttribute('data-active-captions', language);
                 }
-                const event = addEvent('captionschanged');
+                const event = addEvent('captionschanged', {
+                    detail: { language: this.#button.getAttribute('data-active-captions') },
+                });
                 this.#player.getElement().dispatchEvent(event);
             }
         };
@@ -440,6 +429,7 @@ class Captions implements PlayerComponent {
 
         if (this.#hasTracks) {
             this.#button.removeEventListener('click', this.#events.button.click);
+            this.#player.getKeyboard().unregister('toggleCaptions');
             if (this.#detachMenu) {
                 this.#button.removeEventListener('mouseover', this.#events.button.mouseover);
                 this.#menu.removeEventListener('mouseover', this.#events.button.mouseover);
@@ -448,94 +438,178 @@ class Captions implements PlayerComponent {
                 removeElement(this.#menu);
             }
             this.#player.getElement().removeEventListener('timeupdate', this.#events.media.timeupdate);
+            this._applyStyle({});
             removeElement(this.#button);
             removeElement(this.#captions);
         }
     }
 
     /**
-     * Add list of available captions in the `Settings` menu.
+     * Add list of available captions, and the options to change their style, in the `Settings` menu.
      *
      * @see [[Settings.addSettings]]
-     * @returns {SettingsItem|object}
+     * @returns {SettingsItem[]}
      * @memberof Captions
      */
-    public addSettings(): SettingsItem | object {
-        if (this.#detachMenu || this.#trackList.length <= 1) {
-            return {};
+    public addSettings(): SettingsItem[] {
+        if (this.#detachMenu || !this.#hasTracks) {
+            return [];
         }
+
+        const items: SettingsItem[] = [];
         const subitems = this._formatMenuItems();
         // Avoid implementing submenu for captions if only 2 options were available
-        return subitems.length > 2 ? {
-            className: 'op-subtitles__option',
-            default: this.#default || 'off',
-            key: 'captions',
-            name: this.#labels.captions,
-            subitems,
-        } : {};
+        if (this.#trackList.length > 1 && subitems.length > 2) {
+            items.push({
+                className: 'op-subtitles__option',
+                default: this.#default || 'off',
+                key: 'captions',
+                name: this.#labels.captions,
+                subitems,
+            });
+        }
+
+        items.push({
+            change: (value: string, property?: string) => {
+                if (property) {
+                    this._changeStyle(property, value);
+                }
+            },
+            className: 'op-captions__style-option',
+            default: '',
+            key: 'captionStyle',
+            name: this.#labels.captionStyle,
+            subitems: this._formatStyleItems(),
+        });
+        return items;
     }
+
     /**
-     * Parse WebVTT text from external domain to emulate native cues
+     * Retrieve the language of the captions being displayed, or `off`.
      *
-     * @private
-     * @param {string} webvttText
-     * @returns {Cue[]}
+     * @returns {string}
      * @memberof Captions
      */
-    private _getCuesFromText(webvttText: string): Cue[] {
-        const lines = webvttText.split(/\r?\n/);
-        const entries: Cue[] = [];
-        const urlRegexp = /(\b(https?|ftp|file):\/\/[-A-Z0-9+&@#\/%?=~_|!:,.;]*[-A-Z0-9+&@#\/%=~_|])/gi;
-        let timePattern = '^((?:[0-9]{1,2}:)?[0-9]{2}:[0-9]{2}([,.][0-9]{1,3})?) --> ';
-        timePattern += '((?:[0-9]{1,2}:)?[0-9]{2}:[0-9]{2}([,.][0-9]{3})?)(.*?)$';
-        const regexp = new RegExp(timePattern);
+    public getLanguage(): string {
+        return this.#button ? this.#button.getAttribute('data-active-captions') || 'off' : 'off';
+    }
 
-        let identifier;
+    /**
+     * Display the captions of a language (if they were loaded), or turn them off using `off`,
+     * and dispatch a `captionschanged` event.
+     *
+     * @param {string} language
+     * @returns {boolean} `false` if the language is not available.
+     * @memberof Captions
+     */
+    public setLanguage(language: string): boolean {
+        const track = this.#trackList.find(item => item.language === language);
+        if (!this.#button || (language !== 'off' && (!track || !this.#tracks[language]))) {
+            return false;
+        }
 
-        function isJson(item: any) {
-            item = typeof item !== 'string' ? JSON.stringify(item) : item;
-            try {
-                item = JSON.parse(item);
-            } catch (e) {
-                return false;
-            }
+        if (track) {
+            this.#current = track;
+            this._show();
+            this.#button.classList.add('op-controls__captions--on');
+        } else {
+            this._hide();
+            this.#button.classList.remove('op-controls__captions--on');
+        }
+        this.#button.setAttribute('aria-pressed', track ? 'true' : 'false');
+        this.#button.setAttribute('data-active-captions', language);
 
-            if (typeof item === 'object' && item !== null) {
-                return true;
+        if (this.#menu) {
+            const options = this.#menu.querySelectorAll('.op-subtitles__option');
+            for (let i = 0, total = options.length; i < total; ++i) {
+                const selected = options[i].getAttribute('data-value') === `captions-${language}`;
+                if (options[i].parentElement) {
+                    (options[i].parentElement as HTMLElement).setAttribute('aria-checked', selected ? 'true' : 'false');
+                }
             }
+        }
+        this._updateSettings();
+
+        const event = addEvent('captionschanged', { detail: { language } });
+        this.#player.getElement().dispatchEvent(event);
+        return true;
+    }
+
+    /**
+     * Replace the captions' style, updating the options selected in the `Settings` menu without
+     * building the controls again.
+     *
+     * @param {CaptionStyle} style
+     * @memberof Captions
+     */
+    public setStyle(style: CaptionStyle): void {
+        this.#style = { ...style };
+        this._applyStyle(this.#style);
+        const settings = this.#player.getControls().getSettings();
+        if (!this.#detachMenu && settings) {
+            settings.updateItem(this.#labels.captionStyle, 'captionStyle', '', this._formatStyleItems(), 'op-captions__style-option');
+        }
+    }
 
+    /**
+     * Load the captions of a `track` tag added at runtime (or replace the ones of its language),
+     * updating the list of languages without building the controls again.
+     *
+     * @param {HTMLTrackElement} element
+     * @returns {boolean} `false` if the captions control has not been built yet.
+     * @memberof Captions
+     */
+    public addTrack(element: HTMLTrackElement): boolean {
+        const track = element.track;
+        if (!this.#button || !track) {
             return false;
         }
 
-        for (let i = 0, total = lines.length; i < total; i++) {
-            const timecode = regexp.exec(lines[i]);
+        const language = element.srclang;
+        if (this.#current && this.#current.language === language) {
+            this.#current = track;
+        }
+        this.#trackList = this.#trackList.filter(item => item.language !== language).concat(track);
+        delete this.#tracks[language];
+        this._loadTrack(track, element, element.default);
+        this._updateSettings();
+        return true;
+    }
 
-            if (timecode && i < lines.length) {
-                if ((i - 1) >= 0 && lines[i - 1] !== '') {
-                    identifier = lines[i - 1];
-                }
-                i++;
-                // grab all the (possibly multi-line) text that follows
-                let cue = lines[i];
-                i++;
-                while (lines[i] !== '' && i < lines.length) {
-                    cue = `${cue}\n${lines[i]}`;
-                    i++;
-                }
-                cue = cue.trim().replace(urlRegexp, "<a href='$1' target='_blank'>$1</a>");
-                const initTime = timeToSeconds(timecode[1]);
-
-                entries.push({
-                    endTime: timeToSeconds(timecode[3]),
-                    identifier: identifier || '',
-                    settings: isJson(timecode[5]) ? JSON.parse(timecode[5]) : {},
-                    startTime: (initTime === 0) ? 0.200 : initTime,
-                    text: cue,
-                });
+    /**
+     * Remove the captions of a language (turning them off if they are being displayed), updating the
+     * list of languages without building the controls again, and dispatch a `captionsremoved` event.
+     *
+     * @param {string} language
+     * @returns {boolean} `false` if the language was not loaded, or if no languages remain (so the captions
+     * control must be removed).
+     * @memberof Captions
+     */
+    public removeTrack(language: string): boolean {
+        const tracks = this.#trackList.filter(item => item.language !== language);
+        if (!this.#button || !tracks.length || tracks.length === this.#trackList.length) {
+            return false;
+        }
+
+        if (this.#current && this.#current.language === language) {
+            this.setLanguage('off');
+            this.#current = undefined;
+        }
+        this.#trackList = tracks;
+        delete this.#tracks[language];
+        delete this.#trackUrlList[language];
+
+        const options = this.#menu ? this.#menu.querySelectorAll('.op-subtitles__option') : [];
+        for (let i = 0, total = options.length; i < total; ++i) {
+            if (options[i].getAttribute('data-value') === `captions-${language}`) {
+                removeElement(options[i].parentElement || options[i]);
             }
-            identifier = '';
         }
-        return entries;
+        this._updateSettings();
+
+        const event = addEvent('captionsremoved', { detail: { language } });
+        this.#player.getElement().dispatchEvent(event);
+        return true;
     }
 
     /**
@@ -555,7 +629,17 @@ class Captions implements PlayerComponent {
             cues.push({
                 endTime: current.endTime,
                 identifier: current.id,
-                settings: {},
+                settings: current.line !== undefined ? {
+                    align: current.align,
+                    line: current.line,
+                    lineAlign: current.lineAlign,
+                    position: current.position,
+                    positionAlign: current.positionAlign,
+                    region: current.region || undefined,
+                    size: current.size,
+                    snapToLines: current.snapToLines,
+                    vertical: current.vertical,
+                } : {},
                 startTime: current.startTime,
                 text: current.text,
             });
@@ -563,6 +647,30 @@ class Captions implements PlayerComponent {
         return cues;
     }
 
+    /**
+     * Show/hide captions (using the current language, or the first one available).
+     *
+     * @private
+     * @memberof Captions
+     */
+    private _toggle(): void {
+        this.#button.setAttribute('aria-pressed', 'true');
+        if (hasClass(this.#button, 'op-controls__captions--on')) {
+            this._hide();
+            this.#button.classList.remove('op-controls__captions--on');
+            this.#button.setAttribute('data-active-captions', 'off');
+        } else {
+            if (!this.#current) {
+                this.#current = this.#trackList[0];
+            }
+            this._show();
+            this.#button.classList.add('op-controls__captions--on');
+            this.#button.setAttribute('data-active-captions', this.#current.language);
+        }
+        const event = addEvent('captionschanged', { detail: { language: this.#button.getAttribute('data-active-captions') } });
+        this.#player.getElement().dispatchEvent(event);
+    }
+
     /**
      * Display current caption based on the current timestamp.
      *
@@ -573,10 +681,7 @@ class Captions implements PlayerComponent {
             return;
         }
 
-        const container = this.#captions.querySelector('span');
-        if (container) {
-            container.innerHTML = '';
-        }
+        this._render([]);
         this.#player.getElement().addEventListener('timeupdate', this.#events.media.timeupdate, EVENT_OPTIONS);
     }
 
@@ -597,33 +702,132 @@ class Captions implements PlayerComponent {
     }
 
     /**
-     * Search track text position using binary search algorithm.
+     * Search the cues that must be displayed at the media's current time (several cues can overlap).
      *
-     * It determines the position of the track based on the media's current time.
-     * @see https://www.geeksforgeeks.org/binary-search/
      * @private
      * @param {Cue[]} tracks
      * @param {number} currentTime
-     * @returns {number}
-     * @memberof Captions
-     */
-    private _search(tracks: Cue[], currentTime: number): number {
-        let low = 0;
-        let high = tracks.length - 1;
-        while (low <= high) {
-            const mid = ((low + high) >> 1);
-            const start = tracks[mid].startTime;
-            const stop = tracks[mid].endTime;
-
-            if (currentTime >= start && currentTime < stop) {
-                return mid;
-            } else if (start < currentTime) {
-                low = mid + 1;
-            } else if (start > currentTime) {
-                high = mid - 1;
+     * @returns {Cue[]}
+     * @memberof Captions
+     */
+    private _search(tracks: Cue[], currentTime: number): Cue[] {
+        return tracks.filter(cue => currentTime >= cue.startTime && currentTime < cue.endTime);
+    }
+
+    /**
+     * Display each one of the cues in its own box, positioned according to its settings or its region.
+     *
+     * Cues without position are stacked at the bottom of the player; in audio, all of them are.
+     *
+     * @private
+     * @param {Cue[]} cues
+     * @memberof Captions
+     */
+    private _render(cues: Cue[]): void {
+        if (cues.length === this.#activeCues.length && cues.every((cue, i) => cue === this.#activeCues[i])) {
+            return;
+        }
+
+        this.#activeCues = cues;
+        this.#captions.innerHTML = '';
+        const positioned = isVideo(this.#player.getElement());
+        const regions: { [id: string]: HTMLDivElement } = {};
+        cues.forEach(cue => {
+            const settings: CueSettings = cue.settings || {};
+            const box = document.createElement('div');
+            box.className = 'op-captions__cue';
+            const text = document.createElement('span');
+            text.innerHTML = this._sanitize(cue.text);
+            // Styles of the cue (from TTML or SSA/ASS files) are applied to its entire text
+            Object.assign(text.style, settings.style || {});
+            box.appendChild(text);
+
+            this._position(box, positioned ? settings : { align: settings.align });
+            if (positioned && settings.region) {
+                const { id } = settings.region;
+                if (!regions[id]) {
+                    regions[id] = this._createRegion(settings.region);
+                    this.#captions.appendChild(regions[id]);
+                }
+                regions[id].appendChild(box);
+            } else {
+                this.#captions.appendChild(box);
+            }
+        });
+    }
+
+    /**
+     * Position the box of a cue using its WebVTT settings.
+     *
+     * `position` and `size` set the offset and the width (or height, in vertical cues) of the box, while
+     * `line` sets its offset from the top (or from the right/left, in vertical cues), either as a
+     * number of lines (negative values are counted from the bottom) or as a percentage.
+     *
+     * @see https://www.w3.org/TR/webvtt1/#processing-cue-settings
+     * @private
+     * @param {HTMLDivElement} box
+     * @param {CueSettings} settings
+     * @memberof Captions
+     */
+    private _position(box: HTMLDivElement, settings: CueSettings): void {
+        const value = settings.align || '';
+        const align = /^(start|left)$/.test(value) ? 'start' : (/^(end|right)$/.test(value) ? 'end' : 'center');
+        box.style.textAlign = align === 'start' ? 'left' : (align === 'end' ? 'right' : 'center');
+
+        const size = typeof settings.size === 'number' ? settings.size : 100;
+        const line = typeof settings.line === 'number' ? settings.line : undefined;
+        const vertical = settings.vertical === 'rl' || settings.vertical === 'lr';
+        if (settings.region || (!vertical && line === undefined && typeof settings.position !== 'number' && size === 100)) {
+            return;
+        }
+
+        const position = typeof settings.position === 'number' ? settings.position : (align === 'start' ? 0 : (align === 'end' ? 100 : 50));
+        const positionAlign = settings.positionAlign && settings.positionAlign !== 'auto' ? settings.positionAlign :
+            (align === 'start' ? 'line-left' : (align === 'end' ? 'line-right' : 'center'));
+        const offset = positionAlign === 'line-left' ? position : (positionAlign === 'line-right' ? position - size : position - size / 2);
+
+        box.classList.add('op-captions__cue--positioned');
+        box.style.transform = 'none';
+        box.style.setProperty(vertical ? 'top' : 'left', `${Math.min(Math.max(offset, 0), 100 - size)}%`);
+        box.style.setProperty(vertical ? 'height' : 'width', `${size}%`);
+        if (vertical) {
+            box.style.setProperty('writing-mode', settings.vertical === 'rl' ? 'vertical-rl' : 'vertical-lr');
+        }
+
+        const edge = vertical ? (settings.vertical === 'rl' ? 'right' : 'left') : 'top';
+        const opposite = vertical ? (settings.vertical === 'rl' ? 'left' : 'right') : 'bottom';
+        if (line === undefined) {
+            box.style.setProperty(vertical ? edge : opposite, '0');
+        } else if (settings.snapToLines !== false) {
+            box.style.setProperty(line >= 0 ? edge : opposite, `${(line >= 0 ? line : -line - 1) * 1.5}em`);
+        } else {
+            box.style.setProperty(edge, `${line}%`);
+            if (settings.lineAlign === 'center' || settings.lineAlign === 'end') {
+                const shift = settings.lineAlign === 'center' ? 50 : 100;
+                box.style.transform = vertical ?
+                    `translateX(${settings.vertical === 'rl' ? shift : -shift}%)` : `translateY(-${shift}%)`;
             }
         }
-        return -1;
+    }
+
+    /**
+     * Build the box of a region, anchored to the video as indicated by its `regionanchor` and `viewportanchor`
+     * settings; its height is determined by its number of `lines`.
+     *
+     * @private
+     * @param {CueRegion} region
+     * @returns {HTMLDivElement}
+     * @memberof Captions
+     */
+    private _createRegion(region: CueRegion): HTMLDivElement {
+        const element = document.createElement('div');
+        element.className = 'op-captions__region';
+        element.style.left = `${region.viewportAnchorX - (region.regionAnchorX * region.width) / 100}%`;
+        element.style.top = `${region.viewportAnchorY}%`;
+        element.style.width = `${region.width}%`;
+        element.style.height = `${region.lines * 1.5}em`;
+        element.style.transform = `translateY(-${region.regionAnchorY}%)`;
+        return element;
     }
 
     /**
@@ -666,21 +870,104 @@ class Captions implements PlayerComponent {
         return div.innerHTML;
     }
 
+    /**
+     * Obtain the cues of a `track` tag: from memory (if it was added with cues or text), from the browser
+     * (if they were loaded natively) or requesting its URL.
+     *
+     * @private
+     * @param {TextTrack} track
+     * @param {HTMLTrackElement} element
+     * @param {boolean} showTrack
+     * @memberof Captions
+     */
+    private _loadTrack(track: TextTrack, element: HTMLTrackElement, showTrack: boolean): void {
+        const language = element.srclang;
+        const trackUrl = element.getAttribute('src') ? getAbsoluteUrl(element.src) : '';
+        const cues = getTrackCues(element);
+        if (cues) {
+            this.#tracks[language] = cues;
+            this._prepareTrack(track, language, trackUrl, showTrack);
+        } else if (track.cues && track.cues.length > 0) {
+            this.#tracks[language] = this._getNativeCues(track);
+            this._prepareTrack(track, language, trackUrl, showTrack);
+        } else if (trackUrl) {
+            request(trackUrl, 'text', d => {
+                // Ignore the response if the track was removed/replaced in the meantime
+                if (this.#trackList.indexOf(track) > -1) {
+                    this.#tracks[language] = parseCaptions(d, trackUrl, element.getAttribute('type') || '');
+                    this._prepareTrack(track, language, trackUrl, showTrack);
+                }
+            });
+        }
+    }
+
+    /**
+     * Add the option of a track to the menu built when `detachMenus` is set as `true`.
+     *
+     * @private
+     * @param {TextTrack} track
+     * @memberof Captions
+     */
+    private _addMenuItem(track: TextTrack): void {
+        if (this.#menu.querySelector(`.op-subtitles__option[data-value="captions-${track.language}"]`)) {
+            return;
+        }
+
+        const item = document.createElement('div');
+        item.className = 'op-settings__submenu-item';
+        item.tabIndex = 0;
+        item.setAttribute('role', 'menuitemradio');
+        item.setAttribute('aria-checked', this.getLanguage() === track.language ? 'true' : 'false');
+        item.innerHTML = `<div class="op-settings__submenu-label op-subtitles__option"
+                data-value="captions-${track.language}">
+                ${this.#labels.lang[track.language] || track.label}
+            </div>`;
+        this.#menu.appendChild(item);
+    }
+
+    /**
+     * Update the list of languages (and the one selected) in the `Settings` menu, adding the
+     * entry if it was not built before because there were not enough languages.
+     *
+     * @private
+     * @memberof Captions
+     */
+    private _updateSettings(): void {
+        const settings = this.#player.getControls().getSettings();
+        if (this.#detachMenu || !settings) {
+            return;
+        }
+
+        const subitems = this._formatMenuItems();
+        const language = this.getLanguage();
+        const updated = settings.updateItem(this.#labels.captions, 'captions', language, subitems.length > 1 ? subitems : [], 'op-subtitles__option');
+        if (!updated && subitems.length > 2) {
+            settings.addItem(this.#labels.captions, 'captions', language, subitems, 'op-subtitles__option');
+        }
+    }
+
     /**
      * Store valid URL and cues from `track` tags that returned content.
      *
-     * If a `track` element has a `default` value, make sure it is being displayed.
+     * If a `track` element has a `default` value, make sure it is being displayed. A `captionsloaded` event is
+     * dispatched with the cues, so they can be used by other components (i.e., [[Transcript]]).
      *
      * @private
-     * @param {number} index
+     * @param {TextTrack} track
      * @param {string} language
      * @param {string} trackUrl
      * @param {boolean} [showTrack=false]
      * @memberof Captions
      */
-    private _prepareTrack(index: number, language: string, trackUrl: string, showTrack: boolean = false) {
+    private _prepareTrack(track: TextTrack, language: string, trackUrl: string, showTrack: boolean = false) {
         this.#trackUrlList[language] = trackUrl;
-        this.#trackList[index].mode = 'disabled';
+        track.mode = 'disabled';
+        // Build only items that are successful
+        if (this.#menu) {
+            this._addMenuItem(track);
+        }
+        const event = addEvent('captionsloaded', { detail: { active: showTrack, cues: this.#tracks[language], language } });
+        this.#player.getElement().dispatchEvent(event);
         if (showTrack) {
             this.#default = language;
             this.#button.classList.add('op-controls__captions--on');
@@ -694,6 +981,66 @@ class Captions implements PlayerComponent {
         }
     }
 
+    /**
+     * Build the entries of the `Caption Style` menu: one per property, with a nested submenu of options.
+     *
+     * @private
+     * @returns {SettingsSubItem[]}
+     * @memberof Captions
+     */
+    private _formatStyleItems(): SettingsSubItem[] {
+        const capitalize = (value: string) => `${value.charAt(0).toUpperCase()}${value.slice(1)}`;
+        const prefixes: { [property: string]: string } = { edge: 'edge', fontFamily: 'font' };
+        return CAPTION_STYLE_OPTIONS.map(({ options, property }) => ({
+            default: this.#style[property] || 'default',
+            key: property,
+            label: this.#labels[`caption${capitalize(property)}`],
+            subitems: options.map(option => {
+                let label = this.#labels[`${prefixes[property] || 'color'}${capitalize(option)}`];
+                if (option === 'default') {
+                    label = this.#labels.default;
+                } else if (/^\d+$/.test(option)) {
+                    label = `${option}%`;
+                }
+                return { key: option, label };
+            }),
+        }));
+    }
+
+    /**
+     * Change a property of the captions' style, and dispatch a `captionstylechanged` event so it can be saved.
+     *
+     * @private
+     * @param {string} property
+     * @param {string} value
+     * @memberof Captions
+     */
+    private _changeStyle(property: string, value: string): void {
+        this.#style = { ...this.#style, [property]: value };
+        this._applyStyle(this.#style);
+        const event = addEvent('captionstylechanged', { detail: { style: this.#style } });
+        this.#player.getElement().dispatchEvent(event);
+    }
+
+    /**
+     * Set the CSS custom properties of the captions' style in the player's container.
+     *
+     * @private
+     * @param {CaptionStyle} style
+     * @memberof Captions
+     */
+    private _applyStyle(style: CaptionStyle): void {
+        const properties = getCaptionStyleProperties(style);
+        const container = this.#player.getContainer();
+        Object.keys(properties).forEach(name => {
+            if (properties[name]) {
+                container.style.setProperty(name, properties[name]);
+            } else {
+                container.style.removeProperty(name);
+            }
+        });
+    }
+
     private _formatMenuItems() {
         let items = [{ key: 'off', label: this.#labels.off }];
         // Build object based on available languages
@@ -166,7 +166,9 @@ class Fullscreen implements PlayerComponent {
 
         this._setFullscreenData(false);
 
-        this.#player.getContainer().addEventListener('keydown', this._keydownEvent.bind(this), EVENT_OPTIONS);
+        if (typeof this.fullScreenEnabled !== 'undefined') {
+            this.#player.getKeyboard().register('toggleFullscreen', this.toggleFullscreen.bind(this), this.#labels.fullscreen);
+        }
 
         this.#fullscreenEvents.forEach(event => {
             document.addEventListener(event, this._fullscreenChange.bind(this), EVENT_OPTIONS);
@@ -197,7 +199,7 @@ class Fullscreen implements PlayerComponent {
      * @memberof Fullscreen
      */
     public destroy(): void {
-        this.#player.getContainer().removeEventListener('keydown', this._keydownEvent.bind(this));
+        this.#player.getKeyboard().unregister('toggleFullscreen');
 
         this.#fullscreenEvents.forEach(event => {
             document.removeEventListener(event, this._fullscreenChange.bind(this));
@@ -354,21 +356,6 @@ class Fullscreen implements PlayerComponent {
             wrapper.setAttribute('style', styles);
         }
     }
-
-    /**
-     * Use the `F` key to go fullscreen if the focus is on player.
-     *
-     * @private
-     * @param {KeyboardEvent} e
-     * @memberof Fullscreen
-     */
-    private _keydownEvent(e: KeyboardEvent) {
-        const key = e.which || e.keyCode || 0;
-        if (key === 70 && !e.ctrlKey && typeof this.fullScreenEnabled !== 'undefined') {
-            this.toggleFullscreen();
-            e.preventDefault();
-        }
-    }
 }
 
 export default Fullscreen;
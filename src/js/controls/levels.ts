@@ -7,7 +7,7 @@ import Player from '../player';
 import { EVENT_OPTIONS, IS_ANDROID, IS_IOS, NAV } from '../utils/constants';
 import { addEvent } from '../utils/events';
 import { hasClass, removeElement } from '../utils/general';
-import { isDashSource, isHlsSource } from '../utils/media';
+import { findLevel, isDashSource, isHlsSource } from '../utils/media';
 
 /**
  * Levels element.
@@ -131,8 +131,7 @@ class Levels implements PlayerComponent {
      * @memberof Levels
      */
     public create(): void {
-        const initialLevel = this.#player.getOptions().defaultLevel !== null ?
-            parseInt(this.#player.getOptions().defaultLevel, 10) : this.#player.getMedia().level;
+        let initialLevel = this._getInitialLevel();
         this.#default = `${initialLevel}`;
         const menuItems = this._formatMenuItems();
         const defaultLevel = menuItems.length ? menuItems.find((items: any) => items.key === this.#default) : null;
@@ -149,6 +148,8 @@ class Levels implements PlayerComponent {
         this.#button.innerHTML = `<span>${defaultLabel}</span>`;
 
         const loadLevelsEvent = () => {
+            // The quality chosen by the viewer can only be matched once levels are known
+            initialLevel = this._getInitialLevel();
             if (!this.#levels.length) {
                 this._gatherLevels.bind(this);
                 setTimeout(() => {
@@ -334,6 +335,38 @@ class Levels implements PlayerComponent {
         } : {};
     }
 
+    /**
+     * Switch to a level, updating the option selected in the button's menu (or the `Settings` one)
+     * without building the controls again.
+     *
+     * @param {number} level
+     * @memberof Levels
+     */
+    public setLevel(level: number): void {
+        const menuItems = this._formatMenuItems();
+        const item = menuItems.find(option => option.key === `${level}`);
+        this.#default = `${level}`;
+        this.#player.getMedia().level = level;
+        this.#button.setAttribute('data-active-level', this.#default);
+        this.#button.innerHTML = `<span>${item ? item.label : this.#labels.auto}</span>`;
+
+        if (this.#detachMenu) {
+            const options = this.#menu.querySelectorAll('.op-levels__option');
+            for (let i = 0, total = options.length; i < total; ++i) {
+                const selected = options[i].getAttribute('data-value') === `levels-${level}`;
+                if (options[i].parentElement) {
+                    (options[i].parentElement as HTMLElement).setAttribute('aria-checked', selected ? 'true' : 'false');
+                }
+            }
+            return;
+        }
+
+        const settings = this.#player.getControls().getSettings();
+        if (settings && menuItems.length > 2) {
+            settings.updateItem(this.#labels.levels, 'levels', this.#default, menuItems, 'op-levels__option');
+        }
+    }
+
     private _formatMenuItems(): SettingsSubItem[] {
         const levels = this._gatherLevels();
         const total = levels.length;
@@ -387,6 +420,24 @@ class Levels implements PlayerComponent {
         return this.#labels.auto;
     }
 
+    /**
+     * Determine the level to start with: the one set in `defaultLevel`, the highest one allowed by
+     * the quality chosen by the viewer, or the current one.
+     *
+     * @private
+     * @returns {(number|string|object)}
+     * @memberof Levels
+     */
+    private _getInitialLevel(): number | string | object {
+        const { defaultLevel } = this.#player.getOptions();
+        const { quality } = this.#player.getPreferences();
+        const levels = this.#player.getMedia().levels;
+        if (defaultLevel !== null) {
+            return parseInt(defaultLevel, 10);
+        }
+        return typeof quality === 'number' && levels.length ? findLevel(levels, quality) : this.#player.getMedia().level;
+    }
+
     private _gatherLevels() {
         if (!this.#levels.length) {
             this.#player.getMedia().levels.forEach((level: Level) => {
@@ -0,0 +1,28 @@
+import Player from '../player';
+import PlaylistButton from './playlist-button';
+
+/**
+ * Next element.
+ *
+ * @description This class plays the next item of the player's playlist (if any).
+ * @see [[Playlist.next]]
+ * @class Next
+ * @extends PlaylistButton
+ */
+class Next extends PlaylistButton {
+    /**
+     * Create an instance of Next.
+     *
+     * @param {Player} player
+     * @param {string} position
+     * @param {string} layer
+     * @returns {Next}
+     * @memberof Next
+     */
+    constructor(player: Player, position: string, layer: string) {
+        super(player, position, layer, 'next');
+        return this;
+    }
+}
+
+export default Next;
@@ -213,7 +213,7 @@ class Play implements PlayerComponent {
 
         this.#player.getControls().getContainer().addEventListener('controlschanged', this.#events.controls.controlschanged, EVENT_OPTIONS);
 
-        this.#player.getContainer().addEventListener('keydown', this._keydownEvent.bind(this), EVENT_OPTIONS);
+        this.#player.getKeyboard().register('togglePlay', this._toggle.bind(this), `${this.#labels.play}/${this.#labels.pause}`);
 
         this.#button.addEventListener('click', this.#events.media.click, EVENT_OPTIONS);
     }
@@ -230,29 +230,24 @@ class Play implements PlayerComponent {
 
         this.#player.getControls().getContainer().removeEventListener('controlschanged', this.#events.controls.controlschanged);
 
-        this.#player.getContainer().removeEventListener('keydown', this._keydownEvent.bind(this));
+        this.#player.getKeyboard().unregister('togglePlay');
 
         this.#button.removeEventListener('click', this.#events.media.click);
         removeElement(this.#button);
     }
 
     /**
-     * Use the `Enter` and space bar keys to play/pause.
+     * Play/pause media (keyboard shortcut).
      *
      * @private
-     * @param {KeyboardEvent} e
      * @memberof Play
      */
-    private _keydownEvent(e: KeyboardEvent) {
-        const key = e.which || e.keyCode || 0;
+    private _toggle(): void {
         const el = this.#player.activeElement();
-        if (key === 13 || key === 32) {
-            if (el.paused) {
-                el.play();
-            } else {
-                el.pause();
-            }
-            e.preventDefault();
+        if (el.paused) {
+            el.play();
+        } else {
+            el.pause();
         }
     }
 }
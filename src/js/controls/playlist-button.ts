@@ -0,0 +1,168 @@
+import PlayerComponent from '../interfaces/component';
+import EventsList from '../interfaces/events-list';
+import Player from '../player';
+import { EVENT_OPTIONS } from '../utils/constants';
+import { removeElement } from '../utils/general';
+
+/**
+ * Playlist button element.
+ *
+ * @description This class is the base of the buttons that move through the player's playlist (if any);
+ * the button is disabled when there is no item to play in its direction.
+ * @see [[Next]]
+ * @see [[Previous]]
+ * @class PlaylistButton
+ * @implements PlayerComponent
+ */
+class PlaylistButton implements PlayerComponent {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof PlaylistButton
+     */
+    #player: Player;
+
+    /**
+     * Direction to move through the playlist (`next` or `previous`).
+     *
+     * @private
+     * @type string
+     * @memberof PlaylistButton
+     */
+    #direction: 'next' | 'previous';
+
+    /**
+     * Button to play the next/previous item.
+     *
+     * @private
+     * @type HTMLButtonElement
+     * @memberof PlaylistButton
+     */
+    #button: HTMLButtonElement;
+
+    /**
+     * Events that will be triggered in PlaylistButton element:
+     *  - button (to play the next/previous item)
+     *  - media (to enable/disable the button when the playlist changes)
+     *
+     * @private
+     * @type EventsList
+     * @memberof PlaylistButton
+     */
+    #events: EventsList = {
+        button: {},
+        media: {},
+    };
+
+    /**
+     * Default labels from player's config
+     *
+     * @private
+     * @type object
+     * @memberof PlaylistButton
+     */
+    #labels: any;
+
+    /**
+     * Position of the button to be indicated as part of its class name
+     *
+     * @private
+     * @type {string}
+     * @memberof PlaylistButton
+     */
+    #position: string;
+
+    /**
+     * Layer where the control item will be placed
+     *
+     * @private
+     * @type {string}
+     * @memberof PlaylistButton
+     */
+    #layer: string;
+
+    /**
+     * Create an instance of PlaylistButton.
+     *
+     * @param {Player} player
+     * @param {string} position
+     * @param {string} layer
+     * @param {string} direction
+     * @returns {PlaylistButton}
+     * @memberof PlaylistButton
+     */
+    constructor(player: Player, position: string, layer: string, direction: 'next' | 'previous') {
+        this.#player = player;
+        this.#labels = this.#player.getOptions().labels;
+        this.#position = position;
+        this.#layer = layer;
+        this.#direction = direction;
+        return this;
+    }
+
+    /**
+     *
+     * @inheritDoc
+     * @memberof PlaylistButton
+     */
+    public create(): void {
+        const label = this.#labels[this.#direction];
+        this.#button = document.createElement('button');
+        this.#button.type = 'button';
+        this.#button.className = `op-controls__${this.#direction} op-control__${this.#position} op-control__hide-in-ad`;
+        this.#button.tabIndex = 0;
+        this.#button.title = label;
+        this.#button.setAttribute('aria-controls', this.#player.id);
+        this.#button.setAttribute('aria-label', label);
+        this.#button.innerHTML = `<span class="op-sr">${label}</span>`;
+        this.#player.getControls().getLayer(this.#layer).appendChild(this.#button);
+
+        this.#events.button.click = (e: any) => {
+            if (this.#direction === 'next') {
+                this.#player.next();
+            } else {
+                this.#player.previous();
+            }
+            e.preventDefault();
+        };
+
+        this.#events.media.playlistchanged = this._toggleState.bind(this);
+        this.#events.media.playlistitemchanged = this._toggleState.bind(this);
+
+        Object.keys(this.#events.media).forEach(event => {
+            this.#player.getElement().addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+        this.#button.addEventListener('click', this.#events.button.click, EVENT_OPTIONS);
+
+        this._toggleState();
+    }
+
+    /**
+     *
+     * @inheritDoc
+     * @memberof PlaylistButton
+     */
+    public destroy(): void {
+        Object.keys(this.#events.media).forEach(event => {
+            this.#player.getElement().removeEventListener(event, this.#events.media[event]);
+        });
+        this.#button.removeEventListener('click', this.#events.button.click);
+        removeElement(this.#button);
+    }
+
+    /**
+     * Disable the button if there is no item to play after/before the current one.
+     *
+     * @private
+     * @memberof PlaylistButton
+     */
+    private _toggleState(): void {
+        const playlist = this.#player.getPlaylist();
+        const available = playlist && (this.#direction === 'next' ? playlist.hasNext() : playlist.hasPrevious());
+        this.#button.disabled = !available;
+    }
+}
+
+export default PlaylistButton;
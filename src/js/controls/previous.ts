@@ -0,0 +1,28 @@
+import Player from '../player';
+import PlaylistButton from './playlist-button';
+
+/**
+ * Previous element.
+ *
+ * @description This class plays the previous item of the player's playlist (if any).
+ * @see [[Playlist.previous]]
+ * @class Previous
+ * @extends PlaylistButton
+ */
+class Previous extends PlaylistButton {
+    /**
+     * Create an instance of Previous.
+     *
+     * @param {Player} player
+     * @param {string} position
+     * @param {string} layer
+     * @returns {Previous}
+     * @memberof Previous
+     */
+    constructor(player: Player, position: string, layer: string) {
+        super(player, position, layer, 'previous');
+        return this;
+    }
+}
+
+export default Previous;
@@ -71,11 +71,30 @@ class Progress implements PlayerComponent {
      */
     #tooltip: HTMLSpanElement;
 
+    /**
+     * Times (in seconds) of the Ad breaks pending to be played.
+     *
+     * @private
+     * @type number[]
+     * @memberof Progress
+     */
+    #cuePoints: number[] = [];
+
+    /**
+     * Elements that mark the position of Ad breaks in the progress bar.
+     *
+     * @private
+     * @type HTMLSpanElement[]
+     * @memberof Progress
+     */
+    #markers: HTMLSpanElement[] = [];
+
     /**
      * Events that will be triggered in Progress element:
      *  - container (to display tooltip when hovering in the progress bar)
      *  - global (to hide tooltip once user moves out of the progress bar)
-     *  - media (to capture different states of the current time and duration in the time rail)
+     *  - media (to capture different states of the current time and duration in the time rail,
+     *    and the Ad breaks to be marked in it)
      *  - slider (events to be triggered when clicking or sliding time rail)
      *
      * @private
@@ -216,7 +235,10 @@ class Progress implements PlayerComponent {
         const defaultDuration = this.#player.getOptions().progress.duration || 0;
         const isAudioEl = isAudio(this.#player.getElement());
 
-        this.#events.media.loadedmetadata = setInitialProgress.bind(this);
+        this.#events.media.loadedmetadata = () => {
+            setInitialProgress();
+            this._renderMarkers();
+        };
         this.#events.controls.controlschanged = setInitialProgress.bind(this);
 
         this.#events.media.progress = (e: Event) => {
@@ -320,6 +342,20 @@ class Progress implements PlayerComponent {
             this.#progress.setAttribute('aria-valuemax', el.duration.toString());
             this.#played.value = el.duration <= 0 || isNaN(el.duration) || !isFinite(el.duration) ?
                 defaultDuration : ((current / el.duration) * 100);
+            this._renderMarkers();
+        };
+
+        const schedule = this.#player.getAdSchedule();
+        this.#cuePoints = schedule ? schedule.getCuePoints() : [];
+        this.#events.media.adcuepoints = (e: CustomEvent) => {
+            this.#cuePoints = e.detail && Array.isArray(e.detail.cuepoints) ? e.detail.cuepoints : [];
+            this._renderMarkers();
+        };
+        // Once a break starts, hide the markers already reached by media
+        this.#events.media.adsstart = () => {
+            const current = this.#player.getMedia().currentTime;
+            this.#cuePoints = this.#cuePoints.filter(cuepoint => cuepoint > current + 1);
+            this._renderMarkers();
         };
 
         this.#events.media.ended = () => {
@@ -471,9 +507,10 @@ class Progress implements PlayerComponent {
         this.#progress.addEventListener('keydown', this.#player.getEvents().keydown, EVENT_OPTIONS);
         this.#progress.addEventListener('mousemove', this.#events.container.mousemove, EVENT_OPTIONS);
         document.addEventListener('mousemove', this.#events.global.mousemove, EVENT_OPTIONS);
-        this.#player.getContainer().addEventListener('keydown', this._keydownEvent.bind(this), EVENT_OPTIONS);
         this.#player.getControls().getContainer().addEventListener('controlschanged', this.#events.controls.controlschanged, EVENT_OPTIONS);
         this.#player.getControls().getLayer(this.#layer).appendChild(this.#progress);
+        this._renderMarkers();
+        this._registerShortcuts();
     }
 
     /**
@@ -482,8 +519,8 @@ class Progress implements PlayerComponent {
      * @memberof Progress
      */
     public destroy(): void {
-        Object.keys(this.#events).forEach(event => {
-            this.#player.getElement().removeEventListener(event, this.#events[event]);
+        Object.keys(this.#events.media).forEach(event => {
+            this.#player.getElement().removeEventListener(event, this.#events.media[event]);
         });
 
         Object.keys(this.#events.slider).forEach(event => {
@@ -495,9 +532,12 @@ class Progress implements PlayerComponent {
 
         document.removeEventListener('mousemove', this.#events.global.mousemove);
 
-        this.#player.getContainer().removeEventListener('keydown', this._keydownEvent.bind(this));
+        ['seekBackward', 'seekForward', 'rewind', 'forward', 'seekStart', 'seekEnd', 'seekPercent'].forEach(action => {
+            this.#player.getKeyboard().unregister(action);
+        });
         this.#player.getControls().getContainer().removeEventListener('controlschanged', this.#events.controls.controlschanged);
 
+        this.#markers.forEach(marker => removeElement(marker));
         removeElement(this.#buffer);
         removeElement(this.#played);
         removeElement(this.#slider);
@@ -508,37 +548,74 @@ class Progress implements PlayerComponent {
     }
 
     /**
-     * Use the left and right arrow keys to manipulate current media time.
+     * Register the shortcuts to manipulate current media time: arrow keys (by `step` seconds or 5% of
+     * the duration), `J`/`L` (10 seconds), `Home`/`End` and numbers (0% - 90%).
      *
-     * Also, the `Home` and `End` keys to restart or end media.
      * @private
-     * @param {KeyboardEvent} e
      * @memberof Progress
      */
-    private _keydownEvent(e: KeyboardEvent) {
+    private _registerShortcuts(): void {
+        const keyboard = this.#player.getKeyboard();
+        const getStep = () => {
+            const { step } = this.#player.getOptions();
+            return step ? step : this.#player.activeElement().duration * 0.05;
+        };
+        const seconds = 10;
+
+        keyboard.register('seekBackward', () => this._seek(el => el.currentTime - getStep()), this.#labels.seekBackward);
+        keyboard.register('seekForward', () => this._seek(el => el.currentTime + getStep()), this.#labels.seekForward);
+        keyboard.register('rewind', () => this._seek(el => el.currentTime - seconds), this.#labels.rewind.replace('%1', seconds));
+        keyboard.register('forward', () => this._seek(el => el.currentTime + seconds), this.#labels.forward.replace('%1', seconds));
+        keyboard.register('seekStart', () => this._seek(() => 0), this.#labels.seekStart);
+        keyboard.register('seekEnd', () => this._seek(el => el.duration), this.#labels.seekEnd);
+        keyboard.register('seekPercent', (e: KeyboardEvent) => {
+            this._seek(el => el.duration * parseInt(e.key, 10) / 10);
+        }, this.#labels.seekPercent);
+    }
+
+    /**
+     * Move current media time to the position obtained (within the limits of media), unless an Ad or
+     * a live stream is playing.
+     *
+     * @private
+     * @param {Function} getTime  Function that receives the active element and returns the new position.
+     * @memberof Progress
+     */
+    private _seek(getTime: (el: any) => number): void {
         const el = this.#player.activeElement();
-        const isAd = this.#player.isAd();
-        const key = e.which || e.keyCode || 0;
-        // By default, if no `step` set, it will skip 5% of the duration of the media
-        const newStep = this.#player.getOptions().step ? this.#player.getOptions().step : el.duration * 0.05;
-        const step = el.duration !== Infinity ? newStep : this.#player.getOptions().progress.duration;
-
-        if (key === 35 && !isAd) {
-            el.currentTime = el.duration;
-            e.preventDefault();
-        } else if (key === 36 && !isAd) {
-            el.currentTime = 0;
-            e.preventDefault();
-        } else if ((key === 37 || key === 39) && !isAd && el.duration !== Infinity) {
-            el.currentTime += key === 37 ? (step * -1) : step;
-            if (el.currentTime < 0) {
-                el.currentTime = 0;
-            } else if (el.currentTime >= el.duration) {
-                el.currentTime = el.duration;
-            }
-            e.preventDefault();
+        if (this.#player.isAd() || el.duration === Infinity) {
+            return;
+        }
+        const time = getTime(el);
+        if (!isNaN(time)) {
+            el.currentTime = Math.min(Math.max(time, 0), el.duration);
         }
     }
+
+    /**
+     * Display a marker in the progress bar for every mid-roll pending to be played.
+     *
+     * @private
+     * @memberof Progress
+     */
+    private _renderMarkers(): void {
+        this.#markers.forEach(marker => removeElement(marker));
+        this.#markers = [];
+
+        const duration = this.#player.getMedia().duration;
+        if (!this.#progress || !duration || !isFinite(duration)) {
+            return;
+        }
+
+        this.#cuePoints.filter(cuepoint => cuepoint > 0 && cuepoint < duration).forEach(cuepoint => {
+            const marker = document.createElement('span');
+            marker.className = 'op-controls__progress--marker';
+            marker.style.left = `${(cuepoint / duration) * 100}%`;
+            marker.setAttribute('aria-hidden', 'true');
+            this.#progress.appendChild(marker);
+            this.#markers.push(marker);
+        });
+    }
 }
 
 export default Progress;
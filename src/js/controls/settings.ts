@@ -218,6 +218,10 @@ class Settings implements PlayerComponent {
             window.addEventListener('resize', this.#events.global.resize, EVENT_OPTIONS);
         }
 
+        const keyboard = this.#player.getKeyboard();
+        keyboard.register('speedDown', () => this._changeSpeed(-1), this.#labels.speedDown);
+        keyboard.register('speedUp', () => this._changeSpeed(1), this.#labels.speedUp);
+
         this.#player.getControls().getLayer(this.#layer).appendChild(this.#button);
         this.#player.getContainer().appendChild(this.#menu);
     }
@@ -241,6 +245,9 @@ class Settings implements PlayerComponent {
             this.#player.getElement().removeEventListener('controlshidden', this.hideEvent);
         }
 
+        this.#player.getKeyboard().unregister('speedDown');
+        this.#player.getKeyboard().unregister('speedUp');
+
         removeElement(this.#menu);
         removeElement(this.#button);
     }
@@ -274,16 +281,22 @@ class Settings implements PlayerComponent {
      *
      * The subelements will be transformed in HTML output, and this will be cached via
      * [[Settings.submenu]] element. A global event will be associated with the newly
-     * added elements.
+     * added elements. Subelements with their own `subitems` open a nested submenu,
+     * identified by `[key]-[subitem key]`.
      *
      * @param {string} name  The name of the Settings element.
      * @param {string} key  Identifier to generate unique Settings' items and subitems.
      * @param {string} defaultValue  It can represent a number or a string.
      * @param {?SettingsSubItem[]} submenu  A collection of subitems.
      * @param {?string} className  A specific class to trigger events on submenu items.
+     * @param {?Function} onChange  Callback to execute when a subitem is selected (it receives its key and,
+     * in nested submenus, the key of the subitem they belong to).
      * @memberof Settings
      */
-    public addItem(name: string, key: string, defaultValue: string, submenu?: SettingsSubItem[], className?: string): void {
+    public addItem(
+        name: string, key: string, defaultValue: string, submenu?: SettingsSubItem[], className?: string,
+        onChange?: (value: string, group?: string) => void,
+    ): void {
         // Build the menu entry first
         const menuItem = document.createElement('div');
         menuItem.className = 'op-settings__menu-item';
@@ -292,8 +305,9 @@ class Settings implements PlayerComponent {
         menuItem.innerHTML = `<div class="op-settings__menu-label" data-value="${key}-${defaultValue}">${name}</div>`;
 
         const submenuMatch = submenu ? submenu.find(x => x.key === defaultValue) : null;
-        if (submenuMatch) {
-            menuItem.innerHTML += `<div class="op-settings__menu-content">${submenuMatch.label}</div>`;
+        const groups = submenu ? submenu.filter(x => x.subitems) : [];
+        if (submenuMatch || groups.length) {
+            menuItem.innerHTML += `<div class="op-settings__menu-content">${submenuMatch ? submenuMatch.label : ''}</div>`;
         }
 
         const mainMenu = this.#menu.querySelector('.op-settings__menu');
@@ -304,27 +318,18 @@ class Settings implements PlayerComponent {
 
         // Store the submenu to reach all options for current menu item
         if (submenu) {
-            const subItems = `
-                <div class="op-settings__header">
-                    <button type="button" class="op-settings__back">${name}</button>
-                </div>
-                <div class="op-settings__menu" role="menu" id="menu-item-${key}">
-                    ${submenu.map((item: SettingsSubItem) => `
-                    <div class="op-settings__submenu-item" tabindex="0" role="menuitemradio"
-                        aria-checked="${defaultValue === item.key ? 'true' : 'false'}">
-                        <div class="op-settings__submenu-label ${className || ''}" data-value="${key}-${item.key}">${item.label}</div>
-                    </div>`).join('')}
-                </div>`;
-            this.#submenu[key] = subItems;
+            this.#submenu[key] = this._buildSubmenu(name, key, defaultValue, submenu, className);
         }
 
         this.#events.global['settings.submenu'] = (e: Event) => {
             const target = (e.target as HTMLElement);
             if (target.closest(`#${this.#player.id}`)) {
                 if (hasClass(target, 'op-settings__back')) {
+                    // Nested submenus go back to the submenu they belong to
+                    const parent = target.getAttribute('data-parent');
                     this.#menu.classList.add('op-settings--sliding');
                     setTimeout(() => {
-                        this.#menu.innerHTML = this.#originalOutput;
+                        this.#menu.innerHTML = parent && this.#submenu[parent] ? this.#submenu[parent] : this.#originalOutput;
                         this.#menu.classList.remove('op-settings--sliding');
                     }, 100);
                 } else if (hasClass(target, 'op-settings__menu-content')) {
@@ -344,6 +349,12 @@ class Settings implements PlayerComponent {
                         }
                     }
                 } else if (hasClass(target, 'op-settings__submenu-label')) {
+                    const group = groups.find(item => !!this.#menu.querySelector(`#menu-item-${key}-${item.key}`));
+                    if (group) {
+                        this._selectGroupItem(target, key, group.key, onChange);
+                        return;
+                    }
+
                     const current = target.getAttribute('data-value');
                     const value = current ? current.replace(`${key}-`, '') : '';
                     const label = target.innerText;
@@ -356,19 +367,22 @@ class Settings implements PlayerComponent {
                             target.parentElement.setAttribute('aria-checked', 'true');
                         }
                         this.#submenu[key] = this.#menu.innerHTML;
+                        if (onChange) {
+                            onChange(value);
+                        }
 
                         // Restore original menu, and set the new value
                         this.#menu.classList.add('op-settings--sliding');
                         setTimeout(() => {
                             this.#menu.innerHTML = this.#originalOutput;
-                            const prev = this.#menu.querySelector(`.op-settings__menu-label[data-value="${key}-${defaultValue}"]`);
+                            // The value can also be changed via `updateItem`
+                            const prev = this.#menu.querySelector(`.op-settings__menu-label[data-value^="${key}-"]`);
                             if (prev) {
                                 prev.setAttribute('data-value', `${current}`);
                                 if (prev.nextElementSibling) {
                                     prev.nextElementSibling.innerHTML = label;
                                 }
                             }
-                            defaultValue = value;
                             this.#originalOutput = this.#menu.innerHTML;
                             this.#menu.classList.remove('op-settings--sliding');
                         }, 100);
@@ -383,6 +397,48 @@ class Settings implements PlayerComponent {
         this.#player.getElement().addEventListener('controlshidden', this.hideEvent, EVENT_OPTIONS);
     }
 
+    /**
+     * Replace the subitems of an element of Setting's menu (i.e., languages added/removed at runtime) and
+     * the value displayed for it, without building the menu again; if no subitems are passed, the element is removed.
+     *
+     * @param {string} name  The name of the Settings element.
+     * @param {string} key  Identifier of the Settings element.
+     * @param {string} defaultValue  The value selected.
+     * @param {SettingsSubItem[]} submenu  A collection of subitems.
+     * @param {?string} className  A specific class to trigger events on submenu items.
+     * @returns {boolean} `false` if the element was not found.
+     * @memberof Settings
+     */
+    public updateItem(name: string, key: string, defaultValue: string, submenu: SettingsSubItem[], className?: string): boolean {
+        const output = document.createElement('div');
+        output.innerHTML = this.#originalOutput;
+        const label = output.querySelector(`.op-settings__menu-label[data-value^="${key}-"]`);
+        const menuItem = label ? label.closest('.op-settings__menu-item') : null;
+        if (!label || !menuItem || this.#submenu[key] === undefined) {
+            return false;
+        }
+
+        if (submenu.length) {
+            const match = submenu.find(x => x.key === defaultValue);
+            const content = menuItem.querySelector('.op-settings__menu-content');
+            label.setAttribute('data-value', `${key}-${defaultValue}`);
+            if (content) {
+                content.innerHTML = match ? match.label : '';
+            }
+            this.#submenu[key] = this._buildSubmenu(name, key, defaultValue, submenu, className);
+        } else {
+            removeElement(menuItem);
+            delete this.#submenu[key];
+        }
+
+        this.#originalOutput = output.innerHTML;
+        // Refresh the menu only if its main view is being displayed
+        if (this.#menu.querySelector('.op-settings__menu-label')) {
+            this.#menu.innerHTML = this.#originalOutput;
+        }
+        return true;
+    }
+
     /**
      *
      *
@@ -406,6 +462,131 @@ class Settings implements PlayerComponent {
             }
         }
     }
+
+    /**
+     * Build the submenu of an element, with a button to go back to the main menu.
+     *
+     * @private
+     * @param {string} name  The name of the Settings element.
+     * @param {string} key  Identifier of the Settings element.
+     * @param {string} defaultValue
+     * @param {SettingsSubItem[]} submenu
+     * @param {?string} className
+     * @returns {string}
+     * @memberof Settings
+     */
+    private _buildSubmenu(name: string, key: string, defaultValue: string, submenu: SettingsSubItem[], className?: string): string {
+        return `
+            <div class="op-settings__header">
+                <button type="button" class="op-settings__back">${name}</button>
+            </div>
+            <div class="op-settings__menu" role="menu" id="menu-item-${key}">
+                ${submenu.map((item: SettingsSubItem) => item.subitems ? this._buildGroup(key, item, className) : `
+                <div class="op-settings__submenu-item" tabindex="0" role="menuitemradio"
+                    aria-checked="${defaultValue === item.key ? 'true' : 'false'}">
+                    <div class="op-settings__submenu-label ${className || ''}" data-value="${key}-${item.key}">${item.label}</div>
+                </div>`).join('')}
+            </div>`;
+    }
+
+    /**
+     * Build the entry of a subitem that opens a nested submenu (displaying the option selected), and
+     * cache the nested submenu via [[Settings.submenu]].
+     *
+     * @private
+     * @param {string} key  Identifier of the Settings element the subitem belongs to.
+     * @param {SettingsSubItem} group
+     * @param {?string} className
+     * @returns {string}
+     * @memberof Settings
+     */
+    private _buildGroup(key: string, group: SettingsSubItem, className?: string): string {
+        const id = `${key}-${group.key}`;
+        const options = group.subitems || [];
+        const selected = options.find(x => x.key === group.default) || options[0];
+        const value = selected ? selected.key : '';
+
+        this.#submenu[id] = `
+            <div class="op-settings__header">
+                <button type="button" class="op-settings__back" data-parent="${key}">${group.label}</button>
+            </div>
+            <div class="op-settings__menu" role="menu" id="menu-item-${id}">
+                ${options.map((item: SettingsSubItem) => `
+                <div class="op-settings__submenu-item" tabindex="0" role="menuitemradio"
+                    aria-checked="${value === item.key ? 'true' : 'false'}">
+                    <div class="op-settings__submenu-label ${className || ''}" data-value="${id}-${item.key}">${item.label}</div>
+                </div>`).join('')}
+            </div>`;
+
+        return `
+            <div class="op-settings__menu-item" tabindex="0" role="menuitem">
+                <div class="op-settings__menu-label" data-value="${id}-${value}">${group.label}</div>
+                <div class="op-settings__menu-content">${selected ? selected.label : ''}</div>
+            </div>`;
+    }
+
+    /**
+     * Mark the option chosen in a nested submenu, and go back to the submenu it belongs to, displaying the new value.
+     *
+     * @private
+     * @param {HTMLElement} target  The option chosen.
+     * @param {string} key  Identifier of the Settings element.
+     * @param {string} group  Identifier of the subitem that contains the nested submenu.
+     * @param {?Function} onChange
+     * @memberof Settings
+     */
+    private _selectGroupItem(target: HTMLElement, key: string, group: string, onChange?: (value: string, group?: string) => void): void {
+        const id = `${key}-${group}`;
+        const current = target.getAttribute('data-value') || '';
+        const value = current.replace(`${id}-`, '');
+        const label = target.innerText;
+
+        const menuTarget = this.#menu.querySelector(`#menu-item-${id} .op-settings__submenu-item[aria-checked=true]`);
+        if (menuTarget) {
+            menuTarget.setAttribute('aria-checked', 'false');
+        }
+        if (target.parentElement) {
+            target.parentElement.setAttribute('aria-checked', 'true');
+        }
+        this.#submenu[id] = this.#menu.innerHTML;
+        if (onChange) {
+            onChange(value, group);
+        }
+
+        this.#menu.classList.add('op-settings--sliding');
+        setTimeout(() => {
+            this.#menu.innerHTML = this.#submenu[key];
+            const prev = this.#menu.querySelector(`.op-settings__menu-label[data-value^="${id}-"]`);
+            if (prev) {
+                prev.setAttribute('data-value', current);
+                if (prev.nextElementSibling) {
+                    prev.nextElementSibling.innerHTML = label;
+                }
+            }
+            this.#submenu[key] = this.#menu.innerHTML;
+            this.#menu.classList.remove('op-settings--sliding');
+        }, 100);
+    }
+
+    /**
+     * Move to the previous/next speed level available (keyboard shortcut).
+     *
+     * @private
+     * @param {number} direction  `-1` to decrease speed, `1` to increase it.
+     * @memberof Settings
+     */
+    private _changeSpeed(direction: number): void {
+        const media = this.#player.getMedia();
+        if (this.#player.isAd() || !media) {
+            return;
+        }
+        const speeds = (this.addSettings().subitems || []).map(item => parseFloat(item.key));
+        const current = media.playbackRate;
+        const speed = direction > 0 ? speeds.find(item => item > current) : speeds.reverse().find(item => item < current);
+        if (speed !== undefined) {
+            media.playbackRate = speed;
+        }
+    }
 }
 
 export default Settings;
@@ -273,7 +273,10 @@ class Volume implements PlayerComponent {
             this.#slider.addEventListener(event, this.#events.slider[event], EVENT_OPTIONS);
         });
 
-        this.#player.getContainer().addEventListener('keydown', this._keydownEvent.bind(this), EVENT_OPTIONS);
+        const keyboard = this.#player.getKeyboard();
+        keyboard.register('volumeUp', () => this._changeVolume(0.1), this.#labels.volumeUp);
+        keyboard.register('volumeDown', () => this._changeVolume(-0.1), this.#labels.volumeDown);
+        keyboard.register('toggleMute', this.#events.button.click, `${this.#labels.mute}/${this.#labels.unmute}`);
 
         if (!IS_ANDROID && !IS_IOS) {
             const controls = this.#player.getControls().getLayer(this.#layer);
@@ -297,7 +300,7 @@ class Volume implements PlayerComponent {
             this.#slider.removeEventListener(event, this.#events.slider[event]);
         });
 
-        this.#player.getContainer().removeEventListener('keydown', this._keydownEvent.bind(this));
+        ['volumeUp', 'volumeDown', 'toggleMute'].forEach(action => this.#player.getKeyboard().unregister(action));
 
         removeElement(this.#slider);
         removeElement(this.#display);
@@ -305,21 +308,17 @@ class Volume implements PlayerComponent {
     }
 
     /**
-     * Use the up and down arrow keys to manipulate volume.
+     * Increase/decrease volume (keyboard shortcut), muting media if it reaches zero.
      *
      * @private
-     * @param {KeyboardEvent} e
+     * @param {number} step
      * @memberof Volume
      */
-    private _keydownEvent(e: KeyboardEvent) {
-        const key = e.which || e.keyCode || 0;
+    private _changeVolume(step: number): void {
         const el = this.#player.activeElement();
-        if (key === 38 || key === 40) {
-            const newVol = key === 38 ? Math.min(el.volume + 0.1, 1) : Math.max(el.volume - 0.1, 0);
-            el.volume = newVol;
-            el.muted = !(newVol > 0);
-            e.preventDefault();
-        }
+        const newVol = Math.min(Math.max(el.volume + step, 0), 1);
+        el.volume = newVol;
+        el.muted = !(newVol > 0);
     }
 }
 
@@ -0,0 +1,256 @@
+import ErrorScreenOptions from './interfaces/error-screen-options';
+import EventsList from './interfaces/events-list';
+import PlayerError from './interfaces/events/error';
+import Player from './player';
+import { EVENT_OPTIONS } from './utils/constants';
+import { removeElement } from './utils/general';
+import { getErrorCategory, isFatalError } from './utils/media';
+
+/**
+ * Error screen element.
+ *
+ * @description This class displays a screen over video/audio when media cannot be played, with a message
+ * according to the category of the error (network, decode, unsupported, DRM or Ads) and a button to reload
+ * the current source from the last position reached. Errors solved by [[Fallback]] are not displayed, and the ones
+ * of Ads only if none of the Ad tags requested could be played.
+ * @class ErrorScreen
+ */
+class ErrorScreen {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof ErrorScreen
+     */
+    #player: Player;
+
+    /**
+     * Error screen configuration.
+     *
+     * @private
+     * @type ErrorScreenOptions
+     * @memberof ErrorScreen
+     */
+    #options: ErrorScreenOptions;
+
+    /**
+     * Element displayed while there is an error.
+     *
+     * @private
+     * @type HTMLElement
+     * @memberof ErrorScreen
+     */
+    #screen?: HTMLElement;
+
+    /**
+     * Last position reached in media, to restore it when retrying.
+     *
+     * @private
+     * @type number
+     * @memberof ErrorScreen
+     */
+    #lastTime: number = 0;
+
+    /**
+     * Last error solved by loading another source, so it is not displayed.
+     *
+     * @private
+     * @type PlayerError
+     * @memberof ErrorScreen
+     */
+    #recovered?: PlayerError;
+
+    /**
+     * Last error of the Ads, displayed once none of the Ad tags requested could be played.
+     *
+     * @private
+     * @type PlayerError
+     * @memberof ErrorScreen
+     */
+    #adsError?: PlayerError;
+
+    /**
+     * Events that will be triggered in ErrorScreen element:
+     *  - media (to display/hide the screen)
+     *
+     * @private
+     * @type EventsList
+     * @memberof ErrorScreen
+     */
+    #events: EventsList = {
+        media: {},
+    };
+
+    /**
+     * Create an instance of ErrorScreen.
+     *
+     * @param {Player} player
+     * @param {?ErrorScreenOptions} options
+     * @returns {ErrorScreen}
+     * @memberof ErrorScreen
+     */
+    constructor(player: Player, options?: ErrorScreenOptions) {
+        const defaultOpts: ErrorScreenOptions = {
+            enabled: true,
+        };
+        this.#player = player;
+        this.#options = { ...defaultOpts, ...options };
+        return this;
+    }
+
+    /**
+     * Set the events to display the screen when an error occurs, and to hide it once media plays again.
+     *
+     * @memberof ErrorScreen
+     */
+    public create(): void {
+        if (!this.#options.enabled) {
+            return;
+        }
+
+        this.#events.media.timeupdate = () => {
+            const { currentTime } = this.#player.getMedia();
+            if (!this.#player.isAd() && currentTime > 0) {
+                this.#lastTime = currentTime;
+            }
+        };
+        this.#events.media.play = this.hide.bind(this);
+        this.#events.media.playlistitemchanged = () => {
+            this.#lastTime = 0;
+            this.#adsError = undefined;
+            this.hide();
+        };
+        this.#events.media.sourcefallback = (e: CustomEvent) => {
+            this.#recovered = e.detail.error;
+            this.hide();
+        };
+        this.#events.media.playererror = (e: CustomEvent) => {
+            const error: PlayerError = e.detail;
+            // Ads can fail while there are other tags to try, so their errors wait for the outcome of all of them
+            if (error && error.type === 'Ads') {
+                this.#adsError = error;
+            } else if (error && error !== this.#recovered && isFatalError(error)) {
+                this.show(error);
+            }
+        };
+        this.#events.media.adswaterfallcomplete = (e: CustomEvent) => {
+            const error = this.#adsError;
+            this.#adsError = undefined;
+            if (e.detail && !e.detail.filled && error) {
+                this.show(error);
+            }
+        };
+
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+    }
+
+    /**
+     * Remove the events and the screen associated with the errors.
+     *
+     * @memberof ErrorScreen
+     */
+    public destroy(): void {
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.removeEventListener(event, this.#events.media[event]);
+        });
+        this.hide();
+    }
+
+    /**
+     * Display the screen for an error (using the custom renderer, if set).
+     *
+     * @param {PlayerError} error
+     * @memberof ErrorScreen
+     */
+    public show(error: PlayerError): void {
+        this.hide();
+        const category = getErrorCategory(error);
+        const retry = this.retry.bind(this, category);
+        this.#screen = typeof this.#options.render === 'function' ?
+            this.#options.render(error, category, retry) : this._render(category, retry);
+
+        const container = this.#player.getContainer();
+        container.classList.add('op-player--error');
+        if (this.#screen) {
+            container.appendChild(this.#screen);
+        }
+    }
+
+    /**
+     * Remove the screen, if visible.
+     *
+     * @memberof ErrorScreen
+     */
+    public hide(): void {
+        this.#player.getContainer().classList.remove('op-player--error');
+        if (this.#screen) {
+            removeElement(this.#screen);
+            this.#screen = undefined;
+        }
+    }
+
+    /**
+     * Hide the screen and reload the current source from the last position reached
+     * (after an Ad error, media is just resumed).
+     *
+     * @param {string} [category='network']
+     * @memberof ErrorScreen
+     */
+    public retry(category: string = 'network'): void {
+        this.hide();
+        const media = this.#player.getMedia();
+        if (category === 'ads' || !media) {
+            this.#player.play();
+            return;
+        }
+
+        const element = this.#player.getElement();
+        const time = this.#lastTime;
+        const restore = () => {
+            element.removeEventListener('loadedmetadata', restore);
+            if (time > 0 && isFinite(media.duration) && time < media.duration) {
+                media.currentTime = time;
+            }
+            this.#player.play();
+        };
+        element.addEventListener('loadedmetadata', restore, EVENT_OPTIONS);
+        media.reload();
+    }
+
+    /**
+     * Build the default screen: a message according to the category of the error and a retry button.
+     *
+     * @private
+     * @param {string} category
+     * @param {Function} retry
+     * @returns {HTMLElement}
+     * @memberof ErrorScreen
+     */
+    private _render(category: string, retry: () => void): HTMLElement {
+        const { labels } = this.#player.getOptions();
+        const screen = document.createElement('div');
+        screen.className = `op-error op-error--${category}`;
+        screen.setAttribute('role', 'alert');
+
+        const message = document.createElement('div');
+        message.className = 'op-error__message';
+        message.textContent = labels[`error${category.charAt(0).toUpperCase()}${category.slice(1)}`];
+        screen.appendChild(message);
+
+        const button = document.createElement('button');
+        button.className = 'op-error__retry';
+        button.type = 'button';
+        button.textContent = labels.retry;
+        button.addEventListener('click', retry, EVENT_OPTIONS);
+        screen.appendChild(button);
+
+        return screen;
+    }
+}
+
+export default ErrorScreen;
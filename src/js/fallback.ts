@@ -0,0 +1,172 @@
+import EventsList from './interfaces/events-list';
+import PlayerError from './interfaces/events/error';
+import FallbackOptions from './interfaces/fallback-options';
+import Player from './player';
+import { EVENT_OPTIONS } from './utils/constants';
+import { addEvent } from './utils/events';
+import { isFatalError } from './utils/media';
+
+/**
+ * Fallback element.
+ *
+ * @description This class listens for the errors of the source being played (404, decode errors, HLS fatal
+ * network errors, etc.) and loads the next source of the list that can be played, preserving the position
+ * reached and the play state. Every time a source is replaced, a `sourcefallback` event is dispatched.
+ * @class Fallback
+ */
+class Fallback {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof Fallback
+     */
+    #player: Player;
+
+    /**
+     * Fallback configuration.
+     *
+     * @private
+     * @type FallbackOptions
+     * @memberof Fallback
+     */
+    #options: FallbackOptions;
+
+    /**
+     * Last position reached in media, to restore it in the next source.
+     *
+     * @private
+     * @type number
+     * @memberof Fallback
+     */
+    #lastTime: number = 0;
+
+    /**
+     * Flag to determine if media was playing (not paused by the viewer) when the error occurred.
+     *
+     * @private
+     * @type boolean
+     * @memberof Fallback
+     */
+    #playing: boolean = false;
+
+    /**
+     * Events that will be triggered in Fallback element:
+     *  - media (to track the state of media and to replace the source when it fails)
+     *
+     * @private
+     * @type EventsList
+     * @memberof Fallback
+     */
+    #events: EventsList = {
+        media: {},
+    };
+
+    /**
+     * Create an instance of Fallback.
+     *
+     * @param {Player} player
+     * @param {?FallbackOptions} options
+     * @returns {Fallback}
+     * @memberof Fallback
+     */
+    constructor(player: Player, options?: FallbackOptions) {
+        const defaultOpts: FallbackOptions = {
+            enabled: true,
+        };
+        this.#player = player;
+        this.#options = { ...defaultOpts, ...options };
+        return this;
+    }
+
+    /**
+     * Set the events to track the state of media and to replace the source when it fails.
+     *
+     * @memberof Fallback
+     */
+    public create(): void {
+        if (!this.#options.enabled) {
+            return;
+        }
+
+        this.#events.media.timeupdate = () => {
+            const { currentTime } = this.#player.getMedia();
+            if (!this.#player.isAd() && currentTime > 0) {
+                this.#lastTime = currentTime;
+            }
+        };
+        this.#events.media.play = () => {
+            if (!this.#player.isAd()) {
+                this.#playing = true;
+            }
+        };
+        this.#events.media.pause = () => {
+            if (!this.#player.isAd()) {
+                this.#playing = false;
+            }
+        };
+        this.#events.media.playlistitemchanged = () => {
+            this.#lastTime = 0;
+        };
+        this.#events.media.playererror = this._fallback.bind(this);
+
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+    }
+
+    /**
+     * Remove the events associated with the fallback.
+     *
+     * @memberof Fallback
+     */
+    public destroy(): void {
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.removeEventListener(event, this.#events.media[event]);
+        });
+    }
+
+    /**
+     * Load the next source available if the error prevents the current one from being played.
+     *
+     * @private
+     * @param {CustomEvent} e
+     * @memberof Fallback
+     */
+    private _fallback(e: CustomEvent): void {
+        const error: PlayerError = e.detail;
+        const media = this.#player.getMedia();
+        if (!media || !error || this.#player.isAd() || !isFatalError(error)) {
+            return;
+        }
+
+        const from = media.current;
+        const time = this.#lastTime;
+        const playing = this.#playing;
+        const to = media.fallback();
+        if (!to) {
+            return;
+        }
+
+        // Restore the position and the play state once the new source is ready
+        const element = this.#player.getElement();
+        const restore = () => {
+            element.removeEventListener('loadedmetadata', restore);
+            if (time > 0 && isFinite(media.duration) && time < media.duration) {
+                media.currentTime = time;
+            }
+            if (playing) {
+                this.#player.play();
+            }
+        };
+        element.addEventListener('loadedmetadata', restore, EVENT_OPTIONS);
+
+        const event = addEvent('sourcefallback', { detail: { error, from, to } });
+        element.dispatchEvent(event);
+    }
+}
+
+export default Fallback;
@@ -0,0 +1,53 @@
+import Companion from './companion';
+import Linear from './linear';
+import NonLinear from './non-linear';
+
+/**
+ * VAST Ad
+ *
+ * @description An object that stores an `InLine` or `Wrapper` Ad found in a VAST response.
+ * @interface Ad
+ * @export
+ */
+export default interface Ad {
+    /**
+     * Name of the server that returned the Ad.
+     */
+    adSystem: string;
+    /**
+     * Companion banners to be displayed along with the linear creative.
+     */
+    companions: Companion[];
+    /**
+     * URLs to request if the Ad cannot be played.
+     */
+    errors: string[];
+    /**
+     * The `id` attribute of the Ad.
+     */
+    id: string;
+    /**
+     * URLs to request once the Ad has been displayed.
+     */
+    impressions: string[];
+    /**
+     * Linear creative of the Ad, if any.
+     */
+    linear?: Linear;
+    /**
+     * Non-linear creative (overlay) of the Ad, if any.
+     */
+    nonLinear?: NonLinear;
+    /**
+     * Position of the Ad in a pod; standalone Ads do not have it.
+     */
+    sequence?: number;
+    /**
+     * Common name of the Ad.
+     */
+    title: string;
+    /**
+     * If the Ad is a `Wrapper`, the URL of the VAST response to follow.
+     */
+    wrapper?: string;
+}
@@ -0,0 +1,22 @@
+/**
+ * Ad break
+ *
+ * @description An object that stores when an Ad break must be played and which Ads it contains.
+ * @interface AdBreak
+ * @export
+ */
+export default interface AdBreak {
+    /**
+     * Identifier of the break (i.e., the `breakId` attribute in VMAP).
+     */
+    readonly id?: string;
+    /**
+     * Ad or collection of Ads to be played (URLs or valid XML strings).
+     */
+    readonly src: string | string[];
+    /**
+     * When the break must be played: `start` (pre-roll), `end` (post-roll), a time in `HH:MM:SS(.mmm)` format,
+     * a percentage of the media's duration (i.e., `50%`) or a number of seconds.
+     */
+    readonly timeOffset: string | number;
+}
@@ -0,0 +1,49 @@
+/**
+ * VAST companion creative
+ *
+ * @description An object that stores a companion banner to be displayed outside the player along with a linear creative.
+ * @interface Companion
+ * @export
+ */
+export default interface Companion {
+    /**
+     * ID of the page element where the companion is expected to be displayed, if any.
+     */
+    adSlotId?: string;
+    /**
+     * Text to describe a static image.
+     */
+    altText?: string;
+    /**
+     * URL to open when the user clicks on a static image.
+     */
+    clickThrough?: string;
+    /**
+     * URLs to request when the user clicks on the companion.
+     */
+    clickTracking: string[];
+    /**
+     * MIME type of the resource (`text/html` for HTML and iframe resources).
+     */
+    creativeType: string;
+    /**
+     * Height of the companion, in pixels.
+     */
+    height: number;
+    /**
+     * URL of the image or iframe, or HTML code, to be displayed.
+     */
+    resource: string;
+    /**
+     * How the resource must be rendered.
+     */
+    resourceType: 'static' | 'iframe' | 'html';
+    /**
+     * URLs to request, grouped by the name of the event that triggers them (`creativeView`).
+     */
+    trackingEvents: { [event: string]: string[] };
+    /**
+     * Width of the companion, in pixels.
+     */
+    width: number;
+}
@@ -0,0 +1,35 @@
+import MediaFile from './media-file';
+
+/**
+ * VAST linear creative
+ *
+ * @description An object that stores the elements needed to play and track a linear VAST creative.
+ * @interface Linear
+ * @export
+ */
+export default interface Linear {
+    /**
+     * URL to open when the user clicks on the creative.
+     */
+    clickThrough?: string;
+    /**
+     * URLs to request when the user clicks on the creative.
+     */
+    clickTracking: string[];
+    /**
+     * Duration of the creative, in seconds.
+     */
+    duration: number;
+    /**
+     * Renditions available to play the creative.
+     */
+    mediaFiles: MediaFile[];
+    /**
+     * Time (in seconds) after which the creative can be skipped, if allowed.
+     */
+    skipOffset?: number;
+    /**
+     * URLs to request, grouped by the name of the event that triggers them (`start`, `complete`, etc.).
+     */
+    trackingEvents: { [event: string]: string[] };
+}
@@ -0,0 +1,25 @@
+/**
+ * Ad marker
+ *
+ * @description An object that stores the Ad signalling found in a tag of a live manifest (i.e., SCTE-35 cues).
+ * @interface AdMarker
+ * @export
+ */
+export default interface AdMarker {
+    /**
+     * Duration of the break in seconds, if known.
+     */
+    duration?: number;
+    /**
+     * Seconds of the break already elapsed (only for `continue` markers).
+     */
+    elapsed?: number;
+    /**
+     * Identifier of the break (i.e., the `ID` of an `EXT-X-DATERANGE` tag).
+     */
+    id?: string;
+    /**
+     * Whether the tag indicates the `start` of a break, that a break is in progress (`continue`) or its `end`.
+     */
+    type: 'start' | 'continue' | 'end';
+}
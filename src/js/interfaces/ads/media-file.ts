@@ -0,0 +1,37 @@
+/**
+ * VAST media file
+ *
+ * @description An object that stores one of the renditions available for a linear VAST creative.
+ * @interface MediaFile
+ * @export
+ */
+export default interface MediaFile {
+    /**
+     * API needed to execute the file (i.e., `VPAID`), if any.
+     */
+    apiFramework?: string;
+    /**
+     * Average bitrate of the file, in kbps.
+     */
+    bitrate: number;
+    /**
+     * Delivery method of the file (`progressive` or `streaming`).
+     */
+    delivery: string;
+    /**
+     * Native height of the file, in pixels.
+     */
+    height: number;
+    /**
+     * Location of the file.
+     */
+    src: string;
+    /**
+     * MIME type of the file.
+     */
+    type: string;
+    /**
+     * Native width of the file, in pixels.
+     */
+    width: number;
+}
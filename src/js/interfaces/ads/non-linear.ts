@@ -0,0 +1,45 @@
+/**
+ * VAST non-linear creative
+ *
+ * @description An object that stores an overlay to be displayed over the content while it keeps playing.
+ * @interface NonLinear
+ * @export
+ */
+export default interface NonLinear {
+    /**
+     * URL to open when the user clicks on the overlay.
+     */
+    clickThrough?: string;
+    /**
+     * URLs to request when the user clicks on the overlay.
+     */
+    clickTracking: string[];
+    /**
+     * MIME type of the resource (`text/html` for HTML and iframe resources).
+     */
+    creativeType: string;
+    /**
+     * Height of the overlay, in pixels.
+     */
+    height: number;
+    /**
+     * Time (in seconds) the overlay is displayed before being hidden; if `0`, it is displayed until it is closed or content ends.
+     */
+    minSuggestedDuration: number;
+    /**
+     * URL of the image or iframe, or HTML code, to be displayed.
+     */
+    resource: string;
+    /**
+     * How the resource must be rendered.
+     */
+    resourceType: 'static' | 'iframe' | 'html';
+    /**
+     * URLs to request, grouped by the name of the event that triggers them (`creativeView`, `close`, etc.).
+     */
+    trackingEvents: { [event: string]: string[] };
+    /**
+     * Width of the overlay, in pixels.
+     */
+    width: number;
+}
@@ -1,7 +1,11 @@
+import Tracker from '../../media/tracker';
+import AdBreak from './break';
+import AdPolicy from './policy';
+
 /**
  * Ads options
  *
- * @description An object that stores configuration for Google IMA SDK
+ * @description An object that stores configuration for Google IMA SDK or OpenPlayer's VAST engine
  * @interface Options
  * @export
  */
@@ -10,6 +14,19 @@ export default interface Options {
      * Flag to interrupt automatic ad breaks and give end user control over it.
      */
     readonly autoPlayAdBreaks: boolean;
+    /**
+     * Maximum bitrate (in kbps) of the Ad rendition to be played; `-1` selects it automatically.
+     */
+    readonly bitrate: number;
+    /**
+     * Ad breaks to be played at specific times (ignored if `vmap` is set).
+     */
+    readonly breaks: AdBreak[];
+    /**
+     * IDs of the page elements where companion banners are displayed, indexed by their size
+     * (i.e., `{ '300x250': 'companion-slot' }`).
+     */
+    readonly companions: { [size: string]: string };
     /**
      * If `true`, enables the IMA SDK URL in debug mode.
      */
@@ -18,6 +35,11 @@ export default interface Options {
      * If `true`, enables the IMA SDK Ads preloading.
      */
     readonly enablePreloading: boolean;
+    /**
+     * Library used to load and play Ads: `ima` (Google IMA SDK) or `vast` (OpenPlayer's VAST engine,
+     * which does not load any external script but does not support VPAID).
+     */
+    readonly engine: 'ima' | 'vast';
     /**
      * Number of redirection to play Ad (by default, `4`).
      */
@@ -30,14 +52,46 @@ export default interface Options {
      * Play Ad endlessly (mostly used for text Ads).
      */
     readonly loop: boolean;
+    /**
+     * If `true`, displays OpenPlayer's countdown while linear Ads are playing, instead of the countdown
+     * from IMA SDK; it is always displayed (with the skip button) when `engine` is `vast`.
+     */
+    readonly overlay: boolean;
+    /**
+     * Restrictions applied before playing the breaks requested via `Player.loadAd()`
+     * (which include the ones from `vmap`, `breaks` and playlist items) and the ones scheduled by IMA SDK's Ad rules.
+     */
+    readonly policy?: AdPolicy;
+    /**
+     * Milliseconds to wait for an Ad tag to be loaded before trying the next one; `0` disables it.
+     */
+    readonly requestTimeout: number;
     /**
      * The IMA SDK URL to load the plugin.
      */
     readonly sdkPath: string;
+    /**
+     * Number of seconds after which any linear Ad can be skipped through OpenPlayer's skip button when
+     * `engine` is `vast`; `-1` only allows skipping Ads with a VAST `skipoffset`. IMA SDK ignores it.
+     */
+    readonly skipAfter: number;
     /**
      * Ad or collection of Ads to be played.
      */
     readonly src: string | string[];
+    /**
+     * Instance used to send the tracking URLs of the Ads played by the VAST engine; by default, a new `Tracker`.
+     */
+    readonly tracker?: Tracker;
+    /**
+     * If `true`, a list of Ads in `src` is treated as a waterfall: tags are tried in order until one of them plays,
+     * instead of playing all of them.
+     */
+    readonly waterfall: boolean;
+    /**
+     * URL or valid XML string of a VMAP document with the Ad breaks to be played.
+     */
+    readonly vmap: string;
 
     [key: string]: any;
 }
@@ -0,0 +1,31 @@
+/**
+ * Ad pod
+ *
+ * @description An object that stores the progress of the Ad pod (group of Ads played back to back) being played.
+ * @interface AdPod
+ * @export
+ */
+export default interface AdPod {
+    /**
+     * Total duration of the pod in seconds (for IMA SDK, the maximum duration of the pod); if it is not
+     * known in advance, it is the duration of the Ads played so far plus the one being played.
+     */
+    duration: number;
+    /**
+     * Flag to indicate that `duration` is not the total duration of the pod, but only the one of its Ads
+     * played so far plus the one being played.
+     */
+    partial: boolean;
+    /**
+     * Position of the current Ad in the pod (starting from 1).
+     */
+    position: number;
+    /**
+     * Seconds remaining until the end of the pod.
+     */
+    remaining: number;
+    /**
+     * Number of Ads in the pod.
+     */
+    total: number;
+}
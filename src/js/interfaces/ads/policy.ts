@@ -0,0 +1,25 @@
+/**
+ * Ad policy
+ *
+ * @description An object that stores the restrictions applied before playing an Ad break.
+ * @interface AdPolicy
+ * @export
+ */
+export default interface AdPolicy {
+    /**
+     * Maximum number of breaks played during the lifetime of the player; `-1` means no limit.
+     */
+    readonly maxBreaks: number;
+    /**
+     * Minimum number of seconds of content that must be played between two breaks.
+     */
+    readonly minContentGap: number;
+    /**
+     * Number of seconds before the end of media in which mid-rolls are not played.
+     */
+    readonly noMidrollsInLast: number;
+    /**
+     * If `false`, a pre-roll is not played again if user goes back to the start of the same media.
+     */
+    readonly replayPreroll: boolean;
+}
@@ -0,0 +1,32 @@
+/**
+ * Ad tag report
+ *
+ * @description An object that stores the outcome of one of the Ad tags requested by the player.
+ * @interface TagReport
+ * @export
+ */
+export default interface TagReport {
+    /**
+     * Error code reported by the Ads library, if any.
+     */
+    code?: number;
+    /**
+     * Description of the error, if any.
+     */
+    message?: string;
+    /**
+     * The URL or XML string of the Ad tag.
+     */
+    src: string;
+    /**
+     * Outcome of the tag: `pending` (still being processed), `filled` (an Ad started playing), `timeout` (not loaded
+     * within `requestTimeout`), `empty` (no Ads in the response), `http` (the response, or the one of a wrapper, could
+     * not be loaded), `media` (Ads could not be played)
+     * or `error` (any other problem, like an invalid response).
+     */
+    status: 'pending' | 'filled' | 'timeout' | 'empty' | 'http' | 'media' | 'error';
+    /**
+     * Milliseconds elapsed since the tag was requested until its outcome was known.
+     */
+    time: number;
+}
@@ -0,0 +1,18 @@
+/**
+ * Cue Region
+ *
+ * @description Object that mimics the native `VTTRegion`: an area of the video where cues are displayed,
+ * defined with a `REGION` block in WebVTT files. Anchors and width are percentages.
+ * @interface CueRegion
+ * @export
+ */
+export default interface CueRegion {
+    readonly id: string;
+    readonly lines: number;
+    readonly regionAnchorX: number;
+    readonly regionAnchorY: number;
+    readonly scroll: string;
+    readonly viewportAnchorX: number;
+    readonly viewportAnchorY: number;
+    readonly width: number;
+}
@@ -0,0 +1,45 @@
+import CueRegion from './cue-region';
+
+/**
+ * Cue Settings
+ *
+ * @description Object that mimics the positioning properties of the native `VTTCue` (`line`, `position`, `size`, `align`,
+ * `vertical` and `region`), plus the CSS properties to be applied to the text of the cue (from TTML or SSA/ASS files).
+ * @see https://www.w3.org/TR/webvtt1/#webvtt-cue-settings
+ * @interface CueSettings
+ * @export
+ */
+export default interface CueSettings {
+    /**
+     * Possible values: `start`, `center` (default), `end`, `left` and `right`.
+     */
+    align?: string;
+    /**
+     * A number of lines (if `snapToLines` is `true`; negative values are counted from the bottom) or a percentage.
+     */
+    line?: number | 'auto';
+    /**
+     * Possible values: `start` (default), `center` and `end`.
+     */
+    lineAlign?: string;
+    /**
+     * A percentage.
+     */
+    position?: number | 'auto';
+    /**
+     * Possible values: `line-left`, `center`, `line-right` and `auto` (default; determined by `align`).
+     */
+    positionAlign?: string;
+    region?: CueRegion;
+    /**
+     * A percentage (by default, `100`).
+     */
+    size?: number;
+    snapToLines?: boolean;
+    style?: { [property: string]: string };
+    /**
+     * Possible values: `` (horizontal, default), `rl` and `lr`.
+     */
+    vertical?: string;
+    [key: string]: any;
+}
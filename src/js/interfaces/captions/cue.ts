@@ -1,3 +1,5 @@
+import CueSettings from './cue-settings';
+
 /**
  * Cue
  *
@@ -8,7 +10,7 @@
 export default interface Cue {
     readonly endTime: number;
     readonly identifier: string;
-    readonly settings: object;
+    readonly settings: CueSettings;
     readonly startTime: number;
     readonly text: string;
 }
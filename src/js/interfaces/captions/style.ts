@@ -0,0 +1,40 @@
+/**
+ * Caption Style
+ *
+ * @description The appearance of the captions chosen by the viewer; every property stores the key of the
+ * option selected (`default` to use the one defined by the player's stylesheet).
+ * @see CAPTION_STYLE_OPTIONS
+ * @interface CaptionStyle
+ * @export
+ */
+export default interface CaptionStyle {
+    /**
+     * Percentage of the default size (`50`, `75`, `150` or `200`).
+     */
+    fontSize?: string;
+    /**
+     * Possible values: `serif`, `sansSerif`, `monospace`, `casual`, `cursive` and `smallCaps`.
+     */
+    fontFamily?: string;
+    /**
+     * Possible values: `white`, `yellow`, `green`, `cyan`, `blue`, `magenta`, `red` and `black`.
+     */
+    color?: string;
+    /**
+     * Same values as `color`.
+     */
+    background?: string;
+    /**
+     * Percentage (`0`, `25`, `50`, `75` or `100`).
+     */
+    backgroundOpacity?: string;
+    /**
+     * Possible values: `raised`, `depressed`, `uniform` and `dropShadow`.
+     */
+    edge?: string;
+    /**
+     * Colour of the area that contains the captions (same values as `color`).
+     */
+    window?: string;
+    [property: string]: string | undefined;
+}
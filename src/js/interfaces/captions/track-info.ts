@@ -0,0 +1,15 @@
+import Track from './track';
+
+/**
+ * Track information
+ *
+ * @description An object that describes one of the caption tracks available in the player.
+ * @interface TrackInfo
+ * @export
+ */
+export default interface TrackInfo extends Track {
+    /**
+     * Whether the captions of this track are being displayed.
+     */
+    readonly active: boolean;
+}
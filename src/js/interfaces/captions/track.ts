@@ -1,13 +1,16 @@
+import Cue from './cue';
+
 /**
  * Track
  *
- * @description An object that mimics the `track` tag attributes.
+ * @description An object that mimics the `track` tag attributes; captions can also be passed
+ * in memory (as a list of cues or as the content of a file) instead of using a URL.
  * @interface Track
  * @export
  */
 export default interface Track {
     readonly srclang: string;
-    readonly src: string;
+    readonly src?: string;
     /**
      * Possible values (although, OpenPlayerJS only supports the first one):
      *  - `subtitles`
@@ -21,4 +24,16 @@ export default interface Track {
     readonly kind: string;
     readonly label: string;
     readonly default?: boolean;
+    /**
+     * List of cues to be displayed, instead of loading them from `src`.
+     */
+    readonly cues?: Cue[];
+    /**
+     * Content of a captions file (WebVTT, SRT, TTML/DFXP or SSA/ASS) to be parsed, instead of loading it from `src`.
+     */
+    readonly content?: string;
+    /**
+     * MIME type of the captions (i.e., `text/vtt`), to determine their format.
+     */
+    readonly type?: string;
 }
@@ -15,6 +15,7 @@ export default interface ControlItem {
     custom?: boolean;
     content?: string;
     subitems?: Array<{id: string, label: string, title?: string, icon?: string, click(): void}>;
+    shortcut?: string | string[];
     click(event: any): void;
     init?(player: any): void;
     destroy?(player: any): void;
@@ -0,0 +1,20 @@
+import PlayerError from './events/error';
+
+/**
+ * Error screen options
+ *
+ * @description An object that stores configuration settings for the screen displayed when media cannot be played.
+ * @interface ErrorScreenOptions
+ * @export
+ */
+export default interface ErrorScreenOptions {
+    /**
+     * Flag to display a screen with a message and a retry button when an error occurs.
+     */
+    readonly enabled?: boolean;
+    /**
+     * Function to build a custom screen; it receives the details of the error, its category (`network`, `decode`,
+     * `unsupported`, `drm` or `ads`) and a callback to retry, and it must return the element to display.
+     */
+    render?(error: PlayerError, category: string, retry: () => void): HTMLElement;
+}
@@ -0,0 +1,21 @@
+/**
+ * Player error
+ *
+ * @description An object that stores the details of the errors dispatched via `playererror` event.
+ * @interface PlayerError
+ * @export
+ */
+export default interface PlayerError {
+    /**
+     * Information provided by the library/element that reported the error.
+     */
+    data?: any;
+    /**
+     * Description of the error (for M(PEG)-DASH, the original error event).
+     */
+    message: any;
+    /**
+     * Origin of the error: `HTML5`, `HLS`, `M(PEG)-DASH`, `FLV`, `Ads` or `Playlist`.
+     */
+    type: string;
+}
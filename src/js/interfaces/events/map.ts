@@ -0,0 +1,119 @@
+import AdPod from '../ads/pod';
+import TagReport from '../ads/tag-report';
+import Cue from '../captions/cue';
+import CaptionStyle from '../captions/style';
+import PlaylistItem from '../playlist/item';
+import Source from '../source';
+import PlayerError from './error';
+
+/**
+ * Player event map
+ *
+ * @description An object that maps the events dispatched by the player with the type of their `detail`,
+ * so listeners attached via `on`, `off` and `once` receive typed events.
+ * @interface PlayerEventMap
+ * @export
+ */
+export default interface PlayerEventMap extends HTMLMediaElementEventMap {
+    adbreakend: CustomEvent<{ duration?: number, id?: string }>;
+    adbreakstart: CustomEvent<{ duration?: number, elapsed?: number, id?: string }>;
+    adcuepoints: CustomEvent<{ cuepoints: number[] }>;
+    adsadBuffering: CustomEvent<{ pod: AdPod | null }>;
+    adsadMetadata: CustomEvent<{ pod: AdPod | null }>;
+    adsadProgress: CustomEvent<{ pod: AdPod | null }>;
+    adsallAdsCompleted: CustomEvent<{ pod: AdPod | null }>;
+    adsbreakblocked: CustomEvent<{ message: string, reason: string, src: string | string[] }>;
+    adsclick: CustomEvent<{ pod: AdPod | null }>;
+    adscompanion: CustomEvent<{ content: string, contentType: string, height: number, slot: string, width: number }>;
+    adscomplete: CustomEvent<{ pod: AdPod | null }>;
+    adsdurationChange: CustomEvent<{ pod: AdPod | null }>;
+    adsfirstQuartile: CustomEvent<{ pod: AdPod | null }>;
+    adsimpression: CustomEvent<{ pod: AdPod | null }>;
+    adsinteraction: CustomEvent<{ pod: AdPod | null }>;
+    adslinearChanged: CustomEvent<{ pod: AdPod | null }>;
+    adsloaded: CustomEvent<{ pod: AdPod | null }>;
+    adsmediaended: CustomEvent<{ pod: AdPod | null }>;
+    adsmidpoint: CustomEvent<{ pod: AdPod | null }>;
+    adsmute: CustomEvent<{ pod: AdPod | null }>;
+    adspause: CustomEvent<{ pod: AdPod | null }>;
+    adsresume: CustomEvent<{ pod: AdPod | null }>;
+    adsskip: CustomEvent<{ pod: AdPod | null }>;
+    adsskippableStateChanged: CustomEvent<{ pod: AdPod | null }>;
+    adsskipped: CustomEvent<{ pod: AdPod | null }>;
+    adsstart: CustomEvent<{ pod: AdPod | null }>;
+    adsthirdQuartile: CustomEvent<{ pod: AdPod | null }>;
+    adsuserClose: CustomEvent<{ pod: AdPod | null }>;
+    adsvideoClicked: CustomEvent<{ pod: AdPod | null }>;
+    adsvideoIconClicked: CustomEvent<{ pod: AdPod | null }>;
+    adsvolumeChange: CustomEvent<{ pod: AdPod | null }>;
+    adswaterfallcomplete: CustomEvent<{ filled: boolean, report: TagReport[] }>;
+    captionschanged: CustomEvent<{ language: string }>;
+    captionsloaded: CustomEvent<{ active: boolean, cues: Cue[], language: string }>;
+    captionsremoved: CustomEvent<{ language: string }>;
+    captionstylechanged: CustomEvent<{ style: CaptionStyle }>;
+    controlschanged: CustomEvent<null>;
+    controlshidden: CustomEvent<null>;
+    hlsAudioTrackLoaded: CustomEvent<{ data: any }>;
+    hlsAudioTrackLoading: CustomEvent<{ data: any }>;
+    hlsAudioTracksUpdated: CustomEvent<{ data: any }>;
+    hlsAudioTrackSwitched: CustomEvent<{ data: any }>;
+    hlsAudioTrackSwitching: CustomEvent<{ data: any }>;
+    hlsBufferAppended: CustomEvent<{ data: any }>;
+    hlsBufferAppending: CustomEvent<{ data: any }>;
+    hlsBufferCodecs: CustomEvent<{ data: any }>;
+    hlsBufferCreated: CustomEvent<{ data: any }>;
+    hlsBufferEos: CustomEvent<{ data: any }>;
+    hlsBufferFlushed: CustomEvent<{ data: any }>;
+    hlsBufferFlushing: CustomEvent<{ data: any }>;
+    hlsBufferReset: CustomEvent<{ data: any }>;
+    hlsCuesParsed: CustomEvent<{ data: any }>;
+    hlsDestroying: CustomEvent<{ data: any }>;
+    hlsError: CustomEvent<{ data: any }>;
+    hlsFpsDrop: CustomEvent<{ data: any }>;
+    hlsFpsDropLevelCapping: CustomEvent<{ data: any }>;
+    hlsFragBuffered: CustomEvent<{ data: any }>;
+    hlsFragChanged: CustomEvent<{ data: any }>;
+    hlsFragDecrypted: CustomEvent<{ data: any }>;
+    hlsFragLoaded: CustomEvent<{ data: any }>;
+    hlsFragLoadEmergencyAborted: CustomEvent<{ data: any }>;
+    hlsFragLoading: CustomEvent<{ data: any }>;
+    hlsFragParsed: CustomEvent<{ data: any }>;
+    hlsFragParsingInitSegment: CustomEvent<{ data: any }>;
+    hlsFragParsingMetadata: CustomEvent<{ data: any }>;
+    hlsFragParsingUserdata: CustomEvent<{ data: any }>;
+    hlsInitPtsFound: CustomEvent<{ data: any }>;
+    hlsKeyLoaded: CustomEvent<{ data: any }>;
+    hlsKeyLoading: CustomEvent<{ data: any }>;
+    hlsLevelLoaded: CustomEvent<{ data: any }>;
+    hlsLevelLoading: CustomEvent<{ data: any }>;
+    hlsLevelPtsUpdated: CustomEvent<{ data: any }>;
+    hlsLevelsUpdated: CustomEvent<{ data: any }>;
+    hlsLevelSwitched: CustomEvent<{ data: any }>;
+    hlsLevelSwitching: CustomEvent<{ data: any }>;
+    hlsLevelUpdated: CustomEvent<{ data: any }>;
+    hlsLiveBackBufferReached: CustomEvent<{ data: any }>;
+    hlsManifestLoaded: CustomEvent<{ data: any }>;
+    hlsManifestLoading: CustomEvent<{ data: any }>;
+    hlsManifestParsed: CustomEvent<{ data: any }>;
+    hlsMediaAttached: CustomEvent<{ data: any }>;
+    hlsMediaAttaching: CustomEvent<{ data: any }>;
+    hlsMediaDetached: CustomEvent<{ data: any }>;
+    hlsMediaDetaching: CustomEvent<{ data: any }>;
+    hlsNonNativeTextTracksFound: CustomEvent<{ data: any }>;
+    hlsSubtitleFragProcessed: CustomEvent<{ data: any }>;
+    hlsSubtitleTrackLoaded: CustomEvent<{ data: any }>;
+    hlsSubtitleTrackLoading: CustomEvent<{ data: any }>;
+    hlsSubtitleTracksUpdated: CustomEvent<{ data: any }>;
+    hlsSubtitleTrackSwitch: CustomEvent<{ data: any }>;
+    levelchanged: CustomEvent<{ label: string, level: number }>;
+    mediaError: CustomEvent<{ data: any }>;
+    metadataready: CustomEvent<{ data: any }>;
+    muxError: CustomEvent<{ data: any }>;
+    networkError: CustomEvent<{ data: any }>;
+    otherError: CustomEvent<{ data: any }>;
+    playerdestroyed: CustomEvent<null>;
+    playererror: CustomEvent<PlayerError>;
+    playlistchanged: CustomEvent<{ current: number, items: PlaylistItem[], repeat: string, shuffle: boolean }>;
+    playlistitemchanged: CustomEvent<{ index: number, item: PlaylistItem }>;
+    sourcefallback: CustomEvent<{ error: PlayerError, from: Source, to: Source }>;
+}
@@ -0,0 +1,13 @@
+/**
+ * Fallback options
+ *
+ * @description An object that stores configuration settings to play the next source available when the current one fails.
+ * @interface FallbackOptions
+ * @export
+ */
+export default interface FallbackOptions {
+    /**
+     * Flag to load the next source of the list automatically after a playback error.
+     */
+    readonly enabled?: boolean;
+}
@@ -0,0 +1,18 @@
+/**
+ * Keyboard options
+ *
+ * @description An object that stores configuration settings for the keyboard shortcuts of the player.
+ * @interface KeyboardOptions
+ * @export
+ */
+export default interface KeyboardOptions {
+    /**
+     * Flag to enable the keyboard shortcuts.
+     */
+    readonly enabled?: boolean;
+    /**
+     * Keys assigned to each action (using the values of `KeyboardEvent.key`, i.e., `k`, `ArrowLeft` or ` `);
+     * actions set to `false` are disabled.
+     */
+    readonly bindings?: { [action: string]: string | string[] | false };
+}
@@ -0,0 +1,25 @@
+/**
+ * Keyboard shortcut
+ *
+ * @description An object that stores an action that can be executed using the keyboard.
+ * @interface Shortcut
+ * @export
+ */
+export default interface Shortcut {
+    /**
+     * Identifier of the action (i.e., `togglePlay`).
+     */
+    readonly action: string;
+    /**
+     * Description of the action to be displayed in the list of shortcuts.
+     */
+    readonly label: string;
+    /**
+     * Keys that execute the action (using the values of `KeyboardEvent.key`).
+     */
+    readonly keys: string[];
+    /**
+     * Callback to execute the action; it receives the keyboard event.
+     */
+    callback(event: KeyboardEvent): void;
+}
@@ -1,10 +1,19 @@
 import { default as AdsOptions } from './ads/options';
 import DashOptions from './dash-options';
+import ErrorScreenOptions from './error-screen-options';
+import FallbackOptions from './fallback-options';
+import KeyboardOptions from './keyboard/options';
+import PlaylistOptions from './playlist/options';
+import Plugin from './plugin';
+import PreferencesOptions from './preferences/options';
+import ResumeOptions from './resume/options';
+import SsaiOptions from './ssai-options';
+import TranscriptOptions from './transcript-options';
 
 /**
  * Player options
  *
- * @description An object that stores potential configuration for Ads, HLS and M(PEG)-DASH players, among others.
+ * @description An object that stores potential configuration for Ads, HLS (and its stitched Ads) and M(PEG)-DASH players, among others.
  * @interface PlayerOptions
  * @export
  */
@@ -12,5 +21,14 @@ export default interface PlayerOptions {
     readonly dash?: DashOptions;
     readonly hls?: object;
     readonly ads?: AdsOptions;
+    readonly errorScreen?: ErrorScreenOptions;
+    readonly fallback?: FallbackOptions;
+    readonly keyboard?: KeyboardOptions;
+    readonly playlist?: PlaylistOptions;
+    readonly plugins?: Plugin[];
+    readonly preferences?: PreferencesOptions;
+    readonly resume?: ResumeOptions;
+    readonly ssai?: SsaiOptions;
+    readonly transcript?: TranscriptOptions;
     [key: string]: any;
 }
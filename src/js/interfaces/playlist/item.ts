@@ -0,0 +1,42 @@
+import Track from '../captions/track';
+import Source from '../source';
+
+/**
+ * Playlist item
+ *
+ * @description An object that stores the media (and its related assets) to be played as part of a playlist.
+ * @interface PlaylistItem
+ * @export
+ */
+export default interface PlaylistItem {
+    /**
+     * Collection of media sources; the first one that can be played will be used.
+     */
+    readonly sources: Source[];
+    /**
+     * Image to be displayed before media starts playing (video only).
+     */
+    readonly poster?: string;
+    /**
+     * Text to identify the item (i.e., the episode's name).
+     */
+    readonly title?: string;
+    /**
+     * Duration of media in seconds, if known in advance.
+     */
+    readonly duration?: number;
+    /**
+     * List of `track` tags to be appended to the video/audio tag when the item is loaded.
+     */
+    readonly captions?: Track[];
+    /**
+     * Ad or collection of Ads to be played along with the item.
+     */
+    readonly ads?: string | string[];
+    /**
+     * Key to save the position where the viewer left off (by default, the URL of its source).
+     */
+    readonly id?: string;
+
+    [key: string]: any;
+}
@@ -0,0 +1,32 @@
+import PlaylistItem from './item';
+
+/**
+ * Playlist options
+ *
+ * @description An object that stores the initial queue and the playback modes of a playlist.
+ * @interface PlaylistOptions
+ * @export
+ */
+export default interface PlaylistOptions {
+    /**
+     * If `true`, the next item will be played automatically once the current one has ended.
+     */
+    readonly autoAdvance: boolean;
+    /**
+     * Initial list of items to be played.
+     */
+    readonly items: PlaylistItem[];
+    /**
+     * Possible values:
+     *  - `none`: stop once the last item has ended
+     *  - `one`: replay the current item
+     *  - `all`: play the first item once the last one has ended
+     */
+    readonly repeat: string;
+    /**
+     * If `true`, items will be played in random order.
+     */
+    readonly shuffle: boolean;
+
+    [key: string]: any;
+}
@@ -0,0 +1,42 @@
+import Player from '../player';
+import Source from './source';
+
+/**
+ * Plugin
+ *
+ * @description An object that extends the player, hooking into its lifecycle. Plugins can be registered
+ * for all the players via `Player.use()` or for a specific one via the `plugins` option.
+ * @interface Plugin
+ * @export
+ */
+export default interface Plugin {
+    /**
+     * Unique name of the plugin; a plugin set in `plugins` option replaces the global one with the same name.
+     */
+    readonly name: string;
+    /**
+     * Executed before the markup of the player is created.
+     */
+    beforeInit?(player: Player): void;
+    /**
+     * Executed once the player is ready; the place to add controls, settings entries and keyboard shortcuts.
+     */
+    afterInit?(player: Player): void;
+    /**
+     * Executed before media starts loading.
+     */
+    beforeLoad?(player: Player): void;
+    /**
+     * Executed every time a new list of sources is assigned to the player.
+     */
+    sourceChange?(player: Player, sources: Source[]): void;
+    /**
+     * Executed before the player is destroyed, to remove everything the plugin created.
+     */
+    beforeDestroy?(player: Player): void;
+}
+
+/**
+ * The lifecycle hooks of a plugin, indexed by their name.
+ */
+export type PluginHooks = Required<Omit<Plugin, 'name'>>;
@@ -0,0 +1,19 @@
+import PreferencesStorage from './storage';
+
+/**
+ * Preferences options
+ *
+ * @description An object that stores configuration settings to remember the choices of the viewer across sessions.
+ * @interface PreferencesOptions
+ * @export
+ */
+export default interface PreferencesOptions {
+    /**
+     * Flag to save the volume, speed, captions language and quality chosen, and apply them when the player is created.
+     */
+    readonly enabled?: boolean;
+    /**
+     * Adapter to save the preferences (by default, `localStorage`).
+     */
+    readonly storage?: PreferencesStorage;
+}
@@ -0,0 +1,20 @@
+import UserPreferences from './user';
+
+/**
+ * Preferences storage
+ *
+ * @description An adapter to save the preferences of the viewer (i.e., in `localStorage` or a user profile).
+ * Any of its methods can return a Promise if the operation is asynchronous.
+ * @interface PreferencesStorage
+ * @export
+ */
+export default interface PreferencesStorage {
+    /**
+     * Retrieve the preferences saved, or `null` if there are none.
+     */
+    get(): UserPreferences | null | Promise<UserPreferences | null>;
+    /**
+     * Save the preferences.
+     */
+    set(preferences: UserPreferences): void | Promise<void>;
+}
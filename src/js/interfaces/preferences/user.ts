@@ -0,0 +1,35 @@
+import CaptionStyle from '../captions/style';
+
+/**
+ * User preferences
+ *
+ * @description An object that stores the last choices made by the viewer, to be applied every time the player is created.
+ * @interface UserPreferences
+ * @export
+ */
+export default interface UserPreferences {
+    /**
+     * Volume of media (from 0 to 1).
+     */
+    volume?: number;
+    /**
+     * Flag to indicate if media is muted.
+     */
+    muted?: boolean;
+    /**
+     * Speed of media.
+     */
+    playbackRate?: number;
+    /**
+     * Language of the captions displayed (`off` if captions were turned off).
+     */
+    captions?: string;
+    /**
+     * Appearance of the captions (font, colours and edges).
+     */
+    captionStyle?: CaptionStyle;
+    /**
+     * Maximum height of the quality level to be played (`-1` for automatic selection).
+     */
+    quality?: number;
+}
@@ -0,0 +1,39 @@
+import ResumeStorage from './storage';
+
+/**
+ * Resume options
+ *
+ * @description An object that stores configuration settings to resume media from the position where it was left off.
+ * @interface ResumeOptions
+ * @export
+ */
+export default interface ResumeOptions {
+    /**
+     * Flag to save the position reached and resume from it the next time media is loaded.
+     */
+    readonly enabled?: boolean;
+    /**
+     * Key to identify the media (by default, the URL of its source); playlist items can set their own `id`.
+     */
+    readonly id?: string;
+    /**
+     * Number of seconds between every save while media is playing.
+     */
+    readonly interval?: number;
+    /**
+     * Positions lower than this number of seconds are not resumed.
+     */
+    readonly minTime?: number;
+    /**
+     * Positions in the last number of seconds of media are not resumed (media is considered as finished).
+     */
+    readonly ignoreLast?: number;
+    /**
+     * Flag to let the viewer choose between resuming or starting over; if `false`, media is resumed automatically.
+     */
+    readonly prompt?: boolean;
+    /**
+     * Adapter to save the positions (by default, `localStorage`).
+     */
+    readonly storage?: ResumeStorage;
+}
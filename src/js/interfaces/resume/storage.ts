@@ -0,0 +1,22 @@
+/**
+ * Resume storage
+ *
+ * @description An adapter to save the positions where viewers left off (i.e., in `localStorage` or a remote service).
+ * Any of its methods can return a Promise if the operation is asynchronous.
+ * @interface ResumeStorage
+ * @export
+ */
+export default interface ResumeStorage {
+    /**
+     * Retrieve the position (in seconds) saved for a media key, or `null` if there is none.
+     */
+    get(key: string): number | null | Promise<number | null>;
+    /**
+     * Save the position (in seconds) reached for a media key.
+     */
+    set(key: string, time: number): void | Promise<void>;
+    /**
+     * Remove the position saved for a media key.
+     */
+    remove(key: string): void | Promise<void>;
+}
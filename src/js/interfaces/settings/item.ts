@@ -34,4 +34,9 @@ export default interface SettingsItem {
      * List of elements to generate a submenu linked to item.
      */
     subitems?: SettingsSubItem[];
+    /**
+     * Callback to execute when one of the subitems is selected (it receives the subitem's key and, for the
+     * options of nested submenus, the key of the subitem they belong to).
+     */
+    change?(value: string, group?: string): void;
 }
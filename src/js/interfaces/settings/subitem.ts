@@ -10,4 +10,12 @@
 export default interface SettingsSubItem {
     key: string;
     label: string;
+    /**
+     * List of options to generate a nested submenu for this subitem (i.e., the properties of a group).
+     */
+    subitems?: SettingsSubItem[];
+    /**
+     * Key of the option of the nested submenu selected initially.
+     */
+    default?: string;
 }
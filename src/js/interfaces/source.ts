@@ -8,4 +8,12 @@
 export default interface Source {
     src: string;
     type: string;
+    /**
+     * Text to identify the source (i.e., the `#EXTINF` title of an M3U entry).
+     */
+    title?: string;
+    /**
+     * Duration of the source in seconds, if known in advance.
+     */
+    duration?: number;
 }
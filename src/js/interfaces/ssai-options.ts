@@ -0,0 +1,17 @@
+/**
+ * SSAI options
+ *
+ * @description An object that stores configuration settings for the Ad breaks stitched in HLS live streams
+ * @interface SsaiOptions
+ * @export
+ */
+export default interface SsaiOptions {
+    /**
+     * Flag to switch the UI into the Ad state (`op-ads--active` class) while a break is playing.
+     */
+    readonly adState?: boolean;
+    /**
+     * Flag to prevent seeking while a break is playing.
+     */
+    readonly blockSeeking?: boolean;
+}
@@ -0,0 +1,22 @@
+/**
+ * Transcript options
+ *
+ * @description An object that stores configuration settings for the transcript generated from the captions' cues.
+ * @interface TranscriptOptions
+ * @export
+ */
+export default interface TranscriptOptions {
+    /**
+     * Flag to display the transcript of the current captions.
+     */
+    readonly enabled?: boolean;
+    /**
+     * Element (or CSS selector of the element) where the transcript will be rendered; if not set,
+     * it is displayed inside the player.
+     */
+    readonly container?: HTMLElement | string;
+    /**
+     * Flag to scroll the transcript automatically to the cue being spoken.
+     */
+    readonly autoScroll?: boolean;
+}
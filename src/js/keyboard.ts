@@ -0,0 +1,327 @@
+import EventsList from './interfaces/events-list';
+import KeyboardOptions from './interfaces/keyboard/options';
+import Shortcut from './interfaces/keyboard/shortcut';
+import Player from './player';
+import { EVENT_OPTIONS } from './utils/constants';
+import { removeElement } from './utils/general';
+
+/**
+ * Keys assigned by default to the actions registered by the player and its controls.
+ */
+const DEFAULT_BINDINGS: { [action: string]: string[] } = {
+    forward: ['l'],
+    help: ['?'],
+    rewind: ['j'],
+    seekBackward: ['ArrowLeft'],
+    seekEnd: ['End'],
+    seekForward: ['ArrowRight'],
+    seekPercent: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+    seekStart: ['Home'],
+    speedDown: ['<'],
+    speedUp: ['>'],
+    toggleCaptions: ['c'],
+    toggleFullscreen: ['f'],
+    toggleMute: ['m'],
+    togglePlay: ['k', ' ', 'Enter'],
+    toggleTranscript: ['t'],
+    volumeDown: ['ArrowDown'],
+    volumeUp: ['ArrowUp'],
+};
+
+/**
+ * Key names used by legacy browsers, and their standard equivalents.
+ */
+const LEGACY_KEYS: { [key: string]: string } = {
+    Down: 'ArrowDown',
+    Esc: 'Escape',
+    Left: 'ArrowLeft',
+    Right: 'ArrowRight',
+    Spacebar: ' ',
+    Up: 'ArrowUp',
+};
+
+/**
+ * Keyboard element.
+ *
+ * @description This class keeps a registry of the actions that can be executed using the keyboard
+ * (registered by the player, its controls and custom controls), executes them when their keys are pressed
+ * within the player, and displays the list of shortcuts available in an overlay (`?` key).
+ * Keys can be reassigned or disabled using the `keyboard.bindings` option.
+ * @class Keyboard
+ */
+class Keyboard {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof Keyboard
+     */
+    #player: Player;
+
+    /**
+     * Keyboard configuration.
+     *
+     * @private
+     * @type KeyboardOptions
+     * @memberof Keyboard
+     */
+    #options: KeyboardOptions;
+
+    /**
+     * Actions registered, indexed by their identifier.
+     *
+     * @private
+     * @type object
+     * @memberof Keyboard
+     */
+    #shortcuts: { [action: string]: Shortcut } = {};
+
+    /**
+     * Element to display the list of shortcuts available.
+     *
+     * @private
+     * @type HTMLDivElement
+     * @memberof Keyboard
+     */
+    #help?: HTMLDivElement;
+
+    /**
+     * Events that will be triggered in Keyboard element:
+     *  - container (to execute the actions when their keys are pressed)
+     *
+     * @private
+     * @type EventsList
+     * @memberof Keyboard
+     */
+    #events: EventsList = {
+        container: {},
+    };
+
+    /**
+     * Create an instance of Keyboard.
+     *
+     * @param {Player} player
+     * @param {?KeyboardOptions} options
+     * @returns {Keyboard}
+     * @memberof Keyboard
+     */
+    constructor(player: Player, options?: KeyboardOptions) {
+        const defaultOpts: KeyboardOptions = {
+            bindings: {},
+            enabled: true,
+        };
+        this.#player = player;
+        this.#options = { ...defaultOpts, ...options };
+        return this;
+    }
+
+    /**
+     * Set the event to execute the actions and register the one to display the list of shortcuts.
+     *
+     * @memberof Keyboard
+     */
+    public create(): void {
+        this.register('help', this.toggleHelp.bind(this), this.#player.getOptions().labels.keyboardShortcuts);
+
+        this.#events.container.keydown = this._keydown.bind(this);
+        const container = this.#player.getContainer();
+        Object.keys(this.#events.container).forEach(event => {
+            container.addEventListener(event, this.#events.container[event], EVENT_OPTIONS);
+        });
+    }
+
+    /**
+     * Remove the event and the overlay associated with the shortcuts.
+     *
+     * @memberof Keyboard
+     */
+    public destroy(): void {
+        const container = this.#player.getContainer();
+        Object.keys(this.#events.container).forEach(event => {
+            container.removeEventListener(event, this.#events.container[event]);
+        });
+        this._hideHelp();
+        this.#shortcuts = {};
+    }
+
+    /**
+     * Add (or replace) an action that can be executed using the keyboard.
+     *
+     * The keys set in `keyboard.bindings` for the action take precedence over the ones passed here,
+     * and those over the default ones.
+     * @param {string} action  Identifier of the action.
+     * @param {Function} callback  Function to execute the action; it receives the keyboard event.
+     * @param {string} label  Description of the action.
+     * @param {?string[]} keys  Values of `KeyboardEvent.key` that execute the action.
+     * @memberof Keyboard
+     */
+    public register(action: string, callback: (event: KeyboardEvent) => void, label: string, keys?: string[]): void {
+        const { bindings } = this.#options;
+        const binding = bindings ? bindings[action] : undefined;
+        let list = keys || DEFAULT_BINDINGS[action] || [];
+        if (binding === false) {
+            list = [];
+        } else if (binding !== undefined) {
+            list = Array.isArray(binding) ? binding : [binding];
+        }
+        this.#shortcuts[action] = { action, callback, keys: list.map(key => this._normalize(key)), label };
+    }
+
+    /**
+     * Remove an action from the registry.
+     *
+     * @param {string} action
+     * @memberof Keyboard
+     */
+    public unregister(action: string): void {
+        delete this.#shortcuts[action];
+    }
+
+    /**
+     * Retrieve the actions that have keys assigned.
+     *
+     * @returns {Shortcut[]}
+     * @memberof Keyboard
+     */
+    public getShortcuts(): Shortcut[] {
+        return Object.keys(this.#shortcuts).map(action => this.#shortcuts[action]).filter(shortcut => shortcut.keys.length > 0);
+    }
+
+    /**
+     * Display/hide the list of shortcuts available.
+     *
+     * @memberof Keyboard
+     */
+    public toggleHelp(): void {
+        if (this.#help) {
+            this._hideHelp();
+            this.#player.getContainer().focus();
+            return;
+        }
+
+        const { labels } = this.#player.getOptions();
+        this.#help = document.createElement('div');
+        this.#help.className = 'op-shortcuts';
+        this.#help.tabIndex = -1;
+        this.#help.setAttribute('role', 'dialog');
+        this.#help.setAttribute('aria-modal', 'true');
+        this.#help.setAttribute('aria-labelledby', `${this.#player.id}-shortcuts`);
+
+        const title = document.createElement('div');
+        title.className = 'op-shortcuts__title';
+        title.id = `${this.#player.id}-shortcuts`;
+        title.textContent = labels.keyboardShortcuts;
+        this.#help.appendChild(title);
+
+        const close = document.createElement('button');
+        close.className = 'op-shortcuts__close';
+        close.type = 'button';
+        close.setAttribute('aria-label', labels.close);
+        close.innerHTML = '&times;';
+        close.addEventListener('click', this.toggleHelp.bind(this), EVENT_OPTIONS);
+        this.#help.appendChild(close);
+
+        const list = document.createElement('dl');
+        list.className = 'op-shortcuts__list';
+        this.getShortcuts().forEach(shortcut => {
+            const keys = document.createElement('dt');
+            shortcut.keys.forEach(key => {
+                const kbd = document.createElement('kbd');
+                kbd.textContent = this._getKeyLabel(key);
+                keys.appendChild(kbd);
+            });
+            const description = document.createElement('dd');
+            description.textContent = shortcut.label;
+            list.appendChild(keys);
+            list.appendChild(description);
+        });
+        this.#help.appendChild(list);
+
+        this.#player.getContainer().appendChild(this.#help);
+        this.#help.focus();
+    }
+
+    /**
+     * Execute the action assigned to the key pressed, unless user is typing or activating a button.
+     *
+     * @private
+     * @param {KeyboardEvent} e
+     * @memberof Keyboard
+     */
+    private _keydown(e: KeyboardEvent): void {
+        if (!this.#options.enabled || e.ctrlKey || e.metaKey || e.altKey) {
+            return;
+        }
+
+        const key = this._normalize(e.key || '');
+        if (key === 'Escape' && this.#help) {
+            this.toggleHelp();
+            e.preventDefault();
+            return;
+        }
+
+        const target = e.target as HTMLElement;
+        const tag = target && target.tagName ? target.tagName.toLowerCase() : '';
+        const isTyping = (tag === 'input' && (target as HTMLInputElement).type !== 'range') ||
+            tag === 'textarea' || tag === 'select' || (target && target.isContentEditable);
+        const isActivating = (key === ' ' || key === 'Enter') &&
+            (tag === 'button' || tag === 'a' || (target && /^menuitem/.test(target.getAttribute('role') || '')));
+        if (isTyping || isActivating) {
+            return;
+        }
+
+        const shortcut = this.getShortcuts().find(item => item.keys.indexOf(key) > -1);
+        if (shortcut) {
+            shortcut.callback(e);
+            e.preventDefault();
+        }
+    }
+
+    /**
+     * Remove the list of shortcuts, if visible.
+     *
+     * @private
+     * @memberof Keyboard
+     */
+    private _hideHelp(): void {
+        if (this.#help) {
+            removeElement(this.#help);
+            this.#help = undefined;
+        }
+    }
+
+    /**
+     * Convert a key into its standard name (lower case for letters).
+     *
+     * @private
+     * @param {string} key
+     * @returns {string}
+     * @memberof Keyboard
+     */
+    private _normalize(key: string): string {
+        const name = LEGACY_KEYS[key] || key;
+        return name.length === 1 ? name.toLowerCase() : name;
+    }
+
+    /**
+     * Obtain the text to display a key in the list of shortcuts.
+     *
+     * @private
+     * @param {string} key
+     * @returns {string}
+     * @memberof Keyboard
+     */
+    private _getKeyLabel(key: string): string {
+        const names: { [key: string]: string } = {
+            ' ': 'Space',
+            'ArrowDown': '↓',
+            'ArrowLeft': '←',
+            'ArrowRight': '→',
+            'ArrowUp': '↑',
+        };
+        return names[key] || (key.length === 1 ? key.toUpperCase() : key);
+    }
+}
+
+export default Keyboard;
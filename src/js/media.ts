@@ -235,6 +235,36 @@ class Media {
         this.#media.destroy();
     }
 
+    /**
+     * Load the next source of the list that can be played, skipping the current one (i.e., because it failed).
+     * If none of them can be played, the current one remains loaded.
+     *
+     * @see [[Fallback]]
+     * @returns {Source|null} The source loaded, or `null` if there are no more sources to try.
+     * @memberof Media
+     */
+    public fallback(): Source | null {
+        const index = this.#files.indexOf(this.#currentSrc);
+        if (index < 0) {
+            return null;
+        }
+
+        const next = this.#files.slice(index + 1).find(media => this._loadSource(media));
+        return next || null;
+    }
+
+    /**
+     * Load again the current source (i.e., to retry after an error).
+     *
+     * @see [[ErrorScreen]]
+     * @memberof Media
+     */
+    public reload(): void {
+        if (this.#currentSrc) {
+            this._loadSource(this.#currentSrc);
+        }
+    }
+
     /**
      * Set one or more media sources.
      *
@@ -254,9 +284,12 @@ class Media {
             this.#files.push(media);
         }
 
-        this.#files.some(file => {
-            return this.canPlayType(file.type);
-        });
+        // Media could have not been loaded yet (i.e., `preload="none"`)
+        if (this.#media) {
+            this.#files.some(file => {
+                return this.canPlayType(file.type);
+            });
+        }
 
         // Save copy of original file to restore it when player is destroyed
         if (this.#element.src) {
@@ -264,7 +297,9 @@ class Media {
         }
 
         this.#element.src = this.#files[0].src;
-        this.#media.src = this.#files[0];
+        if (this.#media) {
+            this.#media.src = this.#files[0];
+        }
         this.#currentSrc = this.#files[0];
     }
 
@@ -562,6 +597,47 @@ class Media {
         return mediaFiles;
     }
 
+    /**
+     * Replace the current media type with the one needed to play a source, and load it.
+     *
+     * The current media type is only destroyed once the new one is able to play the source, so it
+     * remains attached to the element otherwise.
+     *
+     * @private
+     * @param {Source} media
+     * @returns {boolean} `false` if the source cannot be played.
+     * @memberof Media
+     */
+    private _loadSource(media: Source): boolean {
+        const currentSrc = this.#currentSrc;
+        let candidate: HlsMedia | DashMedia | HTML5Media | any;
+        try {
+            candidate = this._invoke(media);
+        } catch (e) {
+            candidate = new HTML5Media(this.#element, media);
+        }
+        if (!candidate.canPlayType(media.type)) {
+            if (typeof candidate.destroy === 'function') {
+                candidate.destroy();
+            }
+            this.#currentSrc = currentSrc;
+            return false;
+        }
+
+        if (this.#media && typeof this.#media.destroy === 'function') {
+            this.#media.destroy();
+        }
+        this.#media = candidate;
+        // Native media needs the new URL; streaming libraries attach their own source to the element
+        if (this.#media instanceof HTML5Media) {
+            this.#element.src = media.src;
+        }
+        this.#media.promise.then(() => {
+            this.#media.load();
+        });
+        return true;
+    }
+
     /**
      * Instantiate media object according to current media type.
      *
@@ -603,7 +679,8 @@ class Media {
                 return new HTML5Media(this.#element, media);
             }
             const hlsOptions = this.#options && this.#options.hls ? this.#options.hls : undefined;
-            return new HlsMedia(this.#element, media, this.#autoplay, hlsOptions);
+            const ssaiOptions = this.#options && this.#options.ssai ? this.#options.ssai : undefined;
+            return new HlsMedia(this.#element, media, this.#autoplay, hlsOptions, ssaiOptions);
         } else if (source.isDashSource(media)) {
             const dashOptions = this.#options && this.#options.dash ? this.#options.dash : undefined;
             return new DashMedia(this.#element, media, dashOptions);
@@ -1,17 +1,26 @@
+import Companion from '../interfaces/ads/companion';
 import Options from '../interfaces/ads/options';
+import AdPod from '../interfaces/ads/pod';
+import TagReport from '../interfaces/ads/tag-report';
 import Source from '../interfaces/source';
 import Media from '../media';
 import Player from '../player';
 import { EVENT_OPTIONS, IS_ANDROID, IS_IOS, IS_IPHONE } from '../utils/constants';
 import { addEvent } from '../utils/events';
 import { isVideo, isXml, loadScript, removeElement } from '../utils/general';
+import { formatTime } from '../utils/time';
+import { createSandbox, formatOffset } from '../utils/vast';
+import Tracker from './tracker';
+import Vast from './vast';
+import AdError from './vast/ad-error';
 
 declare const google: any;
 
 /**
  * Ads Media.
  *
- * @description This class implements Google IMA SDK v3.0 to display VAST and VPAID advertisements
+ * @description This class implements Google IMA SDK v3.0 to display VAST and VPAID advertisements,
+ * or OpenPlayer's own VAST engine (which has the same API) if `engine` is set as `vast`
  * @see https://developers.google.com/interactive-media-ads/
  * @class Ads
  */
@@ -74,7 +83,7 @@ class Ads {
     #adsMuted: boolean = false;
 
     /**
-     * Store the current Ad's duration.
+     * Store the duration of the current Ad pod (or Ad, if it is not part of a pod).
      *
      * @type number
      * @memberof Ads
@@ -82,7 +91,7 @@ class Ads {
     #adsDuration: number = 0;
 
     /**
-     * Store the current Ad's current time position to be passed in the `timeupdate` event.
+     * Store the time remaining in the current Ad pod to be passed in the `timeupdate` event.
      *
      * @type number
      * @memberof Ads
@@ -139,6 +148,15 @@ class Ads {
      */
     #ads: string | string[];
 
+    /**
+     * The library that loads and plays Ads: IMA SDK (`google.ima`) or OpenPlayer's VAST engine.
+     *
+     * @private
+     * @type google.ima|Vast
+     * @memberof Ads
+     */
+    #sdk: any;
+
     /**
      * Promise to start all IMA SDK elements, once the library has been loaded.
      *
@@ -173,6 +191,79 @@ class Ads {
      */
     #adsCustomClickContainer?: HTMLDivElement;
 
+    /**
+     * Element to display the countdown and the skip button of linear Ads.
+     *
+     * @private
+     * @type HTMLDivElement
+     * @memberof Ads
+     */
+    #adsOverlay?: HTMLDivElement;
+
+    /**
+     * Element to display the position of the current Ad and its remaining time.
+     *
+     * @private
+     * @type HTMLSpanElement
+     * @memberof Ads
+     */
+    #adsCountdown?: HTMLSpanElement;
+
+    /**
+     * Button to skip the current Ad.
+     *
+     * @private
+     * @type HTMLButtonElement
+     * @memberof Ads
+     */
+    #adsSkipButton?: HTMLButtonElement;
+
+    /**
+     * The linear Ad being played.
+     *
+     * @private
+     * @type google.ima.Ad
+     * @memberof Ads
+     */
+    #currentAd: any = null;
+
+    /**
+     * Number of seconds after which the current Ad can be skipped via the skip button; `-1` if it cannot be skipped.
+     *
+     * @private
+     * @type number
+     * @memberof Ads
+     */
+    #skipOffset: number = -1;
+
+    /**
+     * Seconds of the current Ad pod played before the current Ad.
+     *
+     * @private
+     * @type number
+     * @memberof Ads
+     */
+    #podOffset: number = 0;
+
+    /**
+     * Flag to indicate that the breaks are scheduled by the Ad rules of IMA SDK (i.e., a VMAP document),
+     * so the Ad policy must be checked before each one of them starts.
+     *
+     * @private
+     * @type boolean
+     * @memberof Ads
+     */
+    #adRules: boolean = false;
+
+    /**
+     * Progress of the current Ad pod.
+     *
+     * @private
+     * @type AdPod|null
+     * @memberof Ads
+     */
+    #pod: AdPod | null = null;
+
     /**
      * Container to display Ads.
      *
@@ -281,6 +372,42 @@ class Ads {
      */
     #mediaStarted: boolean = false;
 
+    /**
+     * Outcome of each one of the Ad tags requested.
+     *
+     * @private
+     * @type TagReport[]
+     * @memberof Ads
+     */
+    #report: TagReport[] = [];
+
+    /**
+     * Flag to indicate that `adswaterfallcomplete` has been dispatched.
+     *
+     * @private
+     * @type boolean
+     * @memberof Ads
+     */
+    #reported: boolean = false;
+
+    /**
+     * Timer to stop waiting for the Ad tag being requested.
+     *
+     * @private
+     * @type number
+     * @memberof Ads
+     */
+    #requestTimer: number = 0;
+
+    /**
+     * Instance to send the tracking URLs of the Ads played by the VAST engine.
+     *
+     * @private
+     * @type Tracker
+     * @memberof Ads
+     */
+    #tracker: Tracker;
+
     /**
      * Create an instance of Ads.
      *
@@ -295,17 +422,26 @@ class Ads {
     constructor(player: Player, ads: string | string[], autoStart?: boolean, autoStartMuted?: boolean, options?: Options) {
         const defaultOpts: Options = {
             autoPlayAdBreaks: true,
+            bitrate: -1,
+            breaks: [],
+            companions: {},
             customClick: {
                 enabled: false,
                 label: 'Click here for more info',
             },
             debug: false,
             enablePreloading: false,
+            engine: 'ima',
             language: 'en',
             loop: false,
             numRedirects: 4,
+            overlay: false,
+            requestTimeout: 0,
             sdkPath: 'https://imasdk.googleapis.com/js/sdkloader/ima3.js',
+            skipAfter: -1,
             src: [],
+            vmap: '',
+            waterfall: false,
         };
         this.#player = player;
         this.#ads = ads;
@@ -322,17 +458,20 @@ class Ads {
                     defaultOpts[item];
             });
         }
+        this.#tracker = this.#adsOptions.tracker || new Tracker();
         this.#playTriggered = false;
         this.#originalVolume = this.#element.volume;
         this.#adsVolume = this.#originalVolume;
 
+        const useIma = this.#adsOptions.engine !== 'vast';
         const path = this.#adsOptions.debug ? this.#adsOptions.sdkPath.replace(/(\.js$)/, '_debug.js') : this.#adsOptions.sdkPath;
-        this.#promise = (typeof google === 'undefined' || typeof google.ima === 'undefined') ?
+        this.#promise = useIma && (typeof google === 'undefined' || typeof google.ima === 'undefined') ?
             loadScript(path) : new Promise(resolve => {
                 resolve({});
             });
 
         this.#promise.then(() => {
+            this.#sdk = useIma ? google.ima : Vast;
             this.load();
         });
         return this;
@@ -381,30 +520,34 @@ class Ads {
             }
         }
 
+        if (this._hasOverlay()) {
+            this._createOverlay();
+        }
+
         this.#mediaSources = this.#media.src;
 
-        google.ima.settings.setVpaidMode(google.ima.ImaSdkSettings.VpaidMode.ENABLED);
-        google.ima.settings.setDisableCustomPlaybackForIOS10Plus(true);
-        google.ima.settings.setAutoPlayAdBreaks(this.#adsOptions.autoPlayAdBreaks);
-        google.ima.settings.setNumRedirects(this.#adsOptions.numRedirects);
-        google.ima.settings.setLocale(this.#adsOptions.language);
+        this.#sdk.settings.setVpaidMode(this.#sdk.ImaSdkSettings.VpaidMode.ENABLED);
+        this.#sdk.settings.setDisableCustomPlaybackForIOS10Plus(true);
+        this.#sdk.settings.setAutoPlayAdBreaks(this.#adsOptions.autoPlayAdBreaks);
+        this.#sdk.settings.setNumRedirects(this.#adsOptions.numRedirects);
+        this.#sdk.settings.setLocale(this.#adsOptions.language);
 
         this.#adDisplayContainer =
-            new google.ima.AdDisplayContainer(
+            new this.#sdk.AdDisplayContainer(
                 this.#adsContainer,
                 this.#element,
                 this.#adsCustomClickContainer,
             );
 
-        this.#adsLoader = new google.ima.AdsLoader(this.#adDisplayContainer);
+        this.#adsLoader = new this.#sdk.AdsLoader(this.#adDisplayContainer);
         this.#adsLoader.addEventListener(
-            google.ima.AdsManagerLoadedEvent.Type.ADS_MANAGER_LOADED,
+            this.#sdk.AdsManagerLoadedEvent.Type.ADS_MANAGER_LOADED,
             this._loaded.bind(this),
             EVENT_OPTIONS,
         );
 
         this.#adsLoader.addEventListener(
-            google.ima.AdErrorEvent.Type.AD_ERROR,
+            this.#sdk.AdErrorEvent.Type.AD_ERROR,
             this._error.bind(this),
             EVENT_OPTIONS,
         );
@@ -479,6 +622,10 @@ class Ads {
      * @memberof Ads
      */
     public destroy(): void {
+        clearTimeout(this.#requestTimer);
+        this.#requestTimer = 0;
+        this._clearCompanions();
+
         if (this.#events) {
             this.#events.forEach(event => {
                 this.#adsManager.removeEventListener(event, this._assign.bind(this));
@@ -497,11 +644,11 @@ class Ads {
 
         if (this.#adsLoader) {
             this.#adsLoader.removeEventListener(
-                google.ima.AdErrorEvent.Type.AD_ERROR,
+                this.#sdk.AdErrorEvent.Type.AD_ERROR,
                 this._error.bind(this),
             );
             this.#adsLoader.removeEventListener(
-                google.ima.AdsManagerLoadedEvent.Type.ADS_MANAGER_LOADED,
+                this.#sdk.AdsManagerLoadedEvent.Type.ADS_MANAGER_LOADED,
                 this._loaded.bind(this),
             );
         }
@@ -540,7 +687,7 @@ class Ads {
         if (this.#adsManager) {
             const target = this.#element;
             const mode = target.getAttribute('data-fullscreen') === 'true' ?
-                google.ima.ViewMode.FULLSCREEN : google.ima.ViewMode.NORMAL;
+                this.#sdk.ViewMode.FULLSCREEN : this.#sdk.ViewMode.NORMAL;
 
             let timeout;
 
@@ -569,6 +716,37 @@ class Ads {
         return this.#adsManager;
     }
 
+    /**
+     * Retrieve the instance that sends the tracking URLs of the Ads played by the VAST engine.
+     *
+     * @returns {Tracker}
+     * @memberof Ads
+     */
+    public getTracker(): Tracker {
+        return this.#tracker;
+    }
+
+    /**
+     * Retrieve the outcome of each one of the Ad tags of the current list requested so far.
+     *
+     * @returns {TagReport[]}
+     * @memberof Ads
+     */
+    public getReport(): TagReport[] {
+        return this.#report;
+    }
+
+    /**
+     * Retrieve the position of the current Ad in its pod, the number of Ads of the pod,
+     * and the duration and time remaining of the whole pod.
+     *
+     * @returns {AdPod|null}  `null` if no linear Ad is being played.
+     * @memberof Ads
+     */
+    public getPodInfo(): AdPod | null {
+        return this.#pod ? { ...this.#pod } : null;
+    }
+
     /**
      * Flag if the ad has started or not.
      *
@@ -581,6 +759,10 @@ class Ads {
 
     set src(source: string | string[]) {
         this.#ads = source;
+        // A new list of tags starts a new waterfall
+        this.#currentAdsIndex = 0;
+        this.#report = [];
+        this.#reported = false;
     }
 
     /**
@@ -656,7 +838,7 @@ class Ads {
     }
 
     /**
-     * Retrieve the current Ad's current time position.
+     * Retrieve the time remaining in the current Ad pod.
      *
      * @returns {number}
      * @memberof Ads
@@ -666,7 +848,7 @@ class Ads {
     }
 
     /**
-     * Retrieve the current Ad's duration.
+     * Retrieve the duration of the current Ad pod.
      *
      * @returns {number}
      * @memberof Ads
@@ -703,9 +885,12 @@ class Ads {
      */
     private _assign(event: any): void {
         const ad = event.getAd();
+        this._track(event);
         switch (event.type) {
-            case google.ima.AdEvent.Type.LOADED:
+            case this.#sdk.AdEvent.Type.LOADED:
                 if (!ad.isLinear()) {
+                    // Content keeps playing while the overlay is displayed, so it must resume where it was
+                    this.#lastTimePaused = this.#media.currentTime;
                     this._onContentResumeRequested();
                 } else {
                     if (IS_IPHONE && isVideo(this.#element)) {
@@ -724,8 +909,17 @@ class Ads {
                     }
                 }
                 break;
-            case google.ima.AdEvent.Type.STARTED:
+            case this.#sdk.AdEvent.Type.STARTED:
+                this._setTagStatus('filled');
                 if (ad.isLinear()) {
+                    this.#currentAd = ad;
+                    this.#skipOffset = this._getSkipOffset(ad);
+                    if (!ad.getAdPodInfo() || ad.getAdPodInfo().getAdPosition() <= 1) {
+                        this.#podOffset = 0;
+                    }
+                    this._updatePod();
+                    this._updateOverlay();
+                    this._renderCompanions(ad);
                     if (this.#element.parentElement && !this.#element.parentElement.classList.contains('op-ads--active')) {
                         this.#element.parentElement.classList.add('op-ads--active');
                     }
@@ -745,26 +939,27 @@ class Ads {
 
                     if (this.#media.ended) {
                         this.#adsEnded = false;
-                        const endEvent = addEvent('adsmediaended');
+                        const endEvent = addEvent('adsmediaended', { detail: { pod: this.getPodInfo() } });
                         this.#element.dispatchEvent(endEvent);
                     }
 
                     if (typeof window !== 'undefined') {
                         this.#intervalTimer = window.setInterval(() => {
                             if (this.#adsActive === true) {
-                                this.#adsCurrentTime = Math.round(this.#adsManager.getRemainingTime());
+                                this._updatePod();
                                 const timeEvent = addEvent('timeupdate');
                                 this.#element.dispatchEvent(timeEvent);
+                                this._updateOverlay();
                             }
                         }, 350);
                     }
                 }
                 break;
-            case google.ima.AdEvent.Type.COMPLETE:
-            case google.ima.AdEvent.Type.SKIPPED:
+            case this.#sdk.AdEvent.Type.COMPLETE:
+            case this.#sdk.AdEvent.Type.SKIPPED:
                 if (ad.isLinear()) {
-                    if (event.type === google.ima.AdEvent.Type.SKIPPED) {
-                        const skipEvent = addEvent('adsskipped');
+                    if (event.type === this.#sdk.AdEvent.Type.SKIPPED) {
+                        const skipEvent = addEvent('adsskipped', { detail: { pod: this.getPodInfo() } });
                         this.#element.dispatchEvent(skipEvent);
                     }
 
@@ -772,22 +967,34 @@ class Ads {
                         this.#element.parentElement.classList.remove('op-ads--active');
                     }
                     this.#adsActive = false;
+                    this.#podOffset += Math.max(0, ad.getDuration());
                     clearInterval(this.#intervalTimer);
                 }
                 break;
-            case google.ima.AdEvent.Type.VOLUME_CHANGED:
+            case this.#sdk.AdEvent.Type.SKIPPABLE_STATE_CHANGED:
+                this._updateOverlay();
+                break;
+            case this.#sdk.AdEvent.Type.VOLUME_CHANGED:
                 this._setMediaVolume(this.volume);
-            case google.ima.AdEvent.Type.VOLUME_MUTED:
+            case this.#sdk.AdEvent.Type.VOLUME_MUTED:
                 if (ad.isLinear()) {
                     const volumeEvent = addEvent('volumechange');
                     this.#element.dispatchEvent(volumeEvent);
                 }
                 break;
-            case google.ima.AdEvent.Type.ALL_ADS_COMPLETED:
+            case this.#sdk.AdEvent.Type.ALL_ADS_COMPLETED:
                 if (ad.isLinear()) {
                     this.#adsActive = false;
                     this.#adsEnded = true;
+                    clearInterval(this.#intervalTimer);
                     this.#intervalTimer = 0;
+                    this.#currentAd = null;
+                    this.#skipOffset = -1;
+                    this.#pod = null;
+                    this.#podOffset = 0;
+                    if (!this._hasPendingTags()) {
+                        this._completeWaterfall();
+                    }
                     this.#adsMuted = false;
                     this.#adsStarted = false;
                     this.#adsDuration = 0;
@@ -800,9 +1007,11 @@ class Ads {
                         const endedEvent = addEvent('ended');
                         this.#element.dispatchEvent(endedEvent);
                     }
+                } else {
+                    this._completeWaterfall();
                 }
                 break;
-            case google.ima.AdEvent.Type.CLICK:
+            case this.#sdk.AdEvent.Type.CLICK:
                 const pauseEvent = addEvent('pause');
                 this.#element.dispatchEvent(pauseEvent);
                 break;
@@ -812,10 +1021,11 @@ class Ads {
 
         // Assign events prefixed with `ads` to main element so user
         // can listen to these events, except if the system detects a non-fatal error
-        if (event.type === google.ima.AdEvent.Type.LOG) {
+        if (event.type === this.#sdk.AdEvent.Type.LOG) {
             const adData = event.getAdData();
             if (adData.adError) {
                 const message = adData.adError.getMessage();
+                this._setTagStatus(this._getErrorStatus(adData.adError.getErrorCode()), adData.adError.getErrorCode(), message);
                 console.warn(`Ad warning: Non-fatal error occurred: ${message}`);
                 const details = {
                     detail: {
@@ -828,11 +1038,76 @@ class Ads {
                 this.#element.dispatchEvent(errorEvent);
             }
         } else {
-            const e = addEvent(`ads${event.type}`);
+            const e = addEvent(`ads${event.type}`, { detail: { pod: this.getPodInfo() } });
             this.#element.dispatchEvent(e);
         }
     }
 
+    /**
+     * Send the VAST tracking URLs associated with an event of the VAST engine (IMA SDK sends its own).
+     *
+     * @private
+     * @param {any} event
+     * @memberof Ads
+     */
+    private _track(event: any): void {
+        const ad = event.getAd();
+        if (this.#adsOptions.engine !== 'vast' || !ad || typeof ad.getVastData !== 'function') {
+            return;
+        }
+
+        const data = ad.getVastData();
+        const creative = data.linear || data.nonLinear;
+        const trackingEvents = creative ? creative.trackingEvents : {};
+        const macros = { CONTENTPLAYHEAD: formatOffset(this.#media.currentTime) };
+        const Type = this.#sdk.AdEvent.Type;
+        const events: { [type: string]: string } = {
+            [Type.FIRST_QUARTILE]: 'firstQuartile',
+            [Type.MIDPOINT]: 'midpoint',
+            [Type.THIRD_QUARTILE]: 'thirdQuartile',
+            [Type.COMPLETE]: 'complete',
+            [Type.PAUSED]: 'pause',
+            [Type.RESUMED]: 'resume',
+            [Type.SKIPPED]: 'skip',
+            [Type.VOLUME_MUTED]: 'mute',
+            [Type.USER_CLOSE]: data.linear ? 'closeLinear' : 'close',
+        };
+
+        switch (event.type) {
+            case Type.LOADED:
+                this.#tracker.reset();
+                break;
+            case Type.IMPRESSION:
+                this.#tracker.track('impression', data.impressions, macros);
+                break;
+            case Type.STARTED:
+                this.#tracker.track('creativeView', trackingEvents.creativeView || [], macros);
+                if (data.linear) {
+                    this.#tracker.track('start', trackingEvents.start || [], macros);
+                }
+                break;
+            case Type.CLICK:
+                this.#tracker.track('click', creative ? creative.clickTracking : [], macros);
+                break;
+            case Type.VOLUME_CHANGED:
+                if (event.getAdData().unmuted) {
+                    this.#tracker.track('unmute', trackingEvents.unmute || [], macros);
+                }
+                break;
+            case Type.LOG:
+                const adError = event.getAdData().adError;
+                if (adError) {
+                    this.#tracker.track('error', data.errors, { ...macros, ERRORCODE: adError.getErrorCode() });
+                }
+                break;
+            default:
+                if (events[event.type]) {
+                    this.#tracker.track(events[event.type], trackingEvents[events[event.type]] || [], macros);
+                }
+                break;
+        }
+    }
+
     /**
      * Dispatch an IMA SDK error that will destroy the Ads instance and resume original media.
      *
@@ -843,7 +1118,47 @@ class Ads {
      * @memberof Ads
      */
     private _error(event: any): void {
-        const error = event.getError();
+        this._fail(event.getError());
+    }
+
+    /**
+     * Stop waiting for the Ad tag being requested, and handle it as an error.
+     *
+     * @private
+     * @memberof Ads
+     */
+    private _timeout(): void {
+        this.#requestTimer = 0;
+        if (this.#adsLoader) {
+            this.#adsLoader.destroy();
+        }
+        const message = `Ad tag was not loaded after ${this.#adsOptions.requestTimeout}ms`;
+        // IMA SDK does not allow creating its own errors, so a generic one is reported in that case
+        this._fail(this.#adsOptions.engine === 'vast' ? new AdError(301, message) : new Error(message), 'timeout');
+    }
+
+    /**
+     * Report an error that will destroy the Ads instance and resume original media.
+     *
+     * If more than one URL for Ads was found, attempt to play it.
+     *
+     * @private
+     * @param {google.ima.AdError|Error} error  A generic error is only reported if the Ad tag timed out with IMA SDK.
+     * @param {?string} status  The outcome of the tag; if not set, it is determined by the error code.
+     * @memberof Ads
+     */
+    private _fail(error: any, status?: TagReport['status']): void {
+        clearTimeout(this.#requestTimer);
+        this.#requestTimer = 0;
+        const code: number | undefined = typeof error.getErrorCode === 'function' ? error.getErrorCode() : undefined;
+        this._setTagStatus(status || this._getErrorStatus(code), code, error.toString());
+        this._clearCompanions();
+        if (this.#adsOptions.engine === 'vast' && this.#adsLoader && code !== undefined) {
+            // No Ads were loaded, so the error URLs are the ones of the responses parsed (wrappers included)
+            const macros = { CONTENTPLAYHEAD: formatOffset(this.#media.currentTime), ERRORCODE: code };
+            this.#tracker.track('error', this.#adsLoader.getErrorUrls(), macros);
+        }
+
         const details = {
             detail: {
                 data: error,
@@ -870,7 +1185,7 @@ class Ads {
             console.warn(`Ad warning: ${error.toString()}`);
         } else {
             // Unless there's a fatal error, do not destroy the Ads manager
-            if (fatalErrorCodes.indexOf(error.getErrorCode()) > -1) {
+            if (status === 'timeout' || (code !== undefined && fatalErrorCodes.indexOf(code) > -1)) {
                 if (this.#adsManager) {
                     this.#adsManager.destroy();
                 }
@@ -884,6 +1199,7 @@ class Ads {
                 // play Ads, so check if src was set to determine what action to take
                 this._resumeMedia();
             }
+            this._completeWaterfall();
         }
     }
 
@@ -894,9 +1210,19 @@ class Ads {
      * @memberof Ads
      */
     private _loaded(adsManagerLoadedEvent: any): void {
-        const adsRenderingSettings = new google.ima.AdsRenderingSettings();
+        clearTimeout(this.#requestTimer);
+        this.#requestTimer = 0;
+        const adsRenderingSettings = new this.#sdk.AdsRenderingSettings();
         adsRenderingSettings.restoreCustomPlaybackStateOnAdBreakComplete = false;
         adsRenderingSettings.enablePreloading = this.#adsOptions.enablePreloading;
+        adsRenderingSettings.bitrate = this.#adsOptions.bitrate;
+        if (this.#adsOptions.engine === 'vast') {
+            adsRenderingSettings.skipAfter = this.#adsOptions.skipAfter;
+        }
+        if (this.#adsOptions.overlay && this.#adsOptions.engine !== 'vast') {
+            // OpenPlayer's overlay replaces the countdown rendered by IMA SDK
+            adsRenderingSettings.uiElements = [];
+        }
         // Get the ads manager.
         this.#adsManager = adsManagerLoadedEvent.getAdsManager(this.#element, adsRenderingSettings);
         this._start(this.#adsManager);
@@ -910,49 +1236,57 @@ class Ads {
      */
     private _start(manager: any): void {
 
+        // Only Ad rules with mid-rolls are notified, since pre/post-rolls do not need to be marked
+        const cuepoints: number[] = typeof manager.getCuePoints === 'function' ? manager.getCuePoints() : [];
+        this.#adRules = cuepoints.length > 0;
+        if (cuepoints.some(cuepoint => cuepoint > 0)) {
+            const cuePointsEvent = addEvent('adcuepoints', { detail: { cuepoints } });
+            this.#element.dispatchEvent(cuePointsEvent);
+        }
+
         if (this.#adsCustomClickContainer && manager.isCustomClickTrackingUsed()) {
             this.#adsCustomClickContainer.classList.add('op-ads__click-container--visible');
         }
         // Add listeners to the required events.
         manager.addEventListener(
-            google.ima.AdEvent.Type.CONTENT_PAUSE_REQUESTED,
+            this.#sdk.AdEvent.Type.CONTENT_PAUSE_REQUESTED,
             this._onContentPauseRequested.bind(this), EVENT_OPTIONS);
         manager.addEventListener(
-            google.ima.AdEvent.Type.CONTENT_RESUME_REQUESTED,
+            this.#sdk.AdEvent.Type.CONTENT_RESUME_REQUESTED,
             this._onContentResumeRequested.bind(this), EVENT_OPTIONS);
 
         this.#events = [
-            google.ima.AdEvent.Type.ALL_ADS_COMPLETED,
-            google.ima.AdEvent.Type.CLICK,
-            google.ima.AdEvent.Type.VIDEO_CLICKED,
-            google.ima.AdEvent.Type.VIDEO_ICON_CLICKED,
-            google.ima.AdEvent.Type.AD_PROGRESS,
-            google.ima.AdEvent.Type.AD_BUFFERING,
-            google.ima.AdEvent.Type.IMPRESSION,
-            google.ima.AdEvent.Type.DURATION_CHANGE,
-            google.ima.AdEvent.Type.USER_CLOSE,
-            google.ima.AdEvent.Type.LINEAR_CHANGED,
-            google.ima.AdEvent.Type.SKIPPABLE_STATE_CHANGED,
-            google.ima.AdEvent.Type.AD_METADATA,
-            google.ima.AdEvent.Type.INTERACTION,
-            google.ima.AdEvent.Type.COMPLETE,
-            google.ima.AdEvent.Type.FIRST_QUARTILE,
-            google.ima.AdEvent.Type.LOADED,
-            google.ima.AdEvent.Type.MIDPOINT,
-            google.ima.AdEvent.Type.PAUSED,
-            google.ima.AdEvent.Type.RESUMED,
-            google.ima.AdEvent.Type.USER_CLOSE,
-            google.ima.AdEvent.Type.STARTED,
-            google.ima.AdEvent.Type.THIRD_QUARTILE,
-            google.ima.AdEvent.Type.SKIPPED,
-            google.ima.AdEvent.Type.VOLUME_CHANGED,
-            google.ima.AdEvent.Type.VOLUME_MUTED,
-            google.ima.AdEvent.Type.LOG,
+            this.#sdk.AdEvent.Type.ALL_ADS_COMPLETED,
+            this.#sdk.AdEvent.Type.CLICK,
+            this.#sdk.AdEvent.Type.VIDEO_CLICKED,
+            this.#sdk.AdEvent.Type.VIDEO_ICON_CLICKED,
+            this.#sdk.AdEvent.Type.AD_PROGRESS,
+            this.#sdk.AdEvent.Type.AD_BUFFERING,
+            this.#sdk.AdEvent.Type.IMPRESSION,
+            this.#sdk.AdEvent.Type.DURATION_CHANGE,
+            this.#sdk.AdEvent.Type.USER_CLOSE,
+            this.#sdk.AdEvent.Type.LINEAR_CHANGED,
+            this.#sdk.AdEvent.Type.SKIPPABLE_STATE_CHANGED,
+            this.#sdk.AdEvent.Type.AD_METADATA,
+            this.#sdk.AdEvent.Type.INTERACTION,
+            this.#sdk.AdEvent.Type.COMPLETE,
+            this.#sdk.AdEvent.Type.FIRST_QUARTILE,
+            this.#sdk.AdEvent.Type.LOADED,
+            this.#sdk.AdEvent.Type.MIDPOINT,
+            this.#sdk.AdEvent.Type.PAUSED,
+            this.#sdk.AdEvent.Type.RESUMED,
+            this.#sdk.AdEvent.Type.USER_CLOSE,
+            this.#sdk.AdEvent.Type.STARTED,
+            this.#sdk.AdEvent.Type.THIRD_QUARTILE,
+            this.#sdk.AdEvent.Type.SKIPPED,
+            this.#sdk.AdEvent.Type.VOLUME_CHANGED,
+            this.#sdk.AdEvent.Type.VOLUME_MUTED,
+            this.#sdk.AdEvent.Type.LOG,
         ];
 
         if (!this.#adsOptions.autoPlayAdBreaks) {
             // Add it to the events array so it gets removed onDestroy
-            this.#events.push(google.ima.AdEvent.Type.AD_BREAK_READY);
+            this.#events.push(this.#sdk.AdEvent.Type.AD_BREAK_READY);
         }
 
         const controls = this.#player.getControls();
@@ -976,7 +1310,7 @@ class Ads {
                 this.#element.offsetWidth,
                 this.#element.offsetHeight,
                 this.#element.parentElement && this.#element.parentElement.getAttribute('data-fullscreen') === 'true' ?
-                    google.ima.ViewMode.FULLSCREEN : google.ima.ViewMode.NORMAL,
+                    this.#sdk.ViewMode.FULLSCREEN : this.#sdk.ViewMode.NORMAL,
             );
             manager.start();
             const e = addEvent('play');
@@ -988,7 +1322,7 @@ class Ads {
                 this.#element.offsetWidth,
                 this.#element.offsetHeight,
                 this.#element.parentElement && this.#element.parentElement.getAttribute('data-fullscreen') === 'true' ?
-                    google.ima.ViewMode.FULLSCREEN : google.ima.ViewMode.NORMAL,
+                    this.#sdk.ViewMode.FULLSCREEN : this.#sdk.ViewMode.NORMAL,
             );
         }
     }
@@ -1028,6 +1362,13 @@ class Ads {
      * @memberof Ads
      */
     private _onContentPauseRequested(): void {
+        // Breaks from Ad rules are not requested via `Player.loadAd()`, so they must be checked here
+        const policy = this.#adRules && typeof this.#adsManager.discardAdBreak === 'function' ? this.#player.getAdPolicy() : null;
+        if (policy && !policy.check(this.#ads)) {
+            this.#adsManager.discardAdBreak();
+            return;
+        }
+
         this.#element.removeEventListener('ended', this._contentEndedListener.bind(this));
         this.#lastTimePaused = this.#media.currentTime;
 
@@ -1087,7 +1428,7 @@ class Ads {
     private _loadedMetadataHandler() {
         if (Array.isArray(this.#ads)) {
             this.#currentAdsIndex++;
-            if (this.#currentAdsIndex <= this.#ads.length - 1) {
+            if (this.#currentAdsIndex <= this.#ads.length - 1 && !(this.#adsOptions.waterfall && this._isFilled())) {
                 if (this.#adsManager) {
                     this.#adsManager.destroy();
                 }
@@ -1126,6 +1467,8 @@ class Ads {
         this.#adsStarted = false;
         this.#adsDuration = 0;
         this.#adsCurrentTime = 0;
+        this.#pod = null;
+        this.#podOffset = 0;
         if (this.#element.parentElement) {
             this.#element.parentElement.classList.remove('op-ads--active');
         }
@@ -1154,7 +1497,7 @@ class Ads {
      * @memberof Ads
      */
     private _requestAds(): void {
-        this.#adsRequest = new google.ima.AdsRequest();
+        this.#adsRequest = new this.#sdk.AdsRequest();
         const ads = Array.isArray(this.#ads) ? this.#ads[this.#currentAdsIndex] : this.#ads;
 
         if (isXml(ads)) {
@@ -1171,6 +1514,12 @@ class Ads {
         this.#adsRequest.nonLinearAdSlotHeight = height / 3;
         this.#adsRequest.setAdWillAutoPlay(this.#autoStart);
         this.#adsRequest.setAdWillPlayMuted(this.#autoStartMuted);
+
+        this.#report[this.#currentAdsIndex] = { src: ads, status: 'pending', time: new Date().getTime() };
+        clearTimeout(this.#requestTimer);
+        if (this.#adsOptions.requestTimeout > 0 && typeof window !== 'undefined') {
+            this.#requestTimer = window.setTimeout(this._timeout.bind(this), this.#adsOptions.requestTimeout);
+        }
         this.#adsLoader.requestAds(this.#adsRequest);
     }
 
@@ -1216,6 +1565,343 @@ class Ads {
         this._resumeMedia();
     }
 
+    /**
+     * Create the elements to display the countdown and the skip button of linear Ads.
+     *
+     * @private
+     * @memberof Ads
+     */
+    private _createOverlay(): void {
+        this.#adsOverlay = document.createElement('div');
+        this.#adsOverlay.className = 'op-ads__overlay';
+
+        this.#adsCountdown = document.createElement('span');
+        this.#adsCountdown.className = 'op-ads__countdown';
+        this.#adsOverlay.appendChild(this.#adsCountdown);
+
+        this.#adsSkipButton = document.createElement('button');
+        this.#adsSkipButton.className = 'op-ads__skip';
+        this.#adsSkipButton.type = 'button';
+        this.#adsSkipButton.addEventListener('click', this._skip.bind(this), EVENT_OPTIONS);
+        this.#adsOverlay.appendChild(this.#adsSkipButton);
+
+        if (this.#adsContainer) {
+            this.#adsContainer.appendChild(this.#adsOverlay);
+        }
+    }
+
+    /**
+     * Calculate the progress of the current Ad pod, which is used as duration and current time
+     * of the Ads so the time display and progress bar render the whole pod.
+     *
+     * @private
+     * @memberof Ads
+     */
+    private _updatePod(): void {
+        if (!this.#currentAd || !this.#adsManager) {
+            return;
+        }
+
+        const podInfo = this.#currentAd.getAdPodInfo();
+        const adDuration = Math.max(0, this.#currentAd.getDuration());
+        const elapsed = adDuration - Math.max(0, this.#adsManager.getRemainingTime());
+        const position = podInfo ? podInfo.getAdPosition() : 1;
+        const total = podInfo ? podInfo.getTotalAds() : 1;
+        // IMA SDK reports the maximum duration of the pod (`-1` if it is unknown), and the VAST engine the sum of
+        // the durations of its Ads; if it is unknown, only the Ads played so far can be counted
+        const maxDuration = podInfo && typeof podInfo.getMaxDuration === 'function' ? podInfo.getMaxDuration() : -1;
+        const duration = Math.max(maxDuration, this.#podOffset + adDuration);
+        this.#pod = {
+            duration,
+            partial: maxDuration <= 0 && position < total,
+            position,
+            remaining: Math.max(0, duration - this.#podOffset - Math.max(0, elapsed)),
+            total,
+        };
+        this.#adsDuration = duration;
+        this.#adsCurrentTime = Math.round(this.#pod.remaining);
+    }
+
+    /**
+     * Display the position and remaining time of the current Ad, and the status of the skip button.
+     *
+     * @private
+     * @memberof Ads
+     */
+    private _updateOverlay(): void {
+        if (!this.#adsOverlay || !this.#adsCountdown || !this.#adsSkipButton || !this.#adsManager || !this.#currentAd) {
+            return;
+        }
+
+        const { labels } = this.#player.getOptions();
+        const podInfo = this.#currentAd.getAdPodInfo();
+        const total = podInfo ? podInfo.getTotalAds() : 1;
+        const label = total > 1 ?
+            labels.adPosition.replace('%1', podInfo.getAdPosition()).replace('%2', total) : labels.ad;
+        const remaining = Math.max(0, this.#adsManager.getRemainingTime());
+        this.#adsCountdown.textContent = `${label} · ${formatTime(Math.ceil(remaining))}`;
+
+        if (this.#skipOffset < 0) {
+            this.#adsSkipButton.classList.remove('op-ads__skip--visible');
+            return;
+        }
+
+        const duration = this.#currentAd.getDuration();
+        const elapsed = duration > 0 ? duration - remaining : 0;
+        const wait = Math.ceil(this.#skipOffset - elapsed);
+        // IMA SDK decides when Ads can be skipped, so its state is the only one that counts
+        const skippable = this.#adsManager.getAdSkippableState() || (this.#adsOptions.engine === 'vast' && wait <= 0);
+        const text = skippable ? labels.skipAd : labels.skipAdIn.replace('%1', wait);
+        this.#adsSkipButton.disabled = !skippable;
+        this.#adsSkipButton.textContent = text;
+        this.#adsSkipButton.setAttribute('aria-label', text);
+        this.#adsSkipButton.classList.add('op-ads__skip--visible');
+    }
+
+    /**
+     * Check if OpenPlayer's countdown and skip button must be displayed: IMA SDK renders its own
+     * unless `overlay` is enabled, while the VAST engine does not render any.
+     *
+     * @private
+     * @returns {boolean}
+     * @memberof Ads
+     */
+    private _hasOverlay(): boolean {
+        return this.#adsOptions.overlay || this.#adsOptions.engine === 'vast';
+    }
+
+    /**
+     * Determine when the skip button can be used for an Ad.
+     *
+     * Ads can be skipped at their `skipoffset`; if they have none, the VAST engine also allows skipping them
+     * after `skipAfter` seconds, while IMA SDK never allows skipping them.
+     * @private
+     * @param {google.ima.Ad} ad
+     * @returns {number}
+     * @memberof Ads
+     */
+    private _getSkipOffset(ad: any): number {
+        const offset = typeof ad.getSkipTimeOffset === 'function' ? ad.getSkipTimeOffset() : -1;
+        if (offset > -1 || this.#adsOptions.engine !== 'vast') {
+            return offset;
+        }
+        return this.#adsOptions.skipAfter >= 0 ? this.#adsOptions.skipAfter : -1;
+    }
+
+    /**
+     * Skip the current Ad, so the next one of the pod (if any) starts playing.
+     *
+     * Ads that cannot be skipped at this point are never skipped.
+     * @private
+     * @param {Event} e
+     * @memberof Ads
+     */
+    private _skip(e: Event): void {
+        e.preventDefault();
+        e.stopPropagation();
+        if (!this.#adsManager || !this.#adsSkipButton || this.#adsSkipButton.disabled) {
+            return;
+        }
+
+        if (this.#adsManager.getAdSkippableState()) {
+            this.#adsManager.skip();
+        }
+    }
+
+    /**
+     * Display the companion banners of an Ad in the page elements set in the `companions` option,
+     * and notify each one of them via `adscompanion` event.
+     *
+     * @private
+     * @param {google.ima.Ad} ad
+     * @memberof Ads
+     */
+    private _renderCompanions(ad: any): void {
+        if (typeof ad.getCompanionAds !== 'function') {
+            return;
+        }
+
+        Object.keys(this.#adsOptions.companions).forEach(size => {
+            const [width, height] = size.split('x').map(value => parseInt(value, 10));
+            const slot = document.getElementById(this.#adsOptions.companions[size]);
+            if (!slot || !width || !height) {
+                return;
+            }
+
+            const companion = ad.getCompanionAds(width, height)[0];
+            if (!companion) {
+                return;
+            }
+            const content = companion.getContent();
+            const data = typeof companion.getVastData === 'function' ? companion.getVastData() : null;
+            slot.innerHTML = '';
+            slot.appendChild(data && data.resourceType === 'static'
+                ? this._createCompanionImage(data)
+                : createSandbox(content, width, height));
+            if (data) {
+                const macros = { CONTENTPLAYHEAD: formatOffset(this.#media.currentTime) };
+                this.#tracker.track('creativeView', data.trackingEvents.creativeView || [], macros);
+            }
+            const details = {
+                detail: {
+                    content,
+                    contentType: companion.getContentType(),
+                    height,
+                    slot: slot.id,
+                    width,
+                },
+            };
+            const companionEvent = addEvent('adscompanion', details);
+            this.#element.dispatchEvent(companionEvent);
+        });
+    }
+
+    /**
+     * Create the image of a static VAST companion, linked to its click-through URL (if any), that
+     * requests the click tracking URLs every time it is clicked.
+     *
+     * @private
+     * @param {Companion} data
+     * @returns {HTMLElement}
+     * @memberof Ads
+     */
+    private _createCompanionImage(data: Companion): HTMLElement {
+        const image = document.createElement('img');
+        image.src = data.resource;
+        image.width = data.width;
+        image.height = data.height;
+        image.alt = data.altText || '';
+
+        let element: HTMLElement = image;
+        if (data.clickThrough) {
+            const link = document.createElement('a');
+            link.href = data.clickThrough;
+            link.target = '_blank';
+            link.rel = 'noopener';
+            link.appendChild(image);
+            element = link;
+        }
+        element.addEventListener('click', () => {
+            const macros = { CONTENTPLAYHEAD: formatOffset(this.#media.currentTime) };
+            this.#tracker.track('click', data.clickTracking, macros);
+        }, EVENT_OPTIONS);
+        return element;
+    }
+
+    /**
+     * Remove the companion banners from the page elements set in the `companions` option.
+     *
+     * @private
+     * @memberof Ads
+     */
+    private _clearCompanions(): void {
+        Object.keys(this.#adsOptions.companions).forEach(size => {
+            const slot = document.getElementById(this.#adsOptions.companions[size]);
+            if (slot) {
+                slot.innerHTML = '';
+            }
+        });
+    }
+
+    /**
+     * Set the outcome of the Ad tag being played, if it has not been determined yet.
+     *
+     * @private
+     * @param {string} status
+     * @param {?number} code
+     * @param {?string} message
+     * @memberof Ads
+     */
+    private _setTagStatus(status: TagReport['status'], code?: number, message?: string): void {
+        const entry = this.#report[this.#currentAdsIndex];
+        if (!entry || entry.status !== 'pending') {
+            return;
+        }
+        const result: TagReport = { ...entry, status, time: new Date().getTime() - entry.time };
+        if (code !== undefined) {
+            result.code = code;
+        }
+        if (message) {
+            result.message = message;
+        }
+        this.#report[this.#currentAdsIndex] = result;
+    }
+
+    /**
+     * Determine the outcome of an Ad tag based on the code of its error.
+     *
+     * The `timeout` status is not inferred from the code, since the VAST engine also uses the code of
+     * wrapper timeouts (301) when the wrapper's response could not be loaded; it is only set when the
+     * `requestTimeout` expires.
+     *
+     * @see https://support.google.com/admanager/answer/4442429?hl=en
+     * @private
+     * @param {?number} code
+     * @returns {string}
+     * @memberof Ads
+     */
+    private _getErrorStatus(code?: number): TagReport['status'] {
+        if (code === undefined) {
+            return 'error';
+        }
+        if ([1009, 303].indexOf(code) > -1) {
+            return 'empty';
+        }
+        if ([301, 1005, 1012].indexOf(code) > -1) {
+            return 'http';
+        }
+        return code >= 400 && code < 500 ? 'media' : 'error';
+    }
+
+    /**
+     * Check if one of the Ad tags has started playing.
+     *
+     * @private
+     * @returns {boolean}
+     * @memberof Ads
+     */
+    private _isFilled(): boolean {
+        return this.#report.some(entry => entry && entry.status === 'filled');
+    }
+
+    /**
+     * Check if there are Ad tags left to be requested.
+     *
+     * @private
+     * @returns {boolean}
+     * @memberof Ads
+     */
+    private _hasPendingTags(): boolean {
+        return Array.isArray(this.#ads) && this.#currentAdsIndex < this.#ads.length - 1 &&
+            !(this.#adsOptions.waterfall && this._isFilled());
+    }
+
+    /**
+     * Notify the outcome of all the Ad tags requested via `adswaterfallcomplete` event.
+     *
+     * @private
+     * @memberof Ads
+     */
+    private _completeWaterfall(): void {
+        if (this.#reported) {
+            return;
+        }
+        this.#reported = true;
+        this.#report.forEach((entry, index) => {
+            if (entry && entry.status === 'pending') {
+                this.#report[index] = { ...entry, time: new Date().getTime() - entry.time };
+            }
+        });
+        const details = {
+            detail: {
+                filled: this._isFilled(),
+                report: this.#report.filter(entry => !!entry),
+            },
+        };
+        const e = addEvent('adswaterfallcomplete', details);
+        this.#element.dispatchEvent(e);
+    }
+
     private _setMediaVolume(volume: number) {
         this.#media.volume = volume;
         this.#media.muted = volume === 0;
@@ -1,9 +1,12 @@
+import AdMarker from '../interfaces/ads/marker';
 import EventsList from '../interfaces/events-list';
 import Source from '../interfaces/source';
+import SsaiOptions from '../interfaces/ssai-options';
 import { DVR_THRESHOLD, EVENT_OPTIONS, SUPPORTS_HLS } from '../utils/constants';
 import { addEvent } from '../utils/events';
 import { loadScript } from '../utils/general';
 import { isHlsSource } from '../utils/media';
+import { parseAdMarker } from '../utils/scte';
 import Native from './native';
 
 declare const Hls: any;
@@ -68,16 +71,56 @@ class HlsMedia extends Native {
      */
     #autoplay: boolean;
 
+    /**
+     * Configuration of the Ad breaks stitched in the stream.
+     *
+     * @private
+     * @type SsaiOptions
+     * @memberof HlsMedia
+     */
+    #ssai: SsaiOptions;
+
+    /**
+     * Ad break currently playing, with the media time where it started.
+     *
+     * @private
+     * @type object|null
+     * @memberof HlsMedia
+     */
+    #adBreak: { duration?: number, id?: string, start: number } | null = null;
+
+    /**
+     * Last media time reached outside of a seek, to rewind if seeking is blocked during a break.
+     *
+     * @private
+     * @type number
+     * @memberof HlsMedia
+     */
+    #lastTime: number = 0;
+
+    /**
+     * Media events to end the Ad breaks and block seeking during them.
+     *
+     * @private
+     * @type EventsList
+     * @memberof HlsMedia
+     */
+    #mediaEvents: EventsList = {};
+
     /**
      * Creates an instance of HlsMedia.
      *
      * @param {HTMLMediaElement} element
      * @param {Source} mediaSource
+     * @param {boolean} autoplay
+     * @param {?object} options
+     * @param {?SsaiOptions} ssai
      * @memberof HlsMedia
      */
-    constructor(element: HTMLMediaElement, mediaSource: Source, autoplay: boolean = false, options?: object) {
+    constructor(element: HTMLMediaElement, mediaSource: Source, autoplay: boolean = false, options?: object, ssai?: SsaiOptions) {
         super(element, mediaSource);
         this.#options = options;
+        this.#ssai = { adState: false, blockSeeking: false, ...ssai };
         this.element = element;
         this.media = mediaSource;
         this.#autoplay = autoplay;
@@ -130,6 +173,19 @@ class HlsMedia extends Native {
      */
     public destroy(): void {
         this._revoke();
+        Object.keys(this.#mediaEvents).forEach(event => {
+            this.element.removeEventListener(event, this.#mediaEvents[event]);
+        });
+    }
+
+    /**
+     * Check if an Ad break stitched in the stream is playing.
+     *
+     * @returns {boolean}
+     * @memberof HlsMedia
+     */
+    public isAdBreak(): boolean {
+        return this.#adBreak !== null;
     }
 
     /**
@@ -211,6 +267,12 @@ class HlsMedia extends Native {
                 }
             }, EVENT_OPTIONS);
         }
+
+        this.#mediaEvents.timeupdate = this._checkAdBreak.bind(this);
+        this.#mediaEvents.seeking = this._blockSeeking.bind(this);
+        Object.keys(this.#mediaEvents).forEach(event => {
+            this.element.addEventListener(event, this.#mediaEvents[event], EVENT_OPTIONS);
+        });
     }
 
     /**
@@ -285,6 +347,13 @@ class HlsMedia extends Native {
                 this.element.setAttribute('op-dvr__enabled', 'true');
                 const timeEvent = addEvent('timeupdate');
                 this.element.dispatchEvent(timeEvent);
+            } else if (event === 'hlsFragChanged' && data[1].frag && Array.isArray(data[1].frag.tagList)) {
+                data[1].frag.tagList.forEach((tag: string[]) => {
+                    const marker = parseAdMarker(tag[0], tag[1]);
+                    if (marker) {
+                        this._setAdBreak(marker, data[1].frag.start);
+                    }
+                });
             } else if (event === 'hlsFragParsingMetadata') {
                 const metaEvent = addEvent('metadataready', { detail: { data: data[1] } });
                 this.element.dispatchEvent(metaEvent);
@@ -294,6 +363,88 @@ class HlsMedia extends Native {
         }
     }
 
+    /**
+     * Start or end an Ad break according to the marker found in the fragment being played.
+     *
+     * @private
+     * @param {AdMarker} marker
+     * @param {number} time  The media time where the fragment starts.
+     * @memberof HlsMedia
+     */
+    private _setAdBreak(marker: AdMarker, time: number): void {
+        if (marker.type === 'end') {
+            this._endAdBreak();
+            return;
+        }
+
+        // A `continue` marker only starts a break if playback joined the stream in the middle of it
+        if (this.#adBreak) {
+            return;
+        }
+
+        const elapsed = marker.elapsed || 0;
+        this.#adBreak = { duration: marker.duration, id: marker.id, start: time - elapsed };
+        if (this.#ssai.adState && this.element.parentElement) {
+            this.element.parentElement.classList.add('op-ads--active');
+        }
+        const e = addEvent('adbreakstart', { detail: { duration: marker.duration, elapsed, id: marker.id } });
+        this.element.dispatchEvent(e);
+    }
+
+    /**
+     * End the current Ad break (if any) and restore the UI.
+     *
+     * @private
+     * @memberof HlsMedia
+     */
+    private _endAdBreak(): void {
+        if (!this.#adBreak) {
+            return;
+        }
+
+        const { duration, id } = this.#adBreak;
+        this.#adBreak = null;
+        if (this.#ssai.adState && this.element.parentElement) {
+            this.element.parentElement.classList.remove('op-ads--active');
+        }
+        const e = addEvent('adbreakend', { detail: { duration, id } });
+        this.element.dispatchEvent(e);
+    }
+
+    /**
+     * End the current Ad break once its duration has elapsed (in case the stream does not
+     * signal its end) or if media moved out of it.
+     *
+     * @private
+     * @memberof HlsMedia
+     */
+    private _checkAdBreak(): void {
+        const time = this.element.currentTime;
+        if (!this.element.seeking) {
+            this.#lastTime = time;
+        }
+        if (!this.#adBreak || (this.element.seeking && this.#ssai.blockSeeking)) {
+            return;
+        }
+
+        const { duration, start } = this.#adBreak;
+        if (time < start || (duration !== undefined && time >= start + duration)) {
+            this._endAdBreak();
+        }
+    }
+
+    /**
+     * Rewind media to the last time reached if user attempts to seek during an Ad break.
+     *
+     * @private
+     * @memberof HlsMedia
+     */
+    private _blockSeeking(): void {
+        if (this.#adBreak && this.#ssai.blockSeeking && Math.abs(this.element.currentTime - this.#lastTime) > 1) {
+            this.element.currentTime = this.#lastTime;
+        }
+    }
+
     /**
      * Remove all hls.js events and destroy hlsjs player instance.
      *
@@ -319,6 +470,7 @@ class HlsMedia extends Native {
         });
         this.#player.destroy();
         this.#player = null;
+        this._endAdBreak();
     }
 }
 
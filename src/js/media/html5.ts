@@ -1,3 +1,4 @@
+import EventsList from '../interfaces/events-list';
 import Source from '../interfaces/source';
 import { DVR_THRESHOLD, EVENT_OPTIONS } from '../utils/constants';
 import { addEvent } from '../utils/events';
@@ -24,6 +25,8 @@ class HTML5Media extends Native  {
 
     #timer: any;
 
+    #events: EventsList = {};
+
     /**
      * Creates an instance of NativeMedia.
      *
@@ -40,11 +43,17 @@ class HTML5Media extends Native  {
         }
 
         this.#isStreaming = isHlsSource(mediaFile);
-        this.element.addEventListener('playing', this._clearTimeout.bind(this), EVENT_OPTIONS);
-        this.element.addEventListener('stalled', this._setTimeout.bind(this), EVENT_OPTIONS);
-        this.element.addEventListener('error', this._dispatchError.bind(this), EVENT_OPTIONS);
-        this.element.addEventListener('loadeddata', this._isDvrEnabled.bind(this), EVENT_OPTIONS);
-        this.element.textTracks.addEventListener('addtrack', this._readMediadataInfo.bind(this), EVENT_OPTIONS);
+        this.#events = {
+            error: this._dispatchError.bind(this),
+            loadeddata: this._isDvrEnabled.bind(this),
+            playing: this._clearTimeout.bind(this),
+            stalled: this._setTimeout.bind(this),
+        };
+        Object.keys(this.#events).forEach(event => {
+            this.element.addEventListener(event, this.#events[event], EVENT_OPTIONS);
+        });
+        this.#events.addtrack = this._readMediadataInfo.bind(this);
+        this.element.textTracks.addEventListener('addtrack', this.#events.addtrack, EVENT_OPTIONS);
         return this;
     }
 
@@ -73,11 +82,14 @@ class HTML5Media extends Native  {
      * @memberof HTML5Media
      */
     public destroy(): HTML5Media {
-        this.element.removeEventListener('playing', this._clearTimeout.bind(this));
-        this.element.removeEventListener('stalled', this._setTimeout.bind(this));
-        this.element.removeEventListener('error', this._dispatchError.bind(this));
-        this.element.removeEventListener('loadeddata', this._isDvrEnabled.bind(this));
-        this.element.textTracks.removeEventListener('addtrack', this._readMediadataInfo.bind(this));
+        Object.keys(this.#events).forEach(event => {
+            if (event === 'addtrack') {
+                this.element.textTracks.removeEventListener(event, this.#events[event]);
+            } else {
+                this.element.removeEventListener(event, this.#events[event]);
+            }
+        });
+        this._clearTimeout();
         return this;
     }
 
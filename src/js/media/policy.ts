@@ -0,0 +1,242 @@
+import Policy from '../interfaces/ads/policy';
+import EventsList from '../interfaces/events-list';
+import Player from '../player';
+import { EVENT_OPTIONS } from '../utils/constants';
+import { addEvent } from '../utils/events';
+
+/**
+ * Ad policy.
+ *
+ * @description This class keeps track of the Ad breaks played and prevents new ones from starting if they
+ * break the restrictions set in the `policy` option (number of breaks, content between them, etc.).
+ * Every time a break is suppressed, an `adsbreakblocked` event is dispatched with the reason.
+ * @class AdPolicy
+ */
+class AdPolicy {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof AdPolicy
+     */
+    #player: Player;
+
+    /**
+     * Restrictions to be applied.
+     *
+     * @private
+     * @type Policy
+     * @memberof AdPolicy
+     */
+    #options: Policy;
+
+    /**
+     * Number of breaks started so far.
+     *
+     * @private
+     * @type number
+     * @memberof AdPolicy
+     */
+    #breaks: number = 0;
+
+    /**
+     * Flag to indicate that a break is being played, so all its Ads count as one break.
+     *
+     * @private
+     * @type boolean
+     * @memberof AdPolicy
+     */
+    #inBreak: boolean = false;
+
+    /**
+     * Seconds of content played since the last break started; `-1` if no break has been played yet.
+     *
+     * @private
+     * @type number
+     * @memberof AdPolicy
+     */
+    #contentPlayed: number = -1;
+
+    /**
+     * Last content time reported, to measure the content played without counting seeks.
+     *
+     * @private
+     * @type number
+     * @memberof AdPolicy
+     */
+    #lastTime: number = 0;
+
+    /**
+     * Source of the media whose pre-roll has been played.
+     *
+     * @private
+     * @type string
+     * @memberof AdPolicy
+     */
+    #prerollSource: string = '';
+
+    /**
+     * Events that will be triggered in AdPolicy element:
+     *  - media (to keep track of the breaks and content played)
+     *
+     * @private
+     * @type EventsList
+     * @memberof AdPolicy
+     */
+    #events: EventsList = {
+        media: {},
+    };
+
+    /**
+     * Create an instance of AdPolicy.
+     *
+     * @param {Player} player
+     * @param {?Policy} options
+     * @returns {AdPolicy}
+     * @memberof AdPolicy
+     */
+    constructor(player: Player, options?: Policy) {
+        const defaultOpts: Policy = {
+            maxBreaks: -1,
+            minContentGap: 0,
+            noMidrollsInLast: 0,
+            replayPreroll: true,
+        };
+        this.#player = player;
+        this.#options = { ...defaultOpts, ...options };
+        return this;
+    }
+
+    /**
+     * Set the events to keep track of the breaks and content played.
+     *
+     * @memberof AdPolicy
+     */
+    public create(): void {
+        this.#events.media.adsstart = () => {
+            if (this.#inBreak) {
+                return;
+            }
+            const media = this.#player.getMedia();
+            this.#inBreak = true;
+            this.#breaks++;
+            this.#contentPlayed = 0;
+            this.#lastTime = media.currentTime;
+            if (this._isPreroll()) {
+                this.#prerollSource = this._getSource();
+            }
+        };
+        this.#events.media.adsallAdsCompleted = () => {
+            this.#inBreak = false;
+        };
+        this.#events.media.timeupdate = () => {
+            if (this.#player.isAd()) {
+                return;
+            }
+            this.#inBreak = false;
+            const currentTime = this.#player.getMedia().currentTime;
+            const delta = currentTime - this.#lastTime;
+            // Only regular playback counts; larger differences are seeks
+            if (this.#contentPlayed > -1 && delta > 0 && delta < 1) {
+                this.#contentPlayed += delta;
+            }
+            this.#lastTime = currentTime;
+        };
+        this.#events.media.ended = () => {
+            if (!this.#player.isAd()) {
+                this.#prerollSource = '';
+            }
+        };
+
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+    }
+
+    /**
+     * Remove the events associated with the policy.
+     *
+     * @memberof AdPolicy
+     */
+    public destroy(): void {
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.removeEventListener(event, this.#events.media[event]);
+        });
+    }
+
+    /**
+     * Determine if a break can be played now; if not, dispatch `adsbreakblocked` with the reason.
+     *
+     * @param {string|string[]} src  The Ads of the break.
+     * @returns {boolean}
+     * @memberof AdPolicy
+     */
+    public check(src: string | string[]): boolean {
+        const { maxBreaks, minContentGap, noMidrollsInLast, replayPreroll } = this.#options;
+        const media = this.#player.getMedia();
+        const duration = media.duration;
+        const preroll = this._isPreroll();
+
+        let reason = '';
+        let message = '';
+        if (maxBreaks > -1 && this.#breaks >= maxBreaks) {
+            reason = 'maxBreaks';
+            message = `Maximum number of Ad breaks (${maxBreaks}) reached`;
+        } else if (this.#contentPlayed > -1 && this.#contentPlayed < minContentGap) {
+            reason = 'minContentGap';
+            message = `Only ${Math.floor(this.#contentPlayed)} of ${minContentGap} seconds of content played since the last Ad break`;
+        } else if (!preroll && !media.ended && duration > 0 && isFinite(duration) && duration - media.currentTime < noMidrollsInLast) {
+            reason = 'noMidrollsInLast';
+            message = `Mid-rolls are not allowed in the last ${noMidrollsInLast} seconds of media`;
+        } else if (preroll && !replayPreroll && this.#prerollSource && this.#prerollSource === this._getSource()) {
+            reason = 'replayPreroll';
+            message = 'Pre-roll has already been played for this media';
+        }
+
+        if (!reason) {
+            return true;
+        }
+
+        const e = addEvent('adsbreakblocked', { detail: { message, reason, src } });
+        this.#player.getElement().dispatchEvent(e);
+        return false;
+    }
+
+    /**
+     * Retrieve the number of breaks started so far.
+     *
+     * @returns {number}
+     * @memberof AdPolicy
+     */
+    public getBreakCount(): number {
+        return this.#breaks;
+    }
+
+    /**
+     * Check if content is at its beginning, so a break would be a pre-roll.
+     *
+     * @private
+     * @returns {boolean}
+     * @memberof AdPolicy
+     */
+    private _isPreroll(): boolean {
+        const media = this.#player.getMedia();
+        return !media.ended && media.currentTime < 1;
+    }
+
+    /**
+     * Obtain an identifier of the media being played.
+     *
+     * @private
+     * @returns {string}
+     * @memberof AdPolicy
+     */
+    private _getSource(): string {
+        return this.#player.getMedia().src.map(source => source.src).join(',');
+    }
+}
+
+export default AdPolicy;
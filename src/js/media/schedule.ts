@@ -0,0 +1,310 @@
+import AdBreak from '../interfaces/ads/break';
+import Options from '../interfaces/ads/options';
+import EventsList from '../interfaces/events-list';
+import Player from '../player';
+import { EVENT_OPTIONS } from '../utils/constants';
+import { addEvent } from '../utils/events';
+import { request } from '../utils/general';
+import { parseOffset, parseVmap } from '../utils/vast';
+
+/**
+ * Ad schedule.
+ *
+ * @description This class plays Ad breaks at the times set in a VMAP document or in the `breaks` option,
+ * by loading their Ads via `Player.loadAd()`: pre-rolls once media starts playing, mid-rolls
+ * when media reaches their time offset, and post-rolls when media ends. Every time the breaks
+ * pending to be played change, an `adcuepoints` event is dispatched with their times.
+ * @class AdSchedule
+ */
+class AdSchedule {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof AdSchedule
+     */
+    #player: Player;
+
+    /**
+     * Ads configuration (only `breaks` and `vmap` are used).
+     *
+     * @private
+     * @type Options
+     * @memberof AdSchedule
+     */
+    #options?: Options;
+
+    /**
+     * Collection of breaks to be played.
+     *
+     * @private
+     * @type AdBreak[]
+     * @memberof AdSchedule
+     */
+    #breaks: AdBreak[] = [];
+
+    /**
+     * Indexes of the breaks that have been played (or skipped by seeking past them).
+     *
+     * @private
+     * @type number[]
+     * @memberof AdSchedule
+     */
+    #played: number[] = [];
+
+    /**
+     * Events that will be triggered in AdSchedule element:
+     *  - media (to determine when a break must be played)
+     *
+     * @private
+     * @type EventsList
+     * @memberof AdSchedule
+     */
+    #events: EventsList = {
+        media: {},
+    };
+
+    /**
+     * Create an instance of AdSchedule.
+     *
+     * @param {Player} player
+     * @param {?Options} options
+     * @returns {AdSchedule}
+     * @memberof AdSchedule
+     */
+    constructor(player: Player, options?: Options) {
+        this.#player = player;
+        this.#options = options;
+        return this;
+    }
+
+    /**
+     * Set the events to play the breaks and load them from the VMAP document or `breaks` option.
+     *
+     * @memberof AdSchedule
+     */
+    public create(): void {
+        this.#events.media.play = this._check.bind(this);
+        this.#events.media.timeupdate = this._check.bind(this);
+        this.#events.media.ended = () => {
+            if (this.#player.isAd()) {
+                return;
+            }
+            const index = this.#breaks.findIndex((item, i) => this._getOffset(item) === -1 && this.#played.indexOf(i) === -1);
+            if (index > -1) {
+                this._play(index, true);
+            }
+        };
+        this.#events.media.playlistitemchanged = this.reset.bind(this);
+        // Percentages can only be resolved once duration is known
+        this.#events.media.durationchange = () => {
+            if (!this.#player.isAd()) {
+                this._dispatchCuePoints();
+            }
+        };
+
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+
+        if (this.#options && this.#options.vmap) {
+            this.load(this.#options.vmap);
+        } else if (this.#options && Array.isArray(this.#options.breaks)) {
+            this.#breaks = this.#options.breaks.slice();
+            this._dispatchCuePoints();
+        }
+    }
+
+    /**
+     * Remove the events associated with the schedule.
+     *
+     * @memberof AdSchedule
+     */
+    public destroy(): void {
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.removeEventListener(event, this.#events.media[event]);
+        });
+    }
+
+    /**
+     * Fetch a VMAP document (or parse it, if a valid XML string is passed) and replace the current breaks with its breaks.
+     *
+     * @param {string} vmap  The URL or XML string of the VMAP document.
+     * @returns {Promise<void>}
+     * @memberof AdSchedule
+     */
+    public load(vmap: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (/^\s*</.test(vmap)) {
+                resolve(vmap);
+            } else {
+                request(vmap, 'text', resolve, reject);
+            }
+        }).then(content => {
+            const breaks = parseVmap(`${content}`);
+            if (!breaks) {
+                throw new Error('Invalid VMAP document');
+            }
+            this.#breaks = breaks;
+            this.#played = [];
+            this._dispatchCuePoints();
+            this._check();
+        }).catch(error => {
+            const message = `VMAP document could not be loaded (${error instanceof Error ? error.message : `status: ${error}`})`;
+            const details = {
+                detail: {
+                    data: error,
+                    message,
+                    type: 'Ads',
+                },
+            };
+            const errorEvent = addEvent('playererror', details);
+            this.#player.getElement().dispatchEvent(errorEvent);
+            console.warn(`Ad warning: ${message}`);
+        });
+    }
+
+    /**
+     * Retrieve the list of breaks.
+     *
+     * @returns {AdBreak[]}
+     * @memberof AdSchedule
+     */
+    public getBreaks(): AdBreak[] {
+        return this.#breaks;
+    }
+
+    /**
+     * Retrieve the times (in seconds) of the breaks that have not been played yet.
+     *
+     * Pre-rolls are indicated as `0` and post-rolls as `-1`; breaks whose time cannot be resolved
+     * yet (i.e., percentages before knowing media's duration) are not included.
+     * @returns {number[]}
+     * @memberof AdSchedule
+     */
+    public getCuePoints(): number[] {
+        const cuepoints: number[] = [];
+        this.#breaks.forEach((item, i) => {
+            const offset = this._getOffset(item);
+            if (!isNaN(offset) && this.#played.indexOf(i) === -1 && cuepoints.indexOf(offset) === -1) {
+                cuepoints.push(offset);
+            }
+        });
+        return cuepoints.sort((a, b) => a - b);
+    }
+
+    /**
+     * Check if there is a post-roll that has not been played yet.
+     *
+     * @returns {boolean}
+     * @memberof AdSchedule
+     */
+    public hasPostroll(): boolean {
+        return this.#breaks.some((item, i) => this._getOffset(item) === -1 && this.#played.indexOf(i) === -1);
+    }
+
+    /**
+     * Mark all the breaks as not played (i.e., when a new media is loaded).
+     *
+     * @memberof AdSchedule
+     */
+    public reset(): void {
+        this.#played = [];
+        this._dispatchCuePoints();
+    }
+
+    /**
+     * Convert the time offset of a break into seconds.
+     *
+     * @private
+     * @param {AdBreak} item
+     * @returns {number}  `-1` for post-rolls, or `NaN` if the offset cannot be resolved yet.
+     * @memberof AdSchedule
+     */
+    private _getOffset(item: AdBreak): number {
+        if (typeof item.timeOffset === 'number') {
+            return item.timeOffset;
+        }
+        if (item.timeOffset === 'start') {
+            return 0;
+        }
+        if (item.timeOffset === 'end') {
+            return -1;
+        }
+        const duration = this.#player.getMedia().duration;
+        if (/%$/.test(item.timeOffset) && !(duration > 0 && isFinite(duration))) {
+            return NaN;
+        }
+        return parseOffset(item.timeOffset, duration);
+    }
+
+    /**
+     * Play the pre-roll or the latest mid-roll reached while media is playing.
+     *
+     * If user seeks past several breaks, only the latest one will be played.
+     * @private
+     * @memberof AdSchedule
+     */
+    private _check(): void {
+        const media = this.#player.getMedia();
+        if (!this.#breaks.length || this.#player.isAd() || media.paused) {
+            return;
+        }
+
+        let index = -1;
+        let latest = -1;
+        this.#breaks.forEach((item, i) => {
+            const offset = this._getOffset(item);
+            if (this.#played.indexOf(i) === -1 && offset >= 0 && offset <= media.currentTime) {
+                this.#played.push(i);
+                if (offset >= latest) {
+                    latest = offset;
+                    index = i;
+                }
+            }
+        });
+
+        if (index > -1) {
+            this._play(index);
+        }
+    }
+
+    /**
+     * Load the Ads of a break.
+     *
+     * @private
+     * @param {number} index
+     * @param {boolean} force  If `true`, Ads will start even if media is not playing (i.e., for post-rolls).
+     * @memberof AdSchedule
+     */
+    private _play(index: number, force: boolean = false): void {
+        if (this.#played.indexOf(index) === -1) {
+            this.#played.push(index);
+        }
+        this._dispatchCuePoints();
+        const previous = this.#player.getAd();
+        this.#player.loadAd(this.#breaks[index].src);
+        const ads = this.#player.getAd();
+        // If the Ad policy blocked the break, no new Ads instance is created
+        if (force && ads && ads !== previous) {
+            ads.playRequested = true;
+            ads.play();
+        }
+    }
+
+    /**
+     * Notify the times of the breaks pending to be played.
+     *
+     * @private
+     * @memberof AdSchedule
+     */
+    private _dispatchCuePoints(): void {
+        const e = addEvent('adcuepoints', { detail: { cuepoints: this.getCuePoints() } });
+        this.#player.getElement().dispatchEvent(e);
+    }
+}
+
+export default AdSchedule;
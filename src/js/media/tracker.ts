@@ -0,0 +1,184 @@
+import { EVENT_OPTIONS } from '../utils/constants';
+import { replaceMacros } from '../utils/vast';
+
+/**
+ * Ad tracker.
+ *
+ * @description This class requests the tracking URLs of VAST Ads played outside IMA SDK: it resolves
+ * their macros, sends them via `navigator.sendBeacon` (or an image request as fallback), avoids sending
+ * twice the events that must be reported once per Ad, and keeps them while the browser is offline to
+ * send them once it is back online.
+ * Only `navigator.onLine` determines if URLs are queued: if `sendBeacon` cannot send a URL, it is requested
+ * via image instead, and requests that fail while the browser is online are not retried.
+ * A custom sender can be passed to the constructor (i.e., to inspect the requests in tests).
+ * @class Tracker
+ */
+class Tracker {
+    /**
+     * Events that can be reported more than once for the same Ad.
+     *
+     * @static
+     * @type string[]
+     * @memberof Tracker
+     */
+    public static REPEATABLE_EVENTS = ['click', 'collapse', 'expand', 'mute', 'pause', 'resume', 'rewind', 'unmute'];
+
+    /**
+     * Function to request a tracking URL.
+     *
+     * @private
+     * @type function
+     * @memberof Tracker
+     */
+    #send: (url: string) => void;
+
+    /**
+     * Events and URLs reported for the current Ad (as `event:url`).
+     *
+     * @private
+     * @type string[]
+     * @memberof Tracker
+     */
+    #sent: string[] = [];
+
+    /**
+     * URLs to be sent once the browser is online.
+     *
+     * @private
+     * @type string[]
+     * @memberof Tracker
+     */
+    #queue: string[] = [];
+
+    /**
+     * Callback to send the queued URLs when the browser is back online.
+     *
+     * @private
+     * @type EventListener
+     * @memberof Tracker
+     */
+    #onlineListener: () => void;
+
+    /**
+     * Create an instance of Tracker.
+     *
+     * @param {?function} send  Callback to request a tracking URL; by default, `sendBeacon` or an image request.
+     * @returns {Tracker}
+     * @memberof Tracker
+     */
+    constructor(send?: (url: string) => void) {
+        this.#send = send || this._send.bind(this);
+        this.#onlineListener = this.flush.bind(this);
+        return this;
+    }
+
+    /**
+     * Send the tracking URLs of an event, replacing their macros.
+     *
+     * `[CACHEBUSTING]` and `[TIMESTAMP]` are always resolved; the rest of macros (i.e., `[CONTENTPLAYHEAD]`
+     * or `[ERRORCODE]`) must be passed.
+     * @param {string} event  The VAST name of the event (`impression`, `start`, `firstQuartile`, `error`, etc.).
+     * @param {string[]} urls
+     * @param {?object} macros  The values indexed by the name of the macro (without brackets).
+     * @memberof Tracker
+     */
+    public track(event: string, urls: string[], macros: { [name: string]: string | number } = {}): void {
+        urls.forEach(url => {
+            const key = `${event}:${url}`;
+            if (Tracker.REPEATABLE_EVENTS.indexOf(event) === -1) {
+                if (this.#sent.indexOf(key) > -1) {
+                    return;
+                }
+                this.#sent.push(key);
+            }
+
+            const values = {
+                CACHEBUSTING: `${Math.floor(Math.random() * 90000000) + 10000000}`,
+                TIMESTAMP: new Date().toISOString(),
+                ...macros,
+            };
+            const resolved = replaceMacros(url, values);
+            if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+                this._enqueue(resolved);
+            } else {
+                this.#send(resolved);
+            }
+        });
+    }
+
+    /**
+     * Send all the URLs that were queued while the browser was offline.
+     *
+     * @memberof Tracker
+     */
+    public flush(): void {
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('online', this.#onlineListener);
+        }
+        const queue = this.#queue;
+        this.#queue = [];
+        queue.forEach(url => this.#send(url));
+    }
+
+    /**
+     * Stop waiting for the browser to be online, discarding the URLs queued so far.
+     *
+     * @memberof Tracker
+     */
+    public destroy(): void {
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('online', this.#onlineListener);
+        }
+        this.#queue = [];
+    }
+
+    /**
+     * Allow the events of a new Ad to be reported.
+     *
+     * @memberof Tracker
+     */
+    public reset(): void {
+        this.#sent = [];
+    }
+
+    /**
+     * Retrieve the URLs waiting for the browser to be online.
+     *
+     * @returns {string[]}
+     * @memberof Tracker
+     */
+    public getQueue(): string[] {
+        return this.#queue;
+    }
+
+    /**
+     * Keep a URL until the browser is back online.
+     *
+     * @private
+     * @param {string} url
+     * @memberof Tracker
+     */
+    private _enqueue(url: string): void {
+        if (!this.#queue.length && typeof window !== 'undefined') {
+            window.addEventListener('online', this.#onlineListener, EVENT_OPTIONS);
+        }
+        this.#queue.push(url);
+    }
+
+    /**
+     * Request a tracking URL via `navigator.sendBeacon`, or an image if it is not supported or fails.
+     *
+     * @private
+     * @param {string} url
+     * @memberof Tracker
+     */
+    private _send(url: string): void {
+        if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(url)) {
+            return;
+        }
+        const image = new Image();
+        image.src = url;
+    }
+}
+
+export default Tracker;
@@ -0,0 +1,103 @@
+import { isVideo, removeElement } from '../../utils/general';
+
+/**
+ * VAST Ad display container.
+ *
+ * @description Area where the VAST Ads are played, using the same API as `google.ima.AdDisplayContainer`.
+ * Ads are played in their own media element, so the content's element (and its source) remains untouched.
+ * @class AdDisplayContainer
+ */
+class AdDisplayContainer {
+    /**
+     * Element in which Ads will be created.
+     *
+     * @private
+     * @type HTMLElement
+     * @memberof AdDisplayContainer
+     */
+    #container: HTMLElement;
+
+    /**
+     * The media element that plays the content.
+     *
+     * @private
+     * @type HTMLMediaElement
+     * @memberof AdDisplayContainer
+     */
+    #content: HTMLMediaElement;
+
+    /**
+     * Element to play the Ads.
+     *
+     * @private
+     * @type HTMLMediaElement
+     * @memberof AdDisplayContainer
+     */
+    #element?: HTMLMediaElement;
+
+    /**
+     * Create an instance of AdDisplayContainer.
+     *
+     * @param {HTMLElement} container
+     * @param {HTMLMediaElement} content
+     * @returns {AdDisplayContainer}
+     * @memberof AdDisplayContainer
+     */
+    constructor(container: HTMLElement, content: HTMLMediaElement) {
+        this.#container = container;
+        this.#content = content;
+        return this;
+    }
+
+    /**
+     * Create the element to play the Ads.
+     *
+     * It must be called as a result of a user action so mobile devices allow to play Ads.
+     * @memberof AdDisplayContainer
+     */
+    public initialize(): void {
+        if (this.#element) {
+            return;
+        }
+        this.#element = document.createElement(isVideo(this.#content) ? 'video' : 'audio');
+        this.#element.className = 'op-ads__media';
+        this.#element.setAttribute('playsinline', '');
+        this.#element.setAttribute('webkit-playsinline', '');
+        this.#element.preload = 'auto';
+        this.#container.appendChild(this.#element);
+        this.#element.load();
+    }
+
+    /**
+     * Remove the element used to play the Ads.
+     *
+     * @memberof AdDisplayContainer
+     */
+    public destroy(): void {
+        removeElement(this.#element);
+        this.#element = undefined;
+    }
+
+    /**
+     * Retrieve the element where Ads are rendered.
+     *
+     * @returns {HTMLElement}
+     * @memberof AdDisplayContainer
+     */
+    public getContainer(): HTMLElement {
+        return this.#container;
+    }
+
+    /**
+     * Retrieve the element to play the Ads, creating it if needed.
+     *
+     * @returns {HTMLMediaElement}
+     * @memberof AdDisplayContainer
+     */
+    public getElement(): HTMLMediaElement {
+        this.initialize();
+        return this.#element as HTMLMediaElement;
+    }
+}
+
+export default AdDisplayContainer;
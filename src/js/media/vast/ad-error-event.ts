@@ -0,0 +1,60 @@
+import AdError from './ad-error';
+
+/**
+ * VAST Ad error event.
+ *
+ * @description Event dispatched when the VAST response cannot be loaded, using the same API as `google.ima.AdErrorEvent`.
+ * @class AdErrorEvent
+ */
+class AdErrorEvent {
+    /**
+     * Types of events, with the same values used by IMA SDK.
+     *
+     * @static
+     * @memberof AdErrorEvent
+     */
+    public static Type = {
+        AD_ERROR: 'adError',
+    };
+
+    /**
+     * Type of the event.
+     *
+     * @type string
+     * @memberof AdErrorEvent
+     */
+    public type: string = AdErrorEvent.Type.AD_ERROR;
+
+    /**
+     * Error that triggered the event.
+     *
+     * @private
+     * @type AdError
+     * @memberof AdErrorEvent
+     */
+    #error: AdError;
+
+    /**
+     * Create an instance of AdErrorEvent.
+     *
+     * @param {AdError} error
+     * @returns {AdErrorEvent}
+     * @memberof AdErrorEvent
+     */
+    constructor(error: AdError) {
+        this.#error = error;
+        return this;
+    }
+
+    /**
+     * Retrieve the error that triggered the event.
+     *
+     * @returns {AdError}
+     * @memberof AdErrorEvent
+     */
+    public getError(): AdError {
+        return this.#error;
+    }
+}
+
+export default AdErrorEvent;
@@ -0,0 +1,104 @@
+/**
+ * VAST Error.
+ *
+ * @description Error reported while loading or playing a VAST Ad, using the same API as `google.ima.AdError`.
+ * The error codes are the ones defined in the VAST specification.
+ * @see https://support.google.com/admanager/answer/4442429?hl=en
+ * @class AdError
+ */
+class AdError {
+    /**
+     * Types of errors.
+     *
+     * @static
+     * @memberof AdError
+     */
+    public static Type = {
+        AD_LOAD: 'adLoadError',
+        AD_PLAY: 'adPlayError',
+    };
+
+    /**
+     * VAST error code.
+     *
+     * @private
+     * @type number
+     * @memberof AdError
+     */
+    #code: number;
+
+    /**
+     * Description of the error.
+     *
+     * @private
+     * @type string
+     * @memberof AdError
+     */
+    #message: string;
+
+    /**
+     * Create an instance of AdError.
+     *
+     * @param {number} code
+     * @param {string} message
+     * @returns {AdError}
+     * @memberof AdError
+     */
+    constructor(code: number, message: string) {
+        this.#code = code;
+        this.#message = message;
+        return this;
+    }
+
+    /**
+     * Retrieve the VAST error code.
+     *
+     * @returns {number}
+     * @memberof AdError
+     */
+    public getErrorCode(): number {
+        return this.#code;
+    }
+
+    /**
+     * Retrieve the VAST error code (kept for compatibility with IMA SDK).
+     *
+     * @returns {number}
+     * @memberof AdError
+     */
+    public getVastErrorCode(): number {
+        return this.#code;
+    }
+
+    /**
+     * Retrieve the description of the error.
+     *
+     * @returns {string}
+     * @memberof AdError
+     */
+    public getMessage(): string {
+        return this.#message;
+    }
+
+    /**
+     * Retrieve whether the error happened while loading or playing the Ad.
+     *
+     * @returns {string}
+     * @memberof AdError
+     */
+    public getType(): string {
+        return this.#code >= 400 && this.#code < 1000 ? AdError.Type.AD_PLAY : AdError.Type.AD_LOAD;
+    }
+
+    /**
+     * Retrieve the error as a readable string.
+     *
+     * @returns {string}
+     * @memberof AdError
+     */
+    public toString(): string {
+        return `AdError ${this.#code}: ${this.#message}`;
+    }
+}
+
+export default AdError;
@@ -0,0 +1,62 @@
+/**
+ * Event target.
+ *
+ * @description Minimal listener registry shared by the VAST loader and manager, since IMA SDK
+ * listeners are attached to them instead of DOM elements.
+ * @class AdEventTarget
+ */
+class AdEventTarget {
+    /**
+     * Callbacks grouped by event type.
+     *
+     * @private
+     * @type object
+     * @memberof AdEventTarget
+     */
+    #listeners: { [type: string]: Array<(event: any) => void> } = {};
+
+    /**
+     * Register a callback for the type of event given.
+     *
+     * @param {string} type
+     * @param {function} callback
+     * @memberof AdEventTarget
+     */
+    public addEventListener(type: string, callback: (event: any) => void): void {
+        this.#listeners[type] = (this.#listeners[type] || []).concat(callback);
+    }
+
+    /**
+     * Unregister a callback for the type of event given.
+     *
+     * @param {string} type
+     * @param {function} callback
+     * @memberof AdEventTarget
+     */
+    public removeEventListener(type: string, callback: (event: any) => void): void {
+        if (this.#listeners[type]) {
+            this.#listeners[type] = this.#listeners[type].filter(listener => listener !== callback);
+        }
+    }
+
+    /**
+     * Remove all the callbacks.
+     *
+     * @memberof AdEventTarget
+     */
+    public removeAllEventListeners(): void {
+        this.#listeners = {};
+    }
+
+    /**
+     * Execute the callbacks registered for the type of the event given.
+     *
+     * @param {any} event
+     * @memberof AdEventTarget
+     */
+    public dispatchEvent(event: any): void {
+        (this.#listeners[event.type] || []).slice().forEach(listener => listener(event));
+    }
+}
+
+export default AdEventTarget;
@@ -0,0 +1,110 @@
+import Ad from './ad';
+
+/**
+ * VAST Ad event.
+ *
+ * @description Event dispatched by the Ads manager, using the same API as `google.ima.AdEvent`.
+ * @class AdEvent
+ */
+class AdEvent {
+    /**
+     * Types of events, with the same values used by IMA SDK.
+     *
+     * @static
+     * @memberof AdEvent
+     */
+    public static Type = {
+        AD_BREAK_READY: 'adBreakReady',
+        AD_BUFFERING: 'adBuffering',
+        AD_METADATA: 'adMetadata',
+        AD_PROGRESS: 'adProgress',
+        ALL_ADS_COMPLETED: 'allAdsCompleted',
+        CLICK: 'click',
+        COMPLETE: 'complete',
+        CONTENT_PAUSE_REQUESTED: 'contentPauseRequested',
+        CONTENT_RESUME_REQUESTED: 'contentResumeRequested',
+        DURATION_CHANGE: 'durationChange',
+        FIRST_QUARTILE: 'firstQuartile',
+        IMPRESSION: 'impression',
+        INTERACTION: 'interaction',
+        LINEAR_CHANGED: 'linearChanged',
+        LOADED: 'loaded',
+        LOG: 'log',
+        MIDPOINT: 'midpoint',
+        PAUSED: 'pause',
+        RESUMED: 'resume',
+        SKIPPABLE_STATE_CHANGED: 'skippableStateChanged',
+        SKIPPED: 'skip',
+        STARTED: 'start',
+        THIRD_QUARTILE: 'thirdQuartile',
+        USER_CLOSE: 'userClose',
+        VIDEO_CLICKED: 'videoClicked',
+        VIDEO_ICON_CLICKED: 'videoIconClicked',
+        VOLUME_CHANGED: 'volumeChange',
+        VOLUME_MUTED: 'mute',
+    };
+
+    /**
+     * Type of the event.
+     *
+     * @type string
+     * @memberof AdEvent
+     */
+    public type: string;
+
+    /**
+     * Ad related to the event.
+     *
+     * @private
+     * @type Ad|null
+     * @memberof AdEvent
+     */
+    #ad: Ad | null;
+
+    /**
+     * Extra information of the event (i.e., the `adError` of a `log` event).
+     *
+     * @private
+     * @type object
+     * @memberof AdEvent
+     */
+    #data: { [key: string]: any };
+
+    /**
+     * Create an instance of AdEvent.
+     *
+     * @param {string} type
+     * @param {Ad|null} ad
+     * @param {object} data
+     * @returns {AdEvent}
+     * @memberof AdEvent
+     */
+    constructor(type: string, ad: Ad | null, data: { [key: string]: any } = {}) {
+        this.type = type;
+        this.#ad = ad;
+        this.#data = data;
+        return this;
+    }
+
+    /**
+     * Retrieve the Ad related to the event.
+     *
+     * @returns {Ad|null}
+     * @memberof AdEvent
+     */
+    public getAd(): Ad | null {
+        return this.#ad;
+    }
+
+    /**
+     * Retrieve the extra information of the event.
+     *
+     * @returns {object}
+     * @memberof AdEvent
+     */
+    public getAdData(): { [key: string]: any } {
+        return this.#data;
+    }
+}
+
+export default AdEvent;
@@ -0,0 +1,218 @@
+import VastAd from '../../interfaces/ads/ad';
+import MediaFile from '../../interfaces/ads/media-file';
+import CompanionAd from './companion-ad';
+
+/**
+ * VAST Ad.
+ *
+ * @description Ad being played by the VAST Ads manager, using the same API as `google.ima.Ad`.
+ * @class Ad
+ */
+class Ad {
+    /**
+     * Elements parsed from the VAST response.
+     *
+     * @private
+     * @type VastAd
+     * @memberof Ad
+     */
+    #data: VastAd;
+
+    /**
+     * Rendition selected to play the Ad.
+     *
+     * @private
+     * @type MediaFile
+     * @memberof Ad
+     */
+    #mediaFile?: MediaFile;
+
+    /**
+     * Position of the Ad in the pod (starting from 1).
+     *
+     * @private
+     * @type number
+     * @memberof Ad
+     */
+    #position: number;
+
+    /**
+     * Number of Ads in the pod.
+     *
+     * @private
+     * @type number
+     * @memberof Ad
+     */
+    #total: number;
+
+    /**
+     * Duration in seconds of all the Ads in the pod (`-1` if it is not a pod).
+     *
+     * @private
+     * @type number
+     * @memberof Ad
+     */
+    #podDuration: number;
+
+    /**
+     * Create an instance of Ad.
+     *
+     * @param {VastAd} data
+     * @param {number} position
+     * @param {number} total
+     * @param {?MediaFile} mediaFile
+     * @param {number} podDuration
+     * @returns {Ad}
+     * @memberof Ad
+     */
+    constructor(data: VastAd, position: number, total: number, mediaFile?: MediaFile, podDuration: number = -1) {
+        this.#data = data;
+        this.#position = position;
+        this.#total = total;
+        this.#mediaFile = mediaFile;
+        this.#podDuration = podDuration;
+        return this;
+    }
+
+    /**
+     * Retrieve the `id` attribute of the Ad.
+     *
+     * @returns {string}
+     * @memberof Ad
+     */
+    public getAdId(): string {
+        return this.#data.id;
+    }
+
+    /**
+     * Retrieve the name of the server that returned the Ad.
+     *
+     * @returns {string}
+     * @memberof Ad
+     */
+    public getAdSystem(): string {
+        return this.#data.adSystem;
+    }
+
+    /**
+     * Retrieve the common name of the Ad.
+     *
+     * @returns {string}
+     * @memberof Ad
+     */
+    public getTitle(): string {
+        return this.#data.title;
+    }
+
+    /**
+     * Retrieve the duration of the Ad, in seconds.
+     *
+     * @returns {number}
+     * @memberof Ad
+     */
+    public getDuration(): number {
+        return this.#data.linear ? this.#data.linear.duration : -1;
+    }
+
+    /**
+     * Retrieve whether the Ad is linear (interrupts the content) or not.
+     *
+     * @returns {boolean}
+     * @memberof Ad
+     */
+    public isLinear(): boolean {
+        return !!this.#data.linear;
+    }
+
+    /**
+     * Retrieve the width of the overlay, in pixels (`0` for linear Ads).
+     *
+     * @returns {number}
+     * @memberof Ad
+     */
+    public getWidth(): number {
+        return !this.#data.linear && this.#data.nonLinear ? this.#data.nonLinear.width : 0;
+    }
+
+    /**
+     * Retrieve the height of the overlay, in pixels (`0` for linear Ads).
+     *
+     * @returns {number}
+     * @memberof Ad
+     */
+    public getHeight(): number {
+        return !this.#data.linear && this.#data.nonLinear ? this.#data.nonLinear.height : 0;
+    }
+
+    /**
+     * Retrieve the time (in seconds) after which the Ad can be skipped, or `-1` if it cannot be skipped.
+     *
+     * @returns {number}
+     * @memberof Ad
+     */
+    public getSkipTimeOffset(): number {
+        return this.#data.linear && this.#data.linear.skipOffset !== undefined ? this.#data.linear.skipOffset : -1;
+    }
+
+    /**
+     * Retrieve the URL of the rendition selected to play the Ad.
+     *
+     * @returns {string|null}
+     * @memberof Ad
+     */
+    public getMediaUrl(): string | null {
+        return this.#mediaFile ? this.#mediaFile.src : null;
+    }
+
+    /**
+     * Retrieve the MIME type of the rendition selected to play the Ad.
+     *
+     * @returns {string}
+     * @memberof Ad
+     */
+    public getContentType(): string {
+        return this.#mediaFile ? this.#mediaFile.type : '';
+    }
+
+    /**
+     * Retrieve the companion banners whose size matches exactly the one specified.
+     *
+     * @param {number} width
+     * @param {number} height
+     * @returns {CompanionAd[]}
+     * @memberof Ad
+     */
+    public getCompanionAds(width: number, height: number): CompanionAd[] {
+        return this.#data.companions
+            .filter(companion => companion.width === width && companion.height === height)
+            .map(companion => new CompanionAd(companion));
+    }
+
+    /**
+     * Retrieve the position of the Ad in the pod, the number of Ads and the duration of the pod.
+     *
+     * @returns {object}
+     * @memberof Ad
+     */
+    public getAdPodInfo(): { [key: string]: () => number } {
+        return {
+            getAdPosition: () => this.#position,
+            getMaxDuration: () => this.#podDuration,
+            getPodIndex: () => 0,
+            getTimeOffset: () => 0,
+            getTotalAds: () => this.#total,
+        };
+    }
+
+    /**
+     * Retrieve all the elements parsed from the VAST response (tracking URLs, click-through, etc.).
+     *
+     * @returns {VastAd}
+     * @memberof Ad
+     */
+    public getVastData(): VastAd {
+        return this.#data;
+    }
+}
+
+export default Ad;
@@ -0,0 +1,185 @@
+import VastAd from '../../interfaces/ads/ad';
+import { request } from '../../utils/general';
+import { mergeWrapper, parseVast, selectMediaFile } from '../../utils/vast';
+import AdDisplayContainer from './ad-display-container';
+import AdError from './ad-error';
+import AdErrorEvent from './ad-error-event';
+import AdEventTarget from './ad-event-target';
+import AdsManager from './ads-manager';
+import AdsManagerLoadedEvent from './ads-manager-loaded-event';
+import AdsRenderingSettings from './ads-rendering-settings';
+import AdsRequest from './ads-request';
+import settings from './settings';
+
+/**
+ * VAST Ads loader.
+ *
+ * @description Fetch and parse VAST responses, following wrappers, using the same API as `google.ima.AdsLoader`.
+ * @class AdsLoader
+ */
+class AdsLoader extends AdEventTarget {
+    /**
+     * Area where the Ads will be played.
+     *
+     * @private
+     * @type AdDisplayContainer
+     * @memberof AdsLoader
+     */
+    #container: AdDisplayContainer;
+
+    /**
+     * Error URLs of the Ads found in the responses of the current request (wrappers included),
+     * to report the errors that prevent those Ads from being played.
+     *
+     * @private
+     * @type string[]
+     * @memberof AdsLoader
+     */
+    #errors: string[] = [];
+
+    /**
+     * Create an instance of AdsLoader.
+     *
+     * @param {AdDisplayContainer} container
+     * @returns {AdsLoader}
+     * @memberof AdsLoader
+     */
+    constructor(container: AdDisplayContainer) {
+        super();
+        this.#container = container;
+        return this;
+    }
+
+    /**
+     * Load the VAST response and dispatch `adsManagerLoaded` with the playable Ads found,
+     * or `adError` if there are none.
+     *
+     * If the response contains a pod (Ads with `sequence`), all of them are played in order;
+     * otherwise, only the first standalone Ad (linear or overlay) is played.
+     *
+     * @param {AdsRequest} adsRequest
+     * @memberof AdsLoader
+     */
+    public requestAds(adsRequest: AdsRequest): void {
+        this.#errors = [];
+        this._fetch(adsRequest.adsResponse || adsRequest.adTagUrl, 0, [])
+            .then(ads => {
+                if (!ads.length) {
+                    throw new AdError(1009, 'VAST response does not contain any Ads');
+                }
+
+                const element = this.#container.getElement();
+                const playable = ads.filter(ad => ad.linear ? selectMediaFile(ad.linear.mediaFiles, element) : ad.nonLinear);
+                if (!playable.length) {
+                    throw new AdError(403, 'Could not find a supported media file for any of the Ads');
+                }
+
+                const pod = playable.filter(ad => ad.linear && ad.sequence).sort((a, b) => (a.sequence || 0) - (b.sequence || 0));
+                const list = pod.length ? pod : [playable[0]];
+                this.dispatchEvent(new AdsManagerLoadedEvent((content: HTMLMediaElement, renderingSettings?: AdsRenderingSettings) =>
+                    new AdsManager(this.#container, content, list, renderingSettings || new AdsRenderingSettings())));
+            })
+            .catch(error => {
+                const adError = error instanceof AdError ? error : new AdError(900, `${error}`);
+                this.dispatchEvent(new AdErrorEvent(adError));
+            });
+    }
+
+    /**
+     * Retrieve the error URLs of the Ads found while loading the current request, including the ones of
+     * wrappers, so they can be requested if no Ads could be played.
+     *
+     * @returns {string[]}
+     * @memberof AdsLoader
+     */
+    public getErrorUrls(): string[] {
+        return this.#errors;
+    }
+
+    /**
+     * VAST responses do not contain post-rolls, so this is a no-op.
+     *
+     * @memberof AdsLoader
+     */
+    public contentComplete(): void {
+        return;
+    }
+
+    /**
+     * Remove all the callbacks.
+     *
+     * @memberof AdsLoader
+     */
+    public destroy(): void {
+        this.removeAllEventListeners();
+    }
+
+    /**
+     * Obtain the inline Ads of a VAST response, following recursively its wrappers.
+     *
+     * @private
+     * @param {string} source  The URL or XML string of the VAST response.
+     * @param {number} depth  The number of wrappers followed so far.
+     * @param {VastAd[]} wrappers  The wrappers followed so far, to merge their tracking elements.
+     * @returns {Promise<VastAd[]>}
+     * @memberof AdsLoader
+     */
+    private _fetch(source: string, depth: number, wrappers: VastAd[]): Promise<VastAd[]> {
+        const load = /^\s*</.test(source) ? Promise.resolve(source) : new Promise((resolve, reject) => {
+            request(source, 'text', resolve, status => {
+                reject(depth ? new AdError(301, `Wrapper ${source} could not be loaded (status: ${status})`) :
+                    new AdError(1012, `VAST response ${source} could not be loaded (status: ${status})`));
+            });
+        });
+
+        return load.then(content => {
+            const ads = parseVast(`${content}`);
+            if (!ads) {
+                throw new AdError(100, 'VAST response could not be parsed');
+            }
+            ads.forEach(ad => ad.errors.forEach(url => {
+                if (this.#errors.indexOf(url) === -1) {
+                    this.#errors.push(url);
+                }
+            }));
+
+            let failure: AdError | null = null;
+            return Promise.all(ads.map(ad => this._unwrap(ad, depth, wrappers).catch(error => {
+                failure = failure || error;
+                return [];
+            }))).then(results => {
+                const list = results.reduce((all: VastAd[], result) => all.concat(result), []);
+                if (!list.length && failure) {
+                    throw failure;
+                }
+                if (!list.length && depth) {
+                    throw new AdError(303, 'No Ads found after following the wrapper');
+                }
+                return list;
+            });
+        });
+    }
+
+    /**
+     * Obtain the inline Ads that a wrapper resolves to; inline Ads are returned with the tracking
+     * elements of the wrappers followed.
+     *
+     * @private
+     * @param {VastAd} ad
+     * @param {number} depth
+     * @param {VastAd[]} wrappers
+     * @returns {Promise<VastAd[]>}
+     * @memberof AdsLoader
+     */
+    private _unwrap(ad: VastAd, depth: number, wrappers: VastAd[]): Promise<VastAd[]> {
+        if (!ad.wrapper) {
+            return Promise.resolve([wrappers.reduceRight((result, wrapper) => mergeWrapper(result, wrapper), ad)]);
+        }
+        if (depth >= settings.getNumRedirects()) {
+            return Promise.reject(new AdError(302, 'Wrapper limit reached'));
+        }
+        return this._fetch(ad.wrapper, depth + 1, wrappers.concat(ad));
+    }
+}
+
+export default AdsLoader;
@@ -0,0 +1,63 @@
+import AdsManager from './ads-manager';
+
+/**
+ * VAST Ads manager loaded event.
+ *
+ * @description Event dispatched once the VAST response has been loaded, using the same API as
+ * `google.ima.AdsManagerLoadedEvent`.
+ * @class AdsManagerLoadedEvent
+ */
+class AdsManagerLoadedEvent {
+    /**
+     * Types of events, with the same values used by IMA SDK.
+     *
+     * @static
+     * @memberof AdsManagerLoadedEvent
+     */
+    public static Type = {
+        ADS_MANAGER_LOADED: 'adsManagerLoaded',
+    };
+
+    /**
+     * Type of the event.
+     *
+     * @type string
+     * @memberof AdsManagerLoadedEvent
+     */
+    public type: string = AdsManagerLoadedEvent.Type.ADS_MANAGER_LOADED;
+
+    /**
+     * Callback to build the manager once the rendering settings are known.
+     *
+     * @private
+     * @type function
+     * @memberof AdsManagerLoadedEvent
+     */
+    #factory: (content: HTMLMediaElement, settings?: any) => AdsManager;
+
+    /**
+     * Create an instance of AdsManagerLoadedEvent.
+     *
+     * @param {function} factory
+     * @returns {AdsManagerLoadedEvent}
+     * @memberof AdsManagerLoadedEvent
+     */
+    constructor(factory: (content: HTMLMediaElement, settings?: any) => AdsManager) {
+        this.#factory = factory;
+        return this;
+    }
+
+    /**
+     * Obtain the manager that will play the Ads loaded.
+     *
+     * @param {HTMLMediaElement} content  The media element that plays the content.
+     * @param {?AdsRenderingSettings} settings
+     * @returns {AdsManager}
+     * @memberof AdsManagerLoadedEvent
+     */
+    public getAdsManager(content: HTMLMediaElement, settings?: any): AdsManager {
+        return this.#factory(content, settings);
+    }
+}
+
+export default AdsManagerLoadedEvent;
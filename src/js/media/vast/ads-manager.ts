@@ -0,0 +1,596 @@
+import VastAd from '../../interfaces/ads/ad';
+import EventsList from '../../interfaces/events-list';
+import { EVENT_OPTIONS } from '../../utils/constants';
+import { removeElement } from '../../utils/general';
+import { createSandbox, renderResource, selectMediaFile } from '../../utils/vast';
+import Ad from './ad';
+import AdDisplayContainer from './ad-display-container';
+import AdError from './ad-error';
+import AdEvent from './ad-event';
+import AdEventTarget from './ad-event-target';
+import AdsRenderingSettings from './ads-rendering-settings';
+
+/**
+ * VAST Ads manager.
+ *
+ * @description Play the linear Ads of a VAST response in order, or display its overlay (non-linear Ad)
+ * while content keeps playing, using the same API as `google.ima.AdsManager`.
+ * @class AdsManager
+ */
+class AdsManager extends AdEventTarget {
+    /**
+     * Area where the Ads will be played.
+     *
+     * @private
+     * @type AdDisplayContainer
+     * @memberof AdsManager
+     */
+    #container: AdDisplayContainer;
+
+    /**
+     * The media element that plays the content.
+     *
+     * @private
+     * @type HTMLMediaElement
+     * @memberof AdsManager
+     */
+    #content: HTMLMediaElement;
+
+    /**
+     * Element to play the Ads.
+     *
+     * @private
+     * @type HTMLMediaElement
+     * @memberof AdsManager
+     */
+    #element: HTMLMediaElement;
+
+    /**
+     * Ads to be played, with their selected renditions.
+     *
+     * @private
+     * @type Ad[]
+     * @memberof AdsManager
+     */
+    #ads: Ad[] = [];
+
+    /**
+     * Index of the Ad being played; `-1` if the manager has not started yet.
+     *
+     * @private
+     * @type number
+     * @memberof AdsManager
+     */
+    #current: number = -1;
+
+    /**
+     * Flag to indicate that the current Ad has started playing.
+     *
+     * @private
+     * @type boolean
+     * @memberof AdsManager
+     */
+    #started: boolean = false;
+
+    /**
+     * Quartile events already dispatched for the current Ad.
+     *
+     * @private
+     * @type string[]
+     * @memberof AdsManager
+     */
+    #quartiles: string[] = [];
+
+    /**
+     * Flag to indicate if the current Ad can be skipped at this point.
+     *
+     * @private
+     * @type boolean
+     * @memberof AdsManager
+     */
+    #skippable: boolean = false;
+
+    /**
+     * Number of seconds after which Ads without a VAST `skipoffset` can be skipped; `-1` if they cannot be skipped.
+     *
+     * @private
+     * @type number
+     * @memberof AdsManager
+     */
+    #skipAfter: number = -1;
+
+    /**
+     * Flag to indicate that all Ads have been played or the manager was destroyed.
+     *
+     * @private
+     * @type boolean
+     * @memberof AdsManager
+     */
+    #done: boolean = false;
+
+    /**
+     * Element to display the non-linear Ad.
+     *
+     * @private
+     * @type HTMLDivElement
+     * @memberof AdsManager
+     */
+    #overlay?: HTMLDivElement;
+
+    /**
+     * Timer to hide the non-linear Ad once its minimum suggested duration has elapsed.
+     *
+     * @private
+     * @type number
+     * @memberof AdsManager
+     */
+    #hideTimer: number = 0;
+
+    /**
+     * Callback to hide the non-linear Ad once the content ends.
+     *
+     * @private
+     * @type EventListener
+     * @memberof AdsManager
+     */
+    #contentEndedListener: () => void;
+
+    /**
+     * Events that will be triggered in the element that plays the Ads.
+     *
+     * @private
+     * @type EventsList
+     * @memberof AdsManager
+     */
+    #events: EventsList = {};
+
+    /**
+     * Create an instance of AdsManager.
+     *
+     * @param {AdDisplayContainer} container
+     * @param {HTMLMediaElement} content
+     * @param {VastAd[]} ads
+     * @param {AdsRenderingSettings} settings
+     * @returns {AdsManager}
+     * @memberof AdsManager
+     */
+    constructor(container: AdDisplayContainer, content: HTMLMediaElement, ads: VastAd[], settings: AdsRenderingSettings) {
+        super();
+        this.#container = container;
+        this.#content = content;
+        this.#element = container.getElement();
+        this.#skipAfter = settings.skipAfter;
+        this.#contentEndedListener = this.stop.bind(this);
+        const podDuration = ads.length > 1 ? ads.reduce((total, ad) => total + (ad.linear ? ad.linear.duration : 0), 0) : -1;
+        ads.forEach((ad, index) => {
+            const mediaFile = ad.linear ? selectMediaFile(ad.linear.mediaFiles, this.#element, settings.bitrate) : undefined;
+            this.#ads.push(new Ad(ad, index + 1, ads.length, mediaFile, podDuration));
+        });
+
+        this.#events = {
+            click: this._click.bind(this),
+            durationchange: () => this._dispatch(AdEvent.Type.DURATION_CHANGE),
+            ended: () => {
+                this._dispatch(AdEvent.Type.COMPLETE);
+                this._next();
+            },
+            error: () => {
+                if (this.#done) {
+                    return;
+                }
+                this._dispatch(AdEvent.Type.LOG, { adError: new AdError(405, 'Problem displaying the media file') });
+                this._next();
+            },
+            playing: () => {
+                if (!this.#started) {
+                    this.#started = true;
+                    this._dispatch(AdEvent.Type.IMPRESSION);
+                    this._dispatch(AdEvent.Type.STARTED);
+                }
+            },
+            timeupdate: this._progress.bind(this),
+            waiting: () => this._dispatch(AdEvent.Type.AD_BUFFERING),
+        };
+        Object.keys(this.#events).forEach(event => {
+            this.#element.addEventListener(event, this.#events[event], EVENT_OPTIONS);
+        });
+
+        if (settings.enablePreloading && this.#ads.length) {
+            this.#element.src = this.#ads[0].getMediaUrl() || '';
+        }
+        return this;
+    }
+
+    /**
+     * Set the initial dimensions of the Ads; they always fill the container, so this is a no-op.
+     *
+     * @memberof AdsManager
+     */
+    public init(): void {
+        return;
+    }
+
+    /**
+     * Start playing the Ads, requesting the content to be paused, or display the overlay.
+     *
+     * @memberof AdsManager
+     */
+    public start(): void {
+        if (this.#current > -1 || this.#done) {
+            return;
+        }
+        if (this.#ads.length && !this.#ads[0].isLinear()) {
+            this._display(0);
+            return;
+        }
+        this.#element.volume = this.#content.volume;
+        this.#element.muted = this.#content.muted;
+        this._dispatch(AdEvent.Type.CONTENT_PAUSE_REQUESTED);
+        this._play(0);
+    }
+
+    /**
+     * Pause the current Ad.
+     *
+     * @memberof AdsManager
+     */
+    public pause(): void {
+        if (this._isLinear() && !this.#done && !this.#element.paused) {
+            this.#element.pause();
+            this._dispatch(AdEvent.Type.PAUSED);
+        }
+    }
+
+    /**
+     * Resume the current Ad.
+     *
+     * @memberof AdsManager
+     */
+    public resume(): void {
+        if (this._isLinear() && !this.#done && this.#element.paused) {
+            this._playElement();
+            this._dispatch(AdEvent.Type.RESUMED);
+        }
+    }
+
+    /**
+     * Skip the current Ad, if it can be skipped at this point, and play the next one of the pod (if any).
+     *
+     * @memberof AdsManager
+     */
+    public skip(): void {
+        if (this.#skippable && !this.#done) {
+            this._dispatch(AdEvent.Type.SKIPPED);
+            this._next();
+        }
+    }
+
+    /**
+     * Stop playing Ads and resume the content.
+     *
+     * @memberof AdsManager
+     */
+    public stop(): void {
+        if (!this.#done) {
+            this._finish();
+        }
+    }
+
+    /**
+     * Remove all callbacks and release the Ad's source.
+     *
+     * @memberof AdsManager
+     */
+    public destroy(): void {
+        this.#done = true;
+        clearTimeout(this.#hideTimer);
+        this.#content.removeEventListener('ended', this.#contentEndedListener);
+        removeElement(this.#overlay);
+        this.#overlay = undefined;
+        Object.keys(this.#events).forEach(event => {
+            this.#element.removeEventListener(event, this.#events[event]);
+        });
+        this.#events = {};
+        this.removeAllEventListeners();
+        this.#element.pause();
+        this.#element.removeAttribute('src');
+        this.#container.destroy();
+    }
+
+    /**
+     * Change dimensions of Ads; they always fill the container, so this is a no-op.
+     *
+     * @memberof AdsManager
+     */
+    public resize(): void {
+        return;
+    }
+
+    /**
+     * Retrieve the time (in seconds) left to finish the current Ad.
+     *
+     * @returns {number}
+     * @memberof AdsManager
+     */
+    public getRemainingTime(): number {
+        const ad = this.#ads[this.#current];
+        const duration = this.#element.duration && isFinite(this.#element.duration) ?
+            this.#element.duration : (ad ? ad.getDuration() : 0);
+        return Math.max(0, duration - this.#element.currentTime);
+    }
+
+    /**
+     * Retrieve the volume of the Ads.
+     *
+     * @returns {number}
+     * @memberof AdsManager
+     */
+    public getVolume(): number {
+        return this.#element.muted ? 0 : this.#element.volume;
+    }
+
+    /**
+     * Set the volume of the Ads; `volumeChange` events are flagged as `unmuted` if the Ads were muted before.
+     *
+     * @param {number} value
+     * @memberof AdsManager
+     */
+    public setVolume(value: number): void {
+        const unmuted = value > 0 && this.getVolume() === 0;
+        this.#element.volume = value;
+        this.#element.muted = value === 0;
+        this._dispatch(value === 0 ? AdEvent.Type.VOLUME_MUTED : AdEvent.Type.VOLUME_CHANGED, { unmuted });
+    }
+
+    /**
+     * Retrieve the times of the Ad rules of the response; VAST responses do not contain Ad rules
+     * (their Ads play when they are requested), so the list is always empty.
+     *
+     * @returns {number[]}
+     * @memberof AdsManager
+     */
+    public getCuePoints(): number[] {
+        return [];
+    }
+
+    /**
+     * Retrieve if the current Ad can be skipped at this point.
+     *
+     * @returns {boolean}
+     * @memberof AdsManager
+     */
+    public getAdSkippableState(): boolean {
+        return this.#skippable;
+    }
+
+    /**
+     * Clicks are tracked by the manager, so a custom click element is never used.
+     *
+     * @returns {boolean}
+     * @memberof AdsManager
+     */
+    public isCustomClickTrackingUsed(): boolean {
+        return false;
+    }
+
+    /**
+     * Play the Ad in the position specified.
+     *
+     * @private
+     * @param {number} index
+     * @memberof AdsManager
+     */
+    private _play(index: number): void {
+        const ad = this.#ads[index];
+        this.#current = index;
+        this.#started = false;
+        this.#skippable = false;
+        this.#quartiles = [];
+
+        const url = ad.getMediaUrl();
+        if (!url) {
+            this._dispatch(AdEvent.Type.LOG, { adError: new AdError(403, 'Could not find a supported media file') });
+            this._next();
+            return;
+        }
+
+        if (this.#element.getAttribute('src') !== url) {
+            this.#element.src = url;
+            this.#element.load();
+        }
+        this._dispatch(AdEvent.Type.LOADED);
+        this._playElement();
+    }
+
+    /**
+     * Display the overlay of a non-linear Ad above the control bar until it is closed, its minimum
+     * suggested duration has elapsed or the content ends; HTML and iframe resources are sandboxed.
+     *
+     * @private
+     * @param {number} index
+     * @memberof AdsManager
+     */
+    private _display(index: number): void {
+        const nonLinear = this.#ads[index].getVastData().nonLinear;
+        this.#current = index;
+        if (!nonLinear) {
+            this._finish();
+            return;
+        }
+        this._dispatch(AdEvent.Type.LOADED);
+
+        this.#overlay = document.createElement('div');
+        this.#overlay.className = 'op-ads__nonlinear';
+        if (nonLinear.width > 0) {
+            this.#overlay.style.width = `${nonLinear.width}px`;
+        }
+
+        const content = document.createElement('div');
+        content.className = 'op-ads__nonlinear-content';
+        if (nonLinear.resourceType === 'static') {
+            content.innerHTML = renderResource(nonLinear);
+        } else {
+            content.appendChild(createSandbox(renderResource(nonLinear), nonLinear.width, nonLinear.height));
+        }
+        content.addEventListener('click', this._click.bind(this), EVENT_OPTIONS);
+        this.#overlay.appendChild(content);
+
+        const close = document.createElement('button');
+        close.className = 'op-ads__nonlinear-close';
+        close.type = 'button';
+        close.setAttribute('aria-label', 'Close');
+        close.innerHTML = '&times;';
+        close.addEventListener('click', (e: Event) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this._dispatch(AdEvent.Type.USER_CLOSE);
+            this._finish();
+        }, EVENT_OPTIONS);
+        this.#overlay.appendChild(close);
+
+        if (nonLinear.minSuggestedDuration > 0 && typeof window !== 'undefined') {
+            this.#hideTimer = window.setTimeout(this.stop.bind(this), nonLinear.minSuggestedDuration * 1000);
+        }
+        this.#content.addEventListener('ended', this.#contentEndedListener, EVENT_OPTIONS);
+
+        this.#container.getContainer().appendChild(this.#overlay);
+        this.#started = true;
+        this._dispatch(AdEvent.Type.IMPRESSION);
+        this._dispatch(AdEvent.Type.STARTED);
+    }
+
+    /**
+     * Check if the Ad being played is linear.
+     *
+     * @private
+     * @returns {boolean}
+     * @memberof AdsManager
+     */
+    private _isLinear(): boolean {
+        const ad = this.#ads[this.#current];
+        return !!ad && ad.isLinear();
+    }
+
+    /**
+     * Play the next Ad of the pod, or resume the content if there are no more.
+     *
+     * @private
+     * @memberof AdsManager
+     */
+    private _next(): void {
+        if (this.#done) {
+            return;
+        }
+        if (this.#current < this.#ads.length - 1) {
+            this._play(this.#current + 1);
+        } else {
+            this._finish();
+        }
+    }
+
+    /**
+     * Release the Ads element and the overlay, and request the content to be resumed if it was paused.
+     *
+     * @private
+     * @memberof AdsManager
+     */
+    private _finish(): void {
+        this.#done = true;
+        clearTimeout(this.#hideTimer);
+        this.#content.removeEventListener('ended', this.#contentEndedListener);
+        removeElement(this.#overlay);
+        this.#overlay = undefined;
+        this.#element.pause();
+        this.#element.removeAttribute('src');
+        if (this._isLinear()) {
+            this._dispatch(AdEvent.Type.CONTENT_RESUME_REQUESTED);
+        }
+        this._dispatch(AdEvent.Type.ALL_ADS_COMPLETED);
+    }
+
+    /**
+     * Play the Ads element; if the browser blocks it, the Ad remains paused until user resumes it.
+     *
+     * @private
+     * @memberof AdsManager
+     */
+    private _playElement(): void {
+        const promise = this.#element.play();
+        if (promise !== undefined) {
+            promise.catch(() => {
+                this._dispatch(AdEvent.Type.PAUSED);
+            });
+        }
+    }
+
+    /**
+     * Dispatch the progress, quartile and skippable state events of the current Ad.
+     *
+     * @private
+     * @memberof AdsManager
+     */
+    private _progress(): void {
+        const ad = this.#ads[this.#current];
+        if (!ad || !this.#started) {
+            return;
+        }
+        this._dispatch(AdEvent.Type.AD_PROGRESS);
+
+        const duration = this.#element.duration && isFinite(this.#element.duration) ? this.#element.duration : ad.getDuration();
+        const progress = duration > 0 ? this.#element.currentTime / duration : 0;
+        [
+            { type: AdEvent.Type.FIRST_QUARTILE, value: 0.25 },
+            { type: AdEvent.Type.MIDPOINT, value: 0.5 },
+            { type: AdEvent.Type.THIRD_QUARTILE, value: 0.75 },
+        ].forEach(quartile => {
+            if (progress >= quartile.value && this.#quartiles.indexOf(quartile.type) === -1) {
+                this.#quartiles.push(quartile.type);
+                this._dispatch(quartile.type);
+            }
+        });
+
+        const offset = ad.getSkipTimeOffset() > -1 ? ad.getSkipTimeOffset() : this.#skipAfter;
+        if (!this.#skippable && offset > -1 && this.#element.currentTime >= offset) {
+            this.#skippable = true;
+            this._dispatch(AdEvent.Type.SKIPPABLE_STATE_CHANGED);
+        }
+    }
+
+    /**
+     * Open the click-through URL of the current Ad (if any) and pause it (or the content, if it is an overlay).
+     *
+     * @private
+     * @memberof AdsManager
+     */
+    private _click(): void {
+        const ad = this.#ads[this.#current];
+        const data = ad ? ad.getVastData() : undefined;
+        const creative = data ? data.linear || data.nonLinear : undefined;
+        if (!creative || !creative.clickThrough) {
+            return;
+        }
+        if (typeof window !== 'undefined') {
+            window.open(creative.clickThrough, '_blank');
+        }
+        this._dispatch(AdEvent.Type.CLICK);
+        if (this._isLinear()) {
+            this.pause();
+        } else {
+            this.#content.pause();
+        }
+    }
+
+    /**
+     * Dispatch an event related to the current Ad.
+     *
+     * @private
+     * @param {string} type
+     * @param {?object} data
+     * @memberof AdsManager
+     */
+    private _dispatch(type: string, data?: { [key: string]: any }): void {
+        this.dispatchEvent(new AdEvent(type, this.#ads[this.#current] || null, data));
+    }
+}
+
+export default AdsManager;
@@ -0,0 +1,49 @@
+/**
+ * VAST rendering settings.
+ *
+ * @description Settings to play the Ads loaded, using the same API as `google.ima.AdsRenderingSettings`.
+ * @class AdsRenderingSettings
+ */
+class AdsRenderingSettings {
+    /**
+     * Maximum bitrate (in kbps) of the rendition to select; `-1` selects it based on the player's width.
+     *
+     * @type number
+     * @memberof AdsRenderingSettings
+     */
+    public bitrate: number = -1;
+
+    /**
+     * Flag to preload the first Ad before starting it.
+     *
+     * @type boolean
+     * @memberof AdsRenderingSettings
+     */
+    public enablePreloading: boolean = false;
+
+    /**
+     * Kept for compatibility with IMA SDK; the content element is never used to play Ads.
+     *
+     * @type boolean
+     * @memberof AdsRenderingSettings
+     */
+    public restoreCustomPlaybackStateOnAdBreakComplete: boolean = false;
+
+    /**
+     * Number of seconds after which Ads without a VAST `skipoffset` can be skipped; `-1` does not allow it.
+     *
+     * @type number
+     * @memberof AdsRenderingSettings
+     */
+    public skipAfter: number = -1;
+
+    /**
+     * Kept for compatibility with IMA SDK; the VAST engine does not render any UI elements.
+     *
+     * @type string[]|null
+     * @memberof AdsRenderingSettings
+     */
+    public uiElements: string[] | null = null;
+}
+
+export default AdsRenderingSettings;
@@ -0,0 +1,82 @@
+/**
+ * VAST Ads request.
+ *
+ * @description Data used to load Ads, using the same API as `google.ima.AdsRequest`.
+ * @class AdsRequest
+ */
+class AdsRequest {
+    /**
+     * URL of the VAST response.
+     *
+     * @type string
+     * @memberof AdsRequest
+     */
+    public adTagUrl: string = '';
+
+    /**
+     * VAST response as an XML string; if set, `adTagUrl` is ignored.
+     *
+     * @type string
+     * @memberof AdsRequest
+     */
+    public adsResponse: string = '';
+
+    /**
+     * Dimensions of the area to display Ads.
+     *
+     * @type number
+     * @memberof AdsRequest
+     */
+    public linearAdSlotWidth: number = 0;
+    public linearAdSlotHeight: number = 0;
+    public nonLinearAdSlotWidth: number = 0;
+    public nonLinearAdSlotHeight: number = 0;
+
+    /**
+     * Flag to indicate if Ad will be played automatically.
+     *
+     * @private
+     * @type boolean
+     * @memberof AdsRequest
+     */
+    #autoPlay: boolean = false;
+
+    /**
+     * Flag to indicate if Ad will be played without sound.
+     *
+     * @private
+     * @type boolean
+     * @memberof AdsRequest
+     */
+    #muted: boolean = false;
+
+    public setAdWillAutoPlay(value: boolean): void {
+        this.#autoPlay = value;
+    }
+
+    public setAdWillPlayMuted(value: boolean): void {
+        this.#muted = value;
+    }
+
+    /**
+     * Retrieve if Ad will be played automatically.
+     *
+     * @returns {boolean}
+     * @memberof AdsRequest
+     */
+    public willAutoPlay(): boolean {
+        return this.#autoPlay;
+    }
+
+    /**
+     * Retrieve if Ad will be played without sound.
+     *
+     * @returns {boolean}
+     * @memberof AdsRequest
+     */
+    public willPlayMuted(): boolean {
+        return this.#muted;
+    }
+}
+
+export default AdsRequest;
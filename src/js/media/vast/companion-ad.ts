@@ -0,0 +1,99 @@
+import Companion from '../../interfaces/ads/companion';
+import { escapeAttribute, renderResource } from '../../utils/vast';
+
+/**
+ * VAST companion Ad.
+ *
+ * @description Companion banner of the Ad being played, using the same API as `google.ima.CompanionAd`.
+ * @class CompanionAd
+ */
+class CompanionAd {
+    /**
+     * Elements parsed from the VAST response.
+     *
+     * @private
+     * @type Companion
+     * @memberof CompanionAd
+     */
+    #data: Companion;
+
+    /**
+     * Create an instance of CompanionAd.
+     *
+     * @param {Companion} data
+     * @returns {CompanionAd}
+     * @memberof CompanionAd
+     */
+    constructor(data: Companion) {
+        this.#data = data;
+        return this;
+    }
+
+    /**
+     * Retrieve the ID of the page element where the companion is expected to be displayed.
+     *
+     * @returns {string}
+     * @memberof CompanionAd
+     */
+    public getAdSlotId(): string {
+        return this.#data.adSlotId || '';
+    }
+
+    /**
+     * Retrieve the HTML code to display the companion: an image (linked to the click-through URL, if any),
+     * an iframe or the HTML resource itself.
+     *
+     * @returns {string}
+     * @memberof CompanionAd
+     */
+    public getContent(): string {
+        const { clickThrough, resourceType } = this.#data;
+        const content = renderResource(this.#data);
+        if (resourceType !== 'static' || !clickThrough) {
+            return content;
+        }
+        return `<a href="${escapeAttribute(clickThrough)}" target="_blank" rel="noopener">${content}</a>`;
+    }
+
+    /**
+     * Retrieve the MIME type of the companion's resource.
+     *
+     * @returns {string}
+     * @memberof CompanionAd
+     */
+    public getContentType(): string {
+        return this.#data.creativeType;
+    }
+
+    /**
+     * Retrieve the height of the companion, in pixels.
+     *
+     * @returns {number}
+     * @memberof CompanionAd
+     */
+    public getHeight(): number {
+        return this.#data.height;
+    }
+
+    /**
+     * Retrieve the width of the companion, in pixels.
+     *
+     * @returns {number}
+     * @memberof CompanionAd
+     */
+    public getWidth(): number {
+        return this.#data.width;
+    }
+
+    /**
+     * Retrieve all the elements parsed from the VAST response (tracking URLs, resource type, etc.).
+     *
+     * @returns {Companion}
+     * @memberof CompanionAd
+     */
+    public getVastData(): Companion {
+        return this.#data;
+    }
+}
+
+export default CompanionAd;
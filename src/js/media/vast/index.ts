@@ -0,0 +1,41 @@
+import AdDisplayContainer from './ad-display-container';
+import AdError from './ad-error';
+import AdErrorEvent from './ad-error-event';
+import AdEvent from './ad-event';
+import AdsLoader from './ads-loader';
+import AdsManagerLoadedEvent from './ads-manager-loaded-event';
+import AdsRenderingSettings from './ads-rendering-settings';
+import AdsRequest from './ads-request';
+import settings from './settings';
+
+/**
+ * VAST engine.
+ *
+ * @description Namespace with the same structure as `google.ima`, so `Ads` can play VAST Ads
+ * without loading IMA SDK.
+ * @see https://iabtechlab.com/standards/vast/
+ */
+const Vast = {
+    AdDisplayContainer,
+    AdError,
+    AdErrorEvent,
+    AdEvent,
+    AdsLoader,
+    AdsManagerLoadedEvent,
+    AdsRenderingSettings,
+    AdsRequest,
+    ImaSdkSettings: {
+        VpaidMode: {
+            DISABLED: 0,
+            ENABLED: 1,
+            INSECURE: 2,
+        },
+    },
+    ViewMode: {
+        FULLSCREEN: 'fullscreen',
+        NORMAL: 'normal',
+    },
+    settings,
+};
+
+export default Vast;
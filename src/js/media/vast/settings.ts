@@ -0,0 +1,84 @@
+/**
+ * VAST settings.
+ *
+ * @description Global settings of the VAST engine, using the same API as `google.ima.settings`.
+ * Only the number of redirects has an effect; the rest are kept so they can be set as in IMA SDK.
+ * @class Settings
+ */
+class Settings {
+    /**
+     * Maximum number of wrappers to follow before giving up.
+     *
+     * @private
+     * @type number
+     * @memberof Settings
+     */
+    #numRedirects: number = 4;
+
+    /**
+     * Flag to play Ad breaks automatically.
+     *
+     * @private
+     * @type boolean
+     * @memberof Settings
+     */
+    #autoPlayAdBreaks: boolean = true;
+
+    /**
+     * Language of Ads.
+     *
+     * @private
+     * @type string
+     * @memberof Settings
+     */
+    #locale: string = 'en';
+
+    public setNumRedirects(value: number): void {
+        this.#numRedirects = value;
+    }
+
+    public getNumRedirects(): number {
+        return this.#numRedirects;
+    }
+
+    public setAutoPlayAdBreaks(value: boolean): void {
+        this.#autoPlayAdBreaks = value;
+    }
+
+    public getAutoPlayAdBreaks(): boolean {
+        return this.#autoPlayAdBreaks;
+    }
+
+    public setLocale(value: string): void {
+        this.#locale = value;
+    }
+
+    public getLocale(): string {
+        return this.#locale;
+    }
+
+    /**
+     * VPAID creatives are never played by the VAST engine, so this is a no-op.
+     *
+     * @memberof Settings
+     */
+    public setVpaidMode(): void {
+        return;
+    }
+
+    /**
+     * Ads are always played in their own element, so this is a no-op.
+     *
+     * @memberof Settings
+     */
+    public setDisableCustomPlaybackForIOS10Plus(): void {
+        return;
+    }
+}
+
+/**
+ * Global settings shared by all the VAST loaders.
+ */
+const settings = new Settings();
+
+export default settings;
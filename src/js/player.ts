@@ -7,19 +7,36 @@ import 'custom-event-polyfill';
 import './utils/closest';
 
 import Controls from './controls';
+import ErrorScreen from './error-screen';
+import Fallback from './fallback';
+import AdsOptions from './interfaces/ads/options';
 import Track from './interfaces/captions/track';
+import TrackInfo from './interfaces/captions/track-info';
 import ControlItem from './interfaces/control-item';
 import CustomMedia from './interfaces/custom-media';
 import EventsList from './interfaces/events-list';
+import PlayerEventMap from './interfaces/events/map';
 import PlayerInstanceList from './interfaces/instance';
 import PlayerOptions from './interfaces/player-options';
+import Plugin, { PluginHooks } from './interfaces/plugin';
+import UserPreferences from './interfaces/preferences/user';
+import SettingsItem from './interfaces/settings/item';
 import Source from './interfaces/source';
+import Keyboard from './keyboard';
 import Media from './media';
 import Ads from './media/ads';
+import AdPolicy from './media/policy';
+import AdSchedule from './media/schedule';
+import Tracker from './media/tracker';
+import Playlist from './playlist';
+import Preferences from './preferences';
+import Resume from './resume';
+import Transcript from './transcript';
+import { appendTrack } from './utils/captions';
 import { EVENT_OPTIONS, IS_ANDROID, IS_IOS, IS_IPHONE } from './utils/constants';
 import { addEvent } from './utils/events';
 import { isAudio, isVideo, removeElement } from './utils/general';
-import { isAutoplaySupported } from './utils/media';
+import { isAutoplaySupported, isPlaylistSource } from './utils/media';
 
 /**
  * OpenPlayerJS.
@@ -49,6 +66,23 @@ class Player {
         rules: [],
     };
 
+    /**
+     * Class to send the tracking URLs of the Ads played by the VAST engine, exposed so a custom instance
+     * can be passed in the `ads.tracker` option.
+     *
+     * @type Tracker
+     * @memberof Player
+     */
+    public static Tracker = Tracker;
+
+    /**
+     * Collection of plugins applied to every player created.
+     *
+     * @type Plugin[]
+     * @memberof Player
+     */
+    public static plugins: Plugin[] = [];
+
     /**
      * Convert all the video/audio tags with `op-player` class in a OpenMedia player instance.
      *
@@ -81,6 +115,17 @@ class Player {
         Player.customMedia.rules.push(valid);
     }
 
+    /**
+     * Register a plugin for all the players created from now on.
+     *
+     * A plugin with the same name replaces the one registered before.
+     * @param {Plugin} plugin
+     * @memberof Player
+     */
+    public static use(plugin: Plugin): void {
+        Player.plugins = Player.plugins.filter(item => item.name !== plugin.name).concat(plugin);
+    }
+
     /**
      * Instance of Controls object.
      *
@@ -97,6 +142,90 @@ class Player {
      */
     #adsInstance: Ads;
 
+    /**
+     * Instance of AdSchedule object.
+     *
+     * @type AdSchedule
+     * @memberof Player
+     */
+    #adSchedule: AdSchedule;
+
+    /**
+     * Instance of AdPolicy object.
+     *
+     * @type AdPolicy
+     * @memberof Player
+     */
+    #adPolicy: AdPolicy;
+
+    /**
+     * Instance of Tracker shared by all the Ads instances of the player (the one set in `ads.tracker`, if any),
+     * so the URLs queued while offline are not lost when the Ads are replaced.
+     *
+     * @type Tracker
+     * @memberof Player
+     */
+    #tracker: Tracker;
+
+    /**
+     * Instance of Playlist object.
+     *
+     * @type Playlist
+     * @memberof Player
+     */
+    #playlist: Playlist;
+
+    /**
+     * Instance of Resume object.
+     *
+     * @type Resume
+     * @memberof Player
+     */
+    #resume: Resume;
+
+    /**
+     * Instance of Preferences object.
+     *
+     * @type Preferences
+     * @memberof Player
+     */
+    #preferences: Preferences;
+
+    /**
+     * Instance of Keyboard object.
+     *
+     * @type Keyboard
+     * @memberof Player
+     */
+    #keyboard: Keyboard;
+
+    /**
+     * Instance of Fallback object.
+     *
+     * @private
+     * @type Fallback
+     * @memberof Player
+     */
+    #fallback: Fallback;
+
+    /**
+     * Instance of ErrorScreen object.
+     *
+     * @private
+     * @type ErrorScreen
+     * @memberof Player
+     */
+    #errorScreen: ErrorScreen;
+
+    /**
+     * Instance of Transcript object.
+     *
+     * @private
+     * @type Transcript
+     * @memberof Player
+     */
+    #transcript: Transcript;
+
     /**
      * Button to play media.
      *
@@ -165,6 +294,15 @@ class Player {
      */
     #events: EventsList = {};
 
+    /**
+     * Listeners attached via `on` and `once`, so they can be removed when player is destroyed.
+     *
+     * @private
+     * @type object[]
+     * @memberof Player
+     */
+    #listeners: Array<{ event: string, handler: (e: any) => void, listener: (e: any) => void }> = [];
+
     /**
      * Flag to determine if player can autoplay media.
      *
@@ -230,6 +368,24 @@ class Player {
      */
     #customControlItems: ControlItem[] = [];
 
+    /**
+     * List of items to be added in the `Settings` menu (i.e., by plugins).
+     *
+     * @private
+     * @type SettingsItem[]
+     * @memberof Player
+     */
+    #customSettingsItems: SettingsItem[] = [];
+
+    /**
+     * Plugins applied to the player (global ones, and the ones set in `plugins` option).
+     *
+     * @private
+     * @type Plugin[]
+     * @memberof Player
+     */
+    #plugins: Plugin[] = [];
+
     /**
      * Default configuration for player.
      *
@@ -252,10 +408,47 @@ class Player {
         height: 0,
         hidePlayBtnTimer: 350,
         labels: {
+            ad: 'Ad',
+            adPosition: 'Ad %1 of %2',
             auto: 'Auto',
+            captionBackground: 'Background Color',
+            captionBackgroundOpacity: 'Background Opacity',
+            captionColor: 'Text Color',
+            captionEdge: 'Character Edge Style',
+            captionFontFamily: 'Font Family',
+            captionFontSize: 'Font Size',
+            captionStyle: 'Caption Style',
+            captionWindow: 'Window Color',
             captions: 'CC/Subtitles',
             click: 'Click to unmute',
+            close: 'Close',
+            colorBlack: 'Black',
+            colorBlue: 'Blue',
+            colorCyan: 'Cyan',
+            colorGreen: 'Green',
+            colorMagenta: 'Magenta',
+            colorRed: 'Red',
+            colorWhite: 'White',
+            colorYellow: 'Yellow',
+            default: 'Default',
+            edgeDepressed: 'Depressed',
+            edgeDropShadow: 'Drop Shadow',
+            edgeRaised: 'Raised',
+            edgeUniform: 'Uniform',
+            errorAds: 'The Ad could not be played',
+            errorDecode: 'The media could not be decoded',
+            errorDrm: 'The media is protected and could not be played',
+            errorNetwork: 'The media could not be loaded due to a network error',
+            errorUnsupported: 'The media format is not supported',
+            fontCasual: 'Casual',
+            fontCursive: 'Cursive',
+            fontMonospace: 'Monospace',
+            fontSansSerif: 'Sans Serif',
+            fontSerif: 'Serif',
+            fontSmallCaps: 'Small Caps',
+            forward: 'Forward %1 seconds',
             fullscreen: 'Fullscreen',
+            keyboardShortcuts: 'Keyboard Shortcuts',
             lang: {
                 en: 'English',
             },
@@ -263,20 +456,42 @@ class Player {
             live: 'Live Broadcast',
             mediaLevels: 'Change Quality',
             mute: 'Mute',
+            next: 'Next',
+            nextMatch: 'Next match',
             off: 'Off',
             pause: 'Pause',
             play: 'Play',
+            previous: 'Previous',
+            previousMatch: 'Previous match',
             progressRail: 'Time Rail',
             progressSlider: 'Time Slider',
+            resume: 'Resume from %1',
+            retry: 'Retry',
+            rewind: 'Rewind %1 seconds',
+            searchTranscript: 'Search transcript',
+            seekBackward: 'Seek backward',
+            seekEnd: 'Go to end',
+            seekForward: 'Seek forward',
+            seekPercent: 'Go to 0% - 90%',
+            seekStart: 'Go to beginning',
             settings: 'Player Settings',
+            skipAd: 'Skip Ad',
+            skipAdIn: 'Skip in %1',
             speed: 'Speed',
+            speedDown: 'Decrease speed',
             speedNormal: 'Normal',
+            speedUp: 'Increase speed',
+            startOver: 'Start over',
             tap: 'Tap to unmute',
             toggleCaptions: 'Toggle Captions',
+            toggleTranscript: 'Toggle Transcript',
+            transcript: 'Transcript',
             unmute: 'Unmute',
             volume: 'Volume',
             volumeControl: 'Volume Control',
+            volumeDown: 'Decrease volume',
             volumeSlider: 'Volume Slider',
+            volumeUp: 'Increase volume',
         },
         live: {
             showLabel: true,
@@ -320,6 +535,9 @@ class Player {
                 this.#element.currentTime = this.#options.startTime;
             }
             this.#volume = this.#element.volume;
+
+            const plugins = this.#options.plugins || [];
+            this.#plugins = Player.plugins.filter(item => !plugins.some(plugin => plugin.name === item.name)).concat(plugins);
         }
         return this;
     }
@@ -333,6 +551,7 @@ class Player {
      */
     public init(): void {
         if (this._isValid()) {
+            this._runHook('beforeInit');
             this._wrapInstance();
             this._prepareMedia();
             this._createPlayButton();
@@ -340,6 +559,7 @@ class Player {
             this._createControls();
             this._setEvents();
             Player.instances[this.id] = this;
+            this._runHook('afterInit');
         }
     }
 
@@ -351,6 +571,7 @@ class Player {
      */
     public load(): Promise<void>|void {
         if (this.isMedia()) {
+            this._runHook('beforeLoad');
             return this.#media.load();
         }
     }
@@ -363,6 +584,7 @@ class Player {
      */
     public play(): Promise<void> {
         if (this.#media && !this.#media.loaded) {
+            this._runHook('beforeLoad');
             this.#media.load();
             this.#media.loaded = true;
         }
@@ -394,11 +616,53 @@ class Player {
      * @memberof Player
      */
     public destroy(): void {
+        this._runHook('beforeDestroy');
+
         if (this.#adsInstance) {
             this.#adsInstance.pause();
             this.#adsInstance.destroy();
         }
 
+        if (this.#tracker) {
+            this.#tracker.destroy();
+        }
+
+        if (this.#playlist) {
+            this.#playlist.destroy();
+        }
+
+        if (this.#adSchedule) {
+            this.#adSchedule.destroy();
+        }
+
+        if (this.#adPolicy) {
+            this.#adPolicy.destroy();
+        }
+
+        if (this.#resume) {
+            this.#resume.destroy();
+        }
+
+        if (this.#preferences) {
+            this.#preferences.destroy();
+        }
+
+        if (this.#keyboard) {
+            this.#keyboard.destroy();
+        }
+
+        if (this.#fallback) {
+            this.#fallback.destroy();
+        }
+
+        if (this.#errorScreen) {
+            this.#errorScreen.destroy();
+        }
+
+        if (this.#transcript) {
+            this.#transcript.destroy();
+        }
+
         const el = (this.#element as HTMLMediaElement);
         if (this.#media) {
             this.#media.destroy();
@@ -433,6 +697,9 @@ class Player {
 
         const e = addEvent('playerdestroyed');
         el.dispatchEvent(e);
+
+        this.#listeners.forEach(item => el.removeEventListener(item.event, item.listener));
+        this.#listeners = [];
     }
 
     /**
@@ -490,6 +757,57 @@ class Player {
         return this.#events;
     }
 
+    /**
+     * Attach a listener to one of the events dispatched by the player.
+     *
+     * Listeners attached this way are removed automatically when the player is destroyed.
+     * @param {string} event  The name of the event.
+     * @param {Function} handler  Function that receives the event (with its `detail` typed via [[PlayerEventMap]]).
+     * @memberof Player
+     */
+    public on<K extends keyof PlayerEventMap>(event: K, handler: (e: PlayerEventMap[K]) => void): void;
+    public on(event: string, handler: (e: CustomEvent) => void): void;
+    public on(event: string, handler: (e: any) => void): void {
+        this._listen(event, handler, handler);
+    }
+
+    /**
+     * Attach a listener that will be executed only the first time the event is dispatched.
+     *
+     * @param {string} event  The name of the event.
+     * @param {Function} handler  Function that receives the event (with its `detail` typed via [[PlayerEventMap]]).
+     * @memberof Player
+     */
+    public once<K extends keyof PlayerEventMap>(event: K, handler: (e: PlayerEventMap[K]) => void): void;
+    public once(event: string, handler: (e: CustomEvent) => void): void;
+    public once(event: string, handler: (e: any) => void): void {
+        const listener = (e: Event) => {
+            this.off(event, handler);
+            handler(e);
+        };
+        this._listen(event, handler, listener);
+    }
+
+    /**
+     * Remove a listener attached via `on` or `once`; if no handler is passed, all the listeners
+     * of the event are removed.
+     *
+     * @param {string} event  The name of the event.
+     * @param {?Function} handler
+     * @memberof Player
+     */
+    public off<K extends keyof PlayerEventMap>(event: K, handler?: (e: PlayerEventMap[K]) => void): void;
+    public off(event: string, handler?: (e: CustomEvent) => void): void;
+    public off(event: string, handler?: (e: any) => void): void {
+        this.#listeners = this.#listeners.filter(item => {
+            if (item.event !== event || (handler && item.handler !== handler)) {
+                return true;
+            }
+            this.#element.removeEventListener(event, item.listener);
+            return false;
+        });
+    }
+
     /**
      * Retrieve the list of config options associated with the player..
      *
@@ -500,6 +818,26 @@ class Player {
         return this.#options;
     }
 
+    /**
+     * Retrieve the list of items added to the `Settings` menu via `addSettingsItem`.
+     *
+     * @returns {SettingsItem[]}
+     * @memberof Player
+     */
+    public getCustomSettings(): SettingsItem[] {
+        return this.#customSettingsItems;
+    }
+
+    /**
+     * Retrieve the plugins applied to the player.
+     *
+     * @returns {Plugin[]}
+     * @memberof Player
+     */
+    public getPlugins(): Plugin[] {
+        return this.#plugins;
+    }
+
     /**
      * Retrieve the current media object (could be Ads or any other media type).
      *
@@ -549,9 +887,128 @@ class Player {
     public getAd(): Ads {
         return this.#adsInstance;
     }
+
+    /**
+     * Retrieve an instance of the `AdSchedule` object.
+     *
+     * @returns {AdSchedule}
+     * @memberof Player
+     */
+    public getAdSchedule(): AdSchedule {
+        return this.#adSchedule;
+    }
+
+    /**
+     * Retrieve an instance of the `AdPolicy` object.
+     *
+     * @returns {AdPolicy}
+     * @memberof Player
+     */
+    public getAdPolicy(): AdPolicy {
+        return this.#adPolicy;
+    }
+
+    /**
+     * Retrieve an instance of the `Playlist` object.
+     *
+     * @returns {Playlist}
+     * @memberof Player
+     */
+    public getPlaylist(): Playlist {
+        return this.#playlist;
+    }
+
+    /**
+     * Retrieve an instance of the `Resume` object.
+     *
+     * @returns {Resume}
+     * @memberof Player
+     */
+    public getResume(): Resume {
+        return this.#resume;
+    }
+
+    /**
+     * Retrieve an instance of the `Keyboard` object.
+     *
+     * @returns {Keyboard}
+     * @memberof Player
+     */
+    public getKeyboard(): Keyboard {
+        return this.#keyboard;
+    }
+
+    /**
+     * Retrieve an instance of the `Transcript` object.
+     *
+     * @returns {Transcript}
+     * @memberof Player
+     */
+    public getTranscript(): Transcript {
+        return this.#transcript;
+    }
+
+    /**
+     * Retrieve the volume, speed, captions language and quality chosen by the viewer.
+     *
+     * @returns {UserPreferences}
+     * @memberof Player
+     */
+    public getPreferences(): UserPreferences {
+        return this.#preferences ? this.#preferences.get() : {};
+    }
+
+    /**
+     * Apply new preferences to the player (i.e., synced from a user profile) and save them.
+     *
+     * @param {UserPreferences} preferences
+     * @memberof Player
+     */
+    public setPreferences(preferences: UserPreferences): void {
+        if (this.#preferences) {
+            this.#preferences.set(preferences);
+        }
+    }
+
+    /**
+     * Play the next item of the playlist.
+     *
+     * @see [[Playlist.next]]
+     * @returns {boolean}
+     * @memberof Player
+     */
+    public next(): boolean {
+        return this.#playlist ? this.#playlist.next() : false;
+    }
+
+    /**
+     * Play the previous item of the playlist.
+     *
+     * @see [[Playlist.previous]]
+     * @returns {boolean}
+     * @memberof Player
+     */
+    public previous(): boolean {
+        return this.#playlist ? this.#playlist.previous() : false;
+    }
+
     /**
-     * Append a new `<track>` tag to the video/audio tag and dispatch event
-     * so it gets registered/loaded in the player, via `controlschanged` event.
+     * Load and play a specific item of the playlist.
+     *
+     * @see [[Playlist.playItem]]
+     * @param {number} index
+     * @memberof Player
+     */
+    public playItem(index: number): void {
+        if (this.#playlist) {
+            this.#playlist.playItem(index);
+        }
+    }
+
+    /**
+     * Append a new `<track>` tag to the video/audio tag (or update the one of the same language), and
+     * load its captions; they can be passed via URL (`src`), as a list of cues (`cues`) or as the content of
+     * a file (`content`). Controls are only built again (via `controlschanged` event) if there were no captions before.
      *
      * @param {Track} args
      * @memberof Player
@@ -564,26 +1021,79 @@ class Player {
             }
         }
 
-        const el = this.#element;
+        const track = appendTrack(this.#element, args);
+        const captions = this.#controls ? this.#controls.getCaptions() : undefined;
+        if (!captions || !captions.addTrack(track)) {
+            const e = addEvent('controlschanged');
+            this.#element.dispatchEvent(e);
+        }
+    }
 
-        // If captions have been added previously, just update URL and default status
-        let track = (el.querySelector(`track[srclang="${args.srclang}"][kind="${args.kind}"]`) as HTMLTrackElement);
-        if (track) {
-            track.src = args.src;
-            track.label = args.label;
-            track.default = args.default || false;
-        } else {
-            track = document.createElement('track');
-            track.srclang = args.srclang;
-            track.src = args.src;
-            track.kind = args.kind;
-            track.label = args.label;
-            track.default = args.default || false;
-            el.appendChild(track);
+    /**
+     * Remove the `<track>` tag of a language and its captions (if any). Controls are only built again
+     * (via `controlschanged` event) if no captions remain.
+     *
+     * @param {string} language
+     * @memberof Player
+     */
+    public removeCaptions(language: string): void {
+        let removed = false;
+        const tracks = this.#element.querySelectorAll('track');
+        for (let i = 0, total = tracks.length; i < total; i++) {
+            const track = tracks[i] as HTMLTrackElement;
+            if (track.srclang === language && (track.kind === 'subtitles' || track.kind === 'captions')) {
+                removeElement(track);
+                removed = true;
+            }
+        }
+        if (!removed) {
+            return;
         }
 
-        const e = addEvent('controlschanged');
-        el.dispatchEvent(e);
+        const captions = this.#controls ? this.#controls.getCaptions() : undefined;
+        if (!captions || !captions.removeTrack(language)) {
+            const e = addEvent('controlschanged');
+            this.#element.dispatchEvent(e);
+        }
+    }
+
+    /**
+     * Retrieve the list of caption tracks, indicating the one being displayed.
+     *
+     * @returns {TrackInfo[]}
+     * @memberof Player
+     */
+    public getCaptionTracks(): TrackInfo[] {
+        const captions = this.#controls ? this.#controls.getCaptions() : undefined;
+        const language = captions ? captions.getLanguage() : 'off';
+        const tracks: TrackInfo[] = [];
+        for (let i = 0, list = this.#element.querySelectorAll('track'), total = list.length; i < total; i++) {
+            const track = list[i] as HTMLTrackElement;
+            if (track.kind === 'subtitles' || track.kind === 'captions') {
+                tracks.push({
+                    active: track.srclang === language,
+                    default: track.default,
+                    kind: track.kind,
+                    label: track.label,
+                    src: track.getAttribute('src') ? track.src : undefined,
+                    srclang: track.srclang,
+                });
+            }
+        }
+        return tracks;
+    }
+
+    /**
+     * Display the captions of a language, or turn them off using `off`.
+     *
+     * @see [[Captions.setLanguage]]
+     * @param {string} language
+     * @returns {boolean} `false` if the language is not available.
+     * @memberof Player
+     */
+    public setCaptionTrack(language: string): boolean {
+        const captions = this.#controls ? this.#controls.getCaptions() : undefined;
+        return captions ? captions.setLanguage(language) : false;
     }
 
     /**
@@ -599,6 +1109,30 @@ class Player {
         this.#element.dispatchEvent(e);
     }
 
+    /**
+     * Add new item to the `Settings` menu; its `change` callback receives the key of the subitem selected.
+     *
+     * @param {SettingsItem} args
+     * @memberof Player
+     */
+    public addSettingsItem(args: SettingsItem): void {
+        this.#customSettingsItems = this.#customSettingsItems.filter(item => item.key !== args.key).concat(args);
+        const e = addEvent('controlschanged');
+        this.#element.dispatchEvent(e);
+    }
+
+    /**
+     * Remove an item added via `addSettingsItem` from the `Settings` menu.
+     *
+     * @param {string} key
+     * @memberof Player
+     */
+    public removeSettingsItem(key: string): void {
+        this.#customSettingsItems = this.#customSettingsItems.filter(item => item.key !== key);
+        const e = addEvent('controlschanged');
+        this.#element.dispatchEvent(e);
+    }
+
     /**
      * Remove a control to the list (whether custom or not).
      *
@@ -637,15 +1171,41 @@ class Player {
                 this.#element.addEventListener('canplay', this._autoplay.bind(this), EVENT_OPTIONS);
             }
             this.#media = new Media(this.#element, this.#options, this.#autoplay, Player.customMedia);
+            this.#preferences = new Preferences(this, this.#options.preferences);
+            this.#preferences.create();
+            this.#volume = this.#element.volume;
+            this.#keyboard = new Keyboard(this, this.#options.keyboard);
+            this.#keyboard.create();
+            this.#playlist = new Playlist(this, this.#options.playlist);
+            this.#playlist.create();
+            this.#adSchedule = new AdSchedule(this, this.#options.ads);
+            this.#adSchedule.create();
+            this.#adPolicy = new AdPolicy(this, this.#options.ads ? this.#options.ads.policy : undefined);
+            this.#adPolicy.create();
+            this.#tracker = this.#options.ads && this.#options.ads.tracker ? this.#options.ads.tracker : new Tracker();
+            this.#resume = new Resume(this, this.#options.resume);
+            this.#resume.create();
+            this.#fallback = new Fallback(this, this.#options.fallback);
+            this.#fallback.create();
+            this.#errorScreen = new ErrorScreen(this, this.#options.errorScreen);
+            this.#errorScreen.create();
+            this.#transcript = new Transcript(this, this.#options.transcript);
+            this.#transcript.create();
+
+            // M3U/XSPF files are not media, so their entries are loaded as playlist items instead
+            const [file] = this.#media.mediaFiles;
             const preload = this.#element.getAttribute('preload');
-            if (this.#ads || !preload || preload !== 'none') {
+            if (file && isPlaylistSource(file)) {
+                this._runHook('beforeLoad');
+                this.#playlist.load(file);
+            } else if (!this.#playlist.getItems().length && (this.#ads || !preload || preload !== 'none')) {
+                this._runHook('beforeLoad');
                 this.#media.load();
                 this.#media.loaded = true;
             }
 
             if (!this.#autoplay && this.#ads) {
-                const adsOptions = this.#options && this.#options.ads ? this.#options.ads : undefined;
-                this.#adsInstance = new Ads(this, this.#ads, false, false, adsOptions);
+                this.#adsInstance = new Ads(this, this.#ads, false, false, this._getAdsOptions());
             }
         } catch (e) {
             console.error(e);
@@ -672,6 +1232,9 @@ class Player {
     }
 
     public loadAd(src: string | string[]) {
+        if (this.#adPolicy && !this.#adPolicy.check(src)) {
+            return;
+        }
         if (this.isAd()) {
             this.activeElement().destroy();
             this.activeElement().src = src;
@@ -680,9 +1243,10 @@ class Player {
                 this.activeElement().play();
             }
         } else {
-            const adsOptions = this.#options && this.#options.ads ? this.#options.ads : undefined;
-            this.#adsInstance = new Ads(this, src, false, false, adsOptions);
+            this.#adsInstance = new Ads(this, src, false, false, this._getAdsOptions());
             if (!this.activeElement().paused) {
+                // Flag the request so the break starts as soon as the Ads manager is loaded
+                this.#adsInstance.playRequested = true;
                 this.#adsInstance.play();
             }
         }
@@ -691,12 +1255,22 @@ class Player {
     /**
      * Set a Source object to the current media.
      *
+     * If the source is an M3U (`.m3u`, not HLS) or XSPF file, its entries will be loaded in the playlist (unless
+     * the M3U file is an HLS manifest); the sources of the playlist items are always loaded as media.
      * @memberof Player
      */
     set src(media: Source[]) {
         if (this.#media instanceof Media) {
+            const [file] = Array.isArray(media) ? media : [];
+            const isItem = this.#playlist && this.#playlist.getItems().some(item => item.sources === media);
+            if (file && !isItem && isPlaylistSource(file)) {
+                this._runHook('sourceChange', media);
+                this.#playlist.load(file, !this.activeElement().paused);
+                return;
+            }
             this.#media.mediaFiles = [];
             this.#media.src = media;
+            this._runHook('sourceChange', media);
         }
     }
 
@@ -722,6 +1296,42 @@ class Player {
         return this.#uid;
     }
 
+    /**
+     * Attach a listener to the media element and keep track of it.
+     *
+     * @private
+     * @param {string} event
+     * @param {Function} handler  The function passed by the consumer (used to remove the listener).
+     * @param {Function} listener  The function actually attached to the element.
+     * @memberof Player
+     */
+    private _listen(event: string, handler: (e: any) => void, listener: (e: any) => void): void {
+        this.#element.addEventListener(event, listener, EVENT_OPTIONS);
+        this.#listeners.push({ event, handler, listener });
+    }
+
+    /**
+     * Execute a lifecycle hook of every plugin, warning about their errors instead of interrupting the player.
+     *
+     * @private
+     * @param {string} hook
+     * @param {?Source[]} sources  The sources assigned to the player, for `sourceChange`.
+     * @memberof Player
+     */
+    private _runHook(hook: keyof PluginHooks, sources?: Source[]): void {
+        this.#plugins.forEach(plugin => {
+            const callback: PluginHooks[keyof PluginHooks] | undefined = plugin[hook];
+            if (typeof callback === 'function') {
+                try {
+                    // `sourceChange` is the only hook that receives more than the player
+                    (callback as (this: Plugin, player: Player, sources?: Source[]) => void).call(plugin, this, sources);
+                } catch (error) {
+                    console.warn(`Plugin warning (${plugin.name}): ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        });
+    }
+
     /**
      * Check if the element passed in the constructor is a valid video/audio tag
      * with 'op-player__media' class (at the very least, since `op-player` works
@@ -1023,8 +1633,7 @@ class Player {
                 }
 
                 if (this.#ads) {
-                    const adsOptions = this.#options && this.#options.ads ? this.#options.ads : undefined;
-                    this.#adsInstance = new Ads(this, this.#ads, this.#canAutoplay, this.#canAutoplayMuted, adsOptions);
+                    this.#adsInstance = new Ads(this, this.#ads, this.#canAutoplay, this.#canAutoplayMuted, this._getAdsOptions());
                 } else if (this.#canAutoplay || this.#canAutoplayMuted) {
                     return this.play();
                 }
@@ -1032,6 +1641,17 @@ class Player {
         }
     }
 
+    /**
+     * Retrieve the options to create an Ads instance, which always uses the tracker of the player.
+     *
+     * @private
+     * @returns {AdsOptions}
+     * @memberof Player
+     */
+    private _getAdsOptions(): AdsOptions {
+        return { ...this.#options.ads, tracker: this.#tracker } as AdsOptions;
+    }
+
     /**
      * Merge user's configuration with default configuration.
      *
@@ -0,0 +1,655 @@
+import EventsList from './interfaces/events-list';
+import PlaylistItem from './interfaces/playlist/item';
+import PlaylistOptions from './interfaces/playlist/options';
+import Source from './interfaces/source';
+import Player from './player';
+import { appendTrack } from './utils/captions';
+import { EVENT_OPTIONS } from './utils/constants';
+import { addEvent } from './utils/events';
+import { getAbsoluteUrl, isVideo, removeElement, request } from './utils/general';
+import { isM3USource, isXspfSource } from './utils/media';
+import { isHlsManifest, parseM3U, parseXSPF } from './utils/playlist';
+
+/**
+ * Playlist element.
+ *
+ * @description This class manages a queue of media items (each one with its own sources, poster,
+ * captions and Ads) that will be played one after another using the same player instance, so
+ * volume, captions and settings are preserved between items.
+ * @class Playlist
+ */
+class Playlist {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof Playlist
+     */
+    #player: Player;
+
+    /**
+     * Collection of items in the order they were added.
+     *
+     * @private
+     * @type PlaylistItem[]
+     * @memberof Playlist
+     */
+    #items: PlaylistItem[] = [];
+
+    /**
+     * Sequence of item indexes that determines the playback order (it differs from
+     * the items' order only when shuffle mode is enabled).
+     *
+     * @private
+     * @type number[]
+     * @memberof Playlist
+     */
+    #order: number[] = [];
+
+    /**
+     * Index of the item currently loaded in the player.
+     *
+     * @private
+     * @type number
+     * @memberof Playlist
+     */
+    #current: number = -1;
+
+    /**
+     * Flag to indicate that the item currently loaded was removed from the list, so it keeps
+     * playing until it ends without being part of the playback order.
+     *
+     * @private
+     * @type boolean
+     * @memberof Playlist
+     */
+    #detached: boolean = false;
+
+    /**
+     * Index of the item to be played after the one that was removed while being loaded (`-1` if
+     * the removed item was the last one in the playback order).
+     *
+     * @private
+     * @type number
+     * @memberof Playlist
+     */
+    #upcoming: number = -1;
+
+    /**
+     * Playlist configuration.
+     *
+     * @private
+     * @type PlaylistOptions
+     * @memberof Playlist
+     */
+    #options: PlaylistOptions;
+
+    /**
+     * Flag to indicate that the current item has Ads that have not been completed yet,
+     * so advancing to the next item waits until a potential post-roll finishes.
+     *
+     * @private
+     * @type boolean
+     * @memberof Playlist
+     */
+    #adsPending: boolean = false;
+
+    /**
+     * Flag to indicate that media ended while Ads were still pending.
+     *
+     * @private
+     * @type boolean
+     * @memberof Playlist
+     */
+    #advanceRequested: boolean = false;
+
+    /**
+     * Events that will be triggered in Playlist element:
+     *  - media (to advance automatically to the next item and restore playback state)
+     *
+     * @private
+     * @type EventsList
+     * @memberof Playlist
+     */
+    #events: EventsList = {
+        media: {},
+    };
+
+    /**
+     * Create an instance of Playlist.
+     *
+     * @param {Player} player
+     * @param {?PlaylistOptions} options
+     * @returns {Playlist}
+     * @memberof Playlist
+     */
+    constructor(player: Player, options?: PlaylistOptions) {
+        const defaultOpts: PlaylistOptions = {
+            autoAdvance: true,
+            items: [],
+            repeat: 'none',
+            shuffle: false,
+        };
+        this.#player = player;
+        this.#options = { ...defaultOpts, ...options };
+        return this;
+    }
+
+    /**
+     * Set the events to advance automatically through the list and load the initial items (if any).
+     *
+     * @memberof Playlist
+     */
+    public create(): void {
+        this.#events.media.ended = () => {
+            if ((this.#current < 0 && !this.#detached) || this.#player.isAd()) {
+                return;
+            }
+            const schedule = this.#player.getAdSchedule();
+            if (this.#adsPending || (schedule && schedule.hasPostroll())) {
+                this.#advanceRequested = true;
+                return;
+            }
+            this._advance();
+        };
+        this.#events.media.adsallAdsCompleted = () => {
+            this.#adsPending = false;
+            if (this.#advanceRequested) {
+                this.#advanceRequested = false;
+                this._advance();
+            }
+        };
+        this.#events.media.adsbreakblocked = () => {
+            this.#events.media.adsallAdsCompleted();
+        };
+        this.#events.media.playererror = (e: CustomEvent) => {
+            if (e.detail && e.detail.type === 'Ads') {
+                this.#events.media.adsallAdsCompleted();
+            }
+        };
+
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+
+        if (this.#options.items.length) {
+            this.add(this.#options.items);
+            this.playItem(this.#order[0], false);
+        }
+    }
+
+    /**
+     * Remove the events associated with the playlist.
+     *
+     * @memberof Playlist
+     */
+    public destroy(): void {
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.removeEventListener(event, this.#events.media[event]);
+        });
+    }
+
+    /**
+     * Fetch an M3U (simple or extended) or XSPF file and replace the current list with its entries.
+     *
+     * If the M3U file turns out to be an HLS manifest, it will be played as a regular stream instead.
+     * @param {Source} source
+     * @param {boolean} play  If `true`, the first entry will be played once the list is loaded.
+     * @returns {Promise<void>}
+     * @memberof Playlist
+     */
+    public load(source: Source, play: boolean = false): Promise<void> {
+        const url = getAbsoluteUrl(source.src);
+        return new Promise((resolve, reject) => {
+            request(url, 'text', resolve, reject);
+        }).then((content: any) => {
+            const text = `${content}`;
+            if (isM3USource(source) && isHlsManifest(text)) {
+                const media = this.#player.getMedia();
+                media.src = [{ src: source.src, type: 'application/x-mpegURL' }];
+                this.#player.load();
+                media.loaded = true;
+                if (play) {
+                    this.#player.activeElement().play();
+                }
+                return;
+            }
+
+            const entries = isXspfSource(source) ? parseXSPF(text, url) : parseM3U(text, url);
+            this.clear();
+            this.add(entries.map(entry => ({
+                duration: entry.duration,
+                sources: [entry],
+                title: entry.title,
+            })));
+            if (this.#order.length) {
+                this.playItem(this.#order[0], play);
+            }
+        }).catch(status => {
+            const message = `Playlist ${source.src} could not be loaded`;
+            const details = {
+                detail: {
+                    data: { error: status, src: source.src },
+                    message,
+                    type: 'Playlist',
+                },
+            };
+            const errorEvent = addEvent('playererror', details);
+            this.#player.getElement().dispatchEvent(errorEvent);
+        });
+    }
+
+    /**
+     * Append one or more items to the list, or insert them in a specific position.
+     *
+     * @param {PlaylistItem|PlaylistItem[]} item
+     * @param {?number} index  Position to insert the item(s); by default, they are appended at the end.
+     * @memberof Playlist
+     */
+    public add(item: PlaylistItem | PlaylistItem[], index?: number): void {
+        const items = Array.isArray(item) ? item : [item];
+        const position = index !== undefined && index >= 0 && index < this.#items.length ? index : this.#items.length;
+        this.#items.splice(position, 0, ...items);
+        this._reindex(i => (i >= position ? i + items.length : i));
+
+        // In shuffle mode, new items are placed randomly among the ones pending to be played,
+        // so the order already set for the rest of the list is kept
+        if (this.#options.shuffle) {
+            const start = this.#current > -1 ? this.#order.indexOf(this.#current) + 1 : 0;
+            items.forEach((_, i) => {
+                const target = start + Math.floor(Math.random() * (this.#order.length - start + 1));
+                this.#order.splice(target, 0, position + i);
+            });
+        } else {
+            this._setOrder();
+        }
+        this._dispatchChange();
+    }
+
+    /**
+     * Remove the item located in the specified position.
+     *
+     * If the item being removed is the one currently loaded, it will keep playing until it ends,
+     * and then the list will continue with the item that followed it.
+     * @param {number} index
+     * @memberof Playlist
+     */
+    public remove(index: number): void {
+        if (index < 0 || index >= this.#items.length) {
+            return;
+        }
+        if (index === this.#current || (this.#detached && index === this.#upcoming)) {
+            const position = this.#order.indexOf(index);
+            let following = position + 1 < this.#order.length ? this.#order[position + 1] : -1;
+            if (following === -1 && this.#options.repeat === 'all') {
+                following = this.#order[0];
+            }
+            this.#upcoming = following === index ? -1 : following;
+            if (index === this.#current) {
+                this.#current = -1;
+                this.#detached = true;
+            }
+        }
+        this.#items.splice(index, 1);
+        this._reindex(i => (i === index ? -1 : (i > index ? i - 1 : i)));
+        this._dispatchChange();
+    }
+
+    /**
+     * Move an item to a different position in the list.
+     *
+     * @param {number} from  Current position of the item.
+     * @param {number} to  New position of the item.
+     * @memberof Playlist
+     */
+    public move(from: number, to: number): void {
+        const total = this.#items.length;
+        if (from < 0 || from >= total || to < 0 || to >= total || from === to) {
+            return;
+        }
+        const [item] = this.#items.splice(from, 1);
+        this.#items.splice(to, 0, item);
+
+        this._reindex(i => {
+            if (i === from) {
+                return to;
+            }
+            if (from < i && i <= to) {
+                return i - 1;
+            }
+            return to <= i && i < from ? i + 1 : i;
+        });
+        if (!this.#options.shuffle) {
+            this._setOrder();
+        }
+        this._dispatchChange();
+    }
+
+    /**
+     * Remove all the items from the list.
+     *
+     * @memberof Playlist
+     */
+    public clear(): void {
+        this.#items = [];
+        this.#order = [];
+        this.#current = -1;
+        this.#detached = false;
+        this.#upcoming = -1;
+        this._dispatchChange();
+    }
+
+    /**
+     * Retrieve the list of items in the order they were added.
+     *
+     * @returns {PlaylistItem[]}
+     * @memberof Playlist
+     */
+    public getItems(): PlaylistItem[] {
+        return this.#items;
+    }
+
+    /**
+     * Load the item located in the specified position and (optionally) play it.
+     *
+     * @param {number} index
+     * @param {boolean} play  If `false`, the item is only loaded.
+     * @memberof Playlist
+     */
+    public playItem(index: number, play: boolean = true): void {
+        const item = this.#items[index];
+        if (!item) {
+            return;
+        }
+
+        const element = this.#player.getElement();
+        const playbackRate = element.playbackRate;
+        const captions = this._getActiveCaptions();
+
+        this.#current = index;
+        this.#detached = false;
+        this.#upcoming = -1;
+        this.#adsPending = !!item.ads;
+        this.#advanceRequested = false;
+
+        this.#player.src = item.sources;
+
+        if (isVideo(element)) {
+            if (item.poster) {
+                (element as HTMLVideoElement).poster = item.poster;
+            } else {
+                element.removeAttribute('poster');
+            }
+        }
+
+        const tracks = element.querySelectorAll('track');
+        for (let i = 0, total = tracks.length; i < total; i++) {
+            removeElement(tracks[i]);
+        }
+        (item.captions || []).forEach(caption => {
+            const isDefault = captions !== undefined ? captions === caption.srclang : caption.default || false;
+            appendTrack(element, { ...caption, default: isDefault });
+        });
+
+        // Playback rate is reset by the browser every time a new source is loaded
+        const restoreRate = () => {
+            element.playbackRate = playbackRate;
+            element.removeEventListener('loadedmetadata', restoreRate);
+        };
+        element.addEventListener('loadedmetadata', restoreRate, EVENT_OPTIONS);
+
+        if (item.ads) {
+            this.#player.loadAd(item.ads);
+        }
+
+        const loaded = this.#player.load();
+        this.#player.getMedia().loaded = true;
+        const e = addEvent('controlschanged');
+        element.dispatchEvent(e);
+
+        const itemEvent = addEvent('playlistitemchanged', { detail: { index, item } });
+        element.dispatchEvent(itemEvent);
+
+        if (play) {
+            const start = () => {
+                if (this.#player.getAd()) {
+                    this.#player.getAd().playRequested = true;
+                }
+                this.#player.activeElement().play();
+            };
+            if (loaded) {
+                loaded.then(start);
+            } else {
+                start();
+            }
+        }
+    }
+
+    /**
+     * Play the next item in the list, considering shuffle and repeat modes.
+     *
+     * @returns {boolean}  `false` if there is no next item to play.
+     * @memberof Playlist
+     */
+    public next(): boolean {
+        // Once all the items were played in shuffle mode, generate a new random order
+        const { repeat, shuffle } = this.#options;
+        if (shuffle && repeat === 'all' && this.#order.indexOf(this.#current) === this.#order.length - 1) {
+            this._setOrder();
+        }
+        const index = this._getSibling(1);
+        if (index === -1) {
+            return false;
+        }
+        this.playItem(index);
+        return true;
+    }
+
+    /**
+     * Play the previous item in the list, considering shuffle and repeat modes.
+     *
+     * @returns {boolean}  `false` if there is no previous item to play.
+     * @memberof Playlist
+     */
+    public previous(): boolean {
+        const index = this._getSibling(-1);
+        if (index === -1) {
+            return false;
+        }
+        this.playItem(index);
+        return true;
+    }
+
+    /**
+     * Check if there is an item to play after the current one.
+     *
+     * @returns {boolean}
+     * @memberof Playlist
+     */
+    public hasNext(): boolean {
+        return this._getSibling(1) > -1;
+    }
+
+    /**
+     * Check if there is an item to play before the current one.
+     *
+     * @returns {boolean}
+     * @memberof Playlist
+     */
+    public hasPrevious(): boolean {
+        return this._getSibling(-1) > -1;
+    }
+
+    /**
+     * Retrieve the index of the item currently loaded (`-1` if none).
+     *
+     * @type number
+     * @memberof Playlist
+     * @readonly
+     */
+    get current(): number {
+        return this.#current;
+    }
+
+    /**
+     * Enable/disable shuffle mode.
+     *
+     * @memberof Playlist
+     */
+    set shuffle(value: boolean) {
+        this.#options = { ...this.#options, shuffle: value };
+        this._setOrder();
+        this._dispatchChange();
+    }
+
+    /**
+     * Retrieve the shuffle mode status.
+     *
+     * @type boolean
+     * @memberof Playlist
+     * @readonly
+     */
+    get shuffle(): boolean {
+        return this.#options.shuffle;
+    }
+
+    /**
+     * Set repeat mode (`none`, `one` or `all`).
+     *
+     * @memberof Playlist
+     */
+    set repeat(value: string) {
+        this.#options = { ...this.#options, repeat: ['none', 'one', 'all'].indexOf(value) > -1 ? value : 'none' };
+        this._dispatchChange();
+    }
+
+    /**
+     * Retrieve the repeat mode.
+     *
+     * @type string
+     * @memberof Playlist
+     * @readonly
+     */
+    get repeat(): string {
+        return this.#options.repeat;
+    }
+
+    /**
+     * Play the next item (or replay the current one) once media has ended.
+     *
+     * @private
+     * @memberof Playlist
+     */
+    private _advance(): void {
+        if (this.#options.repeat === 'one' && this.#current > -1) {
+            this.playItem(this.#current);
+        } else if (this.#options.autoAdvance) {
+            this.next();
+        }
+    }
+
+    /**
+     * Obtain the index of the item located `step` positions away from the current one
+     * in the playback order, or `-1` if there is none.
+     *
+     * @private
+     * @param {number} step
+     * @returns {number}
+     * @memberof Playlist
+     */
+    private _getSibling(step: number): number {
+        const total = this.#order.length;
+        if (!total) {
+            return -1;
+        }
+        let position = this.#order.indexOf(this.#current);
+        if (position === -1 && !this.#detached) {
+            return this.#order[0];
+        }
+        // If the current item was removed, the upcoming item is taken as the next one
+        if (position === -1) {
+            position = (this.#upcoming > -1 ? this.#order.indexOf(this.#upcoming) : total) - (step > 0 ? 1 : 0);
+        }
+        let target = position + step;
+        if (target < 0 || target >= total) {
+            if (this.#options.repeat !== 'all') {
+                return -1;
+            }
+            target = (target + total) % total;
+        }
+        return this.#order[target];
+    }
+
+    /**
+     * Build the playback order; in shuffle mode, the current item is always kept
+     * as the first one so the rest of the items are played after it.
+     *
+     * @private
+     * @memberof Playlist
+     */
+    private _setOrder(): void {
+        const indexes = this.#items.map((_, i) => i);
+        if (!this.#options.shuffle) {
+            this.#order = indexes;
+            return;
+        }
+
+        const rest = indexes.filter(i => i !== this.#current);
+        for (let i = rest.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [rest[i], rest[j]] = [rest[j], rest[i]];
+        }
+        this.#order = this.#current > -1 ? [this.#current, ...rest] : rest;
+    }
+
+    /**
+     * Update the indexes of the current item, the upcoming one and the playback order once the items
+     * have been rearranged; indexes mapped to `-1` are discarded.
+     *
+     * @private
+     * @param {Function} map  Function that receives a previous index and returns the new one.
+     * @memberof Playlist
+     */
+    private _reindex(map: (index: number) => number): void {
+        this.#current = this.#current > -1 ? map(this.#current) : -1;
+        this.#upcoming = this.#upcoming > -1 ? map(this.#upcoming) : -1;
+        this.#order = this.#order.map(map).filter(i => i > -1);
+    }
+
+    /**
+     * Obtain the language of the captions currently displayed, `off` if the user turned them off,
+     * or `undefined` if there is no captions control available.
+     *
+     * @private
+     * @returns {string|undefined}
+     * @memberof Playlist
+     */
+    private _getActiveCaptions(): string | undefined {
+        const controls = this.#player.getControls();
+        const button = controls ? controls.getContainer().querySelector('.op-controls__captions') : null;
+        return button ? button.getAttribute('data-active-captions') || undefined : undefined;
+    }
+
+    /**
+     * Notify that the list (or any of its modes) has changed.
+     *
+     * @private
+     * @memberof Playlist
+     */
+    private _dispatchChange(): void {
+        const e = addEvent('playlistchanged', {
+            detail: {
+                current: this.#current,
+                items: this.#items,
+                repeat: this.#options.repeat,
+                shuffle: this.#options.shuffle,
+            },
+        });
+        this.#player.getElement().dispatchEvent(e);
+    }
+}
+
+export default Playlist;
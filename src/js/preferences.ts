@@ -0,0 +1,228 @@
+import EventsList from './interfaces/events-list';
+import Level from './interfaces/level';
+import PreferencesOptions from './interfaces/preferences/options';
+import PreferencesStorage from './interfaces/preferences/storage';
+import UserPreferences from './interfaces/preferences/user';
+import Player from './player';
+import { EVENT_OPTIONS } from './utils/constants';
+import { callStorage } from './utils/general';
+import { findLevel, getLevelHeight } from './utils/media';
+
+/**
+ * Default storage, which keeps the preferences in `localStorage` (if available).
+ */
+const localStorageAdapter: PreferencesStorage = {
+    get: () => {
+        const value = window.localStorage.getItem('op-preferences');
+        return value ? JSON.parse(value) : null;
+    },
+    set: (preferences: UserPreferences) => window.localStorage.setItem('op-preferences', JSON.stringify(preferences)),
+};
+
+/**
+ * Preferences element.
+ *
+ * @description This class remembers the volume, speed, captions language and quality chosen by the viewer
+ * and applies them every time the player is created. The captions and levels controls use them
+ * to select their initial option.
+ * @class Preferences
+ */
+class Preferences {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof Preferences
+     */
+    #player: Player;
+
+    /**
+     * Preferences configuration.
+     *
+     * @private
+     * @type PreferencesOptions
+     * @memberof Preferences
+     */
+    #options: PreferencesOptions;
+
+    /**
+     * Adapter to save the preferences.
+     *
+     * @private
+     * @type PreferencesStorage
+     * @memberof Preferences
+     */
+    #storage: PreferencesStorage;
+
+    /**
+     * Current preferences of the viewer.
+     *
+     * @private
+     * @type UserPreferences
+     * @memberof Preferences
+     */
+    #values: UserPreferences = {};
+
+    /**
+     * Events that will be triggered in Preferences element:
+     *  - media (to record the choices of the viewer)
+     *
+     * @private
+     * @type EventsList
+     * @memberof Preferences
+     */
+    #events: EventsList = {
+        media: {},
+    };
+
+    /**
+     * Create an instance of Preferences.
+     *
+     * @param {Player} player
+     * @param {?PreferencesOptions} options
+     * @returns {Preferences}
+     * @memberof Preferences
+     */
+    constructor(player: Player, options?: PreferencesOptions) {
+        const defaultOpts: PreferencesOptions = {
+            enabled: false,
+        };
+        this.#player = player;
+        this.#options = { ...defaultOpts, ...options };
+        this.#storage = this.#options.storage || localStorageAdapter;
+        return this;
+    }
+
+    /**
+     * Apply the preferences saved and set the events to record the new choices.
+     *
+     * @memberof Preferences
+     */
+    public create(): void {
+        if (!this.#options.enabled) {
+            return;
+        }
+
+        this.#events.media.volumechange = () => {
+            if (!this.#player.isAd()) {
+                const media = this.#player.getMedia();
+                this._save({ muted: media.muted, volume: media.volume });
+            }
+        };
+        this.#events.media.ratechange = () => {
+            if (!this.#player.isAd()) {
+                this._save({ playbackRate: this.#player.getMedia().playbackRate });
+            }
+        };
+        this.#events.media.captionschanged = (e: CustomEvent) => {
+            if (e.detail && e.detail.language) {
+                this._save({ captions: e.detail.language });
+            }
+        };
+        this.#events.media.captionstylechanged = (e: CustomEvent) => {
+            if (e.detail && e.detail.style) {
+                this._save({ captionStyle: e.detail.style });
+            }
+        };
+        this.#events.media.levelchanged = (e: CustomEvent) => {
+            const id = e.detail ? e.detail.level : -1;
+            const level = this.#player.getMedia().levels.find((item: Level) => parseInt(item.id, 10) === id);
+            this._save({ quality: level ? getLevelHeight(level) : -1 });
+        };
+
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+
+        callStorage('Preferences', () => this.#storage.get(), values => {
+            if (values) {
+                this.set(values, false);
+            }
+        });
+    }
+
+    /**
+     * Remove the events associated with the preferences.
+     *
+     * @memberof Preferences
+     */
+    public destroy(): void {
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.removeEventListener(event, this.#events.media[event]);
+        });
+    }
+
+    /**
+     * Retrieve the current preferences.
+     *
+     * @returns {UserPreferences}
+     * @memberof Preferences
+     */
+    public get(): UserPreferences {
+        return { ...this.#values };
+    }
+
+    /**
+     * Merge new values into the current preferences and apply them to the player.
+     *
+     * @param {UserPreferences} values
+     * @param {boolean} [save=true]  If `false`, preferences will not be sent to the storage.
+     * @memberof Preferences
+     */
+    public set(values: UserPreferences, save: boolean = true): void {
+        this.#values = { ...this.#values, ...values };
+        const media = this.#player.getMedia();
+        const controls = this.#player.getControls();
+        const captions = controls ? controls.getCaptions() : undefined;
+        const levels = controls ? controls.getLevels() : undefined;
+        if (media) {
+            if (typeof values.volume === 'number') {
+                media.volume = values.volume;
+            }
+            if (typeof values.muted === 'boolean') {
+                media.muted = values.muted;
+            }
+            if (typeof values.playbackRate === 'number') {
+                media.defaultPlaybackRate = values.playbackRate;
+                media.playbackRate = values.playbackRate;
+            }
+            if (typeof values.quality === 'number' && media.levels.length) {
+                const level = findLevel(media.levels, values.quality);
+                if (levels) {
+                    levels.setLevel(level);
+                } else {
+                    media.level = level;
+                }
+            }
+        }
+
+        // Captions not loaded yet will be selected by the control using the preferences once they are ready
+        if (captions && values.captions !== undefined) {
+            captions.setLanguage(values.captions);
+        }
+        if (captions && values.captionStyle !== undefined) {
+            captions.setStyle(values.captionStyle);
+        }
+
+        if (save && this.#options.enabled) {
+            callStorage('Preferences', () => this.#storage.set(this.#values));
+        }
+    }
+
+    /**
+     * Merge the choices of the viewer into the current preferences and send them to the storage.
+     *
+     * @private
+     * @param {UserPreferences} values
+     * @memberof Preferences
+     */
+    private _save(values: UserPreferences): void {
+        this.#values = { ...this.#values, ...values };
+        callStorage('Preferences', () => this.#storage.set(this.#values));
+    }
+}
+
+export default Preferences;
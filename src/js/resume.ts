@@ -0,0 +1,323 @@
+import EventsList from './interfaces/events-list';
+import ResumeOptions from './interfaces/resume/options';
+import ResumeStorage from './interfaces/resume/storage';
+import Player from './player';
+import { EVENT_OPTIONS } from './utils/constants';
+import { callStorage, removeElement } from './utils/general';
+import { formatTime } from './utils/time';
+
+/**
+ * Default storage, which keeps the positions in `localStorage` (if available).
+ */
+const localStorageAdapter: ResumeStorage = {
+    get: (key: string) => {
+        const value = window.localStorage.getItem(`op-resume:${key}`);
+        return value !== null && !isNaN(parseFloat(value)) ? parseFloat(value) : null;
+    },
+    remove: (key: string) => window.localStorage.removeItem(`op-resume:${key}`),
+    set: (key: string, time: number) => window.localStorage.setItem(`op-resume:${key}`, `${time}`),
+};
+
+/**
+ * Resume element.
+ *
+ * @description This class saves periodically the position reached in media (per source URL or the `id`
+ * configured) and, the next time the same media is loaded, resumes it from there (or lets the viewer choose
+ * between resuming or starting over). Positions near the end are ignored, and they are cleared once media ends.
+ * @class Resume
+ */
+class Resume {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof Resume
+     */
+    #player: Player;
+
+    /**
+     * Resume configuration.
+     *
+     * @private
+     * @type ResumeOptions
+     * @memberof Resume
+     */
+    #options: ResumeOptions;
+
+    /**
+     * Adapter to save the positions.
+     *
+     * @private
+     * @type ResumeStorage
+     * @memberof Resume
+     */
+    #storage: ResumeStorage;
+
+    /**
+     * Identifier of the playlist item loaded; `null` if media is not part of a playlist.
+     *
+     * @private
+     * @type string|null
+     * @memberof Resume
+     */
+    #itemId: string | null = null;
+
+    /**
+     * Key of the media whose saved position has already been checked, to avoid resuming it twice.
+     *
+     * @private
+     * @type string
+     * @memberof Resume
+     */
+    #checkedKey: string = '';
+
+    /**
+     * Time in milliseconds when the position was saved for the last time.
+     *
+     * @private
+     * @type number
+     * @memberof Resume
+     */
+    #lastSave: number = 0;
+
+    /**
+     * Element to choose between resuming media or starting over.
+     *
+     * @private
+     * @type HTMLDivElement
+     * @memberof Resume
+     */
+    #prompt?: HTMLDivElement;
+
+    /**
+     * Events that will be triggered in Resume element:
+     *  - media (to save, clear and restore the position reached)
+     *
+     * @private
+     * @type EventsList
+     * @memberof Resume
+     */
+    #events: EventsList = {
+        media: {},
+    };
+
+    /**
+     * Create an instance of Resume.
+     *
+     * @param {Player} player
+     * @param {?ResumeOptions} options
+     * @returns {Resume}
+     * @memberof Resume
+     */
+    constructor(player: Player, options?: ResumeOptions) {
+        const defaultOpts: ResumeOptions = {
+            enabled: false,
+            ignoreLast: 10,
+            interval: 5,
+            minTime: 5,
+            prompt: true,
+        };
+        this.#player = player;
+        this.#options = { ...defaultOpts, ...options };
+        this.#storage = this.#options.storage || localStorageAdapter;
+        return this;
+    }
+
+    /**
+     * Set the events to save the position reached and resume it once media is loaded.
+     *
+     * @memberof Resume
+     */
+    public create(): void {
+        if (!this.#options.enabled) {
+            return;
+        }
+
+        this.#events.media.loadedmetadata = this._check.bind(this);
+        this.#events.media.timeupdate = () => {
+            const now = new Date().getTime();
+            if (!this.#player.isAd() && now - this.#lastSave >= (this.#options.interval || 0) * 1000) {
+                this.#lastSave = now;
+                this.save();
+            }
+        };
+        this.#events.media.pause = () => {
+            if (!this.#player.isAd()) {
+                this.save();
+            }
+        };
+        this.#events.media.ended = () => {
+            if (!this.#player.isAd()) {
+                this.clear();
+            }
+        };
+        // If media starts playing without choosing, it is played from the current position
+        this.#events.media.play = () => {
+            if (!this.#player.isAd()) {
+                this._hidePrompt();
+            }
+        };
+        this.#events.media.playlistitemchanged = (e: CustomEvent) => {
+            this.#itemId = e.detail && e.detail.item && e.detail.item.id ? e.detail.item.id : '';
+            this.#checkedKey = '';
+            this._hidePrompt();
+        };
+
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+    }
+
+    /**
+     * Remove the events and the prompt associated with the resume feature.
+     *
+     * @memberof Resume
+     */
+    public destroy(): void {
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.removeEventListener(event, this.#events.media[event]);
+        });
+        this._hidePrompt();
+    }
+
+    /**
+     * Save the current position of media; positions that cannot be resumed clear the saved one.
+     *
+     * @memberof Resume
+     */
+    public save(): void {
+        const key = this.getKey();
+        const media = this.#player.getMedia();
+        // While the prompt is visible, the position saved has not been restored yet
+        if (!key || this.#prompt || !(media.duration > 0 && isFinite(media.duration))) {
+            return;
+        }
+
+        const time = media.currentTime;
+        if (this._isResumable(time, media.duration)) {
+            callStorage('Resume', () => this.#storage.set(key, time));
+        } else {
+            this.clear();
+        }
+    }
+
+    /**
+     * Remove the position saved for the current media.
+     *
+     * @memberof Resume
+     */
+    public clear(): void {
+        const key = this.getKey();
+        if (key) {
+            callStorage('Resume', () => this.#storage.remove(key));
+        }
+    }
+
+    /**
+     * Retrieve the key used to save the position of the current media.
+     *
+     * @returns {string}
+     * @memberof Resume
+     */
+    public getKey(): string {
+        const current = this.#player.getMedia().current;
+        const src = current ? current.src : '';
+        return this.#itemId === null ? (this.#options.id || src) : (this.#itemId || src);
+    }
+
+    /**
+     * Restore the position saved for the media loaded (only once per media).
+     *
+     * @private
+     * @memberof Resume
+     */
+    private _check(): void {
+        const key = this.getKey();
+        const duration = this.#player.getMedia().duration;
+        if (this.#player.isAd() || !key || key === this.#checkedKey || !(duration > 0 && isFinite(duration))) {
+            return;
+        }
+
+        this.#checkedKey = key;
+        callStorage('Resume', () => this.#storage.get(key), time => {
+            if (typeof time !== 'number' || key !== this.getKey() || !this._isResumable(time, duration)) {
+                return;
+            }
+            if (this.#options.prompt) {
+                this._showPrompt(time);
+            } else {
+                this.#player.getMedia().currentTime = time;
+            }
+        });
+    }
+
+    /**
+     * Check if a position is far enough from the beginning and the end of media to be resumed.
+     *
+     * @private
+     * @param {number} time
+     * @param {number} duration
+     * @returns {boolean}
+     * @memberof Resume
+     */
+    private _isResumable(time: number, duration: number): boolean {
+        return time >= (this.#options.minTime || 0) && time < duration - (this.#options.ignoreLast || 0);
+    }
+
+    /**
+     * Display the buttons to resume media from the position saved or to start over.
+     *
+     * @private
+     * @param {number} time
+     * @memberof Resume
+     */
+    private _showPrompt(time: number): void {
+        this._hidePrompt();
+        const { labels } = this.#player.getOptions();
+
+        this.#prompt = document.createElement('div');
+        this.#prompt.className = 'op-resume';
+
+        const resume = document.createElement('button');
+        resume.className = 'op-resume__button op-resume__button--resume';
+        resume.type = 'button';
+        resume.textContent = labels.resume.replace('%1', formatTime(time));
+        resume.addEventListener('click', () => {
+            this._hidePrompt();
+            this.#player.getMedia().currentTime = time;
+            this.#player.play();
+        }, EVENT_OPTIONS);
+
+        const startOver = document.createElement('button');
+        startOver.className = 'op-resume__button';
+        startOver.type = 'button';
+        startOver.textContent = labels.startOver;
+        startOver.addEventListener('click', () => {
+            this._hidePrompt();
+            this.clear();
+            this.#player.play();
+        }, EVENT_OPTIONS);
+
+        this.#prompt.appendChild(resume);
+        this.#prompt.appendChild(startOver);
+        this.#player.getContainer().appendChild(this.#prompt);
+    }
+
+    /**
+     * Remove the prompt, if visible.
+     *
+     * @private
+     * @memberof Resume
+     */
+    private _hidePrompt(): void {
+        if (this.#prompt) {
+            removeElement(this.#prompt);
+            this.#prompt = undefined;
+        }
+    }
+}
+
+export default Resume;
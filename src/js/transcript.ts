@@ -0,0 +1,543 @@
+import Cue from './interfaces/captions/cue';
+import CueList from './interfaces/captions/cue-list';
+import EventsList from './interfaces/events-list';
+import TranscriptOptions from './interfaces/transcript-options';
+import Player from './player';
+import { EVENT_OPTIONS } from './utils/constants';
+import { removeElement } from './utils/general';
+import { formatTime } from './utils/time';
+
+/**
+ * Transcript element.
+ *
+ * @description This class builds an interactive transcript with the cues of the current captions, either inside
+ * the player or in an external container: the cue being spoken is highlighted (and scrolled into view), clicking
+ * a cue seeks media to its start time, and its text can be searched, navigating between the matches found.
+ * @class Transcript
+ */
+class Transcript {
+    /**
+     * Instance of OpenPlayer.
+     *
+     * @private
+     * @type Player
+     * @memberof Transcript
+     */
+    #player: Player;
+
+    /**
+     * Transcript configuration.
+     *
+     * @private
+     * @type TranscriptOptions
+     * @memberof Transcript
+     */
+    #options: TranscriptOptions;
+
+    /**
+     * List of cues loaded by [[Captions]], per language.
+     *
+     * @private
+     * @type CueList
+     * @memberof Transcript
+     */
+    #cues: CueList = {};
+
+    /**
+     * Language of the cues being displayed.
+     *
+     * @private
+     * @type string
+     * @memberof Transcript
+     */
+    #language: string = '';
+
+    /**
+     * Element that contains the search box and the list of cues.
+     *
+     * @private
+     * @type HTMLDivElement
+     * @memberof Transcript
+     */
+    #panel?: HTMLDivElement;
+
+    /**
+     * Element with the list of cues.
+     *
+     * @private
+     * @type HTMLOListElement
+     * @memberof Transcript
+     */
+    #list: HTMLOListElement;
+
+    /**
+     * Element to display the position of the current match and the number of matches found.
+     *
+     * @private
+     * @type HTMLSpanElement
+     * @memberof Transcript
+     */
+    #count: HTMLSpanElement;
+
+    /**
+     * Cues displayed, sorted by their start time.
+     *
+     * @private
+     * @type Cue[]
+     * @memberof Transcript
+     */
+    #entries: Cue[] = [];
+
+    /**
+     * Index of the cue being spoken (or -1, if none).
+     *
+     * @private
+     * @type number
+     * @memberof Transcript
+     */
+    #active: number = -1;
+
+    /**
+     * Text being searched.
+     *
+     * @private
+     * @type string
+     * @memberof Transcript
+     */
+    #query: string = '';
+
+    /**
+     * Elements that highlight the matches of the search.
+     *
+     * @private
+     * @type HTMLElement[]
+     * @memberof Transcript
+     */
+    #matches: HTMLElement[] = [];
+
+    /**
+     * Index of the current match (or -1, if none).
+     *
+     * @private
+     * @type number
+     * @memberof Transcript
+     */
+    #match: number = -1;
+
+    /**
+     * Last time the viewer scrolled the list, to pause the automatic scrolling for a few seconds.
+     *
+     * @private
+     * @type number
+     * @memberof Transcript
+     */
+    #scrolledAt: number = 0;
+
+    /**
+     * Events that will be triggered in Transcript element:
+     *  - media (to load/remove the cues, follow the current language and highlight the cue being spoken)
+     *
+     * @private
+     * @type EventsList
+     * @memberof Transcript
+     */
+    #events: EventsList = {
+        media: {},
+    };
+
+    /**
+     * Create an instance of Transcript.
+     *
+     * @param {Player} player
+     * @param {?TranscriptOptions} options
+     * @returns {Transcript}
+     * @memberof Transcript
+     */
+    constructor(player: Player, options?: TranscriptOptions) {
+        const defaultOpts: TranscriptOptions = {
+            autoScroll: true,
+            enabled: false,
+        };
+        this.#player = player;
+        this.#options = { ...defaultOpts, ...options };
+        return this;
+    }
+
+    /**
+     * Build the transcript and set the events to update it.
+     *
+     * @memberof Transcript
+     */
+    public create(): void {
+        if (!this.#options.enabled) {
+            return;
+        }
+
+        this.#events.media.captionsloaded = (e: CustomEvent) => {
+            const { active, cues, language } = e.detail;
+            this.#cues[language] = cues;
+            if (active || !this.#language || this.#language === language) {
+                this.setLanguage(language);
+            }
+        };
+        this.#events.media.captionschanged = (e: CustomEvent) => {
+            const { language } = e.detail;
+            if (language && language !== 'off' && this.#cues[language]) {
+                this.setLanguage(language);
+            }
+        };
+        this.#events.media.captionsremoved = (e: CustomEvent) => {
+            const { language } = e.detail;
+            delete this.#cues[language];
+            if (this.#language === language) {
+                this.setLanguage(Object.keys(this.#cues)[0] || '');
+            }
+        };
+        this.#events.media.timeupdate = () => {
+            if (this.#player.isMedia()) {
+                this._highlight(this.#player.getMedia().currentTime);
+            }
+        };
+        this.#events.media.playlistitemchanged = () => {
+            this.#cues = {};
+            this.setLanguage('');
+        };
+
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.addEventListener(event, this.#events.media[event], EVENT_OPTIONS);
+        });
+
+        this._build();
+    }
+
+    /**
+     * Remove the events and the markup of the transcript.
+     *
+     * @memberof Transcript
+     */
+    public destroy(): void {
+        const element = this.#player.getElement();
+        Object.keys(this.#events.media).forEach(event => {
+            element.removeEventListener(event, this.#events.media[event]);
+        });
+        if (this.#panel) {
+            if (this.#panel.classList.contains('op-transcript--player')) {
+                this.#player.getKeyboard().unregister('toggleTranscript');
+            }
+            removeElement(this.#panel);
+            this.#panel = undefined;
+        }
+    }
+
+    /**
+     * Retrieve the language of the cues being displayed.
+     *
+     * @returns {string}
+     * @memberof Transcript
+     */
+    public getLanguage(): string {
+        return this.#language;
+    }
+
+    /**
+     * Display the cues of a language (if they were loaded), keeping the current search.
+     *
+     * @param {string} language
+     * @memberof Transcript
+     */
+    public setLanguage(language: string): void {
+        this.#language = language;
+        this.#entries = (this.#cues[language] || []).slice().sort((a, b) => a.startTime - b.startTime);
+        this.#active = -1;
+        if (!this.#list) {
+            return;
+        }
+
+        this.#list.innerHTML = '';
+        this.#entries.forEach((cue, index) => {
+            const time = document.createElement('span');
+            time.className = 'op-transcript__time';
+            time.textContent = formatTime(cue.startTime);
+
+            const text = document.createElement('span');
+            text.className = 'op-transcript__text';
+            text.textContent = this._getText(cue);
+
+            const button = document.createElement('button');
+            button.className = 'op-transcript__cue';
+            button.type = 'button';
+            button.setAttribute('data-index', `${index}`);
+            button.appendChild(time);
+            button.appendChild(text);
+
+            const item = document.createElement('li');
+            item.appendChild(button);
+            this.#list.appendChild(item);
+        });
+
+        this.search(this.#query);
+        if (this.#player.isMedia() && this.#player.getMedia()) {
+            this._highlight(this.#player.getMedia().currentTime);
+        }
+    }
+
+    /**
+     * Highlight the text searched in the cues, and move to the first match.
+     *
+     * @param {string} query
+     * @returns {number} The number of matches found.
+     * @memberof Transcript
+     */
+    public search(query: string): number {
+        this.#query = query.trim();
+        this.#matches = [];
+        this.#match = -1;
+        if (!this.#list) {
+            return 0;
+        }
+
+        const needle = this.#query.toLowerCase();
+        const texts = this.#list.querySelectorAll('.op-transcript__text');
+        for (let i = 0, total = texts.length; i < total; i++) {
+            const element = texts[i] as HTMLElement;
+            const content = element.textContent || '';
+            element.innerHTML = '';
+            let start = 0;
+            let position = needle ? content.toLowerCase().indexOf(needle) : -1;
+            while (position > -1) {
+                element.appendChild(document.createTextNode(content.slice(start, position)));
+                const mark = document.createElement('mark');
+                mark.className = 'op-transcript__match';
+                mark.textContent = content.slice(position, position + needle.length);
+                element.appendChild(mark);
+                this.#matches.push(mark);
+                start = position + needle.length;
+                position = content.toLowerCase().indexOf(needle, start);
+            }
+            element.appendChild(document.createTextNode(content.slice(start)));
+        }
+
+        this._goToMatch(this.#matches.length ? 0 : -1);
+        return this.#matches.length;
+    }
+
+    /**
+     * Move to the next match of the search (going back to the first one after the last).
+     *
+     * @memberof Transcript
+     */
+    public nextMatch(): void {
+        if (this.#matches.length) {
+            this._goToMatch((this.#match + 1) % this.#matches.length);
+        }
+    }
+
+    /**
+     * Move to the previous match of the search (going to the last one before the first).
+     *
+     * @memberof Transcript
+     */
+    public previousMatch(): void {
+        if (this.#matches.length) {
+            this._goToMatch((this.#match - 1 + this.#matches.length) % this.#matches.length);
+        }
+    }
+
+    /**
+     * Display/hide the transcript rendered inside the player.
+     *
+     * @memberof Transcript
+     */
+    public toggle(): void {
+        if (this.#panel) {
+            const hidden = this.#panel.getAttribute('aria-hidden') === 'true';
+            this.#panel.setAttribute('aria-hidden', hidden ? 'false' : 'true');
+        }
+    }
+
+    /**
+     * Build the markup of the transcript: a search box, buttons to navigate between matches and the list of cues.
+     *
+     * @private
+     * @memberof Transcript
+     */
+    private _build(): void {
+        const { labels } = this.#player.getOptions();
+        const { container } = this.#options;
+        const target = typeof container === 'string' ? document.querySelector(container) : container;
+
+        this.#panel = document.createElement('div');
+        this.#panel.className = target ? 'op-transcript' : 'op-transcript op-transcript--player';
+        this.#panel.setAttribute('role', 'region');
+        this.#panel.setAttribute('aria-label', labels.transcript);
+
+        const header = document.createElement('div');
+        header.className = 'op-transcript__header';
+
+        const input = document.createElement('input');
+        input.className = 'op-transcript__search';
+        input.type = 'search';
+        input.placeholder = labels.searchTranscript;
+        input.setAttribute('aria-label', labels.searchTranscript);
+        input.addEventListener('input', () => this.search(input.value), EVENT_OPTIONS);
+        input.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (e.key === 'Enter') {
+                if (e.shiftKey) {
+                    this.previousMatch();
+                } else {
+                    this.nextMatch();
+                }
+                e.preventDefault();
+            }
+        }, EVENT_OPTIONS);
+        header.appendChild(input);
+
+        this.#count = document.createElement('span');
+        this.#count.className = 'op-transcript__count';
+        this.#count.setAttribute('aria-live', 'polite');
+        header.appendChild(this.#count);
+
+        const buttons = [
+            {
+                callback: this.previousMatch.bind(this),
+                className: 'op-transcript__previous',
+                icon: '&lsaquo;',
+                label: labels.previousMatch,
+            },
+            { callback: this.nextMatch.bind(this), className: 'op-transcript__next', icon: '&rsaquo;', label: labels.nextMatch },
+        ];
+        if (!target) {
+            buttons.push({ callback: this.toggle.bind(this), className: 'op-transcript__close', icon: '&times;', label: labels.close });
+        }
+        buttons.forEach(({ callback, className, icon, label }) => {
+            const button = document.createElement('button');
+            button.className = className;
+            button.type = 'button';
+            button.title = label;
+            button.setAttribute('aria-label', label);
+            button.innerHTML = icon;
+            button.addEventListener('click', callback, EVENT_OPTIONS);
+            header.appendChild(button);
+        });
+        this.#panel.appendChild(header);
+
+        this.#list = document.createElement('ol');
+        this.#list.className = 'op-transcript__list';
+        this.#list.addEventListener('click', (e: Event) => {
+            const cue = (e.target as HTMLElement).closest('.op-transcript__cue');
+            if (cue) {
+                this._seek(parseInt(cue.getAttribute('data-index') || '0', 10));
+            }
+        }, EVENT_OPTIONS);
+        ['wheel', 'touchmove'].forEach(event => {
+            this.#list.addEventListener(event, () => {
+                this.#scrolledAt = new Date().getTime();
+            }, EVENT_OPTIONS);
+        });
+        this.#panel.appendChild(this.#list);
+
+        if (target) {
+            target.appendChild(this.#panel);
+        } else {
+            this.#panel.setAttribute('aria-hidden', 'false');
+            this.#player.getContainer().appendChild(this.#panel);
+            this.#player.getKeyboard().register('toggleTranscript', this.toggle.bind(this), labels.toggleTranscript);
+        }
+        this.setLanguage(this.#language);
+    }
+
+    /**
+     * Highlight the cue being spoken at a specific time, scrolling the list to it (unless the viewer
+     * scrolled the list in the last few seconds).
+     *
+     * @private
+     * @param {number} currentTime
+     * @memberof Transcript
+     */
+    private _highlight(currentTime: number): void {
+        const index = this.#entries.findIndex(cue => currentTime >= cue.startTime && currentTime < cue.endTime);
+        if (index === this.#active || !this.#list) {
+            return;
+        }
+
+        const items = this.#list.querySelectorAll('.op-transcript__cue');
+        if (this.#active > -1 && items[this.#active]) {
+            items[this.#active].classList.remove('op-transcript__cue--active');
+            items[this.#active].removeAttribute('aria-current');
+        }
+        this.#active = index;
+        if (index > -1 && items[index]) {
+            items[index].classList.add('op-transcript__cue--active');
+            items[index].setAttribute('aria-current', 'true');
+            if (this.#options.autoScroll && new Date().getTime() - this.#scrolledAt > 5000) {
+                this._scrollTo(items[index] as HTMLElement);
+            }
+        }
+    }
+
+    /**
+     * Mark a match of the search as the current one, scrolling the list to it.
+     *
+     * @private
+     * @param {number} index
+     * @memberof Transcript
+     */
+    private _goToMatch(index: number): void {
+        if (this.#match > -1 && this.#matches[this.#match]) {
+            this.#matches[this.#match].classList.remove('op-transcript__match--current');
+        }
+        this.#match = index;
+        this.#count.textContent = this.#query ? `${index + 1}/${this.#matches.length}` : '';
+        if (index > -1) {
+            this.#matches[index].classList.add('op-transcript__match--current');
+            // Prevent the automatic scrolling from moving away from the match
+            this.#scrolledAt = new Date().getTime();
+            this._scrollTo(this.#matches[index]);
+        }
+    }
+
+    /**
+     * Seek media to the start time of a cue.
+     *
+     * @private
+     * @param {number} index
+     * @memberof Transcript
+     */
+    private _seek(index: number): void {
+        const cue = this.#entries[index];
+        if (cue && this.#player.isMedia()) {
+            this.#player.getMedia().currentTime = cue.startTime;
+            this._highlight(cue.startTime);
+        }
+    }
+
+    /**
+     * Scroll the list so an element is displayed in its center.
+     *
+     * @private
+     * @param {HTMLElement} element
+     * @memberof Transcript
+     */
+    private _scrollTo(element: HTMLElement): void {
+        const item = (element.closest('li') || element) as HTMLElement;
+        this.#list.scrollTop = item.offsetTop - (this.#list.clientHeight - item.offsetHeight) / 2;
+    }
+
+    /**
+     * Retrieve the text of a cue without markup, in a single line.
+     *
+     * @private
+     * @param {Cue} cue
+     * @returns {string}
+     * @memberof Transcript
+     */
+    private _getText(cue: Cue): string {
+        // A `textarea` decodes the HTML entities without parsing (nor executing) any markup
+        const textarea = document.createElement('textarea');
+        textarea.innerHTML = cue.text.replace(/<[^>]+>/g, '');
+        return textarea.value.replace(/\s+/g, ' ').trim();
+    }
+}
+
+export default Transcript;
@@ -0,0 +1,823 @@
+import Cue from '../interfaces/captions/cue';
+import CueRegion from '../interfaces/captions/cue-region';
+import CueSettings from '../interfaces/captions/cue-settings';
+import CaptionStyle from '../interfaces/captions/style';
+import Track from '../interfaces/captions/track';
+import { getExtension } from './media';
+import { timeToSeconds } from './time';
+
+/**
+ * Styling properties of TTML (`tts:*` attributes) that can be applied directly as CSS.
+ *
+ * @type string[]
+ */
+const TTML_STYLES = [
+    'backgroundColor', 'color', 'fontFamily', 'fontSize', 'fontStyle', 'fontWeight', 'opacity', 'textDecoration',
+];
+
+/**
+ * Colours available to style captions, as RGB values.
+ *
+ * @type object
+ */
+const CAPTION_COLORS: { [name: string]: string } = {
+    black: '0, 0, 0',
+    blue: '0, 0, 255',
+    cyan: '0, 255, 255',
+    green: '0, 255, 0',
+    magenta: '255, 0, 255',
+    red: '255, 0, 0',
+    white: '255, 255, 255',
+    yellow: '255, 255, 0',
+};
+
+/**
+ * Fonts available to style captions (small caps use the default font).
+ *
+ * @type object
+ */
+const CAPTION_FONTS: { [name: string]: string } = {
+    casual: '"Comic Sans MS", "Comic Neue", cursive',
+    cursive: '"Monotype Corsiva", "URW Chancery L", cursive',
+    monospace: '"Courier New", Courier, monospace',
+    sansSerif: 'Arial, Helvetica, sans-serif',
+    serif: 'Georgia, "Times New Roman", serif',
+    smallCaps: 'inherit',
+};
+
+/**
+ * Edges available to style the characters of captions, as text shadows.
+ *
+ * @type object
+ */
+const CAPTION_EDGES: { [name: string]: string } = {
+    depressed: '1px 1px 0 rgba(255, 255, 255, 0.5), -1px -1px 0 rgba(0, 0, 0, 0.9)',
+    dropShadow: '2px 2px 3px rgba(0, 0, 0, 0.9)',
+    raised: '-1px -1px 0 rgba(255, 255, 255, 0.5), 1px 1px 0 rgba(0, 0, 0, 0.9)',
+    uniform: '0 0 2px #000, 0 0 2px #000, 0 0 2px #000, 0 0 2px #000',
+};
+
+/**
+ * Properties of the captions' style and their options, in the order they are listed in the `Settings` menu.
+ *
+ * @export
+ * @type object[]
+ */
+export const CAPTION_STYLE_OPTIONS: Array<{ options: string[], property: string }> = [
+    { options: ['default', '50', '75', '150', '200'], property: 'fontSize' },
+    { options: ['default', 'serif', 'sansSerif', 'monospace', 'casual', 'cursive', 'smallCaps'], property: 'fontFamily' },
+    { options: ['default', 'white', 'yellow', 'green', 'cyan', 'blue', 'magenta', 'red', 'black'], property: 'color' },
+    { options: ['default', 'black', 'white', 'yellow', 'green', 'cyan', 'blue', 'magenta', 'red'], property: 'background' },
+    { options: ['default', '0', '25', '50', '75', '100'], property: 'backgroundOpacity' },
+    { options: ['default', 'raised', 'depressed', 'uniform', 'dropShadow'], property: 'edge' },
+    { options: ['default', 'black', 'white', 'yellow', 'green', 'cyan', 'blue', 'magenta', 'red'], property: 'window' },
+];
+
+/**
+ * Cues of the `track` tags created with captions in memory, so they can be loaded every time
+ * the controls are built, and released along with their tags.
+ *
+ * @type WeakMap
+ */
+const TRACK_CUES: WeakMap<HTMLTrackElement, Cue[]> = new WeakMap();
+
+/**
+ * Escape the characters of a text that could be interpreted as markup.
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+function escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Convert the alignment of a TTML region/paragraph or SSA/ASS style into a WebVTT `align` setting.
+ *
+ * @param {string} value
+ * @returns {string}
+ */
+function getAlign(value: string): string {
+    switch (value) {
+        case 'left':
+        case 'start':
+            return 'start';
+        case 'right':
+        case 'end':
+            return 'end';
+        default:
+            return 'center';
+    }
+}
+
+/**
+ * Convert a TTML time expression (clock time, like `00:00:01.500` or `00:00:01:12`, or offset time,
+ * like `1.5s`, `1500ms` or `36f`) into seconds.
+ *
+ * @param {string} value  The time expression.
+ * @param {number} frameRate  The frames per second, to resolve frames.
+ * @param {number} tickRate  The ticks per second, to resolve ticks.
+ * @returns {number}  `NaN` if the value cannot be converted.
+ */
+function getTtmlTime(value: string, frameRate: number, tickRate: number): number {
+    const clock = /^(\d+):(\d{2}):(\d{2})(?:(\.\d+)|:(\d+(?:\.\d+)?))?$/.exec(value.trim());
+    if (clock) {
+        const [, hours, minutes, seconds, fraction, frames] = clock;
+        return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) +
+            (fraction ? parseFloat(fraction) : 0) + (frames ? parseFloat(frames) / frameRate : 0);
+    }
+
+    const offset = /^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/.exec(value.trim());
+    if (!offset) {
+        return NaN;
+    }
+    const amount = parseFloat(offset[1]);
+    const units: { [metric: string]: number } = { h: 3600, m: 60, ms: 0.001, s: 1, f: 1 / frameRate, t: 1 / tickRate };
+    return amount * units[offset[2]];
+}
+
+/**
+ * Obtain the styling attributes (`tts:*`) of a TTML element, including the ones of the styles referenced
+ * through its `style` attribute.
+ *
+ * @param {Element} element
+ * @param {{ [id: string]: Element }} styles  The `style` elements of the document, identified by `xml:id`.
+ * @param {string[]} [visited=[]]  The styles already resolved, to avoid circular references.
+ * @returns {{ [name: string]: string }}
+ */
+function getTtmlStyles(element: Element, styles: { [id: string]: Element }, visited: string[] = []): { [name: string]: string } {
+    let result: { [name: string]: string } = {};
+    const references = (element.getAttribute('style') || '').split(/\s+/);
+    references.forEach(id => {
+        if (id && styles[id] && visited.indexOf(id) === -1) {
+            result = { ...result, ...getTtmlStyles(styles[id], styles, [...visited, id]) };
+        }
+    });
+
+    for (let i = 0, total = element.attributes.length; i < total; i++) {
+        const attribute = element.attributes[i];
+        if (/#styling$/.test(attribute.namespaceURI || '') || /^tts:/.test(attribute.name)) {
+            result[attribute.localName || attribute.name.replace(/^tts:/, '')] = attribute.value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Build the text of a TTML paragraph, converting line breaks and the spans in italic, bold or underlined.
+ *
+ * @param {Node} node
+ * @param {{ [id: string]: Element }} styles
+ * @returns {string}
+ */
+function getTtmlText(node: Node, styles: { [id: string]: Element }): string {
+    let text = '';
+    for (let i = 0, total = node.childNodes.length; i < total; i++) {
+        const child = node.childNodes[i];
+        if (child.nodeType === 3) {
+            text += escapeText(`${child.textContent}`.replace(/\s+/g, ' '));
+        } else if (child.nodeType === 1) {
+            const name = (child as Element).localName || child.nodeName;
+            if (name === 'br') {
+                text += '\n';
+            } else {
+                const style = getTtmlStyles(child as Element, styles);
+                const tags = [
+                    style.fontStyle === 'italic' ? 'i' : '',
+                    style.fontWeight === 'bold' ? 'b' : '',
+                    style.textDecoration === 'underline' ? 'u' : '',
+                ].filter(tag => tag);
+                const content = getTtmlText(child, styles);
+                text += `${tags.map(tag => `<${tag}>`).join('')}${content}${tags.reverse().map(tag => `</${tag}>`).join('')}`;
+            }
+        }
+    }
+    return text;
+}
+
+/**
+ * Convert a SSA/ASS colour (`&HAABBGGRR` or its decimal value) into a CSS colour.
+ *
+ * @param {string} value
+ * @returns {string}
+ */
+function getSsaColor(value: string): string {
+    const color = /^&H/i.test(value) ? parseInt(value.replace(/&H|&/gi, ''), 16) : parseInt(value, 10);
+    if (isNaN(color)) {
+        return '';
+    }
+    const alpha = 1 - ((color >>> 24) & 255) / 255;
+    return `rgba(${color & 255}, ${(color >>> 8) & 255}, ${(color >>> 16) & 255}, ${parseFloat(alpha.toFixed(2))})`;
+}
+
+/**
+ * Convert the alignment of SSA/ASS (numpad positions in ASS; 1-3 for bottom, 5-7 for top and 9-11 for
+ * middle in SSA) into WebVTT `align` and `line` settings.
+ *
+ * @param {number} alignment
+ * @param {boolean} legacy  If `true`, the SSA positions are used.
+ * @returns {CueSettings}
+ */
+function getSsaPosition(alignment: number, legacy: boolean): CueSettings {
+    let column = alignment;
+    let row = 'bottom';
+    if (legacy) {
+        row = alignment >= 9 ? 'middle' : (alignment >= 5 ? 'top' : 'bottom');
+        column = alignment - (row === 'middle' ? 8 : (row === 'top' ? 4 : 0));
+    } else {
+        row = alignment >= 7 ? 'top' : (alignment >= 4 ? 'middle' : 'bottom');
+        column = ((alignment - 1) % 3) + 1;
+    }
+
+    const position: CueSettings = {};
+    if (column >= 1 && column <= 3) {
+        position.align = getAlign(column === 1 ? 'left' : (column === 3 ? 'right' : 'center'));
+    }
+    if (row === 'top') {
+        position.line = 0;
+        position.snapToLines = true;
+    } else if (row === 'middle') {
+        position.line = 50;
+        position.lineAlign = 'center';
+        position.snapToLines = false;
+    }
+    return position;
+}
+
+/**
+ * Read the `name:value` (or `name=value`, in the legacy `Region:` header) pairs of a WebVTT settings text.
+ *
+ * @param {string} text
+ * @returns {{ [name: string]: string }}
+ */
+function getVttPairs(text: string): { [name: string]: string } {
+    const pairs: { [name: string]: string } = {};
+    text.trim().split(/\s+/).forEach(pair => {
+        const match = /^([^:=]+)[:=](.+)$/.exec(pair);
+        if (match) {
+            pairs[match[1].toLowerCase()] = match[2];
+        }
+    });
+    return pairs;
+}
+
+/**
+ * Convert a pair of WebVTT percentages (i.e., `10%,90%`) into numbers.
+ *
+ * @param {string} value
+ * @param {number[]} defaults  The values to use if the pair is not valid.
+ * @returns {number[]}
+ */
+function getVttAnchor(value: string = '', defaults: number[]): number[] {
+    const anchor = /^(\d+(?:\.\d+)?)%,(\d+(?:\.\d+)?)%$/.exec(value);
+    return anchor ? [parseFloat(anchor[1]), parseFloat(anchor[2])] : defaults;
+}
+
+/**
+ * Build a region from the settings of a WebVTT `REGION` block (or a legacy `Region:` header).
+ *
+ * @param {string} text
+ * @returns {CueRegion|null}
+ */
+function getVttRegion(text: string): CueRegion | null {
+    const pairs = getVttPairs(text);
+    if (!pairs.id) {
+        return null;
+    }
+    const width = /^(\d+(?:\.\d+)?)%$/.exec(pairs.width || '');
+    const lines = parseInt(pairs.lines, 10);
+    const [regionAnchorX, regionAnchorY] = getVttAnchor(pairs.regionanchor, [0, 100]);
+    const [viewportAnchorX, viewportAnchorY] = getVttAnchor(pairs.viewportanchor, [0, 100]);
+    return {
+        id: pairs.id,
+        lines: isNaN(lines) ? 3 : lines,
+        regionAnchorX,
+        regionAnchorY,
+        scroll: pairs.scroll === 'up' ? 'up' : '',
+        viewportAnchorX,
+        viewportAnchorY,
+        width: width ? parseFloat(width[1]) : 100,
+    };
+}
+
+/**
+ * Read the settings of a WebVTT cue (`vertical`, `line`, `position`, `size`, `align` and `region`).
+ *
+ * @see https://www.w3.org/TR/webvtt1/#webvtt-cue-settings
+ * @param {string} text  The text that follows the timestamps of the cue.
+ * @param {{ [id: string]: CueRegion }} regions  The regions defined in the file.
+ * @returns {CueSettings}
+ */
+function getVttSettings(text: string, regions: { [id: string]: CueRegion }): CueSettings {
+    const pairs = getVttPairs(text);
+    const settings: CueSettings = {};
+
+    if (pairs.vertical === 'rl' || pairs.vertical === 'lr') {
+        settings.vertical = pairs.vertical;
+    }
+
+    const line = /^(-?\d+(?:\.\d+)?)(%?)(?:,(start|center|end))?$/.exec(pairs.line || '');
+    if (line && (line[2] || /^-?\d+$/.test(line[1]))) {
+        settings.line = parseFloat(line[1]);
+        settings.snapToLines = !line[2];
+        if (line[3]) {
+            settings.lineAlign = line[3];
+        }
+    }
+
+    const position = /^(\d+(?:\.\d+)?)%(?:,(line-left|center|line-right|start|middle|end))?$/.exec(pairs.position || '');
+    if (position) {
+        const positionAligns: { [value: string]: string } = { end: 'line-right', middle: 'center', start: 'line-left' };
+        settings.position = parseFloat(position[1]);
+        if (position[2]) {
+            settings.positionAlign = positionAligns[position[2]] || position[2];
+        }
+    }
+
+    const size = /^(\d+(?:\.\d+)?)%$/.exec(pairs.size || '');
+    if (size) {
+        settings.size = parseFloat(size[1]);
+    }
+
+    if (/^(start|center|middle|end|left|right)$/.test(pairs.align || '')) {
+        settings.align = pairs.align === 'middle' ? 'center' : pairs.align;
+    }
+
+    // Regions are ignored if the cue has its own line, size or writing direction
+    const region = regions[pairs.region || ''];
+    if (region && !settings.vertical && settings.line === undefined && settings.size === undefined) {
+        settings.region = region;
+    }
+    return settings;
+}
+
+/**
+ * Determine the format of a captions file (`vtt`, `srt`, `ttml` or `ssa`) using its MIME type,
+ * the extension of its URL or, if none of them is conclusive, its content.
+ *
+ * @export
+ * @param {string} content  The content of the file.
+ * @param {string} [url='']  The URL of the file.
+ * @param {string} [type='']  The MIME type of the file.
+ * @returns {string}
+ */
+export function getCaptionFormat(content: string, url: string = '', type: string = ''): string {
+    const mimeType = type.toLowerCase();
+    if (/vtt/.test(mimeType)) {
+        return 'vtt';
+    }
+    if (/subrip|srt/.test(mimeType)) {
+        return 'srt';
+    }
+    if (/ttml|ttaf|dfxp/.test(mimeType)) {
+        return 'ttml';
+    }
+    if (/ssa|ass/.test(mimeType)) {
+        return 'ssa';
+    }
+
+    switch (getExtension(url).toLowerCase()) {
+        case 'vtt':
+            return 'vtt';
+        case 'srt':
+            return 'srt';
+        case 'ttml':
+        case 'dfxp':
+        case 'xml':
+            return 'ttml';
+        case 'ssa':
+        case 'ass':
+            return 'ssa';
+        default:
+            break;
+    }
+
+    const text = content.replace(/^\uFEFF/, '').trim();
+    if (/^WEBVTT/.test(text)) {
+        return 'vtt';
+    }
+    if (/^(<\?xml[^>]*>\s*)?<([a-z]+:)?tt[\s>]/i.test(text)) {
+        return 'ttml';
+    }
+    if (/^\[Script Info\]/i.test(text)) {
+        return 'ssa';
+    }
+    return /^\d+\s*\r?\n\d{1,2}:\d{2}:\d{2},\d{1,3}\s*-->/.test(text) ? 'srt' : 'vtt';
+}
+
+/**
+ * Parse WebVTT text to emulate native cues, including their settings and the regions they are assigned to.
+ *
+ * @export
+ * @param {string} webvttText
+ * @returns {Cue[]}
+ */
+export function parseWebVTT(webvttText: string): Cue[] {
+    const lines = webvttText.split(/\r?\n/);
+    const entries: Cue[] = [];
+    const urlRegexp = /(\b(https?|ftp|file):\/\/[-A-Z0-9+&@#\/%?=~_|!:,.;]*[-A-Z0-9+&@#\/%=~_|])/gi;
+    let timePattern = '^((?:[0-9]{1,2}:)?[0-9]{2}:[0-9]{2}([,.][0-9]{1,3})?) --> ';
+    timePattern += '((?:[0-9]{1,2}:)?[0-9]{2}:[0-9]{2}([,.][0-9]{3})?)(.*?)$';
+    const regexp = new RegExp(timePattern);
+    const regions: { [id: string]: CueRegion } = {};
+
+    let identifier;
+
+    function isJson(item: any) {
+        item = typeof item !== 'string' ? JSON.stringify(item) : item;
+        try {
+            item = JSON.parse(item);
+        } catch (e) {
+            return false;
+        }
+
+        if (typeof item === 'object' && item !== null) {
+            return true;
+        }
+
+        return false;
+    }
+
+    for (let i = 0, total = lines.length; i < total; i++) {
+        // Regions can be defined as `REGION` blocks or, in older files, as `Region:` headers
+        const header = /^Region:(.*)$/.exec(lines[i]);
+        if (/^REGION\s*$/.test(lines[i]) || header) {
+            let block = header ? header[1] : '';
+            while (!header && i + 1 < total && lines[i + 1].trim() !== '') {
+                i++;
+                block = `${block} ${lines[i]}`;
+            }
+            const region = getVttRegion(block);
+            if (region) {
+                regions[region.id] = region;
+            }
+            continue;
+        }
+
+        const timecode = regexp.exec(lines[i]);
+
+        if (timecode && i < lines.length) {
+            if ((i - 1) >= 0 && lines[i - 1] !== '') {
+                identifier = lines[i - 1];
+            }
+            i++;
+            // grab all the (possibly multi-line) text that follows
+            let cue = lines[i];
+            i++;
+            while (lines[i] !== '' && i < lines.length) {
+                cue = `${cue}\n${lines[i]}`;
+                i++;
+            }
+            cue = cue.trim().replace(urlRegexp, "<a href='$1' target='_blank'>$1</a>");
+            const initTime = timeToSeconds(timecode[1]);
+
+            entries.push({
+                endTime: timeToSeconds(timecode[3]),
+                identifier: identifier || '',
+                settings: isJson(timecode[5]) ? JSON.parse(timecode[5]) : getVttSettings(timecode[5], regions),
+                startTime: (initTime === 0) ? 0.200 : initTime,
+                text: cue,
+            });
+        }
+        identifier = '';
+    }
+    return entries;
+}
+
+/**
+ * Parse SubRip (SRT) text; its basic markup (`<i>`, `<b>`, `<u>` and `<font>`) is kept as is.
+ *
+ * @export
+ * @param {string} srtText
+ * @returns {Cue[]}
+ */
+export function parseSrt(srtText: string): Cue[] {
+    const entries: Cue[] = [];
+    const regexp = /^(\d{1,2}:\d{2}:\d{2}[,.]\d{1,3})\s*-->\s*(\d{1,2}:\d{2}:\d{2}[,.]\d{1,3})/;
+    const blocks = srtText.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim().split(/\n\s*\n/);
+
+    blocks.forEach(block => {
+        const lines = block.split('\n');
+        const index = regexp.test(lines[0]) ? 0 : 1;
+        const timecode = regexp.exec(lines[index] || '');
+        if (!timecode) {
+            return;
+        }
+        entries.push({
+            endTime: timeToSeconds(timecode[2].replace(',', '.')),
+            identifier: index > 0 ? lines[0].trim() : '',
+            settings: {},
+            startTime: timeToSeconds(timecode[1].replace(',', '.')),
+            text: lines.slice(index + 1).join('\n').trim(),
+        });
+    });
+    return entries;
+}
+
+/**
+ * Parse TTML/DFXP documents; the styling of paragraphs (`tts:*` attributes, directly or through styles)
+ * is stored in `settings.style` as CSS properties, and the position of their regions (`tts:origin` and
+ * `tts:extent`, in percentages) as WebVTT `position`, `line` and `size` settings, anchored to the
+ * top-left corner of the region.
+ *
+ * @export
+ * @param {string} ttmlText
+ * @returns {Cue[]}
+ */
+export function parseTtml(ttmlText: string): Cue[] {
+    const doc = new (window as any).DOMParser().parseFromString(ttmlText.replace(/^\uFEFF/, '').trim(), 'text/xml');
+    const root: Element = doc.documentElement;
+    if (!root || (root.localName || root.nodeName) !== 'tt' || doc.getElementsByTagName('parsererror').length) {
+        return [];
+    }
+
+    const getAttribute = (element: Element, name: string) => {
+        for (let i = 0, total = element.attributes.length; i < total; i++) {
+            const attribute = element.attributes[i];
+            if ((attribute.localName || attribute.name) === name || attribute.name === name) {
+                return attribute.value;
+            }
+        }
+        return '';
+    };
+    const frameRate = parseFloat(getAttribute(root, 'frameRate')) || 30;
+    const tickRate = parseFloat(getAttribute(root, 'tickRate')) || 1;
+
+    const styles: { [id: string]: Element } = {};
+    const regions: { [id: string]: Element } = {};
+    const elements = root.getElementsByTagName('*');
+    for (let i = 0, total = elements.length; i < total; i++) {
+        const element = elements[i];
+        const name = element.localName || element.nodeName;
+        const id = element.getAttribute('xml:id') || getAttribute(element, 'id');
+        if (id && name === 'style') {
+            styles[id] = element;
+        } else if (id && name === 'region') {
+            regions[id] = element;
+        }
+    }
+
+    const entries: Cue[] = [];
+    const paragraphs = root.getElementsByTagNameNS('*', 'p');
+    for (let i = 0, total = paragraphs.length; i < total; i++) {
+        const paragraph = paragraphs[i];
+        let offset = 0;
+        let regionId = '';
+        let inherited: { [name: string]: string } = {};
+        let parent = paragraph.parentNode as Element;
+        const ancestors: Element[] = [];
+        while (parent && parent !== root) {
+            ancestors.unshift(parent);
+            parent = parent.parentNode as Element;
+        }
+        ancestors.forEach(ancestor => {
+            const start = getTtmlTime(ancestor.getAttribute('begin') || '', frameRate, tickRate);
+            offset += isNaN(start) ? 0 : start;
+            regionId = ancestor.getAttribute('region') || regionId;
+            inherited = { ...inherited, ...getTtmlStyles(ancestor, styles) };
+        });
+
+        const begin = getTtmlTime(paragraph.getAttribute('begin') || '', frameRate, tickRate);
+        const end = getTtmlTime(paragraph.getAttribute('end') || '', frameRate, tickRate);
+        const duration = getTtmlTime(paragraph.getAttribute('dur') || '', frameRate, tickRate);
+        if (isNaN(begin) || (isNaN(end) && isNaN(duration))) {
+            continue;
+        }
+
+        regionId = paragraph.getAttribute('region') || regionId;
+        const region = regions[regionId] ? getTtmlStyles(regions[regionId], styles) : {};
+        const paragraphStyle: { [name: string]: string } = { ...region, ...inherited, ...getTtmlStyles(paragraph, styles) };
+        const style: { [name: string]: string } = {};
+        TTML_STYLES.forEach(name => {
+            if (paragraphStyle[name]) {
+                style[name] = paragraphStyle[name];
+            }
+        });
+
+        const settings: CueSettings = {};
+        if (Object.keys(style).length) {
+            settings.style = style;
+        }
+        if (paragraphStyle.textAlign) {
+            settings.align = getAlign(paragraphStyle.textAlign);
+        }
+        const origin = (region.origin || '').split(/\s+/);
+        const extent = (region.extent || '').split(/\s+/);
+        if (/%$/.test(origin[0]) && /%$/.test(origin[1] || '')) {
+            settings.position = parseFloat(origin[0]);
+            settings.positionAlign = 'line-left';
+            settings.line = parseFloat(origin[1]);
+            settings.lineAlign = 'start';
+            settings.snapToLines = false;
+        }
+        if (/%$/.test(extent[0])) {
+            settings.size = parseFloat(extent[0]);
+        }
+
+        entries.push({
+            endTime: offset + (isNaN(end) ? begin + duration : end),
+            identifier: paragraph.getAttribute('xml:id') || getAttribute(paragraph, 'id'),
+            settings,
+            startTime: offset + begin,
+            text: getTtmlText(paragraph, styles).split('\n').map(line => line.trim()).join('\n').trim(),
+        });
+    }
+    return entries;
+}
+
+/**
+ * Parse SSA/ASS scripts; the `Style` of each dialogue (font, primary colour, bold, italic and underline)
+ * is stored in `settings.style` as CSS properties, and its alignment as WebVTT `align` and `line` settings.
+ * Override tags for italic, bold, underline and alignment are supported; the rest of them are removed.
+ *
+ * @export
+ * @param {string} ssaText
+ * @returns {Cue[]}
+ */
+export function parseSsa(ssaText: string): Cue[] {
+    const entries: Cue[] = [];
+    const styles: { [name: string]: { [field: string]: string } } = {};
+    const lines = ssaText.replace(/^\uFEFF/, '').split(/\r?\n/);
+    let section = '';
+    let format: string[] = [];
+    let legacy = false;
+
+    lines.forEach(line => {
+        const header = /^\s*\[(.+)\]\s*$/.exec(line);
+        if (header) {
+            section = header[1].toLowerCase();
+            legacy = legacy || section === 'v4 styles';
+            format = [];
+            return;
+        }
+
+        const entry = /^\s*([^:;]+):\s*(.*)$/.exec(line);
+        if (!entry) {
+            return;
+        }
+        const [, key, value] = entry;
+        if (key === 'Format') {
+            format = value.split(',').map(field => field.trim());
+            return;
+        }
+
+        // Only the last field (the text of dialogues) can contain commas
+        const values = value.split(',');
+        const fields: { [field: string]: string } = {};
+        format.forEach((field, index) => {
+            fields[field] = (index === format.length - 1 ? values.slice(index).join(',') : values[index] || '').trim();
+        });
+
+        if (key === 'Style' && /styles/.test(section)) {
+            styles[fields.Name] = fields;
+        } else if (key === 'Dialogue' && section === 'events' && fields.Start && fields.End) {
+            const style = styles[fields.Style] || styles[fields.Style.replace(/^\*/, '')] || styles.Default || {};
+            const css: { [name: string]: string } = {};
+            if (style.Fontname) {
+                css.fontFamily = style.Fontname;
+            }
+            if (style.PrimaryColour && getSsaColor(style.PrimaryColour)) {
+                css.color = getSsaColor(style.PrimaryColour);
+            }
+            if (style.Bold && style.Bold !== '0') {
+                css.fontWeight = 'bold';
+            }
+            if (style.Italic && style.Italic !== '0') {
+                css.fontStyle = 'italic';
+            }
+            if (style.Underline && style.Underline !== '0') {
+                css.textDecoration = 'underline';
+            }
+
+            let alignment = parseInt(style.Alignment, 10);
+            let positioning = legacy;
+            let text = escapeText(fields.Text || '');
+            text = text.replace(/\{[^}]*\}/g, (tags: string) => {
+                let markup = '';
+                tags.slice(1, -1).split('\\').forEach(tag => {
+                    const override = /^(i|b|u)(\d+)$/.exec(tag);
+                    const position = /^(an?)(\d+)$/.exec(tag);
+                    if (override) {
+                        markup += override[2] === '0' ? `</${override[1]}>` : `<${override[1]}>`;
+                    } else if (position) {
+                        alignment = parseInt(position[2], 10);
+                        positioning = position[1] === 'a';
+                    }
+                });
+                return markup;
+            }).replace(/\\[Nn]/g, '\n').replace(/\\h/g, ' ');
+
+            const settings: CueSettings = isNaN(alignment) ? {} : getSsaPosition(alignment, positioning);
+            if (Object.keys(css).length) {
+                settings.style = css;
+            }
+            entries.push({
+                endTime: timeToSeconds(fields.End),
+                identifier: fields.Name || '',
+                settings,
+                startTime: timeToSeconds(fields.Start),
+                text: text.trim(),
+            });
+        }
+    });
+
+    return entries.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Convert the captions' style chosen by the viewer into the CSS custom properties used by the player's
+ * stylesheet; properties with the default option have an empty value (so they can be removed).
+ *
+ * @export
+ * @param {CaptionStyle} style
+ * @returns {{ [property: string]: string }}
+ */
+export function getCaptionStyleProperties(style: CaptionStyle): { [property: string]: string } {
+    const { background, backgroundOpacity, color, edge, fontFamily, fontSize, window: area } = style;
+    const opacity = backgroundOpacity && backgroundOpacity !== 'default' ? parseInt(backgroundOpacity, 10) / 100 : NaN;
+    const hasBackground = (background && CAPTION_COLORS[background]) || !isNaN(opacity);
+
+    return {
+        '--op-captions-background': hasBackground ?
+            `rgba(${CAPTION_COLORS[background || ''] || CAPTION_COLORS.black}, ${isNaN(opacity) ? 0.7 : opacity})` : '',
+        '--op-captions-color': color && CAPTION_COLORS[color] ? `rgb(${CAPTION_COLORS[color]})` : '',
+        '--op-captions-edge': edge && CAPTION_EDGES[edge] ? CAPTION_EDGES[edge] : '',
+        '--op-captions-font-family': fontFamily && CAPTION_FONTS[fontFamily] ? CAPTION_FONTS[fontFamily] : '',
+        '--op-captions-font-size': fontSize && /^\d+$/.test(fontSize) ? `${fontSize}%` : '',
+        '--op-captions-font-variant': fontFamily === 'smallCaps' ? 'small-caps' : '',
+        '--op-captions-window': area && CAPTION_COLORS[area] ? `rgb(${CAPTION_COLORS[area]})` : '',
+    };
+}
+
+/**
+ * Parse the content of a captions file into cues, according to its format (WebVTT, SRT, TTML/DFXP or SSA/ASS).
+ *
+ * @see getCaptionFormat
+ * @export
+ * @param {string} content  The content of the file.
+ * @param {string} [url='']  The URL of the file.
+ * @param {string} [type='']  The MIME type of the file.
+ * @returns {Cue[]}
+ */
+export function parseCaptions(content: string, url: string = '', type: string = ''): Cue[] {
+    switch (getCaptionFormat(content, url, type)) {
+        case 'srt':
+            return parseSrt(content);
+        case 'ttml':
+            return parseTtml(content);
+        case 'ssa':
+            return parseSsa(content);
+        default:
+            return parseWebVTT(content);
+    }
+}
+
+/**
+ * Create the `track` tag of a language in the media element (or update the existing one).
+ *
+ * Captions passed in memory (cues or the content of a file) are stored along with the tag,
+ * which has no `src` in that case.
+ *
+ * @export
+ * @param {HTMLMediaElement} element  The media element.
+ * @param {Track} args  The attributes of the track.
+ * @returns {HTMLTrackElement}
+ */
+export function appendTrack(element: HTMLMediaElement, args: Track): HTMLTrackElement {
+    let track = element.querySelector(`track[srclang="${args.srclang}"][kind="${args.kind}"]`) as HTMLTrackElement;
+    if (!track) {
+        track = document.createElement('track');
+        track.srclang = args.srclang;
+        track.kind = args.kind;
+        element.appendChild(track);
+    }
+    track.label = args.label;
+    track.default = args.default || false;
+
+    if (args.type) {
+        track.setAttribute('type', args.type);
+    } else {
+        track.removeAttribute('type');
+    }
+
+    if (args.cues || args.content !== undefined) {
+        track.removeAttribute('src');
+        TRACK_CUES.set(track, args.cues || parseCaptions(args.content || '', '', args.type));
+    } else {
+        track.src = args.src || '';
+        TRACK_CUES.delete(track);
+    }
+    return track;
+}
+
+/**
+ * Retrieve the cues stored with a `track` tag, if it was created with captions in memory.
+ *
+ * @see appendTrack
+ * @export
+ * @param {HTMLTrackElement} track
+ * @returns {Cue[]|undefined}
+ */
+export function getTrackCues(track: HTMLTrackElement): Cue[] | undefined {
+    return TRACK_CUES.get(track);
+}
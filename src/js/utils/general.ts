@@ -146,6 +146,33 @@ export function request(url: string, dataType: string, success: (n: any) => any,
     }
 }
 
+/**
+ * Execute an operation of a storage adapter (i.e., to save preferences or positions), which can return
+ * its result directly or via Promise.
+ *
+ * The callback receives the result synchronously if the operation is not asynchronous. Errors are logged
+ * as warnings prefixed with the name of the feature, so storage issues never interrupt playback.
+ * @export
+ * @param {string} name  The name of the feature using the storage (i.e., `Resume`).
+ * @param {function} operation
+ * @param {?function} callback  Function to receive the result of the operation (not called if it fails).
+ */
+export function callStorage<T>(name: string, operation: () => T | PromiseLike<T>, callback?: (result: T) => void) {
+    const warn = (error: Error | string) => {
+        console.warn(`${name} warning: ${error instanceof Error ? error.message : error}`);
+    };
+    try {
+        const result = operation();
+        if (result && typeof (result as PromiseLike<T>).then === 'function') {
+            Promise.resolve(result).then(callback).catch(warn);
+        } else if (callback) {
+            callback(result as T);
+        }
+    } catch (error) {
+        warn(error);
+    }
+}
+
 /**
  * Determine if element has a specific class.
  *
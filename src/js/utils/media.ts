@@ -1,3 +1,5 @@
+import PlayerError from '../interfaces/events/error';
+import Level from '../interfaces/level';
 import Source from '../interfaces/source';
 
 /**
@@ -30,12 +32,36 @@ export function isHlsSource(media: Source): boolean {
 /**
  * Check if URL is an M3U list.
  *
+ * Only `.m3u` files (or the `audio/x-mpegurl` type) are considered lists, so HLS sources
+ * (`.m3u8` or `application/x-mpegURL`) are always loaded as media.
  * @export
  * @param {Source} media  The target media, including URL and type.
  * @returns {boolean}
  */
 export function isM3USource(media: Source): boolean {
-    return /\.m3u$/i.test(media.src);
+    return !isHlsSource(media) && (/\.m3u$/i.test(media.src) || media.type === 'audio/x-mpegurl');
+}
+
+/**
+ * Check if URL is an XSPF list.
+ *
+ * @export
+ * @param {Source} media  The target media, including URL and type.
+ * @returns {boolean}
+ */
+export function isXspfSource(media: Source): boolean {
+    return /\.xspf$/i.test(media.src) || media.type === 'application/xspf+xml';
+}
+
+/**
+ * Check if URL is a list of media (M3U or XSPF) rather than media itself.
+ *
+ * @export
+ * @param {Source} media  The target media, including URL and type.
+ * @returns {boolean}
+ */
+export function isPlaylistSource(media: Source): boolean {
+    return isM3USource(media) || isXspfSource(media);
 }
 
 /**
@@ -86,6 +112,9 @@ export function predictType(url: string): string {
         case 'mpd':
             type = 'application/dash+xml';
             break;
+        case 'xspf':
+            type = 'application/xspf+xml';
+            break;
         case 'mp3':
             type = 'audio/mp3';
             break;
@@ -150,3 +179,92 @@ export function isAutoplaySupported(media: HTMLMediaElement, defaultVol: number,
         callback();
     }
 }
+
+/**
+ * Obtain the height of a level, using its label (i.e., `720p`) if height is not available.
+ *
+ * @export
+ * @param {Level} level
+ * @returns {number}
+ */
+export function getLevelHeight(level: Level): number {
+    return level.height || parseInt(level.label, 10) || 0;
+}
+
+/**
+ * Find the level with the highest height that does not exceed the maximum set.
+ *
+ * @export
+ * @param {Level[]} levels  The levels available.
+ * @param {number} maxHeight  The maximum height allowed (`-1` for automatic selection).
+ * @returns {number}  The ID of the level (the lowest one if all of them exceed the maximum), or `-1` for automatic selection.
+ */
+export function findLevel(levels: Level[], maxHeight: number): number {
+    if (maxHeight < 0 || !levels.length) {
+        return -1;
+    }
+    const sorted = levels.slice().sort((a, b) => getLevelHeight(a) - getLevelHeight(b));
+    const allowed = sorted.filter(level => getLevelHeight(level) <= maxHeight);
+    return parseInt((allowed.length ? allowed[allowed.length - 1] : sorted[0]).id, 10);
+}
+
+/**
+ * Check if an error prevents media from being played: HLS errors are only fatal if hls.js cannot recover
+ * from them by itself (it does so with media errors), and Ads/playlist errors do not affect the source.
+ *
+ * @export
+ * @param {PlayerError} error  The details of the `playererror` event.
+ * @returns {boolean}
+ */
+export function isFatalError(error: PlayerError): boolean {
+    switch (error.type) {
+        case 'HLS':
+            const data = Array.isArray(error.data) ? error.data[1] : null;
+            return !!data && data.fatal === true && data.type !== 'mediaError';
+        case 'HTML5':
+        case 'M(PEG)-DASH':
+        case 'FLV':
+            return true;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Classify an error to display a message according to its cause.
+ *
+ * @export
+ * @param {PlayerError} error  The details of the `playererror` event.
+ * @returns {string}  `network`, `decode`, `unsupported`, `drm` or `ads`.
+ */
+export function getErrorCategory(error: PlayerError): string {
+    const { data, message, type } = error;
+    switch (type) {
+        case 'Ads':
+            return 'ads';
+        case 'HTML5':
+            // Codes of `MediaError`: 3 (MEDIA_ERR_DECODE) and 4 (MEDIA_ERR_SRC_NOT_SUPPORTED)
+            const code = data ? data.error : 0;
+            return code === 3 ? 'decode' : (code === 4 ? 'unsupported' : 'network');
+        case 'HLS':
+            const details = Array.isArray(data) ? data[1] || {} : {};
+            if (details.type === 'keySystemError' || /key/i.test(details.details || '')) {
+                return 'drm';
+            }
+            if (/incompatiblecodecs/i.test(details.details || '')) {
+                return 'unsupported';
+            }
+            return details.type === 'mediaError' || details.type === 'muxError' ? 'decode' : 'network';
+        case 'FLV':
+            return Array.isArray(data) && data[0] === 'MediaError' ? 'decode' : 'network';
+        default:
+            const text = message && message.error ? `${message.error.message || message.error}` : `${message}`;
+            if (/key|licen[cs]e|drm|protection/i.test(text)) {
+                return 'drm';
+            }
+            if (/capability|codec|not supported/i.test(text)) {
+                return 'unsupported';
+            }
+            return /decode|media ?source|append/i.test(text) ? 'decode' : 'network';
+    }
+}
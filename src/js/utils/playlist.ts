@@ -0,0 +1,126 @@
+import Source from '../interfaces/source';
+import { predictType } from './media';
+
+/**
+ * Resolve the location of a playlist entry relative to the playlist's URL.
+ *
+ * @export
+ * @param {string} url  The entry's location.
+ * @param {string} base  The playlist's URL.
+ * @returns {string}
+ */
+export function resolveUrl(url: string, base: string): string {
+    if (!base || /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url)) {
+        return url;
+    }
+    if (url.charAt(0) === '/') {
+        const origin = base.match(/^([a-z][a-z0-9+.-]*:)?\/\/[^/]+/i);
+        return origin ? `${origin[0]}${url}` : url;
+    }
+    const path = base.split(/[?#]/)[0];
+    return `${path.substring(0, path.lastIndexOf('/') + 1)}${url}`;
+}
+
+/**
+ * Check if the content of an M3U file is actually an HLS manifest, which must be
+ * played as a stream rather than as a list of files.
+ *
+ * @export
+ * @param {string} content
+ * @returns {boolean}
+ */
+export function isHlsManifest(content: string): boolean {
+    return /^#EXT-X-/im.test(content);
+}
+
+/**
+ * Convert the content of a simple or extended (`#EXTINF`) M3U file into a list of sources.
+ *
+ * @see https://en.wikipedia.org/wiki/M3U#Extended_M3U
+ * @export
+ * @param {string} content
+ * @param {string} base  The playlist's URL, to resolve relative entries.
+ * @returns {Source[]}
+ */
+export function parseM3U(content: string, base: string = ''): Source[] {
+    const sources: Source[] = [];
+    const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+    let info: { title?: string, duration?: number } = {};
+
+    lines.forEach(line => {
+        const entry = line.trim();
+        if (!entry) {
+            return;
+        }
+
+        if (entry.charAt(0) === '#') {
+            // Attributes (i.e., `tvg-name="..."`) could contain commas, so skip them before reading the title
+            const matches = /^#EXTINF:\s*(-?\d+(?:\.\d+)?)((?:\s+[\w-]+=("[^"]*"|\S*))*)\s*,(.*)$/i.exec(entry);
+            if (matches) {
+                const duration = parseFloat(matches[1]);
+                info = {
+                    duration: duration > 0 ? duration : undefined,
+                    title: matches[4].trim() || undefined,
+                };
+            }
+            return;
+        }
+
+        const src = resolveUrl(entry, base);
+        const source: Source = { src, type: predictType(src) };
+        if (info.title) {
+            source.title = info.title;
+        }
+        if (info.duration) {
+            source.duration = info.duration;
+        }
+        sources.push(source);
+        info = {};
+    });
+
+    return sources;
+}
+
+/**
+ * Convert the content of an XSPF file into a list of sources.
+ *
+ * @see https://www.xspf.org/spec
+ * @export
+ * @param {string} content
+ * @param {string} base  The playlist's URL, to resolve relative entries.
+ * @returns {Source[]}
+ */
+export function parseXSPF(content: string, base: string = ''): Source[] {
+    const sources: Source[] = [];
+    const doc = new (window as any).DOMParser().parseFromString(content, 'text/xml');
+    const tracks = doc.getElementsByTagName('track');
+
+    const getValue = (node: Element, tag: string): string => {
+        const child = node.getElementsByTagName(tag)[0];
+        return child && child.textContent ? child.textContent.trim() : '';
+    };
+
+    for (let i = 0, total = tracks.length; i < total; i++) {
+        const track = tracks[i];
+        const location = getValue(track, 'location');
+        if (!location) {
+            continue;
+        }
+
+        const src = resolveUrl(location, base);
+        const source: Source = { src, type: predictType(src) };
+        const title = getValue(track, 'title');
+        const creator = getValue(track, 'creator');
+        if (title) {
+            source.title = creator ? `${creator} - ${title}` : title;
+        }
+        // XSPF durations are expressed in milliseconds
+        const duration = parseInt(getValue(track, 'duration'), 10);
+        if (duration > 0) {
+            source.duration = duration / 1000;
+        }
+        sources.push(source);
+    }
+
+    return sources;
+}
@@ -0,0 +1,83 @@
+import AdMarker from '../interfaces/ads/marker';
+
+/**
+ * Convert the attribute list of an HLS tag (`KEY=VALUE,KEY="VALUE"`) into an object with upper-cased keys.
+ *
+ * @export
+ * @param {string} value  The content of the tag after the colon.
+ * @returns {object}
+ */
+export function parseAttributes(value: string): { [key: string]: string } {
+    const attributes: { [key: string]: string } = {};
+    const regex = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/gi;
+    let match = regex.exec(value);
+    while (match) {
+        attributes[match[1].toUpperCase()] = match[2].replace(/^"|"$/g, '');
+        match = regex.exec(value);
+    }
+    return attributes;
+}
+
+/**
+ * Obtain the Ad marker of an HLS tag, if any.
+ *
+ * Supported tags are `EXT-X-CUE-OUT`, `EXT-X-CUE-OUT-CONT`, `EXT-X-CUE-IN`, `EXT-X-SCTE35`
+ * and `EXT-X-DATERANGE` with `SCTE35-OUT`/`SCTE35-IN` attributes.
+ *
+ * @export
+ * @param {string} tag  The name of the tag, with or without `#`.
+ * @param {string} value  The content of the tag after the colon.
+ * @returns {AdMarker|null}
+ */
+export function parseAdMarker(tag: string, value: string = ''): AdMarker | null {
+    const name = tag.replace(/^#/, '').toUpperCase();
+    const content = value.trim();
+    const toNumber = (input?: string) => {
+        const result = parseFloat(input || '');
+        return isNaN(result) ? undefined : result;
+    };
+
+    switch (name) {
+        case 'EXT-X-CUE-OUT': {
+            const attributes = parseAttributes(content);
+            return { duration: toNumber(attributes.DURATION || content), type: 'start' };
+        }
+        case 'EXT-X-CUE-OUT-CONT': {
+            // Both `ElapsedTime=10,Duration=30` and `10/30` formats are used
+            const attributes = parseAttributes(content);
+            const [elapsed, duration] = content.split('/');
+            return {
+                duration: toNumber(attributes.DURATION || duration),
+                elapsed: toNumber(attributes.ELAPSEDTIME || elapsed),
+                type: 'continue',
+            };
+        }
+        case 'EXT-X-CUE-IN':
+            return { type: 'end' };
+        case 'EXT-X-SCTE35': {
+            const attributes = parseAttributes(content);
+            if (attributes['CUE-IN'] === 'YES') {
+                return { id: attributes.ID, type: 'end' };
+            }
+            return attributes['CUE-OUT'] === 'YES' || attributes['CUE-OUT'] === 'CONT' ? {
+                duration: toNumber(attributes.DURATION),
+                elapsed: attributes['CUE-OUT'] === 'CONT' ? toNumber(attributes.ELAPSED) : undefined,
+                id: attributes.ID,
+                type: attributes['CUE-OUT'] === 'YES' ? 'start' : 'continue',
+            } : null;
+        }
+        case 'EXT-X-DATERANGE': {
+            const attributes = parseAttributes(content);
+            if (attributes['SCTE35-OUT']) {
+                return {
+                    duration: toNumber(attributes.DURATION || attributes['PLANNED-DURATION']),
+                    id: attributes.ID,
+                    type: 'start',
+                };
+            }
+            return attributes['SCTE35-IN'] ? { id: attributes.ID, type: 'end' } : null;
+        }
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,468 @@
+import Ad from '../interfaces/ads/ad';
+import AdBreak from '../interfaces/ads/break';
+import Companion from '../interfaces/ads/companion';
+import Linear from '../interfaces/ads/linear';
+import MediaFile from '../interfaces/ads/media-file';
+import NonLinear from '../interfaces/ads/non-linear';
+import { timeToSeconds } from './time';
+
+/**
+ * Obtain the trimmed text of the first descendant of a node with the tag specified.
+ *
+ * @param {Element} node
+ * @param {string} tag
+ * @returns {string}
+ */
+function getValue(node: Element, tag: string): string {
+    const child = node.getElementsByTagName(tag)[0];
+    return child && child.textContent ? child.textContent.trim() : '';
+}
+
+/**
+ * Obtain the trimmed, non-empty texts of all the descendants of a node with the tag specified.
+ *
+ * @param {Element} node
+ * @param {string} tag
+ * @returns {string[]}
+ */
+function getValues(node: Element, tag: string): string[] {
+    const values: string[] = [];
+    const children = node.getElementsByTagName(tag);
+    for (let i = 0, total = children.length; i < total; i++) {
+        const value = children[i].textContent ? `${children[i].textContent}`.trim() : '';
+        if (value) {
+            values.push(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Convert a VAST offset (`HH:MM:SS(.mmm)` or a percentage) into seconds.
+ *
+ * @export
+ * @param {string} value  The offset to be converted.
+ * @param {number} duration  The duration of the creative, used to resolve percentages.
+ * @returns {number}  `NaN` if the value cannot be converted.
+ */
+export function parseOffset(value: string, duration: number): number {
+    const offset = value.trim();
+    if (/^\d+(\.\d+)?%$/.test(offset)) {
+        return duration * parseFloat(offset) / 100;
+    }
+    return /^\d+:\d{2}:\d{2}(\.\d+)?$/.test(offset) ? timeToSeconds(offset) : NaN;
+}
+
+/**
+ * Convert seconds into a VAST offset (`HH:MM:SS.mmm`).
+ *
+ * @export
+ * @param {number} seconds
+ * @returns {string}
+ */
+export function formatOffset(seconds: number): string {
+    const milliseconds = Math.round(Math.max(0, seconds || 0) * 1000);
+    const pad = (value: number, length: number = 2) => `${'000'}${value}`.slice(-length);
+    const h = Math.floor(milliseconds / 3600000);
+    const m = Math.floor(milliseconds / 60000) % 60;
+    const s = Math.floor(milliseconds / 1000) % 60;
+    return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(milliseconds % 1000, 3)}`;
+}
+
+/**
+ * Replace the VAST macros (i.e., `[ERRORCODE]`) of a tracking URL with their encoded values;
+ * macros without a value are kept as they are.
+ *
+ * @see https://interactiveadvertisingbureau.github.io/vast/vast4macros/vast4-macros-latest.html
+ * @export
+ * @param {string} url
+ * @param {object} macros  The values indexed by the name of the macro (without brackets).
+ * @returns {string}
+ */
+export function replaceMacros(url: string, macros: { [name: string]: string | number }): string {
+    return url.replace(/\[([A-Z_]+)\]/g, (match, name) =>
+        macros[name] !== undefined ? encodeURIComponent(`${macros[name]}`) : match);
+}
+
+/**
+ * Obtain the URLs of the `Tracking` descendants of a node, grouped by their event.
+ *
+ * @param {Element} node
+ * @returns {object}
+ */
+function getTrackingEvents(node: Element): { [event: string]: string[] } {
+    const events: { [event: string]: string[] } = {};
+    const tracking = node.getElementsByTagName('Tracking');
+    for (let i = 0, total = tracking.length; i < total; i++) {
+        const event = tracking[i].getAttribute('event');
+        const url = tracking[i].textContent ? `${tracking[i].textContent}`.trim() : '';
+        if (event && url) {
+            events[event] = (events[event] || []).concat(url);
+        }
+    }
+    return events;
+}
+
+/**
+ * Convert a `Linear` node into an object with its media files, tracking events and click URLs.
+ *
+ * @param {Element} node
+ * @returns {Linear}
+ */
+function parseLinear(node: Element): Linear {
+    const duration = timeToSeconds(getValue(node, 'Duration') || '0:0');
+    const linear: Linear = {
+        clickTracking: getValues(node, 'ClickTracking'),
+        duration: isNaN(duration) ? 0 : duration,
+        mediaFiles: [],
+        trackingEvents: getTrackingEvents(node),
+    };
+
+    const skipOffset = parseOffset(node.getAttribute('skipoffset') || '', linear.duration);
+    if (!isNaN(skipOffset)) {
+        linear.skipOffset = skipOffset;
+    }
+
+    const clickThrough = getValue(node, 'ClickThrough');
+    if (clickThrough) {
+        linear.clickThrough = clickThrough;
+    }
+
+    const files = node.getElementsByTagName('MediaFile');
+    for (let i = 0, total = files.length; i < total; i++) {
+        const file = files[i];
+        const src = file.textContent ? file.textContent.trim() : '';
+        if (!src) {
+            continue;
+        }
+        const mediaFile: MediaFile = {
+            bitrate: parseInt(file.getAttribute('bitrate') || file.getAttribute('maxBitrate') || '0', 10) || 0,
+            delivery: file.getAttribute('delivery') || 'progressive',
+            height: parseInt(file.getAttribute('height') || '0', 10) || 0,
+            src,
+            type: file.getAttribute('type') || '',
+            width: parseInt(file.getAttribute('width') || '0', 10) || 0,
+        };
+        const apiFramework = file.getAttribute('apiFramework');
+        if (apiFramework) {
+            mediaFile.apiFramework = apiFramework;
+        }
+        linear.mediaFiles.push(mediaFile);
+    }
+
+    return linear;
+}
+
+/**
+ * Obtain the resource of a `Companion` or `NonLinear` node.
+ *
+ * Static resources take precedence over iframe and HTML ones.
+ * @param {Element} node
+ * @returns {object|null}  `null` if the node has no resources.
+ */
+function parseResource(node: Element): Pick<Companion, 'creativeType' | 'resource' | 'resourceType'> | null {
+    const staticResource = node.getElementsByTagName('StaticResource')[0];
+    const iframe = getValue(node, 'IFrameResource');
+    const html = getValue(node, 'HTMLResource');
+
+    const resource = staticResource && staticResource.textContent ? staticResource.textContent.trim() : '';
+    if (resource) {
+        return { creativeType: staticResource.getAttribute('creativeType') || '', resource, resourceType: 'static' };
+    }
+    if (iframe || html) {
+        return { creativeType: 'text/html', resource: iframe || html, resourceType: iframe ? 'iframe' : 'html' };
+    }
+    return null;
+}
+
+/**
+ * Convert a `Companion` node into an object with its resource and tracking elements.
+ *
+ * @param {Element} node
+ * @returns {Companion|null}  `null` if the companion has no resources.
+ */
+function parseCompanion(node: Element): Companion | null {
+    const resource = parseResource(node);
+    if (!resource) {
+        return null;
+    }
+
+    const companion: Companion = {
+        ...resource,
+        clickTracking: getValues(node, 'CompanionClickTracking'),
+        height: parseInt(node.getAttribute('height') || '0', 10) || 0,
+        trackingEvents: getTrackingEvents(node),
+        width: parseInt(node.getAttribute('width') || '0', 10) || 0,
+    };
+
+    const adSlotId = node.getAttribute('adSlotID') || node.getAttribute('adSlotId');
+    if (adSlotId) {
+        companion.adSlotId = adSlotId;
+    }
+    const altText = getValue(node, 'AltText');
+    if (altText) {
+        companion.altText = altText;
+    }
+    const clickThrough = getValue(node, 'CompanionClickThrough');
+    if (clickThrough) {
+        companion.clickThrough = clickThrough;
+    }
+    return companion;
+}
+
+/**
+ * Convert the first `NonLinear` node of a `NonLinearAds` node into an object with its resource,
+ * click URLs and the tracking elements shared by all the overlays.
+ *
+ * @param {Element} node
+ * @returns {NonLinear|null}  `null` if the overlay has no resources.
+ */
+function parseNonLinear(node: Element): NonLinear | null {
+    const overlay = node.getElementsByTagName('NonLinear')[0];
+    const resource = overlay ? parseResource(overlay) : null;
+    if (!overlay || !resource) {
+        return null;
+    }
+
+    const minSuggestedDuration = timeToSeconds(overlay.getAttribute('minSuggestedDuration') || '0:0');
+    const nonLinear: NonLinear = {
+        ...resource,
+        clickTracking: getValues(overlay, 'NonLinearClickTracking'),
+        height: parseInt(overlay.getAttribute('height') || '0', 10) || 0,
+        minSuggestedDuration: isNaN(minSuggestedDuration) ? 0 : minSuggestedDuration,
+        trackingEvents: getTrackingEvents(node),
+        width: parseInt(overlay.getAttribute('width') || '0', 10) || 0,
+    };
+
+    const clickThrough = getValue(overlay, 'NonLinearClickThrough');
+    if (clickThrough) {
+        nonLinear.clickThrough = clickThrough;
+    }
+    return nonLinear;
+}
+
+/**
+ * Escape a value to be used inside an HTML attribute.
+ *
+ * @export
+ * @param {string} value
+ * @returns {string}
+ */
+export function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Generate the HTML code to display the resource of a companion or non-linear creative:
+ * an image, an iframe or the HTML resource itself.
+ *
+ * @export
+ * @param {Companion|NonLinear} creative
+ * @returns {string}
+ */
+export function renderResource(creative: Companion | NonLinear): string {
+    const { height, resource, resourceType, width } = creative;
+    const size = `width="${width}" height="${height}"`;
+    if (resourceType === 'iframe') {
+        return `<iframe src="${escapeAttribute(resource)}" ${size} frameborder="0" scrolling="no"></iframe>`;
+    }
+    if (resourceType === 'html') {
+        return resource;
+    }
+    const altText = 'altText' in creative ? creative.altText || '' : '';
+    return `<img src="${escapeAttribute(resource)}" ${size} alt="${escapeAttribute(altText)}">`;
+}
+
+/**
+ * Create a sandboxed iframe to display the HTML code of a creative, so it cannot access the page
+ * hosting the player; links and popups are still opened in a new window.
+ *
+ * @export
+ * @param {string} content
+ * @param {number} width
+ * @param {number} height
+ * @returns {HTMLIFrameElement}
+ */
+export function createSandbox(content: string, width: number, height: number): HTMLIFrameElement {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts allow-popups allow-popups-to-escape-sandbox');
+    frame.setAttribute('frameborder', '0');
+    frame.setAttribute('scrolling', 'no');
+    frame.width = `${width}`;
+    frame.height = `${height}`;
+    frame.srcdoc = '<!DOCTYPE html><html><head><base target="_blank">'
+        + `<style>html,body{margin:0;overflow:hidden}</style></head><body>${content}</body></html>`;
+    return frame;
+}
+
+/**
+ * Convert a VAST 2/3/4 response into a list of `InLine` and `Wrapper` Ads.
+ *
+ * @see https://iabtechlab.com/standards/vast/
+ * @export
+ * @param {string} content
+ * @returns {Ad[]|null}  `null` if the content is not a valid VAST document.
+ */
+export function parseVast(content: string): Ad[] | null {
+    const doc = new (window as any).DOMParser().parseFromString(content.replace(/^\uFEFF/, '').trim(), 'text/xml');
+    const root = doc.documentElement;
+    if (!root || root.nodeName !== 'VAST' || doc.getElementsByTagName('parsererror').length) {
+        return null;
+    }
+
+    const ads: Ad[] = [];
+    for (let i = 0, total = root.childNodes.length; i < total; i++) {
+        const element = root.childNodes[i];
+        if (element.nodeName !== 'Ad') {
+            continue;
+        }
+
+        const inline = element.getElementsByTagName('InLine')[0];
+        const node = inline || element.getElementsByTagName('Wrapper')[0];
+        if (!node) {
+            continue;
+        }
+
+        const ad: Ad = {
+            adSystem: getValue(node, 'AdSystem'),
+            companions: [],
+            errors: getValues(node, 'Error'),
+            id: element.getAttribute('id') || '',
+            impressions: getValues(node, 'Impression'),
+            title: getValue(node, 'AdTitle'),
+        };
+
+        const sequence = parseInt(element.getAttribute('sequence') || '', 10);
+        if (sequence > 0) {
+            ad.sequence = sequence;
+        }
+
+        if (!inline) {
+            ad.wrapper = getValue(node, 'VASTAdTagURI');
+        }
+
+        const linear = node.getElementsByTagName('Linear')[0];
+        if (linear) {
+            ad.linear = parseLinear(linear);
+        }
+
+        const nonLinearAds = node.getElementsByTagName('NonLinearAds')[0];
+        const nonLinear = nonLinearAds ? parseNonLinear(nonLinearAds) : null;
+        if (nonLinear) {
+            ad.nonLinear = nonLinear;
+        }
+
+        const companions = node.getElementsByTagName('Companion');
+        for (let j = 0, count = companions.length; j < count; j++) {
+            const companion = parseCompanion(companions[j]);
+            if (companion) {
+                ad.companions.push(companion);
+            }
+        }
+        ads.push(ad);
+    }
+    return ads;
+}
+
+/**
+ * Add the tracking elements of a `Wrapper` Ad to the Ad it resolved to, since both
+ * must be reported when the Ad is played; the wrapper's companions are only used if the Ad has none.
+ *
+ * @export
+ * @param {Ad} ad  The Ad obtained after following the wrapper.
+ * @param {Ad} wrapper
+ * @returns {Ad}
+ */
+export function mergeWrapper(ad: Ad, wrapper: Ad): Ad {
+    const result: Ad = {
+        ...ad,
+        companions: ad.companions.length ? ad.companions : wrapper.companions,
+        errors: wrapper.errors.concat(ad.errors),
+        impressions: wrapper.impressions.concat(ad.impressions),
+    };
+
+    if (ad.linear && wrapper.linear) {
+        const trackingEvents = { ...ad.linear.trackingEvents };
+        Object.keys(wrapper.linear.trackingEvents).forEach(event => {
+            trackingEvents[event] = wrapper.linear!.trackingEvents[event].concat(trackingEvents[event] || []);
+        });
+        result.linear = {
+            ...ad.linear,
+            clickTracking: wrapper.linear.clickTracking.concat(ad.linear.clickTracking),
+            trackingEvents,
+        };
+    }
+    return result;
+}
+
+/**
+ * Select the rendition of a linear creative that best fits the player.
+ *
+ * Only progressive files that the element can play are considered; among those, the one with
+ * the highest bitrate below `bitrate` is picked, or (if `bitrate` is `-1`) the one whose width
+ * is closer to the element's width.
+ *
+ * @export
+ * @param {MediaFile[]} files
+ * @param {HTMLMediaElement} element  The element that will play the file.
+ * @param {number} bitrate  The maximum bitrate desired, in kbps.
+ * @returns {MediaFile|undefined}
+ */
+export function selectMediaFile(files: MediaFile[], element: HTMLMediaElement, bitrate: number = -1): MediaFile | undefined {
+    const playable = files.filter(file => file.delivery === 'progressive' && !file.apiFramework &&
+        file.type && element.canPlayType(file.type) !== '');
+
+    if (bitrate > 0) {
+        const sorted = playable.sort((a, b) => b.bitrate - a.bitrate);
+        return sorted.filter(file => file.bitrate <= bitrate)[0] || sorted[sorted.length - 1];
+    }
+
+    const width = element.offsetWidth || 0;
+    return playable.sort((a, b) => (Math.abs(a.width - width) - Math.abs(b.width - width)) || (b.bitrate - a.bitrate))[0];
+}
+
+/**
+ * Convert a VMAP 1.0 document into a list of linear Ad breaks.
+ *
+ * Each break's Ads are either the URL in `AdTagURI` or the VAST response embedded in `VASTAdData`.
+ *
+ * @see https://iabtechlab.com/standards/video-multiple-ad-playlist-vmap/
+ * @export
+ * @param {string} content
+ * @returns {AdBreak[]|null}  `null` if the content is not a valid VMAP document.
+ */
+export function parseVmap(content: string): AdBreak[] | null {
+    const doc = new (window as any).DOMParser().parseFromString(content.replace(/^\uFEFF/, '').trim(), 'text/xml');
+    const root = doc.documentElement;
+    if (!root || root.localName !== 'VMAP' || doc.getElementsByTagName('parsererror').length) {
+        return null;
+    }
+
+    const breaks: AdBreak[] = [];
+    const nodes = root.getElementsByTagNameNS('*', 'AdBreak');
+    for (let i = 0, total = nodes.length; i < total; i++) {
+        const node = nodes[i];
+        const type = node.getAttribute('breakType') || 'linear';
+        const timeOffset = node.getAttribute('timeOffset');
+        const source = node.getElementsByTagNameNS('*', 'AdSource')[0];
+        if (!timeOffset || !source || type.split(',').indexOf('linear') === -1) {
+            continue;
+        }
+
+        let src = '';
+        const tag = source.getElementsByTagNameNS('*', 'AdTagURI')[0];
+        const data = source.getElementsByTagNameNS('*', 'VASTAdData')[0];
+        if (tag && tag.textContent) {
+            src = tag.textContent.trim();
+        } else if (data) {
+            const vast = data.getElementsByTagName('VAST')[0];
+            src = vast ? new (window as any).XMLSerializer().serializeToString(vast) : '';
+        }
+
+        if (src) {
+            const id = node.getAttribute('breakId');
+            breaks.push(id ? { id, src, timeOffset } : { src, timeOffset });
+        }
+    }
+    return breaks;
+}
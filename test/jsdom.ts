@@ -23,3 +23,6 @@ const { window } = new JSDOM('<!doctype html><html><body></body></html>', {
 globalAny.document = window.document;
 globalAny.window = global.document.defaultView;
 globalAny.navigator = global.navigator;
+// The player validates its elements with `instanceof`, so they must belong to the window above
+globalAny.HTMLElement = (window as any).HTMLElement;
+globalAny.HTMLMediaElement = (window as any).HTMLMediaElement;
@@ -0,0 +1,428 @@
+import { expect } from 'chai';
+
+import Options from '../../src/js/interfaces/ads/options';
+import Ads from '../../src/js/media/ads';
+import AdPolicy from '../../src/js/media/policy';
+import Tracker from '../../src/js/media/tracker';
+import Vast from '../../src/js/media/vast';
+import Ad from '../../src/js/media/vast/ad';
+import AdEvent from '../../src/js/media/vast/ad-event';
+import AdsManager from '../../src/js/media/vast/ads-manager';
+import AdsRenderingSettings from '../../src/js/media/vast/ads-rendering-settings';
+import { stubPlayer } from '../stub';
+
+const linear = (id: string, sequence: number, skipOffset?: string) => `<Ad id="${id}" sequence="${sequence}"><InLine>
+    <AdSystem>OpenPlayer</AdSystem>
+    <Creatives><Creative><Linear${skipOffset ? ` skipoffset="${skipOffset}"` : ''}>
+        <Duration>00:00:10</Duration>
+        <MediaFiles>
+            <MediaFile delivery="progressive" type="video/mp4" width="640" height="360"><![CDATA[https://example.com/${id}.mp4]]></MediaFile>
+        </MediaFiles>
+    </Linear></Creative></Creatives>
+</InLine></Ad>`;
+const pod = `<VAST version="3.0">${linear('first', 1)}${linear('second', 2)}</VAST>`;
+const wrapper = (url: string) => `<VAST version="3.0"><Ad><Wrapper>
+    <AdSystem>OpenPlayer</AdSystem>
+    <VASTAdTagURI><![CDATA[${url}]]></VASTAdTagURI>
+    <Error><![CDATA[https://example.com/wrapper/error?code=[ERRORCODE]]]></Error>
+</Wrapper></Ad></VAST>`;
+const tracked = `<VAST version="3.0"><Ad><InLine>
+    <AdSystem>OpenPlayer</AdSystem>
+    <Creatives><Creative><Linear>
+        <Duration>00:00:10</Duration>
+        <TrackingEvents>
+            <Tracking event="mute">https://example.com/mute</Tracking>
+            <Tracking event="unmute">https://example.com/unmute</Tracking>
+        </TrackingEvents>
+        <MediaFiles>
+            <MediaFile delivery="progressive" type="video/mp4" width="640" height="360"><![CDATA[https://example.com/ad.mp4]]></MediaFile>
+        </MediaFiles>
+    </Linear></Creative></Creatives>
+</InLine></Ad></VAST>`;
+const companions = `<VAST version="3.0"><Ad><InLine>
+    <AdSystem>OpenPlayer</AdSystem>
+    <Creatives>
+        <Creative><Linear>
+            <Duration>00:00:10</Duration>
+            <MediaFiles>
+                <MediaFile delivery="progressive" type="video/mp4" width="640" height="360"><![CDATA[https://example.com/ad.mp4]]></MediaFile>
+            </MediaFiles>
+        </Linear></Creative>
+        <Creative><CompanionAds>
+            <Companion width="300" height="250">
+                <StaticResource creativeType="image/png"><![CDATA[https://example.com/banner.png]]></StaticResource>
+                <CompanionClickThrough>https://example.com/landing</CompanionClickThrough>
+                <CompanionClickTracking>https://example.com/click</CompanionClickTracking>
+                <TrackingEvents><Tracking event="creativeView">https://example.com/view</Tracking></TrackingEvents>
+            </Companion>
+            <Companion width="728" height="90">
+                <HTMLResource><![CDATA[<script>parent.document.body.innerHTML = '';</script>]]></HTMLResource>
+            </Companion>
+        </CompanionAds></Creative>
+    </Creatives>
+</InLine></Ad></VAST>`;
+
+describe('ads', () => {
+    const original: { [key: string]: any } = {};
+    const labels = { ad: 'Ad', adPosition: 'Ad %1 of %2', skipAd: 'Skip Ad', skipAdIn: 'Skip in %1' };
+    const globals: any = global;
+    let container: HTMLDivElement;
+    let element: HTMLVideoElement;
+    let ads: Ads;
+
+    const create = (options: { [key: string]: any }, src: string | string[] = pod): Promise<void> => {
+        const media = {
+            currentTime: 0,
+            muted: false,
+            pause: () => undefined,
+            paused: true,
+            play: () => Promise.resolve(),
+            src: [],
+            volume: 1,
+        };
+        const player = stubPlayer(element, {
+            getAdPolicy: () => policy,
+            getControls: () => null,
+            getMedia: () => media,
+            getOptions: () => ({ labels }),
+        });
+        const policy = new AdPolicy(player, options.policy);
+        ads = new Ads(player, src, true, false, options as Options);
+        return new Promise(resolve => element.addEventListener('adsloaded', () => resolve(), { once: true }));
+    };
+    const adElement = () => container.querySelector('.op-ads__media') as HTMLVideoElement;
+    const skipButton = () => container.querySelector('.op-ads__skip') as HTMLButtonElement;
+
+    before(() => {
+        const { prototype } = window.HTMLMediaElement;
+        ['canPlayType', 'load', 'pause', 'play'].forEach(method => {
+            original[method] = (prototype as any)[method];
+        });
+        prototype.canPlayType = (type: string) => type === 'video/mp4' ? 'maybe' : '';
+        prototype.load = () => undefined;
+        prototype.pause = () => undefined;
+        prototype.play = () => Promise.resolve();
+        globals.window.requestAnimationFrame = () => 0;
+    });
+
+    after(() => {
+        Object.assign(window.HTMLMediaElement.prototype, original);
+        delete globals.window.requestAnimationFrame;
+    });
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        element = document.createElement('video');
+        container.appendChild(element);
+        document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+        ads.destroy();
+        document.body.removeChild(container);
+    });
+
+    describe('with IMA SDK', () => {
+        const settings: AdsRenderingSettings[] = [];
+
+        before(() => {
+            class RecordedSettings extends AdsRenderingSettings {
+                constructor() {
+                    super();
+                    settings.push(this);
+                }
+            }
+            globals.google = { ima: { ...Vast, AdsRenderingSettings: RecordedSettings } };
+        });
+
+        after(() => {
+            delete globals.google;
+        });
+
+        it('keeps the countdown of IMA SDK unless the overlay is enabled', async () => {
+            await create({});
+            expect(container.querySelector('.op-ads__overlay')).to.equal(null);
+            expect(settings[settings.length - 1].uiElements).to.equal(null);
+        });
+
+        it('replaces the countdown of IMA SDK with the overlay if it is enabled', async () => {
+            await create({ overlay: true });
+            expect(container.querySelector('.op-ads__overlay')).to.not.equal(null);
+            expect(settings[settings.length - 1].uiElements).to.deep.equal([]);
+        });
+
+        it('skips the Ads that IMA SDK allows skipping through the skip button of the overlay, ignoring `skipAfter`', async () => {
+            await create({ overlay: true, skipAfter: 1 }, `<VAST version="3.0">${linear('first', 1, '00:00:05')}${linear('second', 2)}</VAST>`);
+            const skipped: number[] = [];
+            element.addEventListener('adsskipped', (e: any) => skipped.push(e.detail.pod.position));
+
+            adElement().dispatchEvent(new Event('playing'));
+            expect(skipButton().disabled).to.equal(true);
+            expect(skipButton().textContent).to.equal('Skip in 5');
+
+            adElement().currentTime = 5;
+            adElement().dispatchEvent(new Event('timeupdate'));
+            expect(skipButton().disabled).to.equal(false);
+            skipButton().click();
+            expect(skipped).to.deep.equal([1]);
+            expect(adElement().getAttribute('src')).to.equal('https://example.com/second.mp4');
+
+            adElement().dispatchEvent(new Event('playing'));
+            adElement().currentTime = 2;
+            adElement().dispatchEvent(new Event('timeupdate'));
+            expect(skipButton().classList.contains('op-ads__skip--visible')).to.equal(false);
+        });
+
+        it('reports a generic error if the Ad tag is not loaded within `requestTimeout`', async () => {
+            const loader: any = Vast.AdsLoader.prototype;
+            const { requestAds } = loader;
+            loader.requestAds = () => undefined;
+            const failed = new Promise<any>(resolve => element.addEventListener('playererror', (e: any) => resolve(e.detail)));
+            const completed = new Promise<any>(resolve => element.addEventListener('adswaterfallcomplete', (e: any) => resolve(e.detail)));
+            create({ requestTimeout: 10 });
+            const [error, waterfall] = await Promise.all([failed, completed]);
+            loader.requestAds = requestAds;
+
+            expect(error.data).to.be.an.instanceof(Error);
+            expect(error.message).to.equal('Error: Ad tag was not loaded after 10ms');
+            expect(waterfall.filled).to.equal(false);
+            expect(waterfall.report[0].status).to.equal('timeout');
+            expect(waterfall.report[0].code).to.equal(undefined);
+        });
+
+        describe('with Ad pods', () => {
+            const { getAdPodInfo } = Ad.prototype;
+            const play = async (maxDuration: number) => {
+                Ad.prototype.getAdPodInfo = function getPodInfo(this: Ad) {
+                    return { ...getAdPodInfo.call(this), getMaxDuration: () => maxDuration };
+                };
+                await create({});
+                adElement().dispatchEvent(new Event('playing'));
+                const first = ads.getPodInfo();
+                adElement().dispatchEvent(new Event('ended'));
+                adElement().dispatchEvent(new Event('playing'));
+                return [first, ads.getPodInfo()];
+            };
+
+            afterEach(() => {
+                Ad.prototype.getAdPodInfo = getAdPodInfo;
+            });
+
+            it('uses the maximum duration of the pod as its duration', async () => {
+                const [first, second] = await play(120);
+                expect(first).to.deep.equal({ duration: 120, partial: false, position: 1, remaining: 120, total: 2 });
+                expect(second).to.deep.equal({ duration: 120, partial: false, position: 2, remaining: 110, total: 2 });
+            });
+
+            it('only counts the Ads played so far if the maximum duration of the pod is unknown, flagging it as partial', async () => {
+                const [first, second] = await play(-1);
+                expect(first).to.deep.equal({ duration: 10, partial: true, position: 1, remaining: 10, total: 2 });
+                expect(second).to.deep.equal({ duration: 20, partial: false, position: 2, remaining: 10, total: 2 });
+            });
+        });
+
+        describe('with Ad rules', () => {
+            const prototype: any = AdsManager.prototype;
+            const { getCuePoints } = prototype;
+            let discarded: number;
+
+            before(() => {
+                prototype.getCuePoints = () => [0, 30, -1];
+                prototype.discardAdBreak = () => discarded++;
+            });
+
+            after(() => {
+                prototype.getCuePoints = getCuePoints;
+                delete prototype.discardAdBreak;
+            });
+
+            beforeEach(() => {
+                discarded = 0;
+            });
+
+            it('plays the breaks allowed by the Ad policy', async () => {
+                await create({ policy: { maxBreaks: 1 } });
+                ads.getAdsManager().dispatchEvent(new AdEvent(AdEvent.Type.CONTENT_PAUSE_REQUESTED, null));
+                expect(discarded).to.equal(0);
+            });
+
+            it('discards the breaks that the Ad policy does not allow', async () => {
+                const reasons: string[] = [];
+                element.addEventListener('adsbreakblocked', (e: any) => reasons.push(e.detail.reason));
+                await create({ policy: { maxBreaks: 0 } });
+                reasons.length = 0;
+                discarded = 0;
+                let played = false;
+                element.addEventListener('play', () => { played = true; });
+                ads.getAdsManager().dispatchEvent(new AdEvent(AdEvent.Type.CONTENT_PAUSE_REQUESTED, null));
+
+                expect(discarded).to.equal(1);
+                expect(played).to.equal(false);
+                expect(reasons).to.deep.equal(['maxBreaks']);
+            });
+        });
+    });
+
+    describe('with the VAST engine', () => {
+        it('displays the position of the Ad in the pod, hiding the skip button for Ads that cannot be skipped', async () => {
+            await create({ engine: 'vast' });
+            adElement().dispatchEvent(new Event('playing'));
+            const countdown = container.querySelector('.op-ads__countdown') as HTMLSpanElement;
+            expect(countdown.textContent).to.match(/^Ad 1 of 2 · /);
+            expect(skipButton().classList.contains('op-ads__skip--visible')).to.equal(false);
+            expect(ads.getPodInfo()).to.deep.equal({ duration: 20, partial: false, position: 1, remaining: 20, total: 2 });
+        });
+
+        it('counts down the whole pod as its Ads are played', async () => {
+            await create({ engine: 'vast' });
+            adElement().dispatchEvent(new Event('playing'));
+            adElement().dispatchEvent(new Event('ended'));
+            adElement().dispatchEvent(new Event('playing'));
+            expect(ads.getPodInfo()).to.deep.equal({ duration: 20, partial: false, position: 2, remaining: 10, total: 2 });
+            expect(ads.duration).to.equal(20);
+            expect(ads.currentTime).to.equal(10);
+        });
+
+        it('skips to the next Ad of the pod once `skipAfter` seconds have elapsed', async () => {
+            await create({ engine: 'vast', skipAfter: 5 });
+            const skipped: number[] = [];
+            element.addEventListener('adsskipped', (e: any) => skipped.push(e.detail.pod.position));
+
+            adElement().dispatchEvent(new Event('playing'));
+            expect(skipButton().disabled).to.equal(true);
+            expect(skipButton().textContent).to.equal('Skip in 5');
+            skipButton().click();
+            expect(adElement().getAttribute('src')).to.equal('https://example.com/first.mp4');
+
+            adElement().currentTime = 5;
+            adElement().dispatchEvent(new Event('timeupdate'));
+            expect(skipButton().disabled).to.equal(false);
+            skipButton().click();
+            expect(skipped).to.deep.equal([1]);
+            expect(adElement().getAttribute('src')).to.equal('https://example.com/second.mp4');
+        });
+
+        it('tries the tags of a waterfall in order until one of them plays, reporting the outcome of each one', async () => {
+            const tags = [wrapper('http://localhost:1/missing.xml'), '<VAST version="3.0"></VAST>', pod];
+            await create({ engine: 'vast', waterfall: true }, tags);
+            adElement().dispatchEvent(new Event('playing'));
+
+            const report = ads.getReport();
+            expect(report.map(entry => entry.status)).to.deep.equal(['http', 'empty', 'filled']);
+            expect(report.map(entry => entry.code)).to.deep.equal([301, 1009, undefined]);
+        });
+
+        it('notifies that the waterfall is not filled once all its tags fail', async () => {
+            const completed = new Promise<any>(resolve => element.addEventListener('adswaterfallcomplete', (e: any) => resolve(e.detail)));
+            create({ engine: 'vast', waterfall: true }, ['<VAST version="3.0"></VAST>', '<html></html>']);
+            const { filled, report } = await completed;
+
+            expect(filled).to.equal(false);
+            expect(report.map((entry: any) => entry.status)).to.deep.equal(['empty', 'error']);
+            expect(report.map((entry: any) => entry.code)).to.deep.equal([1009, 100]);
+        });
+
+        it('reports each waterfall loaded in a row on its own', async () => {
+            const reports: string[][] = [];
+            element.addEventListener('adswaterfallcomplete', (e: any) => reports.push(e.detail.report.map((entry: any) => entry.status)));
+            const completed = () => new Promise(resolve => element.addEventListener('adswaterfallcomplete', resolve, { once: true }));
+            let waterfall = completed();
+            create({ engine: 'vast', waterfall: true }, ['<VAST version="3.0"></VAST>', '<html></html>']);
+            await waterfall;
+
+            waterfall = completed();
+            ads.destroy();
+            ads.src = ['<html></html>'];
+            ads.load(true);
+            await waterfall;
+
+            expect(reports).to.deep.equal([['empty', 'error'], ['error']]);
+            expect(ads.getReport().map(entry => entry.status)).to.deep.equal(['error']);
+        });
+
+        it('sends the error URLs of the wrappers followed if no Ads could be loaded', async () => {
+            const sent: string[] = [];
+            const empty = `data:text/xml;charset=utf-8,${encodeURIComponent('<VAST version="3.0"></VAST>')}`;
+            const completed = new Promise(resolve => element.addEventListener('adswaterfallcomplete', resolve));
+            create({ engine: 'vast', tracker: new Tracker(url => sent.push(url)) }, wrapper(empty));
+            await completed;
+
+            expect(sent).to.deep.equal(['https://example.com/wrapper/error?code=303']);
+        });
+
+        it('sends the mute and unmute tracking every time the volume of the Ad is muted or restored', async () => {
+            const sent: string[] = [];
+            await create({ engine: 'vast', tracker: new Tracker(url => sent.push(url)) }, tracked);
+            adElement().dispatchEvent(new Event('playing'));
+            ads.volume = 0.5;
+            ads.muted = true;
+            ads.muted = false;
+            ads.muted = true;
+            ads.volume = 0.8;
+
+            expect(sent).to.deep.equal([
+                'https://example.com/mute', 'https://example.com/unmute', 'https://example.com/mute', 'https://example.com/unmute',
+            ]);
+        });
+
+        describe('with companion banners', () => {
+            const sent: string[] = [];
+            const options = {
+                companions: { '300x250': 'banner', '728x90': 'leaderboard' },
+                engine: 'vast',
+                tracker: new Tracker(url => sent.push(url)),
+            };
+            const slot = (id: string) => document.getElementById(id) as HTMLDivElement;
+
+            beforeEach(() => {
+                sent.length = 0;
+                ['banner', 'leaderboard'].forEach(id => {
+                    const target = document.createElement('div');
+                    target.id = id;
+                    container.appendChild(target);
+                });
+            });
+
+            it('displays static banners as images and HTML banners inside a sandboxed iframe', async () => {
+                const displayed: string[] = [];
+                element.addEventListener('adscompanion', (e: any) => displayed.push(e.detail.slot));
+                await create(options, companions);
+                adElement().dispatchEvent(new Event('playing'));
+
+                expect(displayed).to.deep.equal(['banner', 'leaderboard']);
+                const link = slot('banner').querySelector('a') as HTMLAnchorElement;
+                expect(link.href).to.equal('https://example.com/landing');
+                expect((link.querySelector('img') as HTMLImageElement).src).to.equal('https://example.com/banner.png');
+
+                const frame = slot('leaderboard').firstElementChild as HTMLIFrameElement;
+                expect(frame.tagName).to.equal('IFRAME');
+                expect(frame.getAttribute('sandbox')).to.equal('allow-scripts allow-popups allow-popups-to-escape-sandbox');
+                expect(frame.srcdoc).to.contain('<script>parent.document.body.innerHTML');
+                expect(slot('leaderboard').querySelector('script')).to.equal(null);
+            });
+
+            it('sends the creativeView tracking once and the click tracking every time a banner is clicked', async () => {
+                await create(options, companions);
+                adElement().dispatchEvent(new Event('playing'));
+                adElement().dispatchEvent(new Event('playing'));
+                const link = slot('banner').querySelector('a') as HTMLAnchorElement;
+                link.addEventListener('click', e => e.preventDefault());
+                link.click();
+                link.click();
+
+                expect(sent.filter(url => url === 'https://example.com/view')).to.have.lengthOf(1);
+                expect(sent.filter(url => url === 'https://example.com/click')).to.have.lengthOf(2);
+            });
+
+            it('removes the banners once Ads are destroyed', async () => {
+                await create(options, companions);
+                adElement().dispatchEvent(new Event('playing'));
+                expect(slot('banner').children).to.have.lengthOf(1);
+
+                ads.destroy();
+                expect(slot('banner').children).to.have.lengthOf(0);
+                expect(slot('leaderboard').children).to.have.lengthOf(0);
+            });
+        });
+    });
+});
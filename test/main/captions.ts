@@ -0,0 +1,228 @@
+import { expect } from 'chai';
+
+import Captions from '../../src/js/controls/captions';
+import Cue from '../../src/js/interfaces/captions/cue';
+import CueRegion from '../../src/js/interfaces/captions/cue-region';
+import CueSettings from '../../src/js/interfaces/captions/cue-settings';
+import { appendTrack } from '../../src/js/utils/captions';
+import { stubPlayer } from '../stub';
+
+describe('controls/captions', () => {
+    const labels = { captionStyle: 'Caption Style', captions: 'CC/Subtitles', lang: {}, off: 'Off', toggleCaptions: 'Toggle Captions' };
+    let container: HTMLDivElement;
+    let layer: HTMLDivElement;
+    let element: HTMLMediaElement;
+    let textTracks: Array<{ cues: null, kind: string, label: string, language: string, mode: string }>;
+    let media: { currentTime: number };
+    let captions: Captions;
+    let events: string[];
+
+    // jsdom does not implement text tracks, so every `track` tag gets its own
+    const addTrack = (language: string, cues: Cue[], isDefault: boolean = true) => {
+        const tag = appendTrack(element, { cues, default: isDefault, kind: 'subtitles', label: language, srclang: language });
+        const track = { cues: null, kind: 'subtitles', label: language, language, mode: 'disabled' };
+        Object.defineProperty(tag, 'track', { configurable: true, value: track });
+        textTracks.push(track);
+        return tag;
+    };
+    const cue = (text: string, settings: CueSettings = {}): Cue => ({ endTime: 10, identifier: '', settings, startTime: 0, text });
+    const create = (detachMenus: boolean = false) => {
+        const player = stubPlayer(element, {
+            getContainer: () => container,
+            getControls: () => ({ getLayer: () => layer, getSettings: () => undefined }),
+            getKeyboard: () => ({ register: () => undefined, unregister: () => undefined }),
+            getMedia: () => media,
+            getOptions: () => ({ detachMenus, labels }),
+            getPreferences: () => ({}),
+            id: 'player',
+        });
+        captions = new Captions(player, 'right', 'bottom');
+        captions.create();
+    };
+    const render = (cues: Cue[]) => {
+        addTrack('en', cues);
+        create();
+        media.currentTime = 5;
+        element.dispatchEvent(new Event('timeupdate'));
+        return Array.from(container.querySelectorAll('.op-captions__cue')) as HTMLDivElement[];
+    };
+
+    const displayed = () => {
+        media.currentTime = 5;
+        element.dispatchEvent(new Event('timeupdate'));
+        const target = container.querySelector('.op-captions--on');
+        return target ? target.textContent : null;
+    };
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        layer = document.createElement('div');
+        element = document.createElement('video');
+        textTracks = [];
+        Object.defineProperty(element, 'textTracks', { value: textTracks });
+        media = { currentTime: 0 };
+        events = [];
+        ['captionschanged', 'captionsremoved'].forEach(event => {
+            element.addEventListener(event, (e: any) => events.push(`${event}:${e.detail.language}`));
+        });
+    });
+
+    afterEach(() => {
+        captions.destroy();
+    });
+
+    describe('rendering', () => {
+        it('stacks the cues without position at the bottom, aligning their text', () => {
+            const [first, second] = render([cue('First line'), cue('Second line', { align: 'start' })]);
+            expect(first.textContent).to.equal('First line');
+            expect(first.classList.contains('op-captions__cue--positioned')).to.equal(false);
+            expect(first.style.textAlign).to.equal('center');
+            expect(second.classList.contains('op-captions__cue--positioned')).to.equal(false);
+            expect(second.style.textAlign).to.equal('left');
+            expect(container.querySelector('.op-captions--on')).to.not.equal(null);
+        });
+
+        it('places the cues at the line number set, counting negative lines from the bottom', () => {
+            const [top, bottom] = render([cue('Top', { line: 0 }), cue('Bottom', { line: -2 })]);
+            expect(top.classList.contains('op-captions__cue--positioned')).to.equal(true);
+            expect(top.style.top).to.equal('0em');
+            expect(top.style.left).to.equal('0%');
+            expect(top.style.width).to.equal('100%');
+            expect(bottom.style.bottom).to.equal('1.5em');
+            expect(bottom.style.top).to.equal('');
+        });
+
+        it('places the cues at the percentage of line set, shifting them according to `lineAlign`', () => {
+            const [box] = render([cue('Middle', { line: 80, lineAlign: 'center', snapToLines: false })]);
+            expect(box.style.top).to.equal('80%');
+            expect(box.style.transform).to.equal('translateY(-50%)');
+        });
+
+        it('sets the offset and the width of the cues using `position`, `positionAlign` and `size`', () => {
+            const [start, centered, end] = render([
+                cue('Start', { align: 'start', position: 10, size: 50 }),
+                cue('Centered', { size: 50 }),
+                cue('End', { position: 90, positionAlign: 'line-right', size: 40 }),
+            ]);
+            expect(start.style.left).to.equal('10%');
+            expect(start.style.width).to.equal('50%');
+            expect(start.style.bottom).to.equal('0px');
+            expect(centered.style.left).to.equal('25%');
+            expect(centered.style.width).to.equal('50%');
+            expect(end.style.left).to.equal('50%');
+            expect(end.style.width).to.equal('40%');
+        });
+
+        it('writes vertical cues from the side set, using `size` as their height', () => {
+            const [box] = render([cue('Vertical', { line: 1, size: 60, vertical: 'rl' })]);
+            expect(box.style.getPropertyValue('writing-mode')).to.equal('vertical-rl');
+            expect(box.style.top).to.equal('20%');
+            expect(box.style.height).to.equal('60%');
+            expect(box.style.right).to.equal('1.5em');
+        });
+
+        it('groups the cues of a region in a box anchored to the video', () => {
+            const region: CueRegion = {
+                id: 'speaker',
+                lines: 3,
+                regionAnchorX: 0,
+                regionAnchorY: 100,
+                scroll: 'up',
+                viewportAnchorX: 10,
+                viewportAnchorY: 90,
+                width: 40,
+            };
+            const boxes = render([cue('Hello', { line: 0, region }), cue('Hi', { region }), cue('Outside')]);
+            const regions = container.querySelectorAll('.op-captions__region');
+            expect(regions).to.have.length(1);
+
+            const box = regions[0] as HTMLDivElement;
+            expect(box.style.left).to.equal('10%');
+            expect(box.style.top).to.equal('90%');
+            expect(box.style.width).to.equal('40%');
+            expect(box.style.height).to.equal('4.5em');
+            expect(box.style.transform).to.equal('translateY(-100%)');
+            expect(Array.from(box.children)).to.deep.equal(boxes.slice(0, 2));
+            expect(boxes[0].classList.contains('op-captions__cue--positioned')).to.equal(false);
+            expect(boxes[2].parentElement).to.equal(container.querySelector('.op-captions'));
+        });
+
+        it('does not position the cues in audio', () => {
+            element = document.createElement('audio');
+            Object.defineProperty(element, 'textTracks', { value: textTracks });
+            const [box] = render([cue('Audio', { align: 'end', line: 0, size: 50 })]);
+            expect(box.classList.contains('op-captions__cue--positioned')).to.equal(false);
+            expect(box.style.textAlign).to.equal('right');
+            expect(box.style.top).to.equal('');
+        });
+    });
+    describe('languages', () => {
+        beforeEach(() => {
+            addTrack('en', [cue('Hello')]);
+            addTrack('es', [cue('Hola')], false);
+        });
+
+        it('displays the captions of a language loaded, or turns them off', () => {
+            create();
+            expect(captions.getLanguage()).to.equal('en');
+            expect(captions.setLanguage('es')).to.equal(true);
+            expect(captions.getLanguage()).to.equal('es');
+            expect(displayed()).to.equal('Hola');
+
+            expect(captions.setLanguage('off')).to.equal(true);
+            expect(captions.getLanguage()).to.equal('off');
+            expect(displayed()).to.equal(null);
+            expect(events).to.deep.equal(['captionschanged:es', 'captionschanged:off']);
+        });
+
+        it('does not change the captions to a language that was not loaded', () => {
+            create();
+            expect(captions.setLanguage('fr')).to.equal(false);
+            expect(captions.getLanguage()).to.equal('en');
+            expect(events).to.deep.equal([]);
+        });
+
+        it('adds the captions of a new language, or replaces the ones of a language loaded', () => {
+            create();
+            expect(captions.addTrack(addTrack('fr', [cue('Bonjour')], false))).to.equal(true);
+            expect(captions.setLanguage('fr')).to.equal(true);
+            expect(displayed()).to.equal('Bonjour');
+
+            expect(captions.addTrack(addTrack('fr', [cue('Salut')], false))).to.equal(true);
+            expect(captions.getLanguage()).to.equal('fr');
+            expect(displayed()).to.equal('Salut');
+        });
+
+        it('removes the captions of a language, turning them off if they are being displayed', () => {
+            create();
+            expect(captions.removeTrack('en')).to.equal(true);
+            expect(captions.getLanguage()).to.equal('off');
+            expect(captions.setLanguage('en')).to.equal(false);
+            expect(events).to.deep.equal(['captionschanged:off', 'captionsremoved:en']);
+        });
+
+        it('does not remove a language that was not loaded, nor the last one', () => {
+            create();
+            expect(captions.removeTrack('fr')).to.equal(false);
+            expect(captions.removeTrack('es')).to.equal(true);
+            expect(captions.removeTrack('en')).to.equal(false);
+            expect(captions.getLanguage()).to.equal('en');
+            expect(events).to.deep.equal(['captionsremoved:es']);
+        });
+
+        it('updates the options of its menu when `detachMenus` is set', () => {
+            create(true);
+            const options = () => Array.from(layer.querySelectorAll('.op-subtitles__option')).map(item => item.getAttribute('data-value'));
+            const checked = () => {
+                const option = layer.querySelector('[aria-checked="true"] .op-subtitles__option');
+                return option ? option.getAttribute('data-value') : null;
+            };
+            expect(options()).to.deep.equal(['captions-off', 'captions-en', 'captions-es']);
+
+            captions.setLanguage('es');
+            expect(checked()).to.equal('captions-es');
+            captions.removeTrack('es');
+            expect(options()).to.deep.equal(['captions-off', 'captions-en']);
+        });
+    });
+});
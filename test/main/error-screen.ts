@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+
+import ErrorScreen from '../../src/js/error-screen';
+import PlayerError from '../../src/js/interfaces/events/error';
+import { stubPlayer } from '../stub';
+
+describe('error-screen', () => {
+    const labels = { errorAds: 'Ads could not be played', errorNetwork: 'Network error', retry: 'Retry' };
+    let container: HTMLDivElement;
+    let element: HTMLVideoElement;
+    let media: { currentTime: number, duration: number, reload: () => void };
+    let reloaded: number;
+    let played: number;
+    let screen: ErrorScreen;
+
+    const create = () => {
+        const player = stubPlayer(element, {
+            getContainer: () => container,
+            getMedia: () => media,
+            getOptions: () => ({ labels }),
+            play: () => {
+                played++;
+                return Promise.resolve();
+            },
+        });
+        screen = new ErrorScreen(player);
+        screen.create();
+    };
+    const fail = (error: PlayerError) => element.dispatchEvent(new CustomEvent('playererror', { detail: error }));
+    const message = () => {
+        const target = container.querySelector('.op-error__message');
+        return target ? target.textContent : null;
+    };
+    const networkError: PlayerError = { data: { error: 2 }, message: 'Network error', type: 'HTML5' };
+    const adsError: PlayerError = { message: 'AdError 303: No Ads VAST response after one or more Wrappers.', type: 'Ads' };
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        element = document.createElement('video');
+        media = {
+            currentTime: 0,
+            duration: 60,
+            reload: () => {
+                reloaded++;
+            },
+        };
+        reloaded = 0;
+        played = 0;
+    });
+
+    afterEach(() => {
+        screen.destroy();
+    });
+
+    it('displays the errors that prevent media from being played', () => {
+        create();
+        fail({ data: ['hlsError', { fatal: false, type: 'networkError' }], message: 'Error', type: 'HLS' });
+        expect(message()).to.equal(null);
+
+        fail(networkError);
+        expect(message()).to.equal('Network error');
+        expect(container.classList.contains('op-player--error')).to.equal(true);
+
+        element.dispatchEvent(new Event('play'));
+        expect(message()).to.equal(null);
+        expect(container.classList.contains('op-player--error')).to.equal(false);
+    });
+
+    it('does not display the errors solved by loading another source', () => {
+        create();
+        element.dispatchEvent(new CustomEvent('sourcefallback', { detail: { error: networkError } }));
+        fail(networkError);
+        expect(message()).to.equal(null);
+    });
+
+    it('displays the errors of Ads only if none of the Ad tags could be played', () => {
+        create();
+        fail(adsError);
+        expect(message()).to.equal(null);
+
+        element.dispatchEvent(new CustomEvent('adswaterfallcomplete', { detail: { filled: true, report: [] } }));
+        expect(message()).to.equal(null);
+
+        fail(adsError);
+        element.dispatchEvent(new CustomEvent('adswaterfallcomplete', { detail: { filled: false, report: [] } }));
+        expect(message()).to.equal('Ads could not be played');
+
+        const button = container.querySelector('.op-error__retry') as HTMLButtonElement;
+        button.click();
+        expect(played).to.equal(1);
+        expect(reloaded).to.equal(0);
+    });
+
+    it('reloads the source from the last position reached when retrying', () => {
+        create();
+        media.currentTime = 42;
+        element.dispatchEvent(new Event('timeupdate'));
+        fail(networkError);
+
+        const button = container.querySelector('.op-error__retry') as HTMLButtonElement;
+        button.click();
+        expect(reloaded).to.equal(1);
+        expect(message()).to.equal(null);
+
+        media.currentTime = 0;
+        element.dispatchEvent(new Event('loadedmetadata'));
+        expect(media.currentTime).to.equal(42);
+        expect(played).to.equal(1);
+    });
+});
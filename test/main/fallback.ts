@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+
+import Fallback from '../../src/js/fallback';
+import FallbackOptions from '../../src/js/interfaces/fallback-options';
+import Source from '../../src/js/interfaces/source';
+import { stubPlayer } from '../stub';
+
+describe('fallback', () => {
+    const sources: Source[] = [
+        { src: 'https://example.com/stream.m3u8', type: 'application/x-mpegURL' },
+        { src: 'https://example.com/video.mp4', type: 'video/mp4' },
+    ];
+    let element: HTMLVideoElement;
+    let media: { current: Source, currentTime: number, duration: number, fallback: () => Source | null };
+    let replaced: Array<{ from: Source, to: Source }>;
+    let played: number;
+    let ad: boolean;
+    let fallback: Fallback;
+
+    const create = (options?: FallbackOptions) => {
+        const player = stubPlayer(element, {
+            getMedia: () => media,
+            isAd: () => ad,
+            play: () => {
+                played++;
+                return Promise.resolve();
+            },
+        });
+        fallback = new Fallback(player, options);
+        fallback.create();
+    };
+    const fail = (type: string, data?: [string, { fatal: boolean, type: string }]) => {
+        element.dispatchEvent(new CustomEvent('playererror', { detail: { data, message: 'Error', type } }));
+    };
+    const hlsError = (fatal: boolean, type: string) => fail('HLS', ['hlsError', { fatal, type }]);
+    const timeupdate = (time: number) => {
+        media.currentTime = time;
+        element.dispatchEvent(new Event('timeupdate'));
+    };
+
+    beforeEach(() => {
+        element = document.createElement('video');
+        media = {
+            current: sources[0],
+            currentTime: 0,
+            duration: 60,
+            fallback: () => {
+                const next = sources[sources.indexOf(media.current) + 1];
+                if (!next) {
+                    return null;
+                }
+                media.current = next;
+                media.currentTime = 0;
+                return next;
+            },
+        };
+        replaced = [];
+        played = 0;
+        ad = false;
+        element.addEventListener('sourcefallback', (e: any) => replaced.push(e.detail));
+    });
+
+    afterEach(() => {
+        fallback.destroy();
+    });
+
+    it('loads the next source when the current one fails', () => {
+        create();
+        fail('HTML5');
+        expect(replaced).to.have.length(1);
+        expect(replaced[0].from).to.equal(sources[0]);
+        expect(replaced[0].to).to.equal(sources[1]);
+    });
+
+    it('ignores the errors hls.js can recover from, the ones of Ads and the ones while Ads play', () => {
+        create();
+        hlsError(false, 'networkError');
+        hlsError(true, 'mediaError');
+        fail('Ads');
+        ad = true;
+        fail('HTML5');
+        expect(replaced).to.have.length(0);
+
+        ad = false;
+        hlsError(true, 'networkError');
+        expect(replaced).to.have.length(1);
+    });
+
+    it('restores the position reached and the play state once the next source is ready', () => {
+        create();
+        element.dispatchEvent(new Event('play'));
+        timeupdate(25);
+        fail('HTML5');
+        expect(media.currentTime).to.equal(0);
+
+        element.dispatchEvent(new Event('loadedmetadata'));
+        expect(media.currentTime).to.equal(25);
+        expect(played).to.equal(1);
+
+        element.dispatchEvent(new Event('loadedmetadata'));
+        expect(played).to.equal(1);
+    });
+
+    it('starts the next source from the beginning, paused, if the viewer had paused it or changed the playlist item', () => {
+        create();
+        element.dispatchEvent(new Event('play'));
+        timeupdate(25);
+        element.dispatchEvent(new Event('pause'));
+        element.dispatchEvent(new Event('playlistitemchanged'));
+        fail('HTML5');
+
+        element.dispatchEvent(new Event('loadedmetadata'));
+        expect(media.currentTime).to.equal(0);
+        expect(played).to.equal(0);
+    });
+
+    it('does nothing else once no sources remain', () => {
+        create();
+        fail('HTML5');
+        fail('HTML5');
+        expect(replaced).to.have.length(1);
+    });
+
+    it('does not replace sources if it is disabled or destroyed', () => {
+        create({ enabled: false });
+        fail('HTML5');
+        expect(replaced).to.have.length(0);
+
+        create();
+        fallback.destroy();
+        fail('HTML5');
+        expect(replaced).to.have.length(0);
+    });
+});
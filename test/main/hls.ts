@@ -0,0 +1,143 @@
+import { expect } from 'chai';
+
+import HlsMedia from '../../src/js/media/hls';
+
+describe('media/hls', () => {
+    const globals: any = global;
+    let container: HTMLDivElement;
+    let element: HTMLVideoElement;
+    let media: HlsMedia;
+    let hls: { emit: (event: string, data: object) => void };
+    let events: Array<{ type: string, detail: object }>;
+
+    // hls.js cannot play media in jsdom, so it only relays the events emitted by the test
+    class Hls {
+        public static Events = { FRAG_CHANGED: 'hlsFragChanged' };
+        private handlers: { [event: string]: Array<(...args: any[]) => void> } = {};
+
+        constructor() {
+            hls = this;
+        }
+
+        public emit(event: string, data: object) {
+            (this.handlers[event] || []).forEach(handler => handler(event, data));
+        }
+
+        public on(event: string, handler: (...args: any[]) => void) {
+            this.handlers[event] = (this.handlers[event] || []).concat(handler);
+        }
+
+        public attachMedia() { return undefined; }
+        public destroy() { return undefined; }
+        public detachMedia() { return undefined; }
+        public loadSource() { return undefined; }
+        public off() { return undefined; }
+        public startLoad() { return undefined; }
+        public stopLoad() { return undefined; }
+    }
+
+    const create = async (adState: boolean = true) => {
+        media = new HlsMedia(element, { src: 'https://example.com/live.m3u8', type: 'application/x-mpegURL' }, false, {}, {
+            adState,
+            blockSeeking: true,
+        });
+        await media.promise;
+    };
+    const fragment = (start: number, tag: string, value: string = '') => {
+        hls.emit(Hls.Events.FRAG_CHANGED, { frag: { start, tagList: [[tag, value]] } });
+    };
+    const timeupdate = (time: number) => {
+        element.currentTime = time;
+        element.dispatchEvent(new Event('timeupdate'));
+    };
+    const seek = (time: number) => {
+        Object.defineProperty(element, 'seeking', { configurable: true, value: true });
+        element.currentTime = time;
+        element.dispatchEvent(new Event('seeking'));
+        Object.defineProperty(element, 'seeking', { configurable: true, value: false });
+    };
+
+    before(() => {
+        globals.Hls = Hls;
+    });
+
+    after(() => {
+        delete globals.Hls;
+    });
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        element = document.createElement('video');
+        Object.defineProperty(element, 'currentTime', { value: 0, writable: true });
+        container.appendChild(element);
+        events = [];
+        ['adbreakstart', 'adbreakend'].forEach(type => {
+            element.addEventListener(type, (e: any) => events.push({ type, detail: e.detail }));
+        });
+    });
+
+    afterEach(() => {
+        media.destroy();
+    });
+
+    it('starts and ends the Ad breaks signalled by CUE-OUT and CUE-IN tags, switching the UI into the Ad state', async () => {
+        await create();
+        fragment(10, '#EXT-X-CUE-OUT', '30');
+        expect(media.isAdBreak()).to.equal(true);
+        expect(container.classList.contains('op-ads--active')).to.equal(true);
+
+        fragment(40, '#EXT-X-CUE-IN');
+        expect(media.isAdBreak()).to.equal(false);
+        expect(container.classList.contains('op-ads--active')).to.equal(false);
+        expect(events).to.deep.equal([
+            { detail: { duration: 30, elapsed: 0, id: undefined }, type: 'adbreakstart' },
+            { detail: { duration: 30, id: undefined }, type: 'adbreakend' },
+        ]);
+    });
+
+    it('only switches the UI into the Ad state if `adState` is enabled', async () => {
+        await create(false);
+        fragment(10, '#EXT-X-CUE-OUT', '30');
+        expect(media.isAdBreak()).to.equal(true);
+        expect(container.classList.contains('op-ads--active')).to.equal(false);
+    });
+
+    it('starts the Ad break in progress when joining the stream in the middle of it', async () => {
+        await create();
+        fragment(20, '#EXT-X-CUE-OUT-CONT', '10/30');
+        fragment(30, '#EXT-X-CUE-OUT-CONT', '20/30');
+        expect(events).to.deep.equal([{ detail: { duration: 30, elapsed: 10, id: undefined }, type: 'adbreakstart' }]);
+
+        timeupdate(39);
+        expect(media.isAdBreak()).to.equal(true);
+        timeupdate(40);
+        expect(media.isAdBreak()).to.equal(false);
+    });
+
+    it('blocks seeking during the Ad break, and allows it once the break is over', async () => {
+        await create();
+        fragment(10, '#EXT-X-CUE-OUT', '30');
+        timeupdate(12);
+        seek(35);
+        expect(element.currentTime).to.equal(12);
+        seek(12.5);
+        expect(element.currentTime).to.equal(12.5);
+
+        fragment(40, '#EXT-X-CUE-IN');
+        seek(35);
+        expect(element.currentTime).to.equal(35);
+    });
+
+    it('ends the Ad break once its duration runs out if there is no CUE-IN tag', async () => {
+        await create();
+        fragment(10, '#EXT-X-CUE-OUT', '30');
+        timeupdate(39.5);
+        expect(media.isAdBreak()).to.equal(true);
+        expect(events.map(event => event.type)).to.deep.equal(['adbreakstart']);
+
+        timeupdate(40);
+        expect(media.isAdBreak()).to.equal(false);
+        expect(container.classList.contains('op-ads--active')).to.equal(false);
+        expect(events.map(event => event.type)).to.deep.equal(['adbreakstart', 'adbreakend']);
+    });
+});
@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+
+import KeyboardOptions from '../../src/js/interfaces/keyboard/options';
+import Keyboard from '../../src/js/keyboard';
+import { stubPlayer } from '../stub';
+
+describe('keyboard', () => {
+    const labels = { close: 'Close', keyboardShortcuts: 'Keyboard Shortcuts' };
+    let container: HTMLDivElement;
+    let element: HTMLVideoElement;
+    let executed: string[];
+    let keyboard: Keyboard;
+
+    const create = (options?: KeyboardOptions) => {
+        const player = stubPlayer(element, {
+            getOptions: () => ({ labels }),
+            id: 'player',
+        });
+        keyboard = new Keyboard(player, options);
+        keyboard.create();
+        ['togglePlay', 'toggleMute'].forEach(action => {
+            keyboard.register(action, () => executed.push(action), action);
+        });
+    };
+    const press = (key: string, target: HTMLElement = container, init: KeyboardEventInit = {}) => {
+        target.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, key, ...init }));
+    };
+    const help = () => container.querySelector('.op-shortcuts');
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        element = document.createElement('video');
+        container.appendChild(element);
+        document.body.appendChild(container);
+        executed = [];
+    });
+
+    afterEach(() => {
+        keyboard.destroy();
+        document.body.removeChild(container);
+    });
+
+    it('executes the actions registered with their default keys, regardless of case and legacy key names', () => {
+        create();
+        press('k');
+        press('M');
+        press('Spacebar');
+        press('x');
+        expect(executed).to.deep.equal(['togglePlay', 'toggleMute', 'togglePlay']);
+    });
+
+    it('honours the keys configured in `keyboard.bindings`, which can also disable actions', () => {
+        create({ bindings: { toggleMute: false, togglePlay: 'p' } });
+        keyboard.register('custom', () => executed.push('custom'), 'Custom', ['X']);
+        expect(keyboard.getShortcuts().map(shortcut => shortcut.action)).to.deep.equal(['help', 'togglePlay', 'custom']);
+
+        ['k', 'p', 'm', 'x'].forEach(key => press(key));
+        expect(executed).to.deep.equal(['togglePlay', 'custom']);
+    });
+
+    it('ignores the keys pressed while typing, activating buttons or using modifiers', () => {
+        create();
+        const input = document.createElement('input');
+        const button = document.createElement('button');
+        container.appendChild(input);
+        container.appendChild(button);
+
+        press('k', input);
+        press(' ', button);
+        press('k', container, { ctrlKey: true });
+        expect(executed).to.deep.equal([]);
+
+        press('k', button);
+        expect(executed).to.deep.equal(['togglePlay']);
+    });
+
+    it('does not execute any action if it is disabled', () => {
+        create({ enabled: false });
+        press('k');
+        expect(executed).to.deep.equal([]);
+    });
+
+    it('stops executing actions once they are unregistered or it is destroyed', () => {
+        create();
+        keyboard.unregister('toggleMute');
+        press('m');
+        expect(keyboard.getShortcuts().map(shortcut => shortcut.action)).to.deep.equal(['help', 'togglePlay']);
+
+        keyboard.destroy();
+        press('k');
+        expect(executed).to.deep.equal([]);
+        expect(keyboard.getShortcuts()).to.deep.equal([]);
+    });
+
+    it('lists the shortcuts available with `?`, and hides them with `Escape`', () => {
+        create();
+        press('?');
+        const overlay = help();
+        expect(overlay && overlay.getAttribute('role')).to.equal('dialog');
+        expect(document.activeElement).to.equal(overlay);
+
+        const keys = Array.from(container.querySelectorAll('.op-shortcuts__list dt')).map(item => item.textContent);
+        const descriptions = Array.from(container.querySelectorAll('.op-shortcuts__list dd')).map(item => item.textContent);
+        expect(keys).to.deep.equal(['?', 'KSpaceEnter', 'M']);
+        expect(descriptions).to.deep.equal(['Keyboard Shortcuts', 'togglePlay', 'toggleMute']);
+
+        press('Escape');
+        expect(help()).to.equal(null);
+        expect(executed).to.deep.equal([]);
+    });
+});
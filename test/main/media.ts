@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+
+import PlayerOptions from '../../src/js/interfaces/player-options';
+import Source from '../../src/js/interfaces/source';
+import Media from '../../src/js/media';
+
+describe('media', () => {
+    const mp4: Source = { src: 'https://example.com/video.mp4', type: 'video/mp4' };
+    const backup: Source = { src: 'https://example.com/backup.mp4', type: 'video/mp4' };
+    const webm: Source = { src: 'https://example.com/video.webm', type: 'video/webm' };
+    const ogg: Source = { src: 'https://example.com/video.ogv', type: 'video/ogg' };
+    let element: HTMLVideoElement;
+    let loaded: number;
+
+    // jsdom does not play media, so only MP4 is reported as playable and loading is just counted
+    const create = (sources: Source[]) => {
+        const options = { controls: { layers: {} } } as PlayerOptions;
+        const media = new Media(element, options, false, { media: {}, optionsKey: {}, rules: [] });
+        media.src = sources;
+        media.load();
+        return media;
+    };
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+        element = document.createElement('video');
+        element.canPlayType = (type: string) => type === 'video/mp4' ? 'maybe' : '';
+        element.load = () => {
+            loaded++;
+        };
+        Object.defineProperty(element, 'textTracks', { value: document.createElement('div') });
+        loaded = 0;
+    });
+
+    it('loads the next source that can be played when falling back', async () => {
+        const media = create([mp4, webm, backup]);
+        await flush();
+        expect(loaded).to.equal(1);
+
+        expect(media.fallback()).to.equal(backup);
+        await flush();
+        expect(media.current).to.equal(backup);
+        expect(element.src).to.equal(backup.src);
+        expect(loaded).to.equal(2);
+    });
+
+    it('keeps the current source loaded if none of the next ones can be played', async () => {
+        const media = create([mp4, webm, ogg]);
+        await flush();
+
+        expect(media.fallback()).to.equal(null);
+        await flush();
+        expect(media.current).to.equal(mp4);
+        expect(media.canPlayType('video/mp4')).to.equal(true);
+        expect(loaded).to.equal(1);
+
+        media.reload();
+        await flush();
+        expect(element.src).to.equal(mp4.src);
+        expect(loaded).to.equal(2);
+    });
+});
@@ -1,10 +1,33 @@
 import { assert, expect } from 'chai';
 import '../jsdom';
 
+import AdsOptions from '../../src/js/interfaces/ads/options';
+import Plugin from '../../src/js/interfaces/plugin';
 import OpenPlayer from '../../src/js/player';
+import { appendTrack } from '../../src/js/utils/captions';
 import { loadScript } from '../../src/js/utils/general';
 
 describe('player', () => {
+    // jsdom does not load media nor implement text tracks, so every `track` tag gets its own
+    const createVideo = (id: string) => {
+        const video = window.document.createElement('video');
+        video.id = id;
+        video.className = 'op-player__media';
+        video.canPlayType = () => 'maybe';
+        video.load = () => undefined;
+        const textTracks = Object.assign([], { addEventListener: () => undefined, removeEventListener: () => undefined });
+        Object.defineProperty(video, 'textTracks', { value: textTracks });
+        global.document.body.appendChild(video);
+        return video;
+    };
+    const addTrack = (video: HTMLVideoElement, language: string, text: string, isDefault: boolean) => {
+        const cues = [{ endTime: 10, identifier: '1', settings: {}, startTime: 0, text }];
+        const tag = appendTrack(video, { cues, default: isDefault, kind: 'subtitles', label: language, srclang: language });
+        const track = { cues: null, kind: 'subtitles', label: language, language, mode: 'disabled' };
+        Object.defineProperty(tag, 'track', { value: track });
+        (video.textTracks as unknown as object[]).push(track);
+    };
+
     it('should create an instance of OpenPlayer by using classes', async () => {
         const video = window.document.createElement('video');
         video.id = 'video1';
@@ -31,4 +54,196 @@ describe('player', () => {
         console.log(global.window.document.body);
         expect(global.window.document.querySelector('.op-player')).to.equal(true);
     });
+    it('should attach and remove listeners via on, once and off', () => {
+        const video = window.document.createElement('video');
+        video.id = 'video-events';
+        global.document.body.appendChild(video);
+        const player = new OpenPlayer('video-events');
+        const languages: string[] = [];
+        let errors = 0;
+        const onError = () => errors++;
+
+        player.on('captionschanged', e => languages.push(e.detail.language));
+        player.once('playererror', onError);
+        video.dispatchEvent(new CustomEvent('captionschanged', { detail: { language: 'en' } }));
+        video.dispatchEvent(new CustomEvent('playererror', { detail: { message: 'Error', type: 'HTML5' } }));
+        video.dispatchEvent(new CustomEvent('playererror', { detail: { message: 'Error', type: 'HTML5' } }));
+
+        player.off('captionschanged');
+        video.dispatchEvent(new CustomEvent('captionschanged', { detail: { language: 'es' } }));
+
+        expect(languages).to.deep.equal(['en']);
+        expect(errors).to.equal(1);
+    });
+    it('should combine the plugins registered globally and via options', () => {
+        OpenPlayer.use({ name: 'global' });
+        OpenPlayer.use({ name: 'shared' });
+        OpenPlayer.use({ name: 'global', afterInit: () => undefined });
+
+        const video = window.document.createElement('video');
+        video.id = 'video-plugins';
+        global.document.body.appendChild(video);
+        const local = { name: 'shared', beforeInit: () => undefined };
+        const player = new OpenPlayer('video-plugins', { plugins: [local, { name: 'local' }] });
+        OpenPlayer.plugins = [];
+
+        expect(player.getPlugins().map(item => item.name)).to.deep.equal(['global', 'shared', 'local']);
+        expect(player.getPlugins()[1]).to.equal(local);
+    });
+    it('should execute the hooks of the plugins in the order of the lifecycle of the player', () => {
+        const video = createVideo('video-hooks');
+        video.src = 'https://example.com/video.mp4';
+        const hooks: string[] = [];
+        const players: OpenPlayer[] = [];
+        const record = (hook: string) => (instance: OpenPlayer) => {
+            hooks.push(hook);
+            players.push(instance);
+        };
+        const plugin: Plugin = {
+            afterInit: record('afterInit'),
+            beforeDestroy: record('beforeDestroy'),
+            beforeInit: record('beforeInit'),
+            beforeLoad: record('beforeLoad'),
+            name: 'lifecycle',
+            sourceChange: record('sourceChange'),
+        };
+        const player = new OpenPlayer('video-hooks', { plugins: [plugin] });
+        player.init();
+        expect(hooks).to.deep.equal(['beforeInit', 'beforeLoad', 'afterInit']);
+
+        player.src = [{ src: 'https://example.com/other.mp4', type: 'video/mp4' }];
+        player.load();
+        player.destroy();
+        expect(hooks).to.deep.equal(['beforeInit', 'beforeLoad', 'afterInit', 'sourceChange', 'beforeLoad', 'beforeDestroy']);
+        expect(players.every(instance => instance === player)).to.equal(true);
+    });
+    it('should keep creating the player when a plugin fails', () => {
+        const video = createVideo('video-broken-plugin');
+        video.src = 'https://example.com/video.mp4';
+        const executed: string[] = [];
+        const broken: Plugin = {
+            beforeInit: () => {
+                throw new Error('Cannot initialize');
+            },
+            name: 'broken',
+        };
+        const working: Plugin = {
+            afterInit: () => executed.push('afterInit'),
+            beforeInit: () => executed.push('beforeInit'),
+            name: 'working',
+        };
+        const warn = console.warn;
+        const warnings: string[] = [];
+        console.warn = (message: string) => warnings.push(message);
+
+        const player = new OpenPlayer('video-broken-plugin', { plugins: [broken, working] });
+        player.init();
+        console.warn = warn;
+
+        expect(warnings).to.deep.equal(['Plugin warning (broken): Cannot initialize']);
+        expect(executed).to.deep.equal(['beforeInit', 'afterInit']);
+        expect(player.getContainer().classList.contains('op-player')).to.equal(true);
+        player.destroy();
+    });
+    it('should list, select and remove the captions without building the controls again', () => {
+        const video = createVideo('video-captions');
+        video.src = 'https://example.com/video.mp4';
+        addTrack(video, 'en', 'Hello', true);
+        addTrack(video, 'es', 'Hola', false);
+        const player = new OpenPlayer('video-captions');
+        player.init();
+        let rebuilt = 0;
+        video.addEventListener('controlschanged', () => rebuilt++);
+        const active = () => player.getCaptionTracks().filter(track => track.active).map(track => track.srclang);
+
+        expect(player.getCaptionTracks()).to.deep.equal([
+            { active: true, default: true, kind: 'subtitles', label: 'en', src: undefined, srclang: 'en' },
+            { active: false, default: false, kind: 'subtitles', label: 'es', src: undefined, srclang: 'es' },
+        ]);
+        expect(player.setCaptionTrack('es')).to.equal(true);
+        expect(active()).to.deep.equal(['es']);
+        expect(player.setCaptionTrack('fr')).to.equal(false);
+        expect(active()).to.deep.equal(['es']);
+
+        player.removeCaptions('es');
+        expect(player.getCaptionTracks().map(track => track.srclang)).to.deep.equal(['en']);
+        expect(active()).to.deep.equal([]);
+        expect(rebuilt).to.equal(0);
+
+        player.removeCaptions('fr"]');
+        expect(player.getCaptionTracks().map(track => track.srclang)).to.deep.equal(['en']);
+        expect(rebuilt).to.equal(0);
+        player.destroy();
+    });
+    it('should share one tracker between the Ads loaded, destroying it with the player', () => {
+        const video = createVideo('video-tracker');
+        video.src = 'https://example.com/video.mp4';
+        const ads = { engine: 'vast', src: '<VAST version="3.0"></VAST>' } as AdsOptions;
+        const player = new OpenPlayer('video-tracker', { ads });
+        player.init();
+        const tracker = player.getAd().getTracker();
+
+        player.loadAd('<VAST version="3.0"></VAST>');
+        expect(player.getAd().getTracker()).to.equal(tracker);
+
+        const descriptor = Object.getOwnPropertyDescriptor(navigator, 'onLine');
+        Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => false });
+        tracker.track('start', ['https://example.com/start']);
+        if (descriptor) {
+            Object.defineProperty(navigator, 'onLine', descriptor);
+        } else {
+            delete (navigator as any).onLine;
+        }
+        expect(tracker.getQueue()).to.have.length(1);
+
+        player.destroy();
+        expect(tracker.getQueue()).to.have.length(0);
+    });
+    it('should load HLS sources through hls.js, keeping the rest of the sources, instead of as playlists', async () => {
+        const video = createVideo('video-hls');
+        video.canPlayType = (type: string) => type === 'video/mp4' ? 'maybe' : '';
+        [
+            { src: 'https://example.com/stream.m3u8', type: 'application/x-mpegURL' },
+            { src: 'https://example.com/video.mp4', type: 'video/mp4' },
+        ].forEach(item => {
+            const source = window.document.createElement('source');
+            source.src = item.src;
+            source.type = item.type;
+            video.appendChild(source);
+        });
+        // jsdom does not implement Media Source Extensions, and hls.js must not be fetched
+        class Hls {
+            public static Events = {};
+            public source = '';
+            public attachMedia() { return undefined; }
+            public destroy() { return undefined; }
+            public detachMedia() { return undefined; }
+            public loadSource(src: string) {
+                this.source = src;
+            }
+            public on() { return undefined; }
+            public stopLoad() { return undefined; }
+        }
+        const globalAny: any = global;
+        const windowAny: any = window;
+        globalAny.Hls = Hls;
+        windowAny.MediaSource = { isTypeSupported: () => true };
+
+        const errors: string[] = [];
+        video.addEventListener('playererror', (e: any) => errors.push(e.detail.type));
+        const player = new OpenPlayer('video-hls');
+        player.init();
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const instance = player.getMedia().instance;
+        expect(instance).to.be.an.instanceof(Hls);
+        expect(instance.source).to.equal('https://example.com/stream.m3u8');
+        expect(player.src.map(item => item.src)).to.deep.equal(['https://example.com/stream.m3u8', 'https://example.com/video.mp4']);
+        expect(player.getPlaylist().getItems()).to.have.length(0);
+        expect(errors).to.deep.equal([]);
+
+        player.destroy();
+        delete globalAny.Hls;
+        delete windowAny.MediaSource;
+    });
 });
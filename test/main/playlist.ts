@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+
+import Playlist from '../../src/js/playlist';
+import { stubPlayer } from '../stub';
+
+describe('playlist', () => {
+    const items = ['a', 'b', 'c', 'd'].map(name => ({
+        sources: [{ src: `https://example.com/${name}.mp4`, type: 'video/mp4' }],
+        title: name,
+    }));
+    let element: HTMLVideoElement;
+    let playlist: Playlist;
+
+    const titles = () => playlist.getItems().map(item => item.title);
+    const end = () => element.dispatchEvent(new CustomEvent('ended'));
+
+    beforeEach(() => {
+        element = document.createElement('video');
+        const player = stubPlayer(element, {
+            activeElement: () => ({ play: () => undefined }),
+            getAd: () => null,
+            getAdSchedule: () => null,
+            getControls: () => null,
+            getMedia: () => ({}),
+            load: () => undefined,
+            loadAd: () => undefined,
+        });
+        playlist = new Playlist(player, { autoAdvance: true, items: items.slice(), repeat: 'none', shuffle: false });
+        playlist.create();
+    });
+
+    afterEach(() => {
+        playlist.destroy();
+    });
+
+    it('loads the first item and advances through the list when media ends', () => {
+        expect(playlist.current).to.equal(0);
+        end();
+        expect(playlist.current).to.equal(1);
+        expect(playlist.previous()).to.equal(true);
+        expect(playlist.current).to.equal(0);
+    });
+
+    it('stops at the end of the list unless repeat mode is enabled', () => {
+        playlist.playItem(3);
+        expect(playlist.hasNext()).to.equal(false);
+        end();
+        expect(playlist.current).to.equal(3);
+
+        playlist.repeat = 'one';
+        end();
+        expect(playlist.current).to.equal(3);
+
+        playlist.repeat = 'all';
+        end();
+        expect(playlist.current).to.equal(0);
+        expect(playlist.hasPrevious()).to.equal(true);
+    });
+
+    it('keeps the current item when items are added, moved or removed', () => {
+        playlist.playItem(2);
+        playlist.move(2, 0);
+        expect(titles()).to.deep.equal(['c', 'a', 'b', 'd']);
+        expect(playlist.current).to.equal(0);
+
+        playlist.add({ sources: [{ src: 'https://example.com/e.mp4', type: 'video/mp4' }], title: 'e' }, 0);
+        expect(playlist.current).to.equal(1);
+
+        playlist.move(3, 1);
+        expect(titles()).to.deep.equal(['e', 'b', 'c', 'a', 'd']);
+        expect(playlist.current).to.equal(2);
+
+        playlist.remove(0);
+        expect(playlist.current).to.equal(1);
+        expect(playlist.getItems()[playlist.current].title).to.equal('c');
+    });
+
+    it('continues with the following item once the removed current item ends', () => {
+        playlist.playItem(1);
+        playlist.remove(1);
+        expect(playlist.current).to.equal(-1);
+        expect(titles()).to.deep.equal(['a', 'c', 'd']);
+        expect(playlist.hasNext()).to.equal(true);
+        expect(playlist.hasPrevious()).to.equal(true);
+
+        end();
+        expect(playlist.getItems()[playlist.current].title).to.equal('c');
+
+        playlist.playItem(2);
+        playlist.remove(2);
+        end();
+        expect(playlist.current).to.equal(-1);
+        expect(playlist.previous()).to.equal(true);
+        expect(playlist.getItems()[playlist.current].title).to.equal('c');
+    });
+
+    it('plays every item once in shuffle mode, keeping the order when new items are added', () => {
+        const traverse = () => {
+            const order = [playlist.getItems()[playlist.current].title];
+            while (playlist.next()) {
+                order.push(playlist.getItems()[playlist.current].title);
+            }
+            return order;
+        };
+        playlist.shuffle = true;
+        const first = traverse();
+        expect(first.slice().sort()).to.deep.equal(['a', 'b', 'c', 'd']);
+        expect(first[0]).to.equal('a');
+
+        playlist.playItem(0);
+        playlist.add({ sources: [{ src: 'https://example.com/e.mp4', type: 'video/mp4' }], title: 'e' });
+        const second = traverse();
+        expect(second.filter(title => title !== 'e')).to.deep.equal(first);
+        expect(second).to.include('e');
+    });
+});
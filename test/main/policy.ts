@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+
+import Policy from '../../src/js/interfaces/ads/policy';
+import AdPolicy from '../../src/js/media/policy';
+import { stubPlayer } from '../stub';
+
+describe('media/policy', () => {
+    let element: HTMLVideoElement;
+    let media: { currentTime: number, duration: number, ended: boolean, src: Array<{ src: string }> };
+    let policy: AdPolicy;
+    let reasons: string[];
+
+    const create = (options: Partial<Policy>) => {
+        const player = stubPlayer(element, {
+            getMedia: () => media,
+        });
+        policy = new AdPolicy(player, options as Policy);
+        policy.create();
+    };
+    const play = (from: number, to: number) => {
+        for (let time = from; time <= to; time += 0.5) {
+            media.currentTime = time;
+            element.dispatchEvent(new Event('timeupdate'));
+        }
+    };
+
+    beforeEach(() => {
+        element = document.createElement('video');
+        media = { currentTime: 0, duration: 600, ended: false, src: [{ src: 'https://example.com/video.mp4' }] };
+        reasons = [];
+        element.addEventListener('adsbreakblocked', (e: any) => reasons.push(e.detail.reason));
+    });
+
+    afterEach(() => {
+        policy.destroy();
+    });
+
+    it('allows every break by default', () => {
+        create({});
+        element.dispatchEvent(new Event('adsstart'));
+        expect(policy.check('https://example.com/ad.xml')).to.equal(true);
+        expect(reasons).to.deep.equal([]);
+    });
+
+    it('counts all the Ads of a break as one, and blocks breaks over `maxBreaks`', () => {
+        create({ maxBreaks: 1 });
+        expect(policy.check('https://example.com/ad.xml')).to.equal(true);
+        element.dispatchEvent(new Event('adsstart'));
+        element.dispatchEvent(new Event('adsstart'));
+        element.dispatchEvent(new Event('adsallAdsCompleted'));
+
+        expect(policy.getBreakCount()).to.equal(1);
+        expect(policy.check('https://example.com/ad.xml')).to.equal(false);
+        expect(reasons).to.deep.equal(['maxBreaks']);
+    });
+
+    it('requires `minContentGap` seconds of content played since the last break, without counting seeks', () => {
+        create({ minContentGap: 30 });
+        element.dispatchEvent(new Event('adsstart'));
+        element.dispatchEvent(new Event('adsallAdsCompleted'));
+        play(0, 10);
+        media.currentTime = 200;
+        element.dispatchEvent(new Event('timeupdate'));
+        expect(policy.check('https://example.com/ad.xml')).to.equal(false);
+
+        play(200, 220);
+        expect(policy.check('https://example.com/ad.xml')).to.equal(true);
+        expect(reasons).to.deep.equal(['minContentGap']);
+    });
+
+    it('blocks mid-rolls in the last `noMidrollsInLast` seconds of media', () => {
+        create({ noMidrollsInLast: 60 });
+        media.currentTime = 300;
+        expect(policy.check('https://example.com/ad.xml')).to.equal(true);
+        media.currentTime = 570;
+        expect(policy.check('https://example.com/ad.xml')).to.equal(false);
+        media.ended = true;
+        expect(policy.check('https://example.com/ad.xml')).to.equal(true);
+        expect(reasons).to.deep.equal(['noMidrollsInLast']);
+    });
+
+    it('does not play the pre-roll of the same media twice unless `replayPreroll` is set', () => {
+        create({ replayPreroll: false });
+        element.dispatchEvent(new Event('adsstart'));
+        element.dispatchEvent(new Event('adsallAdsCompleted'));
+        play(0, 10);
+        media.currentTime = 0;
+        expect(policy.check('https://example.com/ad.xml')).to.equal(false);
+
+        media.src = [{ src: 'https://example.com/other.mp4' }];
+        expect(policy.check('https://example.com/ad.xml')).to.equal(true);
+        expect(reasons).to.deep.equal(['replayPreroll']);
+    });
+});
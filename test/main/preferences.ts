@@ -0,0 +1,177 @@
+import { expect } from 'chai';
+
+import CaptionStyle from '../../src/js/interfaces/captions/style';
+import Level from '../../src/js/interfaces/level';
+import PreferencesOptions from '../../src/js/interfaces/preferences/options';
+import PreferencesStorage from '../../src/js/interfaces/preferences/storage';
+import UserPreferences from '../../src/js/interfaces/preferences/user';
+import Preferences from '../../src/js/preferences';
+import { stubPlayer } from '../stub';
+
+describe('preferences', () => {
+    const levels: Level[] = [
+        { height: 360, id: '0', label: '360p' },
+        { height: 720, id: '1', label: '720p' },
+        { height: 1080, id: '2', label: '1080p' },
+    ];
+    let saved: UserPreferences | null;
+    let storage: PreferencesStorage;
+    let media: { defaultPlaybackRate: number, level: number, levels: Level[], muted: boolean, playbackRate: number, volume: number };
+    let element: HTMLVideoElement;
+    let applied: { captions: string[], captionStyle: CaptionStyle[], level: number[] };
+    let rebuilt: number;
+    let ad: boolean;
+    let preferences: Preferences;
+
+    const create = (options: PreferencesOptions = {}) => {
+        const captions = {
+            setLanguage: (language: string) => {
+                applied.captions.push(language);
+                return true;
+            },
+            setStyle: (style: CaptionStyle) => {
+                applied.captionStyle.push(style);
+            },
+        };
+        const levelsControl = {
+            setLevel: (level: number) => {
+                applied.level.push(level);
+            },
+        };
+        const controls = {
+            getCaptions: () => captions,
+            getLevels: () => levelsControl,
+        };
+        const player = stubPlayer(element, {
+            getControls: () => controls,
+            getMedia: () => media,
+            isAd: () => ad,
+        });
+        preferences = new Preferences(player, { enabled: true, storage, ...options });
+        preferences.create();
+    };
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+        saved = null;
+        storage = {
+            get: () => saved,
+            set: (values: UserPreferences) => {
+                saved = values;
+            },
+        };
+        media = { defaultPlaybackRate: 1, level: -1, levels, muted: false, playbackRate: 1, volume: 1 };
+        element = document.createElement('video');
+        applied = { captions: [], captionStyle: [], level: [] };
+        rebuilt = 0;
+        ad = false;
+        element.addEventListener('controlschanged', () => rebuilt++);
+    });
+
+    afterEach(() => {
+        preferences.destroy();
+    });
+
+    it('applies the preferences saved when the player is created', () => {
+        saved = { muted: true, playbackRate: 1.5, volume: 0.4 };
+        create();
+        expect(media.volume).to.equal(0.4);
+        expect(media.muted).to.equal(true);
+        expect(media.defaultPlaybackRate).to.equal(1.5);
+        expect(media.playbackRate).to.equal(1.5);
+        expect(preferences.get()).to.deep.equal(saved);
+    });
+
+    it('does not read nor record anything unless it is enabled', () => {
+        saved = { volume: 0.4 };
+        create({ enabled: false });
+        media.volume = 0.8;
+        element.dispatchEvent(new Event('volumechange'));
+        expect(media.volume).to.equal(0.8);
+        expect(saved).to.deep.equal({ volume: 0.4 });
+    });
+
+    it('records the volume and the speed chosen by the viewer, but not the ones set by Ads', () => {
+        create();
+        media.volume = 0.5;
+        media.muted = true;
+        element.dispatchEvent(new Event('volumechange'));
+        media.playbackRate = 2;
+        element.dispatchEvent(new Event('ratechange'));
+        expect(saved).to.deep.equal({ muted: true, playbackRate: 2, volume: 0.5 });
+
+        ad = true;
+        media.volume = 0;
+        element.dispatchEvent(new Event('volumechange'));
+        expect(saved).to.deep.equal({ muted: true, playbackRate: 2, volume: 0.5 });
+    });
+
+    it('records the captions language, their style and the height of the level chosen', () => {
+        create();
+        element.dispatchEvent(new CustomEvent('captionschanged', { detail: { language: 'es' } }));
+        element.dispatchEvent(new CustomEvent('captionstylechanged', { detail: { style: { fontSize: '150' } } }));
+        element.dispatchEvent(new CustomEvent('levelchanged', { detail: { level: 1 } }));
+        expect(saved).to.deep.equal({ captionStyle: { fontSize: '150' }, captions: 'es', quality: 720 });
+
+        element.dispatchEvent(new CustomEvent('levelchanged', { detail: { level: -1 } }));
+        expect(saved).to.deep.equal({ captionStyle: { fontSize: '150' }, captions: 'es', quality: -1 });
+    });
+
+    it('applies new captions, style and quality to the current controls without building them again', () => {
+        create();
+        preferences.set({ captionStyle: { edge: 'raised' }, captions: 'fr', quality: 1000 });
+        expect(applied).to.deep.equal({ captionStyle: [{ edge: 'raised' }], captions: ['fr'], level: [1] });
+        expect(rebuilt).to.equal(0);
+        expect(saved).to.deep.equal({ captionStyle: { edge: 'raised' }, captions: 'fr', quality: 1000 });
+    });
+
+    it('supports storages that work asynchronously', async () => {
+        storage = {
+            get: () => Promise.resolve({ captions: 'de', volume: 0.2 }),
+            set: (values: UserPreferences) => {
+                saved = values;
+                return Promise.resolve();
+            },
+        };
+        create();
+        expect(media.volume).to.equal(1);
+        await flush();
+        expect(media.volume).to.equal(0.2);
+        expect(applied.captions).to.deep.equal(['de']);
+        expect(saved).to.equal(null);
+
+        preferences.set({ muted: true });
+        expect(saved).to.deep.equal({ captions: 'de', muted: true, volume: 0.2 });
+    });
+
+    it('keeps working if the storage fails', async () => {
+        storage = {
+            get: () => Promise.reject(new Error('Storage is not available')),
+            set: () => {
+                throw new Error('Storage is full');
+            },
+        };
+        const warn = console.warn;
+        const warnings: string[] = [];
+        console.warn = (message: string) => warnings.push(message);
+
+        create();
+        preferences.set({ volume: 0.3 });
+        await flush();
+        console.warn = warn;
+
+        expect(media.volume).to.equal(0.3);
+        expect(warnings).to.deep.equal(['Preferences warning: Storage is full', 'Preferences warning: Storage is not available']);
+    });
+
+    it('uses `localStorage` if no storage is passed', () => {
+        window.localStorage.setItem('op-preferences', JSON.stringify({ volume: 0.6 }));
+        create({ storage: undefined });
+        expect(media.volume).to.equal(0.6);
+
+        media.muted = true;
+        element.dispatchEvent(new Event('volumechange'));
+        expect(JSON.parse(window.localStorage.getItem('op-preferences') || '')).to.deep.equal({ muted: true, volume: 0.6 });
+        window.localStorage.removeItem('op-preferences');
+    });
+});
@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+
+import ResumeOptions from '../../src/js/interfaces/resume/options';
+import ResumeStorage from '../../src/js/interfaces/resume/storage';
+import Resume from '../../src/js/resume';
+import { stubPlayer } from '../stub';
+
+describe('resume', () => {
+    const labels = { resume: 'Resume from %1', startOver: 'Start over' };
+    let saved: { [key: string]: number };
+    let storage: ResumeStorage;
+    let media: { current: { src: string }, currentTime: number, duration: number };
+    let container: HTMLDivElement;
+    let element: HTMLVideoElement;
+    let played: number;
+    let resume: Resume;
+
+    const create = (options: Partial<ResumeOptions> = {}) => {
+        const player = stubPlayer(element, {
+            getContainer: () => container,
+            getMedia: () => media,
+            getOptions: () => ({ labels }),
+            play: () => {
+                played++;
+                return Promise.resolve();
+            },
+        });
+        resume = new Resume(player, { enabled: true, storage, ...options });
+        resume.create();
+    };
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+    const prompt = () => container.querySelector('.op-resume');
+    const button = (index: number) => container.querySelectorAll('.op-resume__button')[index] as HTMLButtonElement;
+
+    beforeEach(() => {
+        saved = {};
+        storage = {
+            get: (key: string) => Promise.resolve(key in saved ? saved[key] : null),
+            remove: (key: string) => {
+                delete saved[key];
+            },
+            set: (key: string, time: number) => {
+                saved[key] = time;
+            },
+        };
+        media = { current: { src: 'https://example.com/video.mp4' }, currentTime: 754, duration: 1200 };
+        container = document.createElement('div');
+        element = document.createElement('video');
+        played = 0;
+    });
+
+    afterEach(() => {
+        resume.destroy();
+    });
+
+    it('saves the position reached per media', async () => {
+        create();
+        resume.save();
+        await flush();
+        expect(saved).to.deep.equal({ 'https://example.com/video.mp4': 754 });
+    });
+
+    it('removes the position saved once media is close to its beginning or its end', async () => {
+        saved['https://example.com/video.mp4'] = 600;
+        create();
+        media.currentTime = 1195;
+        resume.save();
+        await flush();
+        expect(saved).to.deep.equal({});
+
+        saved['https://example.com/video.mp4'] = 600;
+        media.currentTime = 2;
+        resume.save();
+        await flush();
+        expect(saved).to.deep.equal({});
+    });
+
+    it('saves the position with the custom `id`, or the one of the playlist item being played', async () => {
+        create({ id: 'episode-1' });
+        expect(resume.getKey()).to.equal('episode-1');
+
+        const item = { id: 'episode-2' };
+        element.dispatchEvent(new CustomEvent('playlistitemchanged', { detail: { item } }));
+        resume.save();
+        await flush();
+        expect(resume.getKey()).to.equal('episode-2');
+        expect(saved).to.deep.equal({ 'episode-2': 754 });
+    });
+
+    it('offers to resume from the position saved once metadata is loaded', async () => {
+        saved['https://example.com/video.mp4'] = 90;
+        create();
+        media.currentTime = 0;
+        element.dispatchEvent(new Event('loadedmetadata'));
+        await flush();
+
+        expect(button(0).textContent).to.equal('Resume from 01:30');
+        button(0).click();
+        expect(media.currentTime).to.equal(90);
+        expect(played).to.equal(1);
+        expect(prompt()).to.equal(null);
+    });
+
+    it('starts over, forgetting the position saved, if the user chooses it', async () => {
+        saved['https://example.com/video.mp4'] = 90;
+        create();
+        media.currentTime = 0;
+        element.dispatchEvent(new Event('loadedmetadata'));
+        await flush();
+
+        button(1).click();
+        await flush();
+        expect(media.currentTime).to.equal(0);
+        expect(played).to.equal(1);
+        expect(saved).to.deep.equal({});
+    });
+
+    it('jumps to the position saved without asking if `prompt` is disabled', async () => {
+        saved['https://example.com/video.mp4'] = 90;
+        create({ prompt: false });
+        media.currentTime = 0;
+        element.dispatchEvent(new Event('loadedmetadata'));
+        await flush();
+
+        expect(prompt()).to.equal(null);
+        expect(media.currentTime).to.equal(90);
+    });
+
+    it('keeps working if the storage fails', async () => {
+        storage.get = () => Promise.reject(new Error('Storage is not available'));
+        storage.set = () => {
+            throw new Error('Storage is full');
+        };
+        create();
+        const warn = console.warn;
+        const warnings: string[] = [];
+        console.warn = (message: string) => warnings.push(message);
+
+        resume.save();
+        element.dispatchEvent(new Event('loadedmetadata'));
+        await flush();
+        console.warn = warn;
+
+        expect(prompt()).to.equal(null);
+        expect(warnings).to.deep.equal(['Resume warning: Storage is full', 'Resume warning: Storage is not available']);
+    });
+});
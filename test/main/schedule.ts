@@ -0,0 +1,142 @@
+import { expect } from 'chai';
+
+import AdBreak from '../../src/js/interfaces/ads/break';
+import Options from '../../src/js/interfaces/ads/options';
+import AdSchedule from '../../src/js/media/schedule';
+import { stubPlayer } from '../stub';
+
+describe('schedule', () => {
+    let element: HTMLVideoElement;
+    let media: { currentTime: number, duration: number, paused: boolean };
+    let loaded: Array<string | string[]>;
+    let started: number;
+    let schedule: AdSchedule;
+
+    const create = (options: { [key: string]: any }) => {
+        schedule = new AdSchedule(stubPlayer(element, {
+            getAd: () => {
+                const play = () => {
+                    started++;
+                    return Promise.resolve();
+                };
+                return loaded.length ? { play } : null;
+            },
+            getMedia: () => media,
+            loadAd: (src: string | string[]) => {
+                loaded.push(src);
+            },
+        }), options as Options);
+        schedule.create();
+    };
+    const reach = (time: number) => {
+        media.currentTime = time;
+        element.dispatchEvent(new CustomEvent('timeupdate'));
+    };
+
+    beforeEach(() => {
+        element = document.createElement('video');
+        media = { currentTime: 0, duration: 600, paused: false };
+        loaded = [];
+        started = 0;
+    });
+
+    afterEach(() => {
+        schedule.destroy();
+    });
+
+    it('plays the pre-roll once media starts and every mid-roll once media reaches it', () => {
+        create({
+            breaks: [
+                { src: 'https://example.com/preroll.xml', timeOffset: 'start' },
+                { src: 'https://example.com/midroll.xml', timeOffset: '00:01:00' },
+                { src: 'https://example.com/half.xml', timeOffset: '50%' },
+            ],
+        });
+        element.dispatchEvent(new CustomEvent('play'));
+        expect(loaded).to.deep.equal(['https://example.com/preroll.xml']);
+
+        reach(59);
+        reach(60);
+        reach(61);
+        expect(loaded).to.deep.equal(['https://example.com/preroll.xml', 'https://example.com/midroll.xml']);
+
+        reach(300);
+        expect(loaded[2]).to.equal('https://example.com/half.xml');
+    });
+
+    it('only plays the latest mid-roll when seeking past several of them', () => {
+        create({
+            breaks: [
+                { src: 'https://example.com/first.xml', timeOffset: 60 },
+                { src: 'https://example.com/second.xml', timeOffset: 120 },
+            ],
+        });
+        reach(200);
+        reach(201);
+        expect(loaded).to.deep.equal(['https://example.com/second.xml']);
+    });
+
+    it('does not resolve percentages until the duration of media is known', () => {
+        media.duration = Infinity;
+        create({ breaks: [{ src: 'https://example.com/half.xml', timeOffset: '50%' }] });
+        element.dispatchEvent(new CustomEvent('play'));
+        reach(10);
+        expect(loaded).to.deep.equal([]);
+
+        media.duration = 60;
+        reach(30);
+        expect(loaded).to.deep.equal(['https://example.com/half.xml']);
+    });
+
+    it('starts the post-roll once media ends, and plays the breaks again for a new playlist item', () => {
+        create({ breaks: [{ src: 'https://example.com/postroll.xml', timeOffset: 'end' }] });
+        expect(schedule.hasPostroll()).to.equal(true);
+        element.dispatchEvent(new CustomEvent('ended'));
+        expect(loaded).to.deep.equal(['https://example.com/postroll.xml']);
+        expect(started).to.equal(1);
+        expect(schedule.hasPostroll()).to.equal(false);
+
+        element.dispatchEvent(new CustomEvent('playlistitemchanged'));
+        expect(schedule.hasPostroll()).to.equal(true);
+    });
+
+    it('lists the times of the breaks pending to be played, notifying every change', () => {
+        const notified: number[][] = [];
+        element.addEventListener('adcuepoints', (e: any) => notified.push(e.detail.cuepoints));
+        media.duration = NaN;
+        create({
+            breaks: [
+                { src: 'https://example.com/postroll.xml', timeOffset: 'end' },
+                { src: 'https://example.com/half.xml', timeOffset: '50%' },
+                { src: 'https://example.com/midroll.xml', timeOffset: 90 },
+                { src: 'https://example.com/preroll.xml', timeOffset: 'start' },
+                { src: 'https://example.com/preroll-2.xml', timeOffset: 0 },
+            ],
+        });
+        expect(schedule.getCuePoints()).to.deep.equal([-1, 0, 90]);
+
+        media.duration = 600;
+        element.dispatchEvent(new CustomEvent('durationchange'));
+        element.dispatchEvent(new CustomEvent('play'));
+        expect(schedule.getCuePoints()).to.deep.equal([-1, 90, 300]);
+
+        schedule.reset();
+        expect(notified).to.deep.equal([[-1, 0, 90], [-1, 0, 90, 300], [-1, 90, 300], [-1, 0, 90, 300]]);
+    });
+
+    it('replaces the breaks with the ones of a VMAP document', async () => {
+        create({ breaks: [{ src: 'https://example.com/preroll.xml', timeOffset: 'start' }] });
+        await schedule.load(`<vmap:VMAP xmlns:vmap="http://www.iab.net/videosuite/vmap" version="1.0">
+            <vmap:AdBreak timeOffset="00:00:30.000" breakType="linear" breakId="midroll">
+                <vmap:AdSource><vmap:AdTagURI><![CDATA[https://example.com/midroll.xml]]></vmap:AdTagURI></vmap:AdSource>
+            </vmap:AdBreak>
+        </vmap:VMAP>`);
+        const breaks: AdBreak[] = schedule.getBreaks();
+        expect(breaks).to.deep.equal([{ id: 'midroll', src: 'https://example.com/midroll.xml', timeOffset: '00:00:30.000' }]);
+
+        let errors = 0;
+        element.addEventListener('playererror', () => errors++);
+        await schedule.load('<html></html>');
+        expect(errors).to.equal(1);
+    });
+});
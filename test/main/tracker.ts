@@ -0,0 +1,66 @@
+import { expect } from 'chai';
+
+import Tracker from '../../src/js/media/tracker';
+
+describe('media/tracker', () => {
+    it('resolves the macros of the tracking URLs and sends each event once per Ad', () => {
+        const sent: string[] = [];
+        const tracker = new Tracker(url => sent.push(url));
+
+        tracker.track('impression', ['https://example.com/impression?cb=[CACHEBUSTING]']);
+        tracker.track('impression', ['https://example.com/impression?cb=[CACHEBUSTING]']);
+        tracker.track('error', ['https://example.com/error?code=[ERRORCODE]&time=[CONTENTPLAYHEAD]&ad=[UNKNOWN]'], {
+            CONTENTPLAYHEAD: '00:00:05.000',
+            ERRORCODE: 405,
+        });
+        tracker.track('pause', ['https://example.com/pause']);
+        tracker.track('pause', ['https://example.com/pause']);
+
+        expect(sent).to.have.lengthOf(4);
+        expect(sent[0]).to.match(/^https:\/\/example\.com\/impression\?cb=\d{8}$/);
+        expect(sent[1]).to.equal('https://example.com/error?code=405&time=00%3A00%3A05.000&ad=[UNKNOWN]');
+        expect(sent.slice(2)).to.deep.equal(['https://example.com/pause', 'https://example.com/pause']);
+
+        tracker.reset();
+        tracker.track('impression', ['https://example.com/impression']);
+        expect(sent).to.have.lengthOf(5);
+    });
+
+    it('queues the tracking URLs while the browser is offline', () => {
+        const sent: string[] = [];
+        const tracker = new Tracker(url => sent.push(url));
+        const descriptor = Object.getOwnPropertyDescriptor(navigator, 'onLine');
+        Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => false });
+
+        tracker.track('start', ['https://example.com/start']);
+        expect(sent).to.have.lengthOf(0);
+        expect(tracker.getQueue()).to.deep.equal(['https://example.com/start']);
+
+        if (descriptor) {
+            Object.defineProperty(navigator, 'onLine', descriptor);
+        } else {
+            delete (navigator as any).onLine;
+        }
+        tracker.flush();
+        expect(sent).to.deep.equal(['https://example.com/start']);
+        expect(tracker.getQueue()).to.have.lengthOf(0);
+    });
+
+    it('discards the queued URLs once destroyed', () => {
+        const sent: string[] = [];
+        const tracker = new Tracker(url => sent.push(url));
+        const descriptor = Object.getOwnPropertyDescriptor(navigator, 'onLine');
+        Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => false });
+        tracker.track('start', ['https://example.com/start']);
+        if (descriptor) {
+            Object.defineProperty(navigator, 'onLine', descriptor);
+        } else {
+            delete (navigator as any).onLine;
+        }
+
+        tracker.destroy();
+        window.dispatchEvent(new Event('online'));
+        expect(sent).to.have.lengthOf(0);
+        expect(tracker.getQueue()).to.have.lengthOf(0);
+    });
+});
@@ -0,0 +1,189 @@
+import { expect } from 'chai';
+
+import Cue from '../../src/js/interfaces/captions/cue';
+import TranscriptOptions from '../../src/js/interfaces/transcript-options';
+import Transcript from '../../src/js/transcript';
+import { stubPlayer } from '../stub';
+
+describe('transcript', () => {
+    const labels = {
+        close: 'Close',
+        nextMatch: 'Next',
+        previousMatch: 'Previous',
+        searchTranscript: 'Search',
+        toggleTranscript: 'Toggle Transcript',
+        transcript: 'Transcript',
+    };
+    const english: Cue[] = [
+        { endTime: 6, identifier: '2', settings: {}, startTime: 4, text: 'A <i>second</i> line\nabout the lecture' },
+        { endTime: 3, identifier: '1', settings: {}, startTime: 1, text: 'Welcome to the &lt;lecture&gt;' },
+    ];
+    const spanish: Cue[] = [{ endTime: 3, identifier: '1', settings: {}, startTime: 1, text: 'Bienvenidos' }];
+    let element: HTMLVideoElement;
+    let container: HTMLDivElement;
+    let playerContainer: HTMLDivElement;
+    let media: { currentTime: number };
+    let shortcuts: string[];
+    let transcript: Transcript;
+
+    const create = (options: TranscriptOptions = { container }) => {
+        const player = stubPlayer(element, {
+            getContainer: () => playerContainer,
+            getKeyboard: () => ({
+                register: (action: string) => shortcuts.push(action),
+                unregister: (action: string) => {
+                    shortcuts = shortcuts.filter(item => item !== action);
+                },
+            }),
+            getMedia: () => media,
+            getOptions: () => ({ labels }),
+            isMedia: () => true,
+        });
+        transcript = new Transcript(player, { enabled: true, ...options });
+        transcript.create();
+    };
+    const load = (language: string, cues: Cue[], active: boolean = false) => {
+        element.dispatchEvent(new CustomEvent('captionsloaded', { detail: { active, cues, language } }));
+    };
+    const texts = () => Array.from(container.querySelectorAll('.op-transcript__text')).map(item => item.textContent);
+    const count = () => {
+        const target = container.querySelector('.op-transcript__count');
+        return target ? target.textContent : null;
+    };
+
+    beforeEach(() => {
+        element = document.createElement('video');
+        container = document.createElement('div');
+        playerContainer = document.createElement('div');
+        document.body.appendChild(container);
+        media = { currentTime: 0 };
+        shortcuts = [];
+    });
+
+    afterEach(() => {
+        transcript.destroy();
+        document.body.removeChild(container);
+    });
+
+    it('lists the cues of the first captions loaded in order, as plain text', () => {
+        create();
+        load('en', english);
+        load('es', spanish);
+        expect(transcript.getLanguage()).to.equal('en');
+        expect(texts()).to.deep.equal(['Welcome to the <lecture>', 'A second line about the lecture']);
+        const times = Array.from(container.querySelectorAll('.op-transcript__time')).map(item => item.textContent);
+        expect(times).to.deep.equal(['00:01', '00:04']);
+    });
+
+    it('follows the language of the captions displayed, and of the ones removed', () => {
+        create();
+        load('en', english);
+        load('es', spanish);
+
+        element.dispatchEvent(new CustomEvent('captionschanged', { detail: { language: 'es' } }));
+        expect(transcript.getLanguage()).to.equal('es');
+        expect(texts()).to.deep.equal(['Bienvenidos']);
+
+        element.dispatchEvent(new CustomEvent('captionschanged', { detail: { language: 'off' } }));
+        element.dispatchEvent(new CustomEvent('captionschanged', { detail: { language: 'fr' } }));
+        expect(transcript.getLanguage()).to.equal('es');
+
+        element.dispatchEvent(new CustomEvent('captionsremoved', { detail: { language: 'es' } }));
+        expect(transcript.getLanguage()).to.equal('en');
+
+        load('es', spanish, true);
+        expect(transcript.getLanguage()).to.equal('es');
+    });
+
+    it('highlights the cue being spoken', () => {
+        create();
+        load('en', english);
+        media.currentTime = 4.5;
+        element.dispatchEvent(new Event('timeupdate'));
+        const active = container.querySelectorAll('.op-transcript__cue--active');
+        expect(active).to.have.length(1);
+        expect(active[0].getAttribute('data-index')).to.equal('1');
+        expect(active[0].getAttribute('aria-current')).to.equal('true');
+
+        media.currentTime = 10;
+        element.dispatchEvent(new Event('timeupdate'));
+        expect(container.querySelector('.op-transcript__cue--active')).to.equal(null);
+    });
+
+    it('highlights the text searched, moving between its matches', () => {
+        create();
+        load('en', english);
+        const matches = () => container.querySelectorAll('.op-transcript__match');
+        expect(transcript.search('LECTURE')).to.equal(2);
+        expect(count()).to.equal('1/2');
+        expect(matches()[1].textContent).to.equal('lecture');
+
+        transcript.nextMatch();
+        transcript.nextMatch();
+        expect(count()).to.equal('1/2');
+        transcript.previousMatch();
+        expect(count()).to.equal('2/2');
+        expect(matches()[1].classList.contains('op-transcript__match--current')).to.equal(true);
+
+        expect(transcript.search(' ')).to.equal(0);
+        expect(count()).to.equal('');
+    });
+
+    it('searches while typing, moving between matches with Enter, and keeps the search when the language changes', () => {
+        create();
+        load('en', english);
+        const input = container.querySelector('.op-transcript__search') as HTMLInputElement;
+        input.value = 'the';
+        input.dispatchEvent(new Event('input'));
+        expect(count()).to.equal('1/2');
+
+        input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+        expect(count()).to.equal('2/2');
+        input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', shiftKey: true }));
+        expect(count()).to.equal('1/2');
+
+        load('es', spanish, true);
+        expect(container.querySelectorAll('.op-transcript__match')).to.have.length(0);
+        element.dispatchEvent(new CustomEvent('captionschanged', { detail: { language: 'en' } }));
+        expect(count()).to.equal('1/2');
+    });
+
+    it('seeks to the start of the cue clicked', () => {
+        create();
+        load('en', english);
+        (container.querySelectorAll('.op-transcript__cue')[1] as HTMLButtonElement).click();
+        expect(media.currentTime).to.equal(4);
+        const active = container.querySelector('.op-transcript__cue--active');
+        expect(active && active.getAttribute('data-index')).to.equal('1');
+    });
+
+    it('clears the cues when the playlist item changes', () => {
+        create();
+        load('en', english);
+        element.dispatchEvent(new Event('playlistitemchanged'));
+        expect(transcript.getLanguage()).to.equal('');
+        expect(texts()).to.deep.equal([]);
+    });
+
+    it('is rendered inside the player if no container is set, where it can be toggled', () => {
+        create({});
+        const panel = playerContainer.querySelector('.op-transcript--player');
+        expect(panel && panel.getAttribute('aria-hidden')).to.equal('false');
+        expect(shortcuts).to.deep.equal(['toggleTranscript']);
+
+        (playerContainer.querySelector('.op-transcript__close') as HTMLButtonElement).click();
+        expect(panel && panel.getAttribute('aria-hidden')).to.equal('true');
+        transcript.toggle();
+        expect(panel && panel.getAttribute('aria-hidden')).to.equal('false');
+
+        transcript.destroy();
+        expect(playerContainer.querySelector('.op-transcript')).to.equal(null);
+        expect(shortcuts).to.deep.equal([]);
+    });
+
+    it('removes its markup once destroyed', () => {
+        create();
+        transcript.destroy();
+        expect(container.querySelector('.op-transcript')).to.equal(null);
+    });
+});
@@ -0,0 +1,199 @@
+import { expect } from 'chai';
+
+import AdDisplayContainer from '../../src/js/media/vast/ad-display-container';
+import AdErrorEvent from '../../src/js/media/vast/ad-error-event';
+import AdEvent from '../../src/js/media/vast/ad-event';
+import AdsLoader from '../../src/js/media/vast/ads-loader';
+import AdsManager from '../../src/js/media/vast/ads-manager';
+import AdsManagerLoadedEvent from '../../src/js/media/vast/ads-manager-loaded-event';
+import AdsRequest from '../../src/js/media/vast/ads-request';
+
+const linear = (id: string, sequence: number, skipOffset: string = '') => `<Ad id="${id}" sequence="${sequence}"><InLine>
+    <AdSystem>OpenPlayer</AdSystem>
+    <Impression>https://example.com/${id}/impression</Impression>
+    <Creatives><Creative><Linear${skipOffset ? ` skipoffset="${skipOffset}"` : ''}>
+        <Duration>00:00:10</Duration>
+        <MediaFiles>
+            <MediaFile delivery="progressive" type="video/mp4" width="640" height="360"><![CDATA[https://example.com/${id}.mp4]]></MediaFile>
+        </MediaFiles>
+    </Linear></Creative></Creatives>
+</InLine></Ad>`;
+
+const wrapper = (url: string) => `<VAST version="3.0"><Ad><Wrapper>
+    <AdSystem>OpenPlayer</AdSystem>
+    <VASTAdTagURI><![CDATA[${url}]]></VASTAdTagURI>
+    <Impression>https://example.com/wrapper/impression</Impression>
+</Wrapper></Ad></VAST>`;
+
+const nonLinear = (resource: string, duration: string = '') => `<VAST version="3.0"><Ad id="overlay"><InLine>
+    <AdSystem>OpenPlayer</AdSystem>
+    <Creatives><Creative><NonLinearAds>
+        <NonLinear width="480" height="70"${duration ? ` minSuggestedDuration="${duration}"` : ''}>${resource}</NonLinear>
+    </NonLinearAds></Creative></Creatives>
+</InLine></Ad></VAST>`;
+
+describe('vast', () => {
+    const original: { [key: string]: any } = {};
+    let content: HTMLVideoElement;
+    let container: HTMLDivElement;
+
+    const request = (response: string): Promise<AdsManager> => new Promise((resolve, reject) => {
+        const adsRequest = new AdsRequest();
+        if (/^\s*</.test(response)) {
+            adsRequest.adsResponse = response;
+        } else {
+            adsRequest.adTagUrl = response;
+        }
+        const loader = new AdsLoader(new AdDisplayContainer(container, content));
+        loader.addEventListener(AdsManagerLoadedEvent.Type.ADS_MANAGER_LOADED, (e: AdsManagerLoadedEvent) => {
+            resolve(e.getAdsManager(content));
+        });
+        loader.addEventListener(AdErrorEvent.Type.AD_ERROR, (e: AdErrorEvent) => reject(e.getError()));
+        loader.requestAds(adsRequest);
+    });
+
+    const record = (manager: AdsManager, types: string[]) => {
+        const events: string[] = [];
+        types.forEach(type => manager.addEventListener(type, (e: AdEvent) => {
+            const ad = e.getAd();
+            events.push(ad ? `${type}:${ad.getAdId()}` : type);
+        }));
+        return events;
+    };
+
+    before(() => {
+        const { prototype } = window.HTMLMediaElement;
+        ['canPlayType', 'load', 'pause', 'play'].forEach(method => {
+            original[method] = (prototype as any)[method];
+        });
+        prototype.canPlayType = (type: string) => type === 'video/mp4' ? 'maybe' : '';
+        prototype.load = () => undefined;
+        prototype.pause = () => undefined;
+        prototype.play = () => Promise.resolve();
+    });
+
+    after(() => {
+        Object.assign(window.HTMLMediaElement.prototype, original);
+    });
+
+    beforeEach(() => {
+        content = document.createElement('video');
+        container = document.createElement('div');
+        document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+        document.body.removeChild(container);
+    });
+
+    it('plays the Ads of a pod in sequence order and then resumes the content', async () => {
+        const manager = await request(`<VAST version="3.0">${linear('second', 2)}${linear('first', 1)}</VAST>`);
+        const events = record(manager, [
+            AdEvent.Type.CONTENT_PAUSE_REQUESTED, AdEvent.Type.LOADED, AdEvent.Type.COMPLETE,
+            AdEvent.Type.CONTENT_RESUME_REQUESTED, AdEvent.Type.ALL_ADS_COMPLETED,
+        ]);
+        manager.start();
+
+        const element = container.querySelector('.op-ads__media') as HTMLVideoElement;
+        expect(element.getAttribute('src')).to.equal('https://example.com/first.mp4');
+        element.dispatchEvent(new Event('ended'));
+        expect(element.getAttribute('src')).to.equal('https://example.com/second.mp4');
+        element.dispatchEvent(new Event('ended'));
+
+        expect(events).to.deep.equal([
+            'contentPauseRequested', 'loaded:first', 'complete:first', 'loaded:second', 'complete:second',
+            'contentResumeRequested:second', 'allAdsCompleted:second',
+        ]);
+        expect(element.hasAttribute('src')).to.equal(false);
+        expect(manager.getCuePoints()).to.deep.equal([]);
+        manager.destroy();
+    });
+
+    it('allows skipping an Ad only once its skip offset has been reached', async () => {
+        const manager = await request(`<VAST version="3.0">${linear('first', 1, '00:00:05')}${linear('second', 2)}</VAST>`);
+        const events = record(manager, [AdEvent.Type.SKIPPABLE_STATE_CHANGED, AdEvent.Type.SKIPPED, AdEvent.Type.LOADED]);
+        manager.start();
+
+        const element = container.querySelector('.op-ads__media') as HTMLVideoElement;
+        element.dispatchEvent(new Event('playing'));
+        manager.skip();
+        expect(manager.getAdSkippableState()).to.equal(false);
+
+        element.currentTime = 6;
+        element.dispatchEvent(new Event('timeupdate'));
+        expect(manager.getAdSkippableState()).to.equal(true);
+        manager.skip();
+
+        expect(events).to.deep.equal(['loaded:first', 'skippableStateChanged:first', 'skip:first', 'loaded:second']);
+        manager.destroy();
+    });
+
+    it('displays the HTML resources of non-linear Ads inside a sandboxed iframe', async () => {
+        const html = await request(nonLinear('<HTMLResource><![CDATA[<script>parent.document.body.innerHTML = "";</script>]]></HTMLResource>'));
+        html.start();
+        const frame = container.querySelector('.op-ads__nonlinear-content iframe') as HTMLIFrameElement;
+        expect(frame.getAttribute('sandbox')).to.equal('allow-scripts allow-popups allow-popups-to-escape-sandbox');
+        expect(frame.srcdoc).to.contain('<script>parent.document.body.innerHTML');
+        expect(container.querySelector('.op-ads__nonlinear-content script')).to.equal(null);
+        html.destroy();
+
+        const image = await request(nonLinear('<StaticResource creativeType="image/png">https://example.com/overlay.png</StaticResource>'));
+        image.start();
+        const img = container.querySelector('.op-ads__nonlinear-content img') as HTMLImageElement;
+        expect(img.src).to.equal('https://example.com/overlay.png');
+        image.destroy();
+    });
+
+    it('hides non-linear Ads once their minimum suggested duration has elapsed', async () => {
+        const resource = '<StaticResource creativeType="image/png">https://example.com/overlay.png</StaticResource>';
+        const manager = await request(nonLinear(resource, '00:00:00.050'));
+        const events = record(manager, [AdEvent.Type.STARTED, AdEvent.Type.USER_CLOSE, AdEvent.Type.ALL_ADS_COMPLETED]);
+        manager.start();
+        expect(container.querySelector('.op-ads__nonlinear')).to.not.equal(null);
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(container.querySelector('.op-ads__nonlinear')).to.equal(null);
+        expect(events).to.deep.equal(['start:overlay', 'allAdsCompleted:overlay']);
+        manager.destroy();
+    });
+
+    it('hides non-linear Ads when the content ends or they are closed', async () => {
+        const resource = '<StaticResource creativeType="image/png">https://example.com/overlay.png</StaticResource>';
+        const manager = await request(nonLinear(resource));
+        manager.start();
+        content.dispatchEvent(new Event('ended'));
+        expect(container.querySelector('.op-ads__nonlinear')).to.equal(null);
+        manager.destroy();
+
+        const closed = await request(nonLinear(resource));
+        const events = record(closed, [AdEvent.Type.USER_CLOSE, AdEvent.Type.ALL_ADS_COMPLETED]);
+        closed.start();
+        (container.querySelector('.op-ads__nonlinear-close') as HTMLButtonElement).click();
+        expect(container.querySelector('.op-ads__nonlinear')).to.equal(null);
+        expect(events).to.deep.equal(['userClose:overlay', 'allAdsCompleted:overlay']);
+        closed.destroy();
+    });
+
+    it('follows wrappers, merging their tracking elements into the inline Ads', async () => {
+        const inline = `<VAST version="3.0">${linear('first', 1)}</VAST>`;
+        const manager = await request(wrapper(`data:text/xml;charset=utf-8,${encodeURIComponent(inline)}`));
+        let impressions: string[] = [];
+        manager.addEventListener(AdEvent.Type.LOADED, (e: AdEvent) => {
+            const ad = e.getAd();
+            impressions = ad ? ad.getVastData().impressions : [];
+        });
+        manager.start();
+        expect(impressions).to.deep.equal(['https://example.com/wrapper/impression', 'https://example.com/first/impression']);
+        manager.destroy();
+    });
+
+    it('reports the errors found while loading the Ads', async () => {
+        const code = (response: string) => request(response).then(() => 0, error => error.getErrorCode());
+
+        expect(await code('<VAST version="3.0"></VAST>')).to.equal(1009);
+        expect(await code('<html></html>')).to.equal(100);
+        expect(await code(`<VAST version="3.0">${linear('first', 1).replace(/video\/mp4/g, 'video/x-flv')}</VAST>`)).to.equal(403);
+        expect(await code(wrapper('http://localhost:1/missing.xml'))).to.equal(301);
+        expect(await code(wrapper(`data:text/xml;charset=utf-8,${encodeURIComponent('<VAST version="3.0"></VAST>')}`))).to.equal(303);
+    });
+});
@@ -0,0 +1,34 @@
+import Player from '../src/js/player';
+
+/**
+ * Simplified version of an object the player works with: any of its members can be left out, and its
+ * methods return simplified versions of their results (or nothing, like the getters of a player not ready yet).
+ */
+export type Stub<T> = T extends Node | PromiseLike<unknown> ? T :
+    T extends (...args: infer A) => infer R ? ([R] extends [void] ? (...args: A) => void : (...args: A) => Stub<R> | null | undefined) :
+    T extends object ? { [K in keyof T]?: Stub<T[K]> } : T;
+
+/**
+ * Members of the player replaced in a test.
+ */
+export type PlayerStub = Stub<Player>;
+
+/**
+ * Build a player for a media element with only the members that the component being tested uses.
+ *
+ * Unless they are replaced, `getElement` returns the element, `getContainer` its parent, `isAd` is `false`
+ * and `isMedia` is `true`.
+ * @param {HTMLMediaElement} element
+ * @param {PlayerStub} members
+ * @returns {Player}
+ */
+export function stubPlayer(element: HTMLMediaElement, members: PlayerStub = {}): Player {
+    const player: PlayerStub = {
+        getContainer: () => element.parentElement,
+        getElement: () => element,
+        isAd: () => false,
+        isMedia: () => true,
+        ...members,
+    };
+    return player as unknown as Player;
+}
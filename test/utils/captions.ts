@@ -0,0 +1,161 @@
+import { expect } from 'chai';
+
+import * as captions from '../../src/js/utils/captions';
+
+describe('utils/captions', () => {
+    it('determines the format of captions by MIME type, extension or content', () => {
+        expect(captions.getCaptionFormat('', 'https://example.com/captions', 'application/x-subrip')).to.equal('srt');
+        expect(captions.getCaptionFormat('', 'https://example.com/captions.dfxp?lang=en')).to.equal('ttml');
+        expect(captions.getCaptionFormat('', 'https://example.com/captions.ass')).to.equal('ssa');
+        expect(captions.getCaptionFormat('<?xml version="1.0"?>\n<tt xmlns="http://www.w3.org/ns/ttml"></tt>')).to.equal('ttml');
+        expect(captions.getCaptionFormat('[Script Info]\nTitle: Test')).to.equal('ssa');
+        expect(captions.getCaptionFormat('1\n00:00:01,000 --> 00:00:02,000\nHello')).to.equal('srt');
+        expect(captions.getCaptionFormat('WEBVTT\n\n00:01.000 --> 00:02.000\nHello')).to.equal('vtt');
+    });
+    it('converts the captions style chosen by the viewer into CSS custom properties', () => {
+        expect(captions.getCaptionStyleProperties({ backgroundOpacity: '50', color: 'yellow', fontSize: '150' })).to.deep.equal({
+            '--op-captions-background': 'rgba(0, 0, 0, 0.5)',
+            '--op-captions-color': 'rgb(255, 255, 0)',
+            '--op-captions-edge': '',
+            '--op-captions-font-family': '',
+            '--op-captions-font-size': '150%',
+            '--op-captions-font-variant': '',
+            '--op-captions-window': '',
+        });
+        const properties = captions.getCaptionStyleProperties({ background: 'default', fontFamily: 'smallCaps', window: 'blue' });
+        expect(properties['--op-captions-background']).to.equal('');
+        expect(properties['--op-captions-font-variant']).to.equal('small-caps');
+        expect(properties['--op-captions-window']).to.equal('rgb(0, 0, 255)');
+    });
+    it('creates the track tags of a language, keeping in memory the captions passed without URL', () => {
+        const element = document.createElement('video');
+        const track = captions.appendTrack(element, {
+            content: 'WEBVTT\n\n00:01.000 --> 00:02.000\nHello',
+            kind: 'subtitles',
+            label: 'English',
+            srclang: 'en',
+        });
+        expect(track.hasAttribute('src')).to.equal(false);
+        expect(captions.getTrackCues(track)).to.deep.equal([{ endTime: 2, identifier: '', settings: {}, startTime: 1, text: 'Hello' }]);
+
+        const cues = [{ endTime: 5, identifier: '1', settings: {}, startTime: 3, text: 'Bye' }];
+        expect(captions.appendTrack(element, { cues, default: true, kind: 'subtitles', label: 'English', srclang: 'en' })).to.equal(track);
+        expect(captions.getTrackCues(track)).to.equal(cues);
+        expect(track.default).to.equal(true);
+
+        captions.appendTrack(element, { kind: 'subtitles', label: 'English', src: 'https://example.com/en.vtt', srclang: 'en' });
+        expect(element.querySelectorAll('track')).to.have.length(1);
+        expect(track.getAttribute('src')).to.equal('https://example.com/en.vtt');
+        expect(captions.getTrackCues(track)).to.equal(undefined);
+    });
+    it('parses WebVTT captions, including their settings and regions', () => {
+        const cues = captions.parseWebVTT([
+            'WEBVTT',
+            '',
+            'REGION',
+            'id:speaker width:40% lines:2',
+            'regionanchor:0%,100% viewportanchor:10%,90%',
+            'scroll:up',
+            '',
+            'intro',
+            '00:00:01.000 --> 00:00:03.000 line:10% position:25%,line-left size:50% align:start',
+            'Top caption',
+            '',
+            '00:00:02.000 --> 00:00:04.000 line:-2 vertical:rl',
+            'Vertical caption',
+            '',
+            '00:00:02.500 --> 00:00:05.000 region:speaker align:middle',
+            'In a region',
+        ].join('\n'));
+        expect(cues).to.have.length(3);
+        expect(cues[0].identifier).to.equal('intro');
+        expect(cues[0].settings).to.deep.equal({
+            align: 'start',
+            line: 10,
+            position: 25,
+            positionAlign: 'line-left',
+            size: 50,
+            snapToLines: false,
+        });
+        expect(cues[1].settings).to.deep.equal({ line: -2, snapToLines: true, vertical: 'rl' });
+        expect(cues[2].settings).to.deep.equal({
+            align: 'center',
+            region: {
+                id: 'speaker',
+                lines: 2,
+                regionAnchorX: 0,
+                regionAnchorY: 100,
+                scroll: 'up',
+                viewportAnchorX: 10,
+                viewportAnchorY: 90,
+                width: 40,
+            },
+        });
+    });
+    it('parses SRT captions', () => {
+        const cues = captions.parseSrt('1\r\n00:00:01,500 --> 00:00:03,000\r\n<i>Hello</i>\r\nworld\r\n\r\n2\r\n00:01:00,000 --> 00:01:02,250\r\nBye\r\n');
+        expect(cues).to.have.length(2);
+        expect(cues[0]).to.deep.equal({ endTime: 3, identifier: '1', settings: {}, startTime: 1.5, text: '<i>Hello</i>\nworld' });
+        expect(cues[1].startTime).to.equal(60);
+        expect(cues[1].endTime).to.equal(62.25);
+    });
+    it('parses TTML captions, including their styles and regions', () => {
+        const cues = captions.parseTtml(`<?xml version="1.0" encoding="UTF-8"?>
+            <tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling"
+                xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:frameRate="25">
+                <head>
+                    <styling><style xml:id="yellow" tts:color="yellow" tts:textAlign="left"/></styling>
+                    <layout><region xml:id="top" tts:origin="10% 5%" tts:extent="80% 20%"/></layout>
+                </head>
+                <body>
+                    <div begin="10s">
+                        <p begin="00:00:01.000" end="00:00:02:12" style="yellow" region="top">
+                            Hello <span tts:fontStyle="italic">there</span><br/>world
+                        </p>
+                        <p begin="5s" dur="1500ms">Bye</p>
+                    </div>
+                </body>
+            </tt>`);
+        expect(cues).to.have.length(2);
+        expect(cues[0].startTime).to.equal(11);
+        expect(cues[0].endTime).to.equal(12.48);
+        expect(cues[0].text).to.equal('Hello <i>there</i>\nworld');
+        expect(cues[0].settings).to.deep.equal({
+            align: 'start',
+            line: 5,
+            lineAlign: 'start',
+            position: 10,
+            positionAlign: 'line-left',
+            size: 80,
+            snapToLines: false,
+            style: { color: 'yellow' },
+        });
+        expect(cues[1].startTime).to.equal(15);
+        expect(cues[1].endTime).to.equal(16.5);
+    });
+    it('parses SSA/ASS captions, including their styles and override tags', () => {
+        const cues = captions.parseSsa([
+            '[Script Info]',
+            'ScriptType: v4.00+',
+            '',
+            '[V4+ Styles]',
+            'Format: Name, Fontname, Fontsize, PrimaryColour, Bold, Italic, Underline, Alignment',
+            'Style: Default,Arial,20,&H0000FFFF,-1,0,0,2',
+            '',
+            '[Events]',
+            'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+            'Dialogue: 0,0:00:04.00,0:00:05.50,Default,,0,0,0,,{\\an8}Top, {\\i1}really{\\i0}\\Nsecond line',
+            'Dialogue: 0,0:00:01.00,0:00:02.00,Default,Narrator,0,0,0,,<Hello>',
+        ].join('\n'));
+        expect(cues).to.have.length(2);
+        expect(cues[0]).to.deep.equal({
+            endTime: 2,
+            identifier: 'Narrator',
+            settings: { align: 'center', style: { color: 'rgba(255, 255, 0, 1)', fontFamily: 'Arial', fontWeight: 'bold' } },
+            startTime: 1,
+            text: '&lt;Hello&gt;',
+        });
+        expect(cues[1].text).to.equal('Top, <i>really</i>\nsecond line');
+        expect(cues[1].settings).to.deep.include({ align: 'center', line: 0, snapToLines: true });
+    });
+});
@@ -53,6 +53,25 @@ describe('utils/general', () => {
         hasClass = general.hasClass(doc.window.document.querySelector('p') as HTMLElement, 'no-class');
         expect(hasClass).to.equal(false);
     });
+    it('executes the operations of a storage, passing their result and warning about their errors', async () => {
+        const results: Array<number | null> = [];
+        const warnings: string[] = [];
+        const warn = console.warn;
+        console.warn = (message: string) => warnings.push(message);
+
+        general.callStorage('Test', () => 1, result => results.push(result));
+        expect(results).to.deep.equal([1]);
+        general.callStorage('Test', () => Promise.resolve(2), result => results.push(result));
+        general.callStorage('Test', () => Promise.reject(new Error('Quota exceeded')), result => results.push(result));
+        general.callStorage('Test', () => {
+            throw new Error('Storage disabled');
+        });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        console.warn = warn;
+
+        expect(results).to.deep.equal([1, 2]);
+        expect(warnings).to.deep.equal(['Test warning: Storage disabled', 'Test warning: Quota exceeded']);
+    });
     // it('returns the offset of a DOM element', () => {
     //     general.offset
     // });
@@ -27,6 +27,18 @@ describe('utils/media', () => {
             type: 'audio/mp3',
         })).to.equal(false);
     });
+    it('finds the highest level allowed by a maximum height', () => {
+        const levels = [
+            { height: 720, id: '0', label: '' },
+            { height: 0, id: '1', label: '360p' },
+            { height: 1080, id: '2', label: '' },
+        ];
+        expect(media.getLevelHeight(levels[1])).to.equal(360);
+        expect(media.findLevel(levels, 1000)).to.equal(0);
+        expect(media.findLevel(levels, 144)).to.equal(1);
+        expect(media.findLevel(levels, -1)).to.equal(-1);
+        expect(media.findLevel([], 720)).to.equal(-1);
+    });
     it('determines if media source is an HLS playlist resource', () => {
         expect(media.isM3USource({
             src: 'https://bitdash-a.akamaihd.net/content/sintel/hls/playlist.m3u',
@@ -36,6 +48,26 @@ describe('utils/media', () => {
             src: 'https://bitdash-a.akamaihd.net/content/sintel/hls/playlist.mp3',
             type: 'audio/mp3',
         })).to.equal(false);
+        expect(media.isM3USource({ src: 'https://example.com/hls/stream.m3u8', type: 'application/x-mpegURL' })).to.equal(false);
+        expect(media.isM3USource({ src: 'https://example.com/hls/stream.m3u8', type: '' })).to.equal(false);
+        expect(media.isM3USource({ src: 'https://example.com/hls/stream.m3u', type: 'application/x-mpegURL' })).to.equal(false);
+        expect(media.isPlaylistSource({ src: 'https://example.com/hls/stream.m3u8', type: 'application/x-mpegURL' })).to.equal(false);
+        expect(media.isM3USource({ src: 'https://example.com/radio/list', type: 'audio/x-mpegurl' })).to.equal(true);
+        expect(media.isM3USource({ src: 'https://example.com/hls/stream', type: 'audio/mpegurl' })).to.equal(false);
+    });
+    it('determines if media source is an XSPF playlist resource', () => {
+        expect(media.isXspfSource({
+            src: 'https://example.com/radio/playlist.xspf',
+            type: 'video/mp4',
+        })).to.equal(true);
+        expect(media.isXspfSource({
+            src: 'https://example.com/radio/playlist',
+            type: 'application/xspf+xml',
+        })).to.equal(true);
+        expect(media.isXspfSource({
+            src: 'https://example.com/radio/playlist.m3u',
+            type: 'audio/x-mpegurl',
+        })).to.equal(false);
     });
     it('determines if media source is an MPEG-DASH resource', () => {
         expect(media.isDashSource({
@@ -85,6 +117,22 @@ describe('utils/media', () => {
         expect(media.predictType('test.pdf')).to.equal('video/mp4');
         expect(media.predictType('test')).to.equal('video/mp4');
     });
+    it('determines the category of an error to display its message', () => {
+        expect(media.getErrorCategory({ message: 'Error', type: 'Ads' })).to.equal('ads');
+        expect(media.getErrorCategory({ data: { error: 4 }, message: 'Error', type: 'HTML5' })).to.equal('unsupported');
+        expect(media.getErrorCategory({ data: { error: 2 }, message: 'Error', type: 'HTML5' })).to.equal('network');
+        expect(media.getErrorCategory({
+            data: ['hlsError', { details: 'keyLoadError', fatal: true, type: 'networkError' }],
+            message: 'Error',
+            type: 'HLS',
+        })).to.equal('drm');
+        expect(media.getErrorCategory({
+            data: ['hlsError', { details: 'bufferAppendError', fatal: true, type: 'mediaError' }],
+            message: 'Error',
+            type: 'HLS',
+        })).to.equal('decode');
+        expect(media.getErrorCategory({ message: 'Unsupported codec', type: 'M(PEG)-DASH' })).to.equal('unsupported');
+    });
     it.skip('checks if browser can autoplay media without being muted', () => {
         const doc = new JSDOM(`<!doctype html>
             <html>
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+
+import * as playlist from '../../src/js/utils/playlist';
+
+describe('utils/playlist', () => {
+    it('resolves the location of an entry relative to the playlist URL', () => {
+        expect(playlist.resolveUrl('song.mp3', 'https://example.com/radio/list.m3u?token=1'))
+            .to.equal('https://example.com/radio/song.mp3');
+        expect(playlist.resolveUrl('/music/song.mp3', 'https://example.com/radio/list.m3u')).to.equal('https://example.com/music/song.mp3');
+        expect(playlist.resolveUrl('http://cdn.example.com/song.mp3', 'https://example.com/radio/list.m3u'))
+            .to.equal('http://cdn.example.com/song.mp3');
+    });
+    it('detects if an M3U file is an HLS manifest', () => {
+        expect(playlist.isHlsManifest('#EXTM3U\n#EXT-X-TARGETDURATION:10\n#EXTINF:10,\nsegment0.ts')).to.equal(true);
+        expect(playlist.isHlsManifest('#EXTM3U\n#EXTINF:123,Artist - Song\nsong.mp3')).to.equal(false);
+        expect(playlist.isHlsManifest('#EXTM3U\n#EXT-X-INDEPENDENT-SEGMENTS\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nlow.m3u8')).to.equal(true);
+        expect(playlist.isHlsManifest('#EXTM3U\n#EXTINF:-1,Radio Ñandú\nhttps://example.com/stream.mp3')).to.equal(false);
+    });
+    it('converts simple and extended M3U files into a list of sources', () => {
+        const sources = playlist.parseM3U([
+            '#EXTM3U',
+            '#EXTINF:123,Artist - Song',
+            'song.mp3',
+            '',
+            '#EXTINF:-1 tvg-name="Radio, live" tvg-logo="logo.png",Live Radio',
+            'http://stream.example.com:8000/live',
+            'plain.ogg',
+        ].join('\r\n'), 'https://example.com/radio/list.m3u');
+
+        expect(sources).to.have.lengthOf(3);
+        expect(sources[0]).to.deep.equal({
+            duration: 123,
+            src: 'https://example.com/radio/song.mp3',
+            title: 'Artist - Song',
+            type: 'audio/mp3',
+        });
+        expect(sources[1].title).to.equal('Live Radio');
+        expect(sources[1].duration).to.equal(undefined);
+        expect(sources[2]).to.deep.equal({ src: 'https://example.com/radio/plain.ogg', type: 'video/ogg' });
+    });
+    it('converts XSPF files into a list of sources', () => {
+        const sources = playlist.parseXSPF(`<?xml version="1.0" encoding="UTF-8"?>
+            <playlist version="1" xmlns="http://xspf.org/ns/0/">
+                <trackList>
+                    <track>
+                        <location>song.mp3</location>
+                        <creator>Artist</creator>
+                        <title>Song</title>
+                        <duration>61500</duration>
+                    </track>
+                    <track>
+                        <title>No location</title>
+                    </track>
+                </trackList>
+            </playlist>`, 'https://example.com/radio/list.xspf');
+
+        expect(sources).to.deep.equal([{
+            duration: 61.5,
+            src: 'https://example.com/radio/song.mp3',
+            title: 'Artist - Song',
+            type: 'audio/mp3',
+        }]);
+    });
+});
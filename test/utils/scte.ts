@@ -0,0 +1,29 @@
+import { expect } from 'chai';
+
+import * as scte from '../../src/js/utils/scte';
+
+describe('utils/scte', () => {
+    it('reads the attribute list of an HLS tag', () => {
+        expect(scte.parseAttributes('ID="ad-1",PLANNED-DURATION=30.5,scte35-out=0xFC30'))
+            .to.deep.equal({ 'ID': 'ad-1', 'PLANNED-DURATION': '30.5', 'SCTE35-OUT': '0xFC30' });
+    });
+    it('converts cue tags into Ad markers', () => {
+        expect(scte.parseAdMarker('EXT-X-CUE-OUT', '30')!.duration).to.equal(30);
+        expect(scte.parseAdMarker('#EXT-X-CUE-OUT', 'DURATION=15')!.duration).to.equal(15);
+        expect(scte.parseAdMarker('EXT-X-CUE-OUT')!.type).to.equal('start');
+        expect(scte.parseAdMarker('EXT-X-CUE-OUT-CONT', 'ElapsedTime=10,Duration=30'))
+            .to.deep.equal({ duration: 30, elapsed: 10, type: 'continue' });
+        expect(scte.parseAdMarker('EXT-X-CUE-OUT-CONT', '12.5/30'))
+            .to.deep.equal({ duration: 30, elapsed: 12.5, type: 'continue' });
+        expect(scte.parseAdMarker('EXT-X-CUE-IN')).to.deep.equal({ type: 'end' });
+        expect(scte.parseAdMarker('EXTINF', '6.0')).to.equal(null);
+    });
+    it('converts SCTE-35 date ranges into Ad markers', () => {
+        const marker = scte.parseAdMarker('EXT-X-DATERANGE',
+            'ID="splice-1",START-DATE="2020-01-01T00:00:00Z",PLANNED-DURATION=60,SCTE35-OUT=0xFC30');
+        expect(marker).to.deep.equal({ duration: 60, id: 'splice-1', type: 'start' });
+        expect(scte.parseAdMarker('EXT-X-DATERANGE', 'ID="splice-1",SCTE35-IN=0xFC30'))
+            .to.deep.equal({ id: 'splice-1', type: 'end' });
+        expect(scte.parseAdMarker('EXT-X-DATERANGE', 'ID="chapter",CLASS="com.example.chapter"')).to.equal(null);
+    });
+});
@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+
+import * as vast from '../../src/js/utils/vast';
+
+const inline = `<?xml version="1.0" encoding="UTF-8"?>
+<VAST version="4.0">
+    <Ad id="ad-1" sequence="1">
+        <InLine>
+            <AdSystem>OpenPlayer</AdSystem>
+            <AdTitle>Sample</AdTitle>
+            <Impression><![CDATA[https://example.com/impression]]></Impression>
+            <Error><![CDATA[https://example.com/error?code=[ERRORCODE]]]></Error>
+            <Creatives>
+                <Creative>
+                    <Linear skipoffset="25%">
+                        <Duration>00:00:20.000</Duration>
+                        <TrackingEvents>
+                            <Tracking event="start"><![CDATA[https://example.com/start]]></Tracking>
+                        </TrackingEvents>
+                        <VideoClicks>
+                            <ClickThrough><![CDATA[https://example.com/landing]]></ClickThrough>
+                        </VideoClicks>
+                        <MediaFiles>
+                            <MediaFile delivery="progressive" type="video/mp4" width="640" height="360" bitrate="500">
+                                <![CDATA[https://example.com/low.mp4]]>
+                            </MediaFile>
+                            <MediaFile delivery="progressive" type="video/mp4" width="1280" height="720" bitrate="2000">
+                                <![CDATA[https://example.com/high.mp4]]>
+                            </MediaFile>
+                            <MediaFile delivery="progressive" type="application/javascript" apiFramework="VPAID">
+                                <![CDATA[https://example.com/vpaid.js]]>
+                            </MediaFile>
+                        </MediaFiles>
+                    </Linear>
+                </Creative>
+            </Creatives>
+        </InLine>
+    </Ad>
+</VAST>`;
+
+describe('utils/vast', () => {
+    it('converts VAST offsets into seconds', () => {
+        expect(vast.parseOffset('00:01:05.500', 0)).to.equal(65.5);
+        expect(vast.parseOffset('50%', 30)).to.equal(15);
+        expect(isNaN(vast.parseOffset('invalid', 30))).to.equal(true);
+    });
+    it('converts seconds into VAST offsets', () => {
+        expect(vast.formatOffset(3725.5)).to.equal('01:02:05.500');
+        expect(vast.formatOffset(0)).to.equal('00:00:00.000');
+    });
+    it('converts a VAST response into a list of Ads', () => {
+        const ads = vast.parseVast(inline) || [];
+        expect(ads).to.have.lengthOf(1);
+        expect(ads[0].id).to.equal('ad-1');
+        expect(ads[0].sequence).to.equal(1);
+        expect(ads[0].impressions).to.deep.equal(['https://example.com/impression']);
+        expect(ads[0].linear!.duration).to.equal(20);
+        expect(ads[0].linear!.skipOffset).to.equal(5);
+        expect(ads[0].linear!.clickThrough).to.equal('https://example.com/landing');
+        expect(ads[0].linear!.trackingEvents.start).to.deep.equal(['https://example.com/start']);
+        expect(ads[0].linear!.mediaFiles).to.have.lengthOf(3);
+        expect(vast.parseVast('<html></html>')).to.equal(null);
+    });
+    it('reads the companion banners of an Ad', () => {
+        const ads = vast.parseVast(`<VAST version="3.0"><Ad><InLine>
+            <AdSystem>OpenPlayer</AdSystem>
+            <Creatives><Creative><CompanionAds>
+                <Companion width="300" height="250" adSlotID="sidebar">
+                    <StaticResource creativeType="image/png"><![CDATA[https://example.com/banner.png]]></StaticResource>
+                    <CompanionClickThrough>https://example.com/landing</CompanionClickThrough>
+                    <TrackingEvents><Tracking event="creativeView">https://example.com/view</Tracking></TrackingEvents>
+                </Companion>
+                <Companion width="728" height="90">
+                    <HTMLResource><![CDATA[<p>Banner</p>]]></HTMLResource>
+                </Companion>
+                <Companion width="160" height="600"></Companion>
+            </CompanionAds></Creative></Creatives>
+        </InLine></Ad></VAST>`) || [];
+
+        expect(ads[0].companions).to.have.lengthOf(2);
+        expect(ads[0].companions[0]).to.deep.equal({
+            adSlotId: 'sidebar',
+            clickThrough: 'https://example.com/landing',
+            clickTracking: [],
+            creativeType: 'image/png',
+            height: 250,
+            resource: 'https://example.com/banner.png',
+            resourceType: 'static',
+            trackingEvents: { creativeView: ['https://example.com/view'] },
+            width: 300,
+        });
+        expect(ads[0].companions[1].resourceType).to.equal('html');
+        expect(ads[0].companions[1].resource).to.equal('<p>Banner</p>');
+    });
+    it('reads the overlay of a non-linear Ad and renders its resource', () => {
+        const ads = vast.parseVast(`<VAST version="3.0"><Ad><InLine>
+            <AdSystem>OpenPlayer</AdSystem>
+            <Creatives><Creative><NonLinearAds>
+                <NonLinear width="480" height="70" minSuggestedDuration="00:00:05">
+                    <StaticResource creativeType="image/png"><![CDATA[https://example.com/overlay.png?a=1&b=2]]></StaticResource>
+                    <NonLinearClickThrough>https://example.com/landing</NonLinearClickThrough>
+                    <NonLinearClickTracking>https://example.com/click</NonLinearClickTracking>
+                </NonLinear>
+                <TrackingEvents><Tracking event="close">https://example.com/close</Tracking></TrackingEvents>
+            </NonLinearAds></Creative></Creatives>
+        </InLine></Ad></VAST>`) || [];
+
+        const nonLinear = ads[0].nonLinear!;
+        expect(ads[0].linear).to.equal(undefined);
+        expect(nonLinear.minSuggestedDuration).to.equal(5);
+        expect(nonLinear.clickThrough).to.equal('https://example.com/landing');
+        expect(nonLinear.clickTracking).to.deep.equal(['https://example.com/click']);
+        expect(nonLinear.trackingEvents.close).to.deep.equal(['https://example.com/close']);
+        expect(vast.renderResource(nonLinear))
+            .to.equal('<img src="https://example.com/overlay.png?a=1&amp;b=2" width="480" height="70" alt="">');
+    });
+    it('merges the tracking elements of wrappers into the Ad they resolve to', () => {
+        const wrapper = vast.parseVast(`<VAST version="3.0"><Ad><Wrapper>
+            <VASTAdTagURI>https://example.com/inline.xml</VASTAdTagURI>
+            <Impression>https://example.com/wrapper-impression</Impression>
+            <Creatives><Creative><Linear><TrackingEvents>
+                <Tracking event="start">https://example.com/wrapper-start</Tracking>
+            </TrackingEvents></Linear></Creative></Creatives>
+        </Wrapper></Ad></VAST>`) || [];
+        expect(wrapper[0].wrapper).to.equal('https://example.com/inline.xml');
+
+        const ad = vast.mergeWrapper((vast.parseVast(inline) || [])[0], wrapper[0]);
+        expect(ad.impressions).to.deep.equal(['https://example.com/wrapper-impression', 'https://example.com/impression']);
+        expect(ad.linear!.trackingEvents.start).to.deep.equal(['https://example.com/wrapper-start', 'https://example.com/start']);
+    });
+    it('selects the playable media file that best fits the bitrate or width of the player', () => {
+        const files = (vast.parseVast(inline) || [])[0].linear!.mediaFiles;
+        const element: any = { canPlayType: (type: string) => type === 'video/mp4' ? 'maybe' : '', offsetWidth: 1200 };
+        expect(vast.selectMediaFile(files, element)!.src).to.equal('https://example.com/high.mp4');
+        expect(vast.selectMediaFile(files, element, 1000)!.src).to.equal('https://example.com/low.mp4');
+        expect(vast.selectMediaFile(files, { ...element, canPlayType: () => '' })).to.equal(undefined);
+    });
+    it('converts a VMAP document into a list of linear Ad breaks', () => {
+        const breaks = vast.parseVmap(`<vmap:VMAP xmlns:vmap="http://www.iab.net/videosuite/vmap" version="1.0">
+            <vmap:AdBreak timeOffset="start" breakType="linear" breakId="preroll">
+                <vmap:AdSource id="preroll-ad"><vmap:AdTagURI templateType="vast3"><![CDATA[https://example.com/preroll.xml]]></vmap:AdTagURI></vmap:AdSource>
+            </vmap:AdBreak>
+            <vmap:AdBreak timeOffset="00:10:00.000" breakType="linear">
+                <vmap:AdSource><vmap:VASTAdData>${inline.replace(/^<\?xml[^>]*>/, '')}</vmap:VASTAdData></vmap:AdSource>
+            </vmap:AdBreak>
+            <vmap:AdBreak timeOffset="50%" breakType="display">
+                <vmap:AdSource><vmap:AdTagURI><![CDATA[https://example.com/display.xml]]></vmap:AdTagURI></vmap:AdSource>
+            </vmap:AdBreak>
+        </vmap:VMAP>`) || [];
+
+        expect(breaks).to.have.lengthOf(2);
+        expect(breaks[0]).to.deep.equal({ id: 'preroll', src: 'https://example.com/preroll.xml', timeOffset: 'start' });
+        expect(breaks[1].timeOffset).to.equal('00:10:00.000');
+        expect((vast.parseVast(breaks[1].src as string) || [])[0].id).to.equal('ad-1');
+        expect(vast.parseVmap(inline)).to.equal(null);
+    });
+});